@@ -0,0 +1,52 @@
+import { CloudFormationClient, DescribeStacksCommand } from '@aws-sdk/client-cloudformation';
+import { IBaseLogger } from '@microlambda/types';
+import { maxAttempts } from '../max-attempts';
+import { serviceName } from './service-name';
+
+export interface IStackDescription {
+  stackName: string;
+  status: string;
+  creationTime?: Date;
+  lastUpdatedTime?: Date;
+  /**
+   * Drift status as of the last drift detection, NOT_CHECKED if drift has never been detected
+   */
+  driftStatus?: string;
+  lastDriftCheckTime?: Date;
+}
+
+/**
+ * Describe a stack by its name, returns undefined if the stack does not exist or has been deleted.
+ */
+export const describeStack = async (
+  region: string,
+  stackName: string,
+  logger?: IBaseLogger,
+): Promise<IStackDescription | undefined> => {
+  const client = new CloudFormationClient({
+    region,
+    maxAttempts: maxAttempts(),
+  });
+  logger?.debug(serviceName, 'DescribeStacksCommand', { StackName: stackName });
+  try {
+    const result = await client.send(new DescribeStacksCommand({ StackName: stackName }));
+    const stack = result.Stacks?.[0];
+    if (!stack || stack.StackStatus === 'DELETE_COMPLETE') {
+      return undefined;
+    }
+    return {
+      stackName,
+      status: stack.StackStatus ?? 'UNKNOWN',
+      creationTime: stack.CreationTime,
+      lastUpdatedTime: stack.LastUpdatedTime,
+      driftStatus: stack.DriftInformation?.StackDriftStatus,
+      lastDriftCheckTime: stack.DriftInformation?.LastCheckTimestamp,
+    };
+  } catch (e) {
+    if ((e as Error).message?.includes('does not exist')) {
+      logger?.debug(serviceName, 'Stack does not exist', stackName);
+      return undefined;
+    }
+    throw e;
+  }
+};
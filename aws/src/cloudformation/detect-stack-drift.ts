@@ -0,0 +1,51 @@
+import {
+  CloudFormationClient,
+  DescribeStackDriftDetectionStatusCommand,
+  DetectStackDriftCommand,
+} from '@aws-sdk/client-cloudformation';
+import { IBaseLogger } from '@microlambda/types';
+import { maxAttempts } from '../max-attempts';
+import { serviceName } from './service-name';
+
+const DEFAULT_POLLING_INTERVAL = 2 * 1000; // 2sec
+const DEFAULT_TIMEOUT = 5 * 60 * 1000; // 5min
+
+const sleep = (ms: number): Promise<void> => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Run a drift detection on the stack and wait for it to complete.
+ * @returns the stack drift status: IN_SYNC, DRIFTED, NOT_CHECKED or UNKNOWN
+ */
+export const detectStackDrift = async (
+  params: {
+    region: string;
+    stackName: string;
+    pollingInterval?: number;
+    timeout?: number;
+  },
+  logger?: IBaseLogger,
+): Promise<string> => {
+  const { region, stackName } = params;
+  const timeout = params.timeout ?? DEFAULT_TIMEOUT;
+  const client = new CloudFormationClient({
+    region,
+    maxAttempts: maxAttempts(),
+  });
+  logger?.debug(serviceName, 'DetectStackDriftCommand', { StackName: stackName });
+  const { StackDriftDetectionId } = await client.send(new DetectStackDriftCommand({ StackName: stackName }));
+  const startedAt = Date.now();
+  for (;;) {
+    const detection = await client.send(new DescribeStackDriftDetectionStatusCommand({ StackDriftDetectionId }));
+    logger?.debug(serviceName, 'Drift detection status', stackName, detection.DetectionStatus);
+    if (detection.DetectionStatus === 'DETECTION_COMPLETE') {
+      return detection.StackDriftStatus ?? 'UNKNOWN';
+    }
+    if (detection.DetectionStatus === 'DETECTION_FAILED') {
+      throw new Error(`Drift detection failed for stack ${stackName}: ${detection.DetectionStatusReason}`);
+    }
+    if (Date.now() - startedAt > timeout) {
+      throw new Error(`Drift detection of stack ${stackName} did not complete after timeout ${timeout}`);
+    }
+    await sleep(params.pollingInterval ?? DEFAULT_POLLING_INTERVAL);
+  }
+};
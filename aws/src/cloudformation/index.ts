@@ -1,5 +1,17 @@
 import { getApiId } from './get-api-id';
 import { deployStack } from './deploy-stack';
 import { removeStack } from './remove-stack';
+import { stackExists } from './stack-exists';
+import { describeStack } from './describe-stack';
+import { detectStackDrift } from './detect-stack-drift';
+import { listStackFunctions } from './list-stack-functions';
 
-export const cloudformation = { getApiId, deployStack, removeStack };
+export const cloudformation = {
+  getApiId,
+  deployStack,
+  removeStack,
+  stackExists,
+  describeStack,
+  detectStackDrift,
+  listStackFunctions,
+};
@@ -0,0 +1,29 @@
+import { CloudFormationClient, ListStackResourcesCommand, StackResourceSummary } from '@aws-sdk/client-cloudformation';
+import { IBaseLogger } from '@microlambda/types';
+import { maxAttempts } from '../max-attempts';
+import { serviceName } from './service-name';
+
+/**
+ * List the names of the lambda functions created by a stack
+ */
+export const listStackFunctions = async (
+  region: string,
+  stackName: string,
+  logger?: IBaseLogger,
+): Promise<Array<string>> => {
+  const client = new CloudFormationClient({
+    region,
+    maxAttempts: maxAttempts(),
+  });
+  const resources: Array<StackResourceSummary> = [];
+  let nextToken: string | undefined;
+  do {
+    logger?.debug(serviceName, 'ListStackResourcesCommand', { StackName: stackName, NextToken: nextToken });
+    const result = await client.send(new ListStackResourcesCommand({ StackName: stackName, NextToken: nextToken }));
+    resources.push(...(result.StackResourceSummaries ?? []));
+    nextToken = result.NextToken;
+  } while (nextToken);
+  return resources
+    .filter((r) => r.ResourceType === 'AWS::Lambda::Function' && r.PhysicalResourceId)
+    .map((r) => r.PhysicalResourceId as string);
+};
@@ -0,0 +1,32 @@
+import { CloudWatchClient, DescribeAlarmsCommand } from '@aws-sdk/client-cloudwatch';
+import { IBaseLogger } from '@microlambda/types';
+import { maxAttempts } from '../max-attempts';
+import { serviceName } from './service-name';
+
+/**
+ * Among the given alarms, return the names of the ones currently in ALARM state
+ */
+export const getAlarmsInAlarm = async (
+  region: string,
+  alarmNames: Array<string>,
+  logger?: IBaseLogger,
+): Promise<Array<string>> => {
+  if (!alarmNames.length) {
+    return [];
+  }
+  const client = new CloudWatchClient({ region, maxAttempts: maxAttempts() });
+  const inAlarm: Array<string> = [];
+  // DescribeAlarms accepts at most 100 alarm names
+  for (let i = 0; i < alarmNames.length; i += 100) {
+    let nextToken: string | undefined;
+    do {
+      const input = { AlarmNames: alarmNames.slice(i, i + 100), StateValue: 'ALARM' as const, NextToken: nextToken };
+      logger?.debug(serviceName, 'DescribeAlarmsCommand', input);
+      const result = await client.send(new DescribeAlarmsCommand(input));
+      const alarms = [...(result.MetricAlarms ?? []), ...(result.CompositeAlarms ?? [])];
+      inAlarm.push(...alarms.map((alarm) => alarm.AlarmName).filter((name): name is string => !!name));
+      nextToken = result.NextToken;
+    } while (nextToken);
+  }
+  return inAlarm;
+};
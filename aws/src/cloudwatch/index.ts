@@ -0,0 +1,3 @@
+import { getAlarmsInAlarm } from './get-alarms-in-alarm';
+
+export const cloudwatch = { getAlarmsInAlarm };
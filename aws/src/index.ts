@@ -1,6 +1,7 @@
 import { apiGateway } from './api-gateway';
 import { certificateManager } from './certificate-manager';
 import { cloudformation } from './cloudformation';
+import { cloudwatch } from './cloudwatch';
 import { iam } from './iam';
 import { lambda } from './lambda';
 import { route53 } from './route53';
@@ -13,6 +14,7 @@ export const aws = {
   apiGateway,
   certificateManager,
   cloudformation,
+  cloudwatch,
   dynamodb,
   iam,
   lambda,
@@ -21,3 +23,7 @@ export const aws = {
   secretsManager,
   ssm,
 };
+
+export * from './s3/client-options';
+export type { IStackDescription } from './cloudformation/describe-stack';
+export type { ILambdaAlias } from './lambda/get-alias';
@@ -0,0 +1,40 @@
+import { GetAliasCommand, LambdaClient } from '@aws-sdk/client-lambda';
+import { IBaseLogger } from '@microlambda/types';
+import { maxAttempts } from '../max-attempts';
+import { serviceName } from './service-name';
+
+export interface ILambdaAlias {
+  name: string;
+  functionVersion: string;
+  /**
+   * Weights of the additional versions the alias routes traffic to, between 0 and 1
+   */
+  weights: Record<string, number>;
+}
+
+/**
+ * Get the version and routing configuration of a lambda alias, returns undefined if the alias does not exist
+ */
+export const getAlias = async (
+  region: string,
+  functionName: string,
+  alias: string,
+  logger?: IBaseLogger,
+): Promise<ILambdaAlias | undefined> => {
+  const client = new LambdaClient({ region, maxAttempts: maxAttempts() });
+  logger?.debug(serviceName, 'GetAliasCommand', { FunctionName: functionName, Name: alias });
+  try {
+    const result = await client.send(new GetAliasCommand({ FunctionName: functionName, Name: alias }));
+    return {
+      name: alias,
+      functionVersion: result.FunctionVersion ?? '$LATEST',
+      weights: result.RoutingConfig?.AdditionalVersionWeights ?? {},
+    };
+  } catch (e) {
+    if ((e as Error).name === 'ResourceNotFoundException') {
+      logger?.debug(serviceName, 'Alias does not exist', functionName, alias);
+      return undefined;
+    }
+    throw e;
+  }
+};
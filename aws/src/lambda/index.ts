@@ -1,7 +1,14 @@
 import { pruneLayers } from './prune-layers';
 import { publishLayer } from './publish-layer';
+import { getAlias } from './get-alias';
+import { publishVersion } from './publish-version';
+import { createAlias, updateAlias } from './update-alias';
 
 export const lambda = {
   pruneLayers,
   publishLayer,
+  getAlias,
+  publishVersion,
+  createAlias,
+  updateAlias,
 };
@@ -0,0 +1,18 @@
+import { LambdaClient, PublishVersionCommand } from '@aws-sdk/client-lambda';
+import { IBaseLogger } from '@microlambda/types';
+import { maxAttempts } from '../max-attempts';
+import { serviceName } from './service-name';
+
+/**
+ * Publish a version from the current code and configuration of the function.
+ * If they did not change since the last published version, this version is returned instead.
+ */
+export const publishVersion = async (region: string, functionName: string, logger?: IBaseLogger): Promise<string> => {
+  const client = new LambdaClient({ region, maxAttempts: maxAttempts() });
+  logger?.debug(serviceName, 'PublishVersionCommand', { FunctionName: functionName });
+  const result = await client.send(new PublishVersionCommand({ FunctionName: functionName }));
+  if (!result.Version) {
+    throw new Error(`No version published for function ${functionName}`);
+  }
+  return result.Version;
+};
@@ -0,0 +1,3 @@
+import chalk from 'chalk';
+
+export const serviceName = chalk.bgBlue('lambda');
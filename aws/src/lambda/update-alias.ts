@@ -0,0 +1,41 @@
+import { CreateAliasCommand, LambdaClient, UpdateAliasCommand } from '@aws-sdk/client-lambda';
+import { IBaseLogger } from '@microlambda/types';
+import { maxAttempts } from '../max-attempts';
+import { serviceName } from './service-name';
+
+export interface IAliasUpdate {
+  region: string;
+  functionName: string;
+  alias: string;
+  /**
+   * Version the alias points to
+   */
+  version: string;
+  /**
+   * Weights of the additional versions the alias routes traffic to, between 0 and 1.
+   * Routing configuration is removed if omitted, so that all traffic goes to version.
+   */
+  weights?: Record<string, number>;
+}
+
+/**
+ * Point a lambda alias to a version, and optionally route a part of the traffic to other versions
+ */
+export const updateAlias = async (params: IAliasUpdate, logger?: IBaseLogger): Promise<void> => {
+  const client = new LambdaClient({ region: params.region, maxAttempts: maxAttempts() });
+  const input = {
+    FunctionName: params.functionName,
+    Name: params.alias,
+    FunctionVersion: params.version,
+    RoutingConfig: { AdditionalVersionWeights: params.weights ?? {} },
+  };
+  logger?.debug(serviceName, 'UpdateAliasCommand', input);
+  await client.send(new UpdateAliasCommand(input));
+};
+
+export const createAlias = async (params: Omit<IAliasUpdate, 'weights'>, logger?: IBaseLogger): Promise<void> => {
+  const client = new LambdaClient({ region: params.region, maxAttempts: maxAttempts() });
+  const input = { FunctionName: params.functionName, Name: params.alias, FunctionVersion: params.version };
+  logger?.debug(serviceName, 'CreateAliasCommand', input);
+  await client.send(new CreateAliasCommand(input));
+};
@@ -0,0 +1,8 @@
+/**
+ * Extra options used to build the S3 client. Mostly useful to target S3-compatible
+ * storages (e.g. MinIO) instead of Amazon S3.
+ */
+export interface IS3ClientOptions {
+  endpoint?: string;
+  forcePathStyle?: boolean;
+}
@@ -1,8 +1,14 @@
 import { DeleteObjectCommand, S3Client } from '@aws-sdk/client-s3';
 import { maxAttempts } from '../max-attempts';
+import { IS3ClientOptions } from './client-options';
 
-export const deleteObject = async (bucket: string, key: string, region: string): Promise<void> => {
-  const client = new S3Client({ region, maxAttempts: maxAttempts() });
+export const deleteObject = async (
+  bucket: string,
+  key: string,
+  region: string,
+  clientOptions?: IS3ClientOptions,
+): Promise<void> => {
+  const client = new S3Client({ region, maxAttempts: maxAttempts(), ...clientOptions });
   await client.send(
     new DeleteObjectCommand({
       Bucket: bucket,
@@ -1,9 +1,15 @@
 import { GetObjectCommand, S3Client } from '@aws-sdk/client-s3';
 import { maxAttempts } from '../max-attempts';
 import { Readable } from 'stream';
+import { IS3ClientOptions } from './client-options';
 
-export const downloadBuffer = async (bucket: string, key: string, region: string): Promise<Buffer | null> => {
-  const client = new S3Client({ region, maxAttempts: maxAttempts() });
+export const downloadBuffer = async (
+  bucket: string,
+  key: string,
+  region: string,
+  clientOptions?: IS3ClientOptions,
+): Promise<Buffer | null> => {
+  const client = new S3Client({ region, maxAttempts: maxAttempts(), ...clientOptions });
   const chunks: Uint8Array[] = [];
   const handleDownloadStream = (stream: Readable): Promise<void> =>
     new Promise((resolve, reject) => {
@@ -24,8 +30,13 @@ export const downloadBuffer = async (bucket: string, key: string, region: string
   return Buffer.concat(chunks);
 };
 
-export const downloadStream = async (bucket: string, key: string, region: string): Promise<Readable> => {
-  const client = new S3Client({ region, maxAttempts: maxAttempts() });
+export const downloadStream = async (
+  bucket: string,
+  key: string,
+  region: string,
+  clientOptions?: IS3ClientOptions,
+): Promise<Readable> => {
+  const client = new S3Client({ region, maxAttempts: maxAttempts(), ...clientOptions });
   const { Body } = await client.send(
     new GetObjectCommand({
       Bucket: bucket,
@@ -6,6 +6,7 @@ import { deleteObject } from './delete-object';
 import { uploadStream } from './upload-stream';
 import { objectExists } from './key-exists';
 import { emptyBucket } from './empty-bucket';
+import { listObjects } from './list-objects';
 
 export const s3 = {
   bucketExists,
@@ -17,4 +18,5 @@ export const s3 = {
   putObject,
   emptyBucket,
   deleteObject,
+  listObjects,
 };
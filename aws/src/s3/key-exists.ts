@@ -1,7 +1,13 @@
 import { HeadObjectCommand, S3Client } from '@aws-sdk/client-s3';
+import { IS3ClientOptions } from './client-options';
 
-export const objectExists = async (region: string, bucketName: string, key: string): Promise<boolean> => {
-  const client = new S3Client({ region });
+export const objectExists = async (
+  region: string,
+  bucketName: string,
+  key: string,
+  clientOptions?: IS3ClientOptions,
+): Promise<boolean> => {
+  const client = new S3Client({ region, ...clientOptions });
   try {
     await client.send(new HeadObjectCommand({ Bucket: bucketName, Key: key }));
     return true;
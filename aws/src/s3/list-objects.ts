@@ -0,0 +1,41 @@
+import { ListObjectsV2Command, S3Client } from '@aws-sdk/client-s3';
+import { ListObjectsV2CommandOutput } from '@aws-sdk/client-s3/dist-types/commands/ListObjectsV2Command';
+import { maxAttempts } from '../max-attempts';
+import { IS3ClientOptions } from './client-options';
+
+export interface IS3ObjectSummary {
+  key: string;
+  size: number;
+  lastModified: Date;
+}
+
+export const listObjects = async (
+  bucket: string,
+  prefix: string,
+  region: string,
+  clientOptions?: IS3ClientOptions,
+): Promise<Array<IS3ObjectSummary>> => {
+  const client = new S3Client({ region, maxAttempts: maxAttempts(), ...clientOptions });
+  const objects: Array<IS3ObjectSummary> = [];
+  let nextToken: string | undefined = undefined;
+  do {
+    const page: ListObjectsV2CommandOutput = await client.send(
+      new ListObjectsV2Command({
+        Bucket: bucket,
+        Prefix: prefix,
+        ContinuationToken: nextToken,
+      }),
+    );
+    nextToken = page.NextContinuationToken;
+    for (const object of page.Contents ?? []) {
+      if (object.Key) {
+        objects.push({
+          key: object.Key,
+          size: object.Size ?? 0,
+          lastModified: object.LastModified ?? new Date(0),
+        });
+      }
+    }
+  } while (nextToken);
+  return objects;
+};
@@ -1,8 +1,15 @@
 import { PutObjectCommand, S3Client } from '@aws-sdk/client-s3';
 import { maxAttempts } from '../max-attempts';
+import { IS3ClientOptions } from './client-options';
 
-export const putObject = async (bucket: string, key: string, data: string | Buffer, region: string): Promise<void> => {
-  const client = new S3Client({ region, maxAttempts: maxAttempts() });
+export const putObject = async (
+  bucket: string,
+  key: string,
+  data: string | Buffer,
+  region: string,
+  clientOptions?: IS3ClientOptions,
+): Promise<void> => {
+  const client = new S3Client({ region, maxAttempts: maxAttempts(), ...clientOptions });
   await client.send(
     new PutObjectCommand({
       Bucket: bucket,
@@ -4,19 +4,21 @@ import { maxAttempts } from '../max-attempts';
 import { PassThrough } from 'stream';
 import { IBaseLogger } from '@microlambda/types';
 import { Writable } from 'stream';
+import { IS3ClientOptions } from './client-options';
 
 export const uploadStream = async (
   Bucket: string,
   Key: string,
   region: string,
   logger?: IBaseLogger,
+  clientOptions?: IS3ClientOptions,
 ): Promise<{
   writeStream: Writable;
   done: Promise<AbortMultipartUploadCommandOutput | CompleteMultipartUploadCommandOutput>;
 }> => {
   const pass = new PassThrough();
   const upload = new Upload({
-    client: new S3Client({ region, maxAttempts: maxAttempts() }),
+    client: new S3Client({ region, maxAttempts: maxAttempts(), ...clientOptions }),
     params: { Bucket, Key, Body: pass },
   });
   upload.on('httpUploadProgress', (data) => logger?.debug(data));
@@ -0,0 +1,49 @@
+import { stub } from 'sinon';
+import { CloudFormationClient } from '@aws-sdk/client-cloudformation';
+import { describeStack } from '../../src/cloudformation/describe-stack';
+
+describe('[function] describeStack', () => {
+  const describeStacks = stub(CloudFormationClient.prototype, 'send');
+  afterEach(() => {
+    describeStacks.reset();
+  });
+  afterAll(() => {
+    describeStacks.restore();
+  });
+  it('should return stack status, update time and drift information', async () => {
+    const creationTime = new Date('2022-01-01T00:00:00.000Z');
+    const lastUpdatedTime = new Date('2022-02-01T00:00:00.000Z');
+    describeStacks.resolves({
+      Stacks: [
+        {
+          StackName: '$stack',
+          StackStatus: 'UPDATE_COMPLETE',
+          CreationTime: creationTime,
+          LastUpdatedTime: lastUpdatedTime,
+          DriftInformation: { StackDriftStatus: 'IN_SYNC' },
+        },
+      ],
+    });
+    expect(await describeStack('eu-west-1', '$stack')).toEqual({
+      stackName: '$stack',
+      status: 'UPDATE_COMPLETE',
+      creationTime,
+      lastUpdatedTime,
+      driftStatus: 'IN_SYNC',
+      lastDriftCheckTime: undefined,
+    });
+    expect(describeStacks.getCall(0).args[0].input).toEqual({ StackName: '$stack' });
+  });
+  it('should return undefined if stack does not exist', async () => {
+    describeStacks.rejects(new Error('Stack with id $stack does not exist'));
+    expect(await describeStack('eu-west-1', '$stack')).toBeUndefined();
+  });
+  it('should return undefined if stack has been deleted', async () => {
+    describeStacks.resolves({ Stacks: [{ StackName: '$stack', StackStatus: 'DELETE_COMPLETE' }] });
+    expect(await describeStack('eu-west-1', '$stack')).toBeUndefined();
+  });
+  it('should throw if something wrong happen', async () => {
+    describeStacks.rejects(new Error('BOOM'));
+    await expect(describeStack('eu-west-1', '$stack')).rejects.toEqual(new Error('BOOM'));
+  });
+});
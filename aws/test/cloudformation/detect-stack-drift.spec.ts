@@ -0,0 +1,36 @@
+import { stub } from 'sinon';
+import { CloudFormationClient } from '@aws-sdk/client-cloudformation';
+import { detectStackDrift } from '../../src/cloudformation/detect-stack-drift';
+
+describe('[function] detectStackDrift', () => {
+  const send = stub(CloudFormationClient.prototype, 'send');
+  afterEach(() => {
+    send.reset();
+  });
+  afterAll(() => {
+    send.restore();
+  });
+  it('should start drift detection and wait for it to complete', async () => {
+    send.onCall(0).resolves({ StackDriftDetectionId: '$detection' });
+    send.onCall(1).resolves({ DetectionStatus: 'DETECTION_IN_PROGRESS' });
+    send.onCall(2).resolves({ DetectionStatus: 'DETECTION_COMPLETE', StackDriftStatus: 'DRIFTED' });
+    expect(await detectStackDrift({ region: 'eu-west-1', stackName: '$stack', pollingInterval: 1 })).toBe('DRIFTED');
+    expect(send.callCount).toBe(3);
+    expect(send.getCall(0).args[0].input).toEqual({ StackName: '$stack' });
+    expect(send.getCall(1).args[0].input).toEqual({ StackDriftDetectionId: '$detection' });
+  });
+  it('should throw if drift detection failed', async () => {
+    send.onCall(0).resolves({ StackDriftDetectionId: '$detection' });
+    send.onCall(1).resolves({ DetectionStatus: 'DETECTION_FAILED', DetectionStatusReason: 'Access denied' });
+    await expect(detectStackDrift({ region: 'eu-west-1', stackName: '$stack', pollingInterval: 1 })).rejects.toThrow(
+      'Drift detection failed for stack $stack: Access denied',
+    );
+  });
+  it('should throw if drift detection does not complete before timeout', async () => {
+    send.onCall(0).resolves({ StackDriftDetectionId: '$detection' });
+    send.resolves({ DetectionStatus: 'DETECTION_IN_PROGRESS' });
+    await expect(
+      detectStackDrift({ region: 'eu-west-1', stackName: '$stack', pollingInterval: 1, timeout: 5 }),
+    ).rejects.toThrow('did not complete');
+  });
+});
@@ -0,0 +1,32 @@
+import { stub } from 'sinon';
+import { LambdaClient } from '@aws-sdk/client-lambda';
+import { getAlias } from '../../src/lambda/get-alias';
+
+describe('[function] getAlias', () => {
+  const send = stub(LambdaClient.prototype, 'send');
+  afterEach(() => {
+    send.reset();
+  });
+  afterAll(() => {
+    send.restore();
+  });
+  it('should return alias version and routing configuration', async () => {
+    send.resolves({ Name: 'live', FunctionVersion: '3', RoutingConfig: { AdditionalVersionWeights: { '4': 0.1 } } });
+    expect(await getAlias('eu-west-1', '$function', 'live')).toEqual({
+      name: 'live',
+      functionVersion: '3',
+      weights: { '4': 0.1 },
+    });
+    expect(send.getCall(0).args[0].input).toEqual({ FunctionName: '$function', Name: 'live' });
+  });
+  it('should return undefined if alias does not exist', async () => {
+    const error = new Error('Alias not found');
+    error.name = 'ResourceNotFoundException';
+    send.rejects(error);
+    expect(await getAlias('eu-west-1', '$function', 'live')).toBeUndefined();
+  });
+  it('should throw if something wrong happen', async () => {
+    send.rejects(new Error('BOOM'));
+    await expect(getAlias('eu-west-1', '$function', 'live')).rejects.toEqual(new Error('BOOM'));
+  });
+});
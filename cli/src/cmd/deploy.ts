@@ -10,31 +10,89 @@ import { printAccountInfos } from './envs/list';
 import { checkIfEnvIsLock, releaseLockOnProcessExit } from '../utils/check-env-lock';
 import { EnvsResolver } from '../utils/deploy/envs';
 import { performDeploy } from '../utils/deploy/do-deploy';
+import { checkEnvProtection } from '../utils/check-env-protection';
+import {
+  buildDeployPlan,
+  diffDeployPlans,
+  readDeployPlan,
+  toOperations,
+  withPlanOptions,
+  writeDeployPlan,
+} from '../utils/deploy/plan';
 
-export const deploy = async (cmd: IDeployCmd): Promise<void> => {
+export const deploy = async (options: IDeployCmd): Promise<void> => {
   logger.lf();
   logger.info('🚀 Preparing to deploy environment');
   logger.lf();
 
+  if (options.plan && options.planOut) {
+    logger.error('--plan and --plan-out options cannot be used together');
+    process.exit(1);
+  }
+  const plan = options.plan ? await readDeployPlan(options.plan) : undefined;
+  if (plan && plan.env !== options.e) {
+    logger.error(`Deploy plan ${options.plan} targets environment ${plan.env}, not ${options.e}`);
+    process.exit(1);
+  }
+  const cmd = plan ? withPlanOptions(options, plan) : options;
+
   const projectRoot = resolveProjectRoot();
   const eventsLog = new EventsLog(undefined, [new EventLogsFileHandler(projectRoot, `mila-deploy-${Date.now()}`)]);
 
   await printAccountInfos();
 
   const { env, project, state, config } = await beforeDeploy(cmd, eventsLog);
+  checkEnvProtection(env, 'deploy', cmd);
 
   const currentRevision = currentSha1();
 
+  if (cmd.planOut) {
+    const envs = new EnvsResolver(project, env.name, eventsLog.scope('deploy/env'));
+    const operations = await resolveDeltas(env, project, cmd, state, config, eventsLog, envs);
+    const log = eventsLog.scope('deploy/plan');
+    await writeDeployPlan(
+      cmd.planOut,
+      await buildDeployPlan({ env, project, cmd, operations, state, envs, sha1: currentRevision, log }),
+    );
+    logger.success(`Deploy plan written in ${cmd.planOut}`);
+    logger.info(`Run ${chalk.bold.cyan(`yarn mila deploy -e ${env.name} --plan ${cmd.planOut}`)} to apply it`);
+    process.exit(0);
+  }
+
   const releaseLock = await checkIfEnvIsLock(cmd, env, project, config);
   releaseLockOnProcessExit(releaseLock);
 
   try {
     const envs = new EnvsResolver(project, env.name, eventsLog.scope('deploy/env'));
-    const operations = await resolveDeltas(env, project, cmd, state, config, eventsLog, envs);
+    const resolvedOperations = await resolveDeltas(env, project, cmd, state, config, eventsLog, envs);
+    if (plan) {
+      const log = eventsLog.scope('deploy/plan');
+      const current = await buildDeployPlan({
+        env,
+        project,
+        cmd,
+        operations: resolvedOperations,
+        state,
+        envs,
+        sha1: currentRevision,
+        log,
+      });
+      const differences = diffDeployPlans(plan, current);
+      if (differences.length) {
+        logger.error(`Deploy plan ${cmd.plan} is outdated, sources or state changed since it has been written:`);
+        differences.forEach((difference) => logger.error(`- ${difference}`));
+        logger.lf();
+        logger.info(`Run ${chalk.bold.cyan(`yarn mila deploy -e ${env.name} --plan-out <path>`)} to make a new plan`);
+        await releaseLock();
+        process.exit(1);
+      }
+      logger.success(`Deploy plan ${cmd.plan} is up to date`);
+      logger.lf();
+    }
     await performDeploy({
       cmd,
       releaseLock,
-      operations,
+      operations: plan ? toOperations(plan) : resolvedOperations,
       env,
       project,
       projectRoot,
@@ -7,6 +7,7 @@ import { checkIfEnvIsLock, releaseLockOnProcessExit } from '../../utils/check-en
 import { IReplicateCmd } from '../../utils/replicate/cmd';
 import { beforeReplicate } from '../../utils/replicate/before-replicate';
 import { replicateSsmParameters } from '../../utils/replicate/ssm';
+import { checkEnvProtection } from '../../utils/check-env-protection';
 
 export const createReplicate = async (env: string, region: string, cmd: IReplicateCmd): Promise<void> => {
   logger.lf();
@@ -19,6 +20,7 @@ export const createReplicate = async (env: string, region: string, cmd: IReplica
     logger.warn('Environment is already replicated in region', region);
     process.exit(2);
   }
+  checkEnvProtection(environment, 'deploy', cmd);
   const currentRevision = currentSha1();
 
   const envs = new EnvsResolver(project, env, eventsLog.scope('replicate/env'));
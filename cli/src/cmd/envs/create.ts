@@ -8,8 +8,14 @@ import { existsSync, promises as fs } from 'fs';
 import { resolveProjectRoot } from '@microlambda/utils';
 import { join } from 'path';
 import { init } from '../../utils/init';
+import { IEnvMetadataCmd, parseList, parseTags } from '../../utils/env-metadata';
+import { resolveDeployer } from '../../utils/deploy/deployments';
 
-export const createEnv = async (name: string): Promise<void> => {
+export interface ICreateEnvCmd extends IEnvMetadataCmd {
+  protected: boolean;
+}
+
+export const createEnv = async (name: string, cmd: ICreateEnvCmd): Promise<void> => {
   logger.lf();
   logger.info('✨ Creating environment');
   logger.lf();
@@ -40,7 +46,14 @@ export const createEnv = async (name: string): Promise<void> => {
       },
     },
   ]);
-  await state.createEnvironment(name, answers.regions.split(','));
+  await state.createEnvironment(name, answers.regions.split(','), {
+    description: cmd.description,
+    owner: cmd.owner,
+    tags: cmd.tags ? parseTags(cmd.tags) : undefined,
+    created_by: await resolveDeployer(config),
+    protected: cmd.protected || undefined,
+    allowed_branches: cmd.allowedBranches ? parseList(cmd.allowedBranches) : undefined,
+  });
   logger.lf();
   logger.success('Environment successfully initialized.');
   const dotenv = [join(projectRoot, 'envs', `.env.${name}`)];
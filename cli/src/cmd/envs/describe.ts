@@ -2,6 +2,8 @@ import { logger } from '../../utils/logger';
 import { State } from '@microlambda/remote-state';
 import { printAccountInfos } from './list';
 import { verifyState } from '../../utils/verify-state';
+import { printEnvMetadata } from '../../utils/env-metadata';
+import { output, withoutStateKeys } from '../../utils/output';
 
 export const describeEnv = async (name: string): Promise<void> => {
   logger.lf();
@@ -15,7 +17,11 @@ export const describeEnv = async (name: string): Promise<void> => {
     logger.error(`Environment not found: ${name}`);
     process.exit(1);
   }
+  printEnvMetadata(env);
+  logger.lf();
   const services = await state.listServices(name);
+  output('environment', withoutStateKeys(env));
+  output('services', services.map(withoutStateKeys));
   if (!services.length) {
     logger.warn('No service deployed on', name);
     logger.warn('Run yarn mila deploy -e dev to perform a first deployment');
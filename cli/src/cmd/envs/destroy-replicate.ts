@@ -7,6 +7,7 @@ import { performDeploy } from '../../utils/deploy/do-deploy';
 import { beforeReplicate } from '../../utils/replicate/before-replicate';
 import { destroyRegionalSsmReplicate } from '../../utils/replicate/ssm';
 import { IReplicateCmd } from '../../utils/replicate/cmd';
+import { checkEnvProtection } from '../../utils/check-env-protection';
 
 export const destroyReplicate = async (env: string, region: string, cmd: IReplicateCmd): Promise<void> => {
   logger.lf();
@@ -19,6 +20,7 @@ export const destroyReplicate = async (env: string, region: string, cmd: IReplic
     logger.error('Environment is not replicated in region', region);
     process.exit(1);
   }
+  checkEnvProtection(environment, 'remove', cmd);
 
   const currentRevision = currentSha1();
 
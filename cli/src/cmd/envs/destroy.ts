@@ -12,10 +12,11 @@ import { promptConfirm } from '../../utils/remove/prompt-confirm';
 import { removeSsmAndSecrets } from '../../utils/remove/remove-ssm';
 import { deploySharedInfra } from '../../utils/shared-infra/deploy';
 import { currentSha1 } from '@microlambda/runner-core';
+import { checkEnvProtection } from '../../utils/check-env-protection';
 
 export const destroyEnv = async (
   name: string,
-  cmd: { prompt: boolean; skipLock: boolean; onlyPrompt: boolean; destroy: boolean; c?: string; verbose: true },
+  cmd: { prompt: boolean; skipLock: boolean; onlyPrompt: boolean; destroy: boolean; c?: string; verbose: boolean },
 ): Promise<void> => {
   logger.lf();
   logger.info('🔥 Preparing to destroy environment');
@@ -35,6 +36,7 @@ export const destroyEnv = async (
     logger.error(`Environment not found: ${name}`);
     process.exit(1);
   }
+  checkEnvProtection(env, 'destroy', {});
 
   if (!cmd.destroy) {
     const services = await state.listServices(name);
@@ -0,0 +1,137 @@
+import chalk from 'chalk';
+import ora from 'ora';
+import Table from 'cli-table3';
+import { prompt } from 'inquirer';
+import { DriftDetector, DriftStatus, IDriftReportEntry } from '@microlambda/core';
+import { EventLogsFileHandler, EventsLog } from '@microlambda/logger';
+import { State } from '@microlambda/remote-state';
+import { resolveProjectRoot } from '@microlambda/utils';
+import { logger } from '../../utils/logger';
+import { printAccountInfos } from './list';
+import { verifyState } from '../../utils/verify-state';
+import { init } from '../../utils/init';
+
+export interface IDriftCmd {
+  detect: boolean;
+  reconcile: boolean;
+  prompt: boolean;
+}
+
+const printStatus = (status: DriftStatus): string => {
+  switch (status) {
+    case 'in_sync':
+      return chalk.green('in sync');
+    case 'deleted':
+      return chalk.red('deleted');
+    case 'failed':
+      return chalk.red('failed');
+    case 'updated_outside':
+      return chalk.yellow('updated outside mila');
+    case 'drifted':
+      return chalk.yellow('drifted');
+    case 'unknown':
+      return chalk.grey('unknown');
+  }
+};
+
+const printReport = (entries: Array<IDriftReportEntry>): void => {
+  const table = new Table({
+    head: ['Type', 'Name', 'Region', 'Stack', 'Stack status', 'Deployed at', 'Last updated', 'Drift', 'Reason'],
+    style: {
+      head: ['cyan'],
+    },
+  });
+  for (const entry of entries) {
+    table.push([
+      entry.type,
+      chalk.bold(entry.name),
+      entry.region,
+      entry.stackName ?? '-',
+      entry.stackStatus ?? '-',
+      entry.deployedAt ?? '-',
+      entry.lastUpdatedTime ?? '-',
+      printStatus(entry.status),
+      chalk.grey(entry.reason ?? ''),
+    ]);
+  }
+  // eslint-disable-next-line no-console
+  console.log(table.toString());
+};
+
+export const detectDrift = async (name: string, cmd: IDriftCmd): Promise<void> => {
+  logger.lf();
+  logger.info('🧭 Detecting drift of environment', name);
+  logger.lf();
+
+  const projectRoot = resolveProjectRoot();
+  const eventsLog = new EventsLog(undefined, [new EventLogsFileHandler(projectRoot, `mila-drift-${Date.now()}`)]);
+
+  const { project } = await init(projectRoot, eventsLog, false);
+  const config = await printAccountInfos();
+  await verifyState(config);
+  const state = new State(config);
+  const env = await state.findEnv(name);
+  if (!env) {
+    logger.error(`Environment not found: ${name}`);
+    process.exit(1);
+  }
+
+  const detector = new DriftDetector(project, state, eventsLog.scope('drift'));
+  const spinner = ora(cmd.detect ? 'Running CloudFormation drift detection' : 'Checking CloudFormation stacks').start();
+  let entries: Array<IDriftReportEntry>;
+  try {
+    entries = await detector.detect(name, { detectDrift: cmd.detect });
+    spinner.stop();
+  } catch (e) {
+    spinner.fail('Error checking CloudFormation stacks');
+    logger.error(e);
+    process.exit(1);
+  }
+
+  if (!entries.length) {
+    logger.info('Nothing deployed on', name);
+    process.exit(0);
+  }
+  printReport(entries);
+  logger.lf();
+
+  const notInSync = entries.filter((e) => e.status !== 'in_sync');
+  if (!notInSync.length) {
+    logger.success(`Environment ${name} is in sync with remote state 👌`);
+    process.exit(0);
+  }
+
+  const toRedeploy = notInSync.filter((e) => ['updated_outside', 'drifted', 'failed'].includes(e.status));
+  if (toRedeploy.length) {
+    logger.warn(`${toRedeploy.length} stack(s) are not in the state recorded by mila, they must be redeployed`);
+    const services = [...new Set(toRedeploy.filter((e) => e.type === 'service').map((e) => e.name))];
+    if (services.length) {
+      logger.hint(`Run yarn mila deploy -e ${name} -s ${services.join(',')} --force-deploy`);
+    }
+    logger.lf();
+  }
+
+  const deleted = notInSync.filter((e) => e.status === 'deleted');
+  if (!deleted.length) {
+    process.exit(1);
+  }
+  logger.warn(`${deleted.length} stack(s) have been deleted outside mila`);
+  if (!cmd.reconcile && cmd.prompt) {
+    const answers = await prompt([
+      {
+        type: 'confirm',
+        name: 'ok',
+        message: `Do you want to remove them from ${chalk.magenta.bold(name)} state`,
+      },
+    ]);
+    if (!answers.ok) {
+      process.exit(1);
+    }
+  } else if (!cmd.reconcile) {
+    logger.hint(`Run yarn mila envs drift ${name} --reconcile to remove them from state`);
+    process.exit(1);
+  }
+  const reconciled = await detector.reconcile(deleted);
+  logger.success(`${reconciled.length} stack(s) removed from state`);
+  process.exit(toRedeploy.length ? 1 : 0);
+};
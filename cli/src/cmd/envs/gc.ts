@@ -0,0 +1,94 @@
+import chalk from 'chalk';
+import Table from 'cli-table3';
+import { spawnSync } from 'child_process';
+import { prompt } from 'inquirer';
+import { State } from '@microlambda/remote-state';
+import { logger } from '../../utils/logger';
+import { printAccountInfos } from './list';
+import { verifyState } from '../../utils/verify-state';
+import { isPreviewExpired } from '../../utils/preview/preview-env';
+
+export interface IGcCmd {
+  prompt: boolean;
+  onlyPrompt: boolean;
+  verbose: boolean;
+  c?: string;
+}
+
+/**
+ * Destroy preview environments whose expiry date is passed.
+ * Each environment is destroyed in its own process using "mila envs destroy", so that the failure of one
+ * does not prevent the others from being destroyed.
+ */
+export const gcPreviews = async (cmd: IGcCmd): Promise<void> => {
+  logger.lf();
+  logger.info('🧹 Collecting expired preview environments');
+  logger.lf();
+  const config = await printAccountInfos();
+  await verifyState(config);
+  const state = new State(config);
+  const expired = (await state.listEnvironments()).filter((env) => isPreviewExpired(env));
+  if (!expired.length) {
+    logger.success('No expired preview environment 👌');
+    process.exit(0);
+  }
+
+  const table = new Table({
+    head: ['Environment', 'Branch', 'Owner', 'Created at', 'Expired at'],
+    style: {
+      head: ['cyan'],
+    },
+  });
+  for (const env of expired) {
+    table.push([
+      chalk.bold(env.name),
+      env.preview?.branch ?? '-',
+      env.preview?.owner ?? '-',
+      env.preview?.created_at ?? '-',
+      env.preview?.expires_at ?? '-',
+    ]);
+  }
+  // eslint-disable-next-line no-console
+  console.log(table.toString());
+  logger.lf();
+
+  if (cmd.onlyPrompt) {
+    logger.info('Not destroying environments as --only-prompt option has been given');
+    process.exit(0);
+  }
+  if (cmd.prompt) {
+    const answers = await prompt([
+      {
+        type: 'confirm',
+        name: 'ok',
+        message: `Are you sure you want to destroy ${expired.length} expired preview environment(s)`,
+      },
+    ]);
+    if (!answers.ok) {
+      process.exit(2);
+    }
+  }
+
+  const failures: Array<string> = [];
+  for (const env of expired) {
+    logger.info(chalk.underline(chalk.bold(`▼ Destroying ${env.name}`)));
+    const args = ['envs', 'destroy', env.name, '--no-prompt'];
+    if (cmd.verbose) {
+      args.push('--verbose');
+    }
+    if (cmd.c) {
+      args.push('-c', cmd.c);
+    }
+    const result = spawnSync(process.execPath, [process.argv[1], ...args], { stdio: 'inherit' });
+    if (result.status !== 0) {
+      failures.push(env.name);
+    }
+  }
+  logger.lf();
+  if (failures.length) {
+    logger.error('Failed to destroy', failures.join(', '));
+    process.exit(1);
+  }
+  logger.success(`${expired.length} preview environment(s) destroyed 🧹`);
+  process.exit(0);
+};
@@ -1,7 +1,9 @@
 import { logger } from '../../utils/logger';
+import { output, withoutStateKeys } from '../../utils/output';
 import chalk from 'chalk';
 import { State } from '@microlambda/remote-state';
 import { aws } from '@microlambda/aws';
+import { CacheBackends } from '@microlambda/runner-core';
 import { resolveProjectRoot } from '@microlambda/utils';
 import { ConfigReader, IRootConfig } from '@microlambda/config';
 import { verifyState } from '../../utils/verify-state';
@@ -15,7 +17,7 @@ export const printAccountInfos = async (): Promise<IRootConfig> => {
   const region = config.defaultRegion;
   const currentUser = await aws.iam.getCurrentUser(region);
   logger.info('AWS Account', chalk.white.bold(currentUser.projectId));
-  logger.info('Cache location', chalk.white.bold(`s3://${config.state.checksums}`));
+  logger.info('Cache location', chalk.white.bold(CacheBackends.fromRootConfig(config, projectRoot).location));
   logger.info('IAM user', chalk.white.bold(currentUser.arn));
   logger.lf();
   return config;
@@ -29,13 +31,15 @@ export const listEnvs = async (): Promise<void> => {
   await verifyState(config);
   const state = new State(config);
   const envs = await state.listEnvironments();
+  output('environments', envs.map(withoutStateKeys));
   if (!envs.length) {
     logger.info('No deployed environments found.');
     logger.lf();
     logger.info(`Run ${chalk.bold.cyan('yarn mila envs create <name>')} to initialize a new environment`);
   } else {
     for (const e of envs) {
-      logger.info(`${chalk.white.bold(e.name)} (${chalk.grey(e.regions.join(', '))})`);
+      const preview = e.preview ? chalk.magenta(` preview of ${e.preview.branch}, expires at ${e.preview.expires_at}`) : '';
+      logger.info(`${chalk.white.bold(e.name)} (${chalk.grey(e.regions.join(', '))})${preview}`);
     }
   }
 };
@@ -0,0 +1,117 @@
+import chalk from 'chalk';
+import { State } from '@microlambda/remote-state';
+import { currentBranch, parseDuration } from '@microlambda/runner-core';
+import { EventLogsFileHandler, EventsLog } from '@microlambda/logger';
+import { resolveProjectRoot } from '@microlambda/utils';
+import { logger } from '../../utils/logger';
+import { printAccountInfos } from './list';
+import { verifyState } from '../../utils/verify-state';
+import { init } from '../../utils/init';
+import { IDeployCmd } from '../../utils/deploy/cmd-options';
+import { resolveDeployer } from '../../utils/deploy/deployments';
+import { previewEnvName, resolveAffectedServices, resolvePreviewSettings } from '../../utils/preview/preview-env';
+import { deploy } from '../deploy';
+import { destroyEnv } from './destroy';
+
+export interface IPreviewUpCmd extends Omit<IDeployCmd, 'e' | 's'> {
+  name?: string;
+  base?: string;
+  ttl?: string;
+}
+
+export interface IPreviewDownCmd {
+  name?: string;
+  prompt: boolean;
+  onlyPrompt: boolean;
+  skipLock: boolean;
+  c?: string;
+  verbose: boolean;
+}
+
+const resolvePreviewName = (prefix: string, name?: string): string => {
+  if (name) {
+    return name;
+  }
+  const branch = currentBranch(resolveProjectRoot());
+  if (!branch) {
+    logger.error(chalk.red('Cannot resolve current git branch, use --name to set the preview environment name'));
+    process.exit(1);
+  }
+  return previewEnvName(branch, prefix);
+};
+
+export const previewUp = async (cmd: IPreviewUpCmd): Promise<void> => {
+  logger.lf();
+  logger.info('🔭 Preparing preview environment');
+  logger.lf();
+
+  const projectRoot = resolveProjectRoot();
+  const eventsLog = new EventsLog(undefined, [new EventLogsFileHandler(projectRoot, `mila-preview-${Date.now()}`)]);
+  const log = eventsLog.scope('preview');
+
+  const config = await printAccountInfos();
+  await verifyState(config);
+  const state = new State(config);
+  const settings = resolvePreviewSettings(config);
+  const name = resolvePreviewName(settings.prefix, cmd.name);
+  const branch = currentBranch(projectRoot) ?? name;
+  let ttl = settings.ttl;
+  try {
+    ttl = cmd.ttl ? parseDuration(cmd.ttl) : settings.ttl;
+  } catch (e) {
+    logger.error(chalk.red(`Invalid TTL ${cmd.ttl}, use a duration such as 12h or 7d`));
+    process.exit(1);
+  }
+  const expiresAt = new Date(Date.now() + ttl).toISOString();
+
+  const existing = await state.findEnv(name);
+  if (existing && !existing.preview) {
+    logger.error(chalk.red(`Environment ${name} already exists and is not a preview environment`));
+    process.exit(1);
+  }
+  if (existing?.preview) {
+    await state.updateEnvironment({ ...existing, preview: { ...existing.preview, expires_at: expiresAt } });
+    logger.info(`Preview environment ${chalk.bold(name)} already exists, expiry extended to ${expiresAt}`);
+  } else {
+    const owner = await resolveDeployer(config);
+    await state.createEnvironment(name, settings.regions, {
+      owner,
+      created_by: owner,
+      preview: {
+        branch,
+        owner,
+        created_at: new Date().toISOString(),
+        expires_at: expiresAt,
+      },
+    });
+    logger.info(`Preview environment ${chalk.bold(name)} created for branch ${branch}, expires at ${expiresAt}`);
+  }
+  logger.lf();
+
+  const base = cmd.base ?? settings.base;
+  const { project } = await init(projectRoot, eventsLog, false);
+  const affected = await resolveAffectedServices(project, base, log);
+  log.debug('Affected services', base, affected);
+  if (!affected.length) {
+    logger.success(`No service affected since ${base}, nothing to deploy 👌`);
+    process.exit(0);
+  }
+  logger.info('Services affected since', base, chalk.bold(affected.join(', ')));
+  await deploy({ ...cmd, e: name, s: affected.join(',') });
+};
+
+export const previewDown = async (cmd: IPreviewDownCmd): Promise<void> => {
+  const config = await printAccountInfos();
+  await verifyState(config);
+  const name = resolvePreviewName(resolvePreviewSettings(config).prefix, cmd.name);
+  const env = await new State(config).findEnv(name);
+  if (!env) {
+    logger.error(`Preview environment not found: ${name}`);
+    process.exit(1);
+  }
+  if (!env.preview) {
+    logger.error(chalk.red(`Environment ${name} is not a preview environment, use yarn mila envs destroy ${name}`));
+    process.exit(1);
+  }
+  await destroyEnv(name, { ...cmd, destroy: true });
+};
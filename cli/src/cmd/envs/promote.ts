@@ -0,0 +1,155 @@
+import chalk from 'chalk';
+import ora from 'ora';
+import { prompt } from 'inquirer';
+import { EventLogsFileHandler, EventsLog } from '@microlambda/logger';
+import { resolveProjectRoot } from '@microlambda/utils';
+import { logger } from '../../utils/logger';
+import { printAccountInfos } from './list';
+import { beforeDeploy } from '../../utils/deploy/pre-requisites';
+import { checkIfEnvIsLock, releaseLockOnProcessExit } from '../../utils/check-env-lock';
+import { EnvsResolver } from '../../utils/deploy/envs';
+import { deployStoredPackage, resolveDeployer, shortSha1 } from '../../utils/deploy/deployments';
+import { resolvePromotionDeltas } from '../../utils/promote/resolve-deltas';
+import { printError } from '../../utils/print-process-error';
+import { checkEnvProtection } from '../../utils/check-env-protection';
+
+export interface IPromoteCmd {
+  s?: string;
+  verbose: boolean;
+  force: boolean;
+  prompt: boolean;
+  onlyPrompt: boolean;
+  skipLock: boolean;
+  confirmEnv?: string;
+}
+
+export const promoteEnv = async (from: string, to: string, cmd: IPromoteCmd): Promise<void> => {
+  logger.lf();
+  logger.info('⏫ Preparing to promote environment');
+  logger.lf();
+
+  if (from === to) {
+    logger.error(chalk.red('Source and target environments must be different'));
+    process.exit(1);
+  }
+
+  const projectRoot = resolveProjectRoot();
+  const eventsLog = new EventsLog(undefined, [new EventLogsFileHandler(projectRoot, `mila-promote-${Date.now()}`)]);
+  const log = eventsLog.scope('promote');
+
+  await printAccountInfos();
+
+  const { env, project, state, config, services } = await beforeDeploy({ e: to, s: cmd.s, install: false }, eventsLog);
+  checkEnvProtection(env, 'deploy', cmd);
+
+  const source = await state.findEnv(from);
+  if (!source) {
+    logger.error(chalk.red(`Source environment not found: ${from}`));
+    process.exit(1);
+  }
+
+  const { promotions } = await resolvePromotionDeltas({
+    from: source,
+    to: env,
+    project,
+    services,
+    force: cmd.force,
+    state,
+    config,
+    eventsLog,
+  });
+
+  if (!promotions.length) {
+    logger.info(`${env.name} already runs the same revisions than ${source.name}, nothing to promote 👌`);
+    process.exit(0);
+  }
+
+  logger.info(chalk.underline(chalk.bold('▼ Promotion plan')));
+  logger.lf();
+  for (const promotion of promotions) {
+    logger.info(
+      `${chalk.bold(promotion.service.name)} (${promotion.region}) ← ${chalk.cyan(shortSha1(promotion.source.sha1))} ${chalk.grey(
+        `from ${source.name} (${promotion.source.region})`,
+      )}`,
+    );
+  }
+  logger.lf();
+
+  const notStored = promotions.filter((p) => !p.deployment);
+  if (notStored.length) {
+    for (const promotion of notStored) {
+      logger.error(
+        chalk.red(
+          `Deployment package of ${promotion.service.name} at ${shortSha1(promotion.source.sha1)} has not been stored in ${
+            source.name
+          } and cannot be promoted`,
+        ),
+      );
+    }
+    logger.info(`Redeploy these services in ${source.name} before promoting them`);
+    process.exit(1);
+  }
+
+  if (cmd.onlyPrompt) {
+    logger.info('Not performing promotion as --only-prompt option has been given');
+    process.exit(0);
+  }
+
+  if (cmd.prompt) {
+    const answers = await prompt([
+      {
+        type: 'confirm',
+        name: 'ok',
+        message: `Are you sure you want to promote ${chalk.magenta.bold(source.name)} to ${chalk.magenta.bold(env.name)}`,
+      },
+    ]);
+    if (!answers.ok) {
+      process.exit(2);
+    }
+  }
+
+  const releaseLock = await checkIfEnvIsLock({ skipLock: cmd.skipLock, s: cmd.s }, env, project, config);
+  releaseLockOnProcessExit(releaseLock);
+
+  const envs = new EnvsResolver(project, env.name, eventsLog.scope('promote/env'));
+  const deployedBy = await resolveDeployer(config);
+  let hasFailed = false;
+  for (const promotion of promotions) {
+    const label = `${promotion.service.name} (${promotion.region}) at ${shortSha1(promotion.source.sha1)}`;
+    const spinner = ora(`Promoting ${label}`).start();
+    const startedAt = Date.now();
+    try {
+      if (!promotion.deployment) {
+        throw new Error(`No deployment package stored for ${label}`);
+      }
+      await deployStoredPackage({
+        service: promotion.service,
+        env: env.name,
+        region: promotion.region,
+        deployment: promotion.deployment,
+        envs,
+        deployedBy,
+        verbose: cmd.verbose,
+        config,
+        state,
+        eventsLog,
+        promotedFrom: source.name,
+      });
+      spinner.succeed(`Promoted ${label} ${chalk.grey(Date.now() - startedAt + 'ms')}`);
+    } catch (e) {
+      hasFailed = true;
+      spinner.fail(`Failed to promote ${label}`);
+      log.error('Promotion failed', promotion.service.name, promotion.region, e);
+      printError(e);
+    }
+  }
+
+  await releaseLock();
+  logger.lf();
+  if (hasFailed) {
+    logger.error(`Promotion of ${source.name} to ${env.name} failed`);
+    process.exit(1);
+  }
+  logger.success(`Successfully promoted ${source.name} to ${env.name} ⏫`);
+  process.exit(0);
+};
@@ -0,0 +1,59 @@
+import chalk from 'chalk';
+import { IEnvironment, State } from '@microlambda/remote-state';
+import { logger } from '../../utils/logger';
+import { printAccountInfos } from './list';
+import { verifyState } from '../../utils/verify-state';
+import { IEnvMetadataCmd, parseList, parseTags, printEnvMetadata } from '../../utils/env-metadata';
+import { checkEnvProtection } from '../../utils/check-env-protection';
+
+export interface IUpdateEnvCmd extends IEnvMetadataCmd {
+  protect?: boolean;
+  unprotect?: boolean;
+  confirmEnv?: string;
+}
+
+export const updateEnv = async (name: string, cmd: IUpdateEnvCmd): Promise<void> => {
+  logger.lf();
+  logger.info('✏️  Updating environment', name);
+  logger.lf();
+  if (cmd.protect && cmd.unprotect) {
+    logger.error(chalk.red('--protect and --unprotect options cannot be used together'));
+    process.exit(1);
+  }
+  const config = await printAccountInfos();
+  await verifyState(config);
+  const state = new State(config);
+  const env = await state.findEnv(name);
+  if (!env) {
+    logger.error(`Environment not found: ${name}`);
+    process.exit(1);
+  }
+  // Protection and allowed branches of a protected environment cannot be changed from anywhere without confirmation
+  checkEnvProtection(env, 'update', cmd);
+
+  const updated: IEnvironment = { ...env };
+  if (cmd.description != null) {
+    updated.description = cmd.description || undefined;
+  }
+  if (cmd.owner != null) {
+    updated.owner = cmd.owner || undefined;
+  }
+  if (cmd.tags != null) {
+    const tags = { ...env.tags, ...parseTags(cmd.tags) };
+    const nonEmpty = Object.entries(tags).filter(([, value]) => !!value);
+    updated.tags = nonEmpty.length ? Object.fromEntries(nonEmpty) : undefined;
+  }
+  if (cmd.protect) {
+    updated.protected = true;
+  } else if (cmd.unprotect) {
+    updated.protected = undefined;
+  }
+  if (cmd.allowedBranches != null) {
+    const branches = parseList(cmd.allowedBranches);
+    updated.allowed_branches = branches.length ? branches : undefined;
+  }
+  await state.updateEnvironment(updated);
+  printEnvMetadata(updated);
+  logger.lf();
+  logger.success(`Environment ${name} updated`);
+};
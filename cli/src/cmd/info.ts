@@ -1,4 +1,4 @@
-import { Project } from '@microlambda/core';
+import { GraphExporter, GraphFormat, graphFormats, Project } from '@microlambda/core';
 import { Workspace } from '@microlambda/runner-core';
 import chalk from 'chalk';
 import { resolveProjectRoot } from '@microlambda/utils';
@@ -19,11 +19,37 @@ interface IInfosOptions {
   roots: boolean;
   leaves: boolean;
   graph: boolean;
+  format?: string;
+  affected?: string;
+  durations: boolean;
 }
 
+const exportGraph = async (project: Project, cmd: IInfosOptions): Promise<void> => {
+  const format = cmd.format as GraphFormat;
+  if (!graphFormats.includes(format)) {
+    logger.error(chalk.red(`Unknown graph format ${cmd.format}, expected one of ${graphFormats.join(', ')}`));
+    process.exit(1);
+  }
+  const workspace = cmd.s ? project.getWorkspace(cmd.s) : undefined;
+  if (workspace === null) {
+    logger.error(chalk.red('Unknown workspace ' + cmd.s));
+    process.exit(1);
+  }
+  const [rev1, rev2] = cmd.affected?.split('..') ?? [];
+  const graph = await new GraphExporter(project).resolve({
+    workspace,
+    affected: rev1 ? { rev1, rev2: rev2 || undefined } : undefined,
+    durations: cmd.durations ? 'build' : undefined,
+  });
+  logger.info(GraphExporter.format(graph, format));
+};
+
 export const info = async (cmd: IInfosOptions): Promise<void> => {
   const projectRoot = resolveProjectRoot();
   const project = await Project.loadProject(projectRoot);
+  if (cmd.format) {
+    return exportGraph(project, cmd);
+  }
   if (!cmd.s) {
     logger.info('\n');
     logger.info(chalk.magenta.bold(project.name));
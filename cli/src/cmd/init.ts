@@ -3,7 +3,7 @@ import { logger } from '../utils/logger';
 import chalk from 'chalk';
 import ora from 'ora';
 import { prompt } from 'inquirer';
-import { verifyStateKeysSchema, createStateTable } from '@microlambda/remote-state';
+import { verifyStateKeysSchema, createStateTable, StateBackends, State } from '@microlambda/remote-state';
 import { readConfig } from '../utils/read-config';
 import { resolveProjectRoot } from '@microlambda/utils';
 
@@ -60,6 +60,13 @@ export const init = async (cmd: { prompt: boolean }): Promise<void> => {
     process.exit(1);
   }
 
+  if (!StateBackends.isDynamoDB(config)) {
+    const { backend } = new State(config);
+    logger.lf();
+    logger.success(`Remote state will be written in ${backend.location}`);
+    process.exit(0);
+  }
+
   const creatingStateTable = ora();
   creatingStateTable.start('Creating remote state table');
   const onError = (e: unknown): void => {
@@ -0,0 +1,73 @@
+import chalk from 'chalk';
+import Table from 'cli-table3';
+import { formatLockOwner, ILock, isLockExpired, LockManager, State } from '@microlambda/remote-state';
+import { logger } from '../utils/logger';
+import { printAccountInfos } from './envs/list';
+import { verifyState } from '../utils/verify-state';
+
+const printStatus = (lock: ILock): string => {
+  if (lock.expires_at == null) {
+    return chalk.yellow('no expiry');
+  }
+  return isLockExpired(lock) ? chalk.grey('expired') : chalk.green('active');
+};
+
+export const listLocks = async (cmd: { e?: string }): Promise<void> => {
+  logger.lf();
+  logger.info('🔒 Listing environments locks');
+  logger.lf();
+  const config = await printAccountInfos();
+  await verifyState(config);
+  const envs = cmd.e ? [cmd.e] : (await new State(config).listEnvironments()).map((e) => e.name);
+  const locks: Array<ILock> = [];
+  for (const env of envs) {
+    locks.push(...(await new LockManager(config, env).getLocks()));
+  }
+  if (!locks.length) {
+    logger.info(cmd.e ? `Environment ${cmd.e} is not locked` : 'No environment is locked');
+    return;
+  }
+  const table = new Table({
+    head: ['Environment', 'Service', 'Owner', 'Acquired at', 'Last heartbeat', 'Status'],
+    style: {
+      head: ['cyan'],
+    },
+  });
+  for (const lock of locks) {
+    table.push([
+      chalk.bold(lock.env),
+      lock.service,
+      formatLockOwner(lock.owner),
+      lock.acquired_at ?? '-',
+      lock.heartbeat_at ?? '-',
+      printStatus(lock),
+    ]);
+  }
+  // eslint-disable-next-line no-console
+  console.log(table.toString());
+};
+
+export const releaseLocks = async (env: string, cmd: { s?: string; expired: boolean }): Promise<void> => {
+  logger.lf();
+  logger.info('🔒 Releasing locks of environment', env);
+  logger.lf();
+  const config = await printAccountInfos();
+  await verifyState(config);
+  const services = cmd.s?.split(',');
+  const locks = (await new LockManager(config, env).getLocks()).filter(
+    (l) => (!services || services.includes(l.service)) && (!cmd.expired || isLockExpired(l)),
+  );
+  if (!locks.length) {
+    logger.info('No lock to release');
+    return;
+  }
+  for (const lock of locks) {
+    logger.info(
+      `Releasing lock on ${chalk.bold(lock.service)} held by ${formatLockOwner(lock.owner)}`,
+      chalk.grey(`since ${lock.acquired_at ?? '?'}${isLockExpired(lock) ? ' (expired)' : ''}`),
+    );
+  }
+  await new LockManager(config, env, locks.map((l) => l.service)).forceReleaseLock();
+  logger.lf();
+  logger.success(`${locks.length} lock(s) released`);
+};
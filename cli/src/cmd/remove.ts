@@ -8,6 +8,7 @@ import { checkIfEnvIsLock, releaseLockOnProcessExit } from '../utils/check-env-l
 import { resolveRemoveOperations } from '../utils/remove/resolve-deltas';
 import { removeServices } from '../utils/remove/do-remove';
 import { promptConfirm } from '../utils/remove/prompt-confirm';
+import { checkEnvProtection } from '../utils/check-env-protection';
 
 export const remove = async (cmd: IDeployCmd): Promise<void> => {
   logger.lf();
@@ -17,6 +18,7 @@ export const remove = async (cmd: IDeployCmd): Promise<void> => {
   const eventsLog = new EventsLog(undefined, [new EventLogsFileHandler(projectRoot, `mila-remove-${Date.now()}`)]);
 
   const { env, project, state, config, services } = await beforeDeploy(cmd, eventsLog);
+  checkEnvProtection(env, 'remove', cmd);
 
   await printAccountInfos();
 
@@ -0,0 +1,36 @@
+import { IDeployment } from '@microlambda/remote-state';
+import { resolveRollbackTarget } from './rollback';
+
+describe('[function] resolveRollbackTarget', () => {
+  const deployment = (sha1: string): IDeployment => ({ sha1 } as IDeployment);
+  const history = [
+    deployment('d'.repeat(40)),
+    deployment('1234567' + 'c'.repeat(33)),
+    deployment('b'.repeat(40)),
+    deployment('a'.repeat(40)),
+  ];
+
+  it('should resolve previous deployment by default', () => {
+    expect(resolveRollbackTarget(history)?.sha1).toBe('1234567' + 'c'.repeat(33));
+  });
+
+  it('should go back the given number of deployments', () => {
+    expect(resolveRollbackTarget(history, '2')?.sha1).toBe('b'.repeat(40));
+    expect(resolveRollbackTarget(history, '~3')?.sha1).toBe('a'.repeat(40));
+    expect(resolveRollbackTarget(history, '4')).toBeUndefined();
+  });
+
+  it('should resolve a deployment by its full or abbreviated sha1', () => {
+    expect(resolveRollbackTarget(history, 'b'.repeat(40))?.sha1).toBe('b'.repeat(40));
+    expect(resolveRollbackTarget(history, 'aaaaaaa')?.sha1).toBe('a'.repeat(40));
+    expect(resolveRollbackTarget(history, '1234567')?.sha1).toBe('1234567' + 'c'.repeat(33));
+  });
+
+  it('should not resolve current deployment by its sha1', () => {
+    expect(resolveRollbackTarget(history, 'ddddddd')).toBeUndefined();
+  });
+
+  it('should reject abbreviated sha1 shorter than 7 characters', () => {
+    expect(() => resolveRollbackTarget(history, 'bbb')).toThrow(/Invalid revision bbb/);
+  });
+});
@@ -0,0 +1,165 @@
+import chalk from 'chalk';
+import ora from 'ora';
+import { prompt } from 'inquirer';
+import { EventLogsFileHandler, EventsLog } from '@microlambda/logger';
+import { resolveProjectRoot } from '@microlambda/utils';
+import { Workspace } from '@microlambda/runner-core';
+import { IDeployment } from '@microlambda/remote-state';
+import { MilaError, MilaErrorCode } from '@microlambda/errors';
+import { logger } from '../utils/logger';
+import { printAccountInfos } from './envs/list';
+import { beforeDeploy } from '../utils/deploy/pre-requisites';
+import { checkIfEnvIsLock, releaseLockOnProcessExit } from '../utils/check-env-lock';
+import { EnvsResolver } from '../utils/deploy/envs';
+import { deployStoredPackage, resolveDeployer, shortSha1, SHORT_SHA1_LENGTH } from '../utils/deploy/deployments';
+import { printError } from '../utils/print-process-error';
+import { checkEnvProtection } from '../utils/check-env-protection';
+
+export interface IRollbackCmd {
+  s?: string;
+  to?: string;
+  verbose: boolean;
+  prompt: boolean;
+  skipLock: boolean;
+  confirmEnv?: string;
+}
+
+interface IRollbackOperation {
+  service: Workspace;
+  region: string;
+  current: IDeployment;
+  target: IDeployment;
+}
+
+/**
+ * Resolve the deployment to roll back to from a history sorted most recent first.
+ * --to is either N or ~N, the number of deployments to go back (defaults to ~1, the previous deployment),
+ * or a full or abbreviated sha1 of at least 7 characters.
+ */
+export const resolveRollbackTarget = (history: Array<IDeployment>, to = '~1'): IDeployment | undefined => {
+  const count = /^~?(\d+)$/.exec(to);
+  if (count && (to.startsWith('~') || to.length < SHORT_SHA1_LENGTH)) {
+    return history[Number(count[1])];
+  }
+  if (to.length < SHORT_SHA1_LENGTH) {
+    throw new MilaError(
+      MilaErrorCode.BAD_REVISION,
+      `Invalid revision ${to}: expected a number of deployments to go back or a sha1 of at least ${SHORT_SHA1_LENGTH} characters`,
+    );
+  }
+  return history.slice(1).find((deployment) => deployment.sha1.startsWith(to));
+};
+
+export const rollback = async (envName: string, cmd: IRollbackCmd): Promise<void> => {
+  logger.lf();
+  logger.info('⏪ Preparing to rollback environment');
+  logger.lf();
+
+  const projectRoot = resolveProjectRoot();
+  const eventsLog = new EventsLog(undefined, [new EventLogsFileHandler(projectRoot, `mila-rollback-${Date.now()}`)]);
+  const log = eventsLog.scope('rollback');
+
+  await printAccountInfos();
+
+  const { env, project, state, config, services } = await beforeDeploy({ e: envName, s: cmd.s, install: false }, eventsLog);
+  checkEnvProtection(env, 'deploy', cmd);
+
+  const deployedServices = new Set((await state.listServices(env.name)).map((instance) => instance.name));
+  const toRollback = services ?? [...project.services.values()].filter((service) => deployedServices.has(service.name));
+
+  const operations: Array<IRollbackOperation> = [];
+  for (const service of toRollback) {
+    for (const region of env.regions) {
+      const history = await state.listDeployments(env.name, service.name, region);
+      log.debug('Deployments history', service.name, region, history);
+      if (!history.length) {
+        continue;
+      }
+      const target = resolveRollbackTarget(history, cmd.to);
+      if (!target) {
+        logger.error(
+          chalk.red(`No deployment matching ${cmd.to ?? 'previous revision'} found for ${service.name} in ${region}`),
+        );
+        process.exit(1);
+      }
+      if (!target.package_key) {
+        logger.error(
+          chalk.red(`Deployment package of ${service.name} at ${shortSha1(target.sha1)} has not been stored and cannot be redeployed`),
+        );
+        process.exit(1);
+      }
+      operations.push({ service, region, current: history[0], target });
+    }
+  }
+
+  if (!operations.length) {
+    logger.info('No deployment history found, nothing to rollback 👌');
+    process.exit(0);
+  }
+
+  logger.info(chalk.underline(chalk.bold('▼ Rollback plan')));
+  logger.lf();
+  for (const op of operations) {
+    logger.info(
+      `${chalk.bold(op.service.name)} (${op.region}) ${chalk.grey(shortSha1(op.current.sha1))} → ${chalk.cyan(
+        shortSha1(op.target.sha1),
+      )} ${chalk.grey(`deployed ${op.target.deployed_at} by ${op.target.deployed_by}`)}`,
+    );
+  }
+  logger.lf();
+
+  if (cmd.prompt) {
+    const answers = await prompt([
+      {
+        type: 'confirm',
+        name: 'ok',
+        message: `Are you sure you want to rollback ${chalk.magenta.bold(env.name)}`,
+      },
+    ]);
+    if (!answers.ok) {
+      process.exit(2);
+    }
+  }
+
+  const releaseLock = await checkIfEnvIsLock({ skipLock: cmd.skipLock, s: cmd.s }, env, project, config);
+  releaseLockOnProcessExit(releaseLock);
+
+  const envs = new EnvsResolver(project, env.name, eventsLog.scope('rollback/env'));
+  const deployedBy = await resolveDeployer(config);
+  let hasFailed = false;
+  for (const op of operations) {
+    const label = `${op.service.name} (${op.region}) to ${shortSha1(op.target.sha1)}`;
+    const spinner = ora(`Rolling back ${label}`).start();
+    const startedAt = Date.now();
+    try {
+      await deployStoredPackage({
+        service: op.service,
+        env: env.name,
+        region: op.region,
+        deployment: op.target,
+        envs,
+        deployedBy,
+        verbose: cmd.verbose,
+        config,
+        state,
+        eventsLog,
+        rollbackFrom: op.current.sha1,
+      });
+      spinner.succeed(`Rolled back ${label} ${chalk.grey(Date.now() - startedAt + 'ms')}`);
+    } catch (e) {
+      hasFailed = true;
+      spinner.fail(`Failed to rollback ${label}`);
+      log.error('Rollback failed', op.service.name, op.region, e);
+      printError(e);
+    }
+  }
+
+  await releaseLock();
+  logger.lf();
+  if (hasFailed) {
+    logger.error(`Rollback of ${env.name} failed`);
+    process.exit(1);
+  }
+  logger.success(`Successfully rolled back ${env.name} ⏪`);
+  process.exit(0);
+};
@@ -14,6 +14,8 @@ import {
   Runner,
   RunOptions,
   currentSha1,
+  CacheBackends,
+  RemoteCacheLocation,
 } from '@microlambda/runner-core';
 import { MilaSpinnies } from '../utils/spinnies';
 import { logger } from '../utils/logger';
@@ -200,10 +202,10 @@ export const runTests = async (cmd: ITestCommand): Promise<void> => {
 
       const process$: Array<Observable<{ evt: RunCommandEvent; runOptions: RunOptions }>> = await Promise.all(
         options.workspaces.map(async (workspace) => {
-          let remoteCache: { bucket: string; region: string } | undefined = undefined;
+          let remoteCache: RemoteCacheLocation | undefined = undefined;
           let affected: string | undefined = undefined;
           if (options.remoteCache) {
-            remoteCache = { bucket: config.state.checksums, region: config.defaultRegion };
+            remoteCache = { backend: CacheBackends.fromRootConfig(config, projectRoot) };
             const lastTestExecution = await state.getExecution(
               options.affectedSince || currentBranch,
               'test',
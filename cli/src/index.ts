@@ -5,6 +5,7 @@ import { checkService } from './cmd/check-service';
 import { build } from './cmd/build';
 import { packagr } from './cmd/package';
 import { deploy } from './cmd/deploy';
+import { rollback } from './cmd/rollback';
 import { getDefaultThreads } from '@microlambda/utils';
 import { remove } from './cmd/remove';
 import { generate } from './cmd/generate';
@@ -14,17 +15,29 @@ import { init } from './cmd/init';
 import { commandWrapper } from './utils/command-wapper';
 import { listEnvs } from './cmd/envs/list';
 import { createEnv } from './cmd/envs/create';
+import { updateEnv } from './cmd/envs/update';
 import { describeEnv } from './cmd/envs/describe';
 import { destroyEnv } from './cmd/envs/destroy';
 import { createReplicate } from './cmd/envs/create-replicate';
 import { destroyReplicate } from './cmd/envs/destroy-replicate';
+import { detectDrift } from './cmd/envs/drift';
+import { promoteEnv } from './cmd/envs/promote';
+import { previewDown, previewUp } from './cmd/envs/preview';
+import { gcPreviews } from './cmd/envs/gc';
 import { runTests } from './cmd/run-tests';
 import { releaseLock } from './utils/check-env-lock';
+import { listLocks, releaseLocks } from './cmd/lock';
+import { setOutputFormat } from './utils/output';
 
 const program = new Command();
 
 program.version('1.0.0-alpha.3');
 
+program
+  .option('--json', 'print machine-readable output as JSON on stdout, logs are printed on stderr', false)
+  .option('--yaml', 'print machine-readable output as YAML on stdout, logs are printed on stderr', false)
+  .hook('preAction', () => setOutputFormat(program.opts()));
+
 program
   .command('init')
   .option('--no-prompt', 'skip asking user confirmation before initializing', false)
@@ -48,10 +61,31 @@ envs
 
 envs
   .command('create <name>')
+  .option('--description <description>', 'description of the environment')
+  .option('--owner <owner>', 'team or person owning the environment')
+  .option('--tags <tags>', 'tags of the environment (coma-seperated list of key=value)')
+  .option('--protected', 'forbid destroying the environment and require --confirm-env to deploy or remove services', false)
+  .option('--allowed-branches <branches>', 'branches allowed to deploy to the environment (coma-seperated list, * as wildcard)')
   .description('Create a new environment un current AWS subscription.')
-  .action(async (cmd) => {
+  .action(async (name, cmd) => {
+    await commandWrapper(async () => {
+      await createEnv(name, cmd);
+    });
+  });
+
+envs
+  .command('update <name>')
+  .option('--description <description>', 'description of the environment')
+  .option('--owner <owner>', 'team or person owning the environment')
+  .option('--tags <tags>', 'tags to set on the environment (coma-seperated list of key=value, empty value to remove a tag)')
+  .option('--protect', 'protect the environment')
+  .option('--unprotect', 'remove protection of the environment')
+  .option('--allowed-branches <branches>', 'branches allowed to deploy to the environment (coma-seperated list, * as wildcard, empty to allow all)')
+  .option('--confirm-env <name>', 'name of the environment, required if it is protected')
+  .description('Update metadata, protection and allowed branches of an existing environment.')
+  .action(async (name, cmd) => {
     await commandWrapper(async () => {
-      await createEnv(cmd);
+      await updateEnv(name, cmd);
     });
   });
 
@@ -102,6 +136,7 @@ envs
   .option('--no-prompt', 'skip asking user confirmation before deploying', true)
   .option('--skip-lock', 'ignore lock and perform the actions anyway', false)
   .option('--only-prompt', 'only display deployment information and return', false)
+  .option('--confirm-env <name>', 'name of the target environment, required if it is protected')
   .action(async (name, region, cmd) => {
     await commandWrapper(async () => {
       await createReplicate(name, region, cmd);
@@ -126,6 +161,7 @@ envs
   .option('--no-prompt', 'skip asking user confirmation before deploying', true)
   .option('--skip-lock', 'ignore lock and perform the actions anyway', false)
   .option('--only-prompt', 'only display deployment information and return', false)
+  .option('--confirm-env <name>', 'name of the target environment, required if it is protected')
   .description(
     'Remove an existing deployed environment from AWS. This will destroy all microservices in every region for this environment.',
   )
@@ -135,6 +171,91 @@ envs
     });
   });
 
+envs
+  .command('drift <name>')
+  .option('--no-detect', 'skip CloudFormation drift detection and only check stacks status and last update', true)
+  .option('--reconcile', 'remove stacks deleted outside mila from state without asking confirmation', false)
+  .option('--no-prompt', 'do not offer to reconcile state', true)
+  .description('Detect stacks of an environment that have been deleted, updated or drifted outside mila.')
+  .action(async (name, cmd) => {
+    await commandWrapper(async () => {
+      await detectDrift(name, cmd);
+    });
+  });
+
+envs
+  .command('promote <from> <to>')
+  .option('-s <service>, --service <service>', 'the services you want to promote (coma-seperated list)')
+  .option('--verbose', 'print child processes stdout and stderr', false)
+  .option('--force', 'redeploy revisions that are already deployed in target environment', false)
+  .option('--no-prompt', 'skip asking user confirmation before promoting', true)
+  .option('--only-prompt', 'only display promotion information and return', false)
+  .option('--skip-lock', 'ignore lock and perform the actions anyway', false)
+  .option('--confirm-env <name>', 'name of the target environment, required if it is protected')
+  .description('Deploy the exact revisions running in an environment to another environment.')
+  .action(async (from, to, cmd) => {
+    await commandWrapper(async () => {
+      await promoteEnv(from, to, cmd);
+    });
+  });
+
+const preview = envs.command('preview').description('Manage ephemeral preview environments tied to git branches.');
+
+preview
+  .command('up')
+  .option('--name <name>', 'name of the preview environment, derived from current branch by default')
+  .option('--base <revision>', 'revision to compare with to find affected services, defaults to previews.base or origin/main')
+  .option('--ttl <duration>', 'duration before the preview expires (e.g. 12h, 7d), defaults to previews.ttl or 7d')
+  .option('--verbose', 'print child processes stdout and stderr', false)
+  .option('--no-install', 'skip installing dependencies', true)
+  .option('--no-recompile', 'skip package and service recompilation', true)
+  .option('--force-deploy', 'ignore deploy command checksums and re-deploy', false)
+  .option('--force-package', 'ignore package and deploy commands checksums and re-deploy', false)
+  .option('--force', 'ignore build, package and deploy checksums and re-deploy', false)
+  .option(
+    '-c, --concurrency',
+    'defines how much threads can be used for parallel tasks',
+    getDefaultThreads().toString(),
+  )
+  .option('--no-prompt', 'skip asking user confirmation before deploying', true)
+  .option('--skip-lock', 'ignore lock and perform the actions anyway', false)
+  .option('--only-prompt', 'only display deployment information and return', false)
+  .description('Create or refresh the preview environment of current branch and deploy affected services.')
+  .action(
+    async (cmd) =>
+      await commandWrapper(async () => {
+        await previewUp(cmd);
+      }, true),
+  );
+
+preview
+  .command('down')
+  .option('--name <name>', 'name of the preview environment, derived from current branch by default')
+  .option('--verbose', 'print child processes stdout and stderr', false)
+  .option('--no-prompt', 'skip asking user confirmation before destroying', true)
+  .option('--skip-lock', 'ignore lock and perform the actions anyway', false)
+  .option('--only-prompt', 'only display removal information and return', false)
+  .option('-c <jobs>, --concurrency <jobs>', 'set maximum concurrent services being removed')
+  .description('Destroy the preview environment of current branch.')
+  .action(async (cmd) => {
+    await commandWrapper(async () => {
+      await previewDown(cmd);
+    });
+  });
+
+envs
+  .command('gc')
+  .option('--verbose', 'print child processes stdout and stderr', false)
+  .option('--no-prompt', 'skip asking user confirmation before destroying', true)
+  .option('--only-prompt', 'only list expired preview environments and return', false)
+  .option('-c <jobs>, --concurrency <jobs>', 'set maximum concurrent services being removed')
+  .description('Destroy expired preview environments.')
+  .action(async (cmd) => {
+    await commandWrapper(async () => {
+      await gcPreviews(cmd);
+    });
+  });
+
 program
   .command('start')
   .option('-i, --interactive', 'interactively choose microservices', false)
@@ -209,6 +330,9 @@ program
 program
   .command('info')
   .option('--graph', 'print dependencies graph', false)
+  .option('--format <format>', 'export dependencies graph instead of printing it: dot, mermaid, json or html')
+  .option('--affected <revisions>', 'with --format, highlight workspaces affected between two revisions, e.g. main..HEAD')
+  .option('--durations', 'with --format, annotate workspaces with their last build duration', false)
   .option('--roots', 'show project roots', false)
   .option('--leaves', 'show project leaves', false)
   .option('-s <service>, --service <service>', 'display information on a given workspace', false)
@@ -298,6 +422,9 @@ program
   .option('--no-prompt', 'skip asking user confirmation before deploying', true)
   .option('--skip-lock', 'ignore lock and perform the actions anyway', false)
   .option('--only-prompt', 'only display deployment information and return', false)
+  .option('--confirm-env <name>', 'name of the target environment, required if it is protected')
+  .option('--plan-out <path>', 'write the deploy plan in the given file and return without deploying')
+  .option('--plan <path>', 'apply a deploy plan, refused if sources or state changed since the plan has been written')
   .description('deploy services to AWS')
   .action(
     async (cmd) =>
@@ -306,6 +433,22 @@ program
       }, true),
   );
 
+program
+  .command('rollback <env>')
+  .option('-s <service>, --service <service>', 'the services you want to rollback (coma-seperated list)')
+  .option('--to <revision>', 'sha1 of the revision to rollback to (at least 7 characters), or N to go back N deployments', '~1')
+  .option('--verbose', 'print child processes stdout and stderr', false)
+  .option('--no-prompt', 'skip asking user confirmation before rolling back', true)
+  .option('--skip-lock', 'ignore lock and perform the actions anyway', false)
+  .option('--confirm-env <name>', 'name of the target environment, required if it is protected')
+  .description('redeploy a previously deployed revision from its stored package')
+  .action(
+    async (env, cmd) =>
+      await commandWrapper(async () => {
+        await rollback(env, cmd);
+      }, true),
+  );
+
 program
   .command('remove')
   .requiredOption('-e <stage>, --stage <stage>', 'target stage for deletion')
@@ -321,6 +464,7 @@ program
   .option('--no-prompt', 'skip asking user confirmation before deploying', true)
   .option('--only-prompt', 'only display deployment information and return', false)
   .option('--verbose', 'print child processes stdout and stderr', false)
+  .option('--confirm-env <name>', 'name of the target environment, required if it is protected')
   .description('remove services from AWS')
   .action(
     async (cmd) =>
@@ -329,6 +473,29 @@ program
       }, true),
   );
 
+const lock = program.command('lock').description('Manage environments locks.');
+
+lock
+  .command('list')
+  .option('-e <stage>, --stage <stage>', 'only list locks of the given environment')
+  .description('List locks with their owner, acquisition date and last heartbeat.')
+  .action(async (cmd) => {
+    await commandWrapper(async () => {
+      await listLocks(cmd);
+    });
+  });
+
+lock
+  .command('release <env>')
+  .option('-s <service>, --service <service>', 'only release locks of the given services (coma-seperated list)')
+  .option('--expired', 'only release expired locks', false)
+  .description('Release locks of an environment, whoever holds them.')
+  .action(async (env, cmd) => {
+    await commandWrapper(async () => {
+      await releaseLocks(env, cmd);
+    });
+  });
+
 program
   .command('release-lock')
   .requiredOption('-e <stage>, --stage <stage>', 'target stage for deletion')
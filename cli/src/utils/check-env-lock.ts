@@ -1,4 +1,5 @@
-import { IEnvironment, LockManager } from '@microlambda/remote-state';
+import { formatLockOwner, IEnvironment, LockManager } from '@microlambda/remote-state';
+import { MilaError, MilaErrorCode } from '@microlambda/errors';
 import { logger } from './logger';
 import { IRootConfig } from '@microlambda/config';
 import { Project } from '@microlambda/core';
@@ -15,12 +16,27 @@ export const checkIfEnvIsLock = async (
   let lock: LockManager | undefined;
   if (!cmd.skipLock) {
     lock = new LockManager(config, env.name, cmd.s?.split(',') || [...project.services.keys()]);
-    if (await lock.isLocked()) {
-      logger.lf();
-      logger.info('🔒 Environment is locked. Waiting for the lock to be released');
-      await lock.waitLockToBeReleased();
+    let isAcquired = false;
+    while (!isAcquired) {
+      const holders = await lock.getActiveLocks();
+      if (holders.length) {
+        logger.lf();
+        logger.info('🔒 Environment is locked. Waiting for the lock to be released');
+        for (const holder of holders) {
+          logger.info(`${holder.service} locked by ${formatLockOwner(holder.owner)} since ${holder.acquired_at ?? '?'}`);
+        }
+        await lock.waitLockToBeReleased();
+      }
+      try {
+        await lock.lock();
+        isAcquired = true;
+      } catch (e) {
+        // Another process acquired the lock in the meantime
+        if (!(e instanceof MilaError && e.code === MilaErrorCode.ENVIRONMENT_LOCKED)) {
+          throw e;
+        }
+      }
     }
-    await lock.lock();
   }
   return async (msg?: string): Promise<void> => {
     if (lock) {
@@ -44,8 +60,10 @@ export const releaseLock = async (env: string, services?: string): Promise<void>
   const lockRelease = ora('🔒 Releasing lock...');
   logger.lf();
   try {
-    if (await lock.isLocked()) {
-      await lock.releaseLock();
+    const workspaces = lock.workspaces ?? [];
+    // Expired locks are released as well
+    if ((await lock.getLocks()).some((l) => workspaces.includes(l.service))) {
+      await lock.forceReleaseLock();
       lockRelease.succeed('🔒 Lock released !');
     } else {
       lockRelease.succeed('🔒 Lock already released');
@@ -0,0 +1,26 @@
+import chalk from 'chalk';
+import { checkEnvironmentProtection, IEnvironment, ProtectedAction } from '@microlambda/remote-state';
+import { currentBranch } from '@microlambda/runner-core';
+import { MilaError } from '@microlambda/errors';
+import { resolveProjectRoot } from '@microlambda/utils';
+import { logger } from './logger';
+
+/**
+ * Exit if the action is forbidden on the environment because of its protection or its allowed branches.
+ */
+export const checkEnvProtection = (env: IEnvironment, action: ProtectedAction, cmd: { confirmEnv?: string }): void => {
+  const branch = currentBranch(resolveProjectRoot());
+  try {
+    checkEnvironmentProtection(env, action, { branch, confirmEnv: cmd.confirmEnv });
+  } catch (e) {
+    if (e instanceof MilaError) {
+      logger.lf();
+      logger.error(chalk.red(e.message));
+      process.exit(1);
+    }
+    throw e;
+  }
+  if (env.protected) {
+    logger.warn(`⚠️  ${env.name} is a protected environment`);
+  }
+};
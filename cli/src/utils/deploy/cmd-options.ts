@@ -6,4 +6,16 @@ export interface IDeployCmd extends IPackageCmd {
   onlyPrompt: boolean;
   forceDeploy: boolean;
   skipLock: boolean;
+  /**
+   * Name of the target environment, required to deploy to or remove services from a protected environment
+   */
+  confirmEnv?: string;
+  /**
+   * Path where the resolved deploy plan is written, nothing is deployed
+   */
+  planOut?: string;
+  /**
+   * Path of a deploy plan to apply, deployment is refused if sources or state changed since it has been written
+   */
+  plan?: string;
 }
@@ -0,0 +1,188 @@
+import { mkdtempSync, promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { defer } from 'rxjs';
+import { stub } from 'sinon';
+import { IRootConfig } from '@microlambda/config';
+import { EventsLog } from '@microlambda/logger';
+import { IDeployment, State } from '@microlambda/remote-state';
+import { RunOptions, Workspace } from '@microlambda/runner-core';
+import { deployStoredPackage, packageManifestKey, recordDeployment, restorePackage, storePackage } from './deployments';
+import { EnvsResolver } from './envs';
+
+const cwd = process.cwd();
+let root: string;
+let config: IRootConfig;
+let service: Workspace;
+let deployed: { bundle?: string; env?: Record<string, string> };
+
+const writeBundle = async (content: string): Promise<void> => {
+  await fs.mkdir(join(service.root, '.package'), { recursive: true });
+  await fs.writeFile(join(service.root, '.package', 'bundle.zip'), content);
+};
+
+beforeEach(async () => {
+  root = mkdtempSync(join(tmpdir(), 'mila-deployments-'));
+  await fs.writeFile(join(root, 'yarn.lock'), '');
+  process.chdir(root);
+  config = {
+    defaultRegion: 'eu-west-1',
+    defaultRuntime: 'nodejs16.x',
+    state: { table: 'mila-state', checksums: 'mila-checksums' },
+    cache: { backend: { type: 'filesystem', path: '.cache' } },
+  };
+  deployed = {};
+  // Snapshot the package as it is when deploy target is run
+  const run = stub().callsFake((options: RunOptions) =>
+    defer(async () => {
+      deployed.bundle = await fs.readFile(join(service.root, '.package', 'bundle.zip'), 'utf-8');
+      deployed.env = options.env as Record<string, string>;
+      return {};
+    }),
+  );
+  service = { name: 'users', root: join(root, 'services', 'users'), run } as unknown as Workspace;
+});
+
+afterEach(async () => {
+  process.chdir(cwd);
+  await fs.rm(root, { recursive: true, force: true });
+});
+
+describe('[function] deployStoredPackage', () => {
+  it('should deploy the stored package instead of the current one', async () => {
+    const key = packageManifestKey('users', 'prod', 'eu-west-1', 'a'.repeat(40));
+    await writeBundle('deployed at a');
+    await storePackage(service, config, key);
+    await writeBundle('built from HEAD');
+    const state = { createServiceInstance: stub().resolves(), saveDeployment: stub().resolves() };
+    const envs = { resolve: stub().resolves(new Map([['users', { AWS_REGION: 'eu-west-1' }]])) };
+    await deployStoredPackage({
+      service,
+      env: 'prod',
+      region: 'eu-west-1',
+      deployment: { sha1: 'a'.repeat(40), package_key: key, checksums_key: 'checksums' } as IDeployment,
+      envs: envs as unknown as EnvsResolver,
+      deployedBy: 'arn:aws:iam::123456789012:user/alice',
+      verbose: false,
+      config,
+      state: state as unknown as State,
+      eventsLog: new EventsLog(),
+      rollbackFrom: 'b'.repeat(40),
+    });
+    expect(deployed.bundle).toBe('deployed at a');
+    // The serverless plugin must not rebuild the package from current sources
+    expect(deployed.env).toEqual({ AWS_REGION: 'eu-west-1', MILA_RESTORED_PACKAGE: 'true' });
+    expect(state.createServiceInstance.getCall(0).args[0]).toMatchObject({ env: 'prod', sha1: 'a'.repeat(40) });
+    expect(state.saveDeployment.getCall(0).args[0]).toMatchObject({
+      sha1: 'a'.repeat(40),
+      rollback_from: 'b'.repeat(40),
+    });
+  });
+
+  it('should deploy the package of source environment in target environment on promotion', async () => {
+    const key = packageManifestKey('users', 'staging', 'eu-west-1', 'a'.repeat(40));
+    await writeBundle('deployed in staging');
+    await storePackage(service, config, key);
+    await writeBundle('built from working copy');
+    const state = { createServiceInstance: stub().resolves(), saveDeployment: stub().resolves() };
+    const envs = { resolve: stub().resolves(new Map([['users', { AWS_REGION: 'eu-west-1' }]])) };
+    await deployStoredPackage({
+      service,
+      env: 'prod',
+      region: 'eu-west-1',
+      deployment: { sha1: 'a'.repeat(40), package_key: key, checksums_key: 'checksums' } as IDeployment,
+      envs: envs as unknown as EnvsResolver,
+      deployedBy: 'arn:aws:iam::123456789012:user/alice',
+      verbose: false,
+      config,
+      state: state as unknown as State,
+      eventsLog: new EventsLog(),
+      promotedFrom: 'staging',
+    });
+    expect(deployed.bundle).toBe('deployed in staging');
+    expect(deployed.env).toMatchObject({ MILA_RESTORED_PACKAGE: 'true' });
+    expect(state.createServiceInstance.getCall(0).args[0]).toMatchObject({ env: 'prod', sha1: 'a'.repeat(40) });
+    expect(state.saveDeployment.getCall(0).args[0]).toMatchObject({
+      env: 'prod',
+      sha1: 'a'.repeat(40),
+      promoted_from: 'staging',
+      package_key: packageManifestKey('users', 'prod', 'eu-west-1', 'a'.repeat(40)),
+    });
+  });
+});
+
+describe('[function] storePackage / restorePackage', () => {
+  const key = packageManifestKey('users', 'prod', 'eu-west-1', 'a'.repeat(40));
+
+  it('should restore the stored package in place of the current one', async () => {
+    await writeBundle('deployed at a');
+    await fs.writeFile(join(service.root, '.package', 'bundle-metadata.json'), '{}');
+    await storePackage(service, config, key);
+    await fs.rm(join(service.root, '.package'), { recursive: true });
+    await writeBundle('built from HEAD');
+    await fs.writeFile(join(service.root, '.package', 'extra.zip'), 'extra');
+    await restorePackage(service, config, { sha1: 'a'.repeat(40), package_key: key } as IDeployment);
+    expect(await fs.readFile(join(service.root, '.package', 'bundle.zip'), 'utf-8')).toBe('deployed at a');
+    expect((await fs.readdir(join(service.root, '.package'))).sort()).toEqual(['bundle-metadata.json', 'bundle.zip']);
+  });
+
+  it('should fail to store a service that has not been packaged', async () => {
+    await expect(storePackage(service, config, key)).rejects.toThrow(/No deployment package found for users/);
+  });
+
+  it('should fail to restore a deployment whose package has not been stored', async () => {
+    await expect(restorePackage(service, config, { sha1: 'a'.repeat(40) } as IDeployment)).rejects.toThrow(
+      /No deployment package has been stored for users/,
+    );
+    await expect(
+      restorePackage(service, config, { sha1: 'a'.repeat(40), package_key: key } as IDeployment),
+    ).rejects.toThrow(/Deployment package of users at revision a+ not found/);
+  });
+});
+
+describe('[function] recordDeployment', () => {
+  const record = (state: Partial<Record<keyof State, unknown>>): Promise<void> =>
+    recordDeployment({
+      service,
+      env: 'prod',
+      region: 'eu-west-1',
+      sha1: 'a'.repeat(40),
+      checksumsKey: 'checksums',
+      deployedBy: 'arn:aws:iam::123456789012:user/alice',
+      duration: 42,
+      config,
+      state: state as unknown as State,
+      eventsLog: new EventsLog(),
+    });
+
+  it('should store the package and append the deployment to the history', async () => {
+    await writeBundle('deployed at a');
+    const state = { saveDeployment: stub().resolves() };
+    await record(state);
+    const key = packageManifestKey('users', 'prod', 'eu-west-1', 'a'.repeat(40));
+    expect(state.saveDeployment.getCall(0).args[0]).toEqual({
+      service: 'users',
+      env: 'prod',
+      region: 'eu-west-1',
+      sha1: 'a'.repeat(40),
+      checksums_buckets: 'mila-checksums',
+      checksums_key: 'checksums',
+      deployed_by: 'arn:aws:iam::123456789012:user/alice',
+      duration: 42,
+      package_key: key,
+    });
+    expect(await fs.readFile(join(root, '.cache', key), 'utf-8')).toContain('bundle.zip');
+  });
+
+  it('should record the deployment without package if it cannot be stored', async () => {
+    const state = { saveDeployment: stub().resolves() };
+    await record(state);
+    expect(state.saveDeployment.getCall(0).args[0]).not.toHaveProperty('package_key');
+  });
+
+  it('should not fail the deployment if history cannot be recorded', async () => {
+    await writeBundle('deployed at a');
+    const state = { saveDeployment: stub().rejects(new Error('Throttled')) };
+    await expect(record(state)).resolves.toBeUndefined();
+  });
+});
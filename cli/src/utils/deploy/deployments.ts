@@ -0,0 +1,213 @@
+import { promises as fs } from 'fs';
+import { lastValueFrom } from 'rxjs';
+import { join } from 'path';
+import { IRootConfig } from '@microlambda/config';
+import {
+  CacheBackends,
+  ContentAddressableStore,
+  IArtifactsManifest,
+  ICacheBackend,
+  Workspace,
+} from '@microlambda/runner-core';
+import { EventsLog, EventsLogger } from '@microlambda/logger';
+import { MilaError, MilaErrorCode } from '@microlambda/errors';
+import { IDeployment, State } from '@microlambda/remote-state';
+import { fs as fsUtils, resolveProjectRoot } from '@microlambda/utils';
+import { aws } from '@microlambda/aws';
+import { RESTORED_PACKAGE_ENV } from '@microlambda/core';
+import { logger } from '../logger';
+import { EnvsResolver } from './envs';
+
+const PACKAGE_DIRECTORY = '.package';
+
+export const SHORT_SHA1_LENGTH = 7;
+
+export const shortSha1 = (sha1: string): string => sha1.substring(0, SHORT_SHA1_LENGTH);
+
+export const packageManifestKey = (service: string, env: string, region: string, sha1: string): string =>
+  `deployments/${service}/${env}/${region}/${sha1}/package-manifest.json`;
+
+const listFiles = async (dir: string): Promise<Array<string>> => {
+  const files: Array<string> = [];
+  for (const entry of await fs.readdir(dir, { withFileTypes: true })) {
+    const path = join(dir, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...(await listFiles(path)));
+    } else if (entry.isFile()) {
+      files.push(path);
+    }
+  }
+  return files;
+};
+
+// Packages are stored in the remote cache configured for the project, checksums bucket by default
+const backend = (config: IRootConfig): ICacheBackend => CacheBackends.fromRootConfig(config, resolveProjectRoot());
+
+/**
+ * Store the deployment package of the service in remote cache, so it can be redeployed later on rollback.
+ * Files are stored in the content-addressable store, unchanged files are only uploaded once across deployments.
+ */
+export const storePackage = async (
+  service: Workspace,
+  config: IRootConfig,
+  key: string,
+  log?: EventsLogger,
+): Promise<void> => {
+  const location = join(service.root, PACKAGE_DIRECTORY);
+  if (!(await fsUtils.exists(location))) {
+    throw new MilaError(
+      MilaErrorCode.DEPLOYMENT_NOT_FOUND,
+      `No deployment package found for ${service.name} at ${location}`,
+    );
+  }
+  const store = new ContentAddressableStore(backend(config), log);
+  const { manifest } = await store.upload(await listFiles(location), service.root);
+  await store.backend.write(key, JSON.stringify(manifest, null, 2));
+  log?.debug('Deployment package stored', service.name, key);
+};
+
+/**
+ * Replace the current deployment package of the service by the one stored for the given deployment.
+ */
+export const restorePackage = async (
+  service: Workspace,
+  config: IRootConfig,
+  deployment: IDeployment,
+  log?: EventsLogger,
+): Promise<void> => {
+  if (!deployment.package_key) {
+    throw new MilaError(
+      MilaErrorCode.DEPLOYMENT_NOT_FOUND,
+      `No deployment package has been stored for ${service.name} at revision ${deployment.sha1}`,
+    );
+  }
+  const store = new ContentAddressableStore(backend(config), log);
+  const manifest = await store.backend.read(deployment.package_key);
+  if (!manifest) {
+    throw new MilaError(
+      MilaErrorCode.DEPLOYMENT_NOT_FOUND,
+      `Deployment package of ${service.name} at revision ${deployment.sha1} not found in ${store.backend.location}`,
+    );
+  }
+  await fs.rm(join(service.root, PACKAGE_DIRECTORY), { recursive: true, force: true });
+  await store.download(JSON.parse(manifest.toString('utf-8')) as IArtifactsManifest, service.root);
+  log?.debug('Deployment package restored', service.name, deployment.package_key);
+};
+
+export const resolveDeployer = async (config: IRootConfig): Promise<string> => {
+  try {
+    return (await aws.iam.getCurrentUser(config.defaultRegion)).arn;
+  } catch (e) {
+    return 'unknown';
+  }
+};
+
+/**
+ * Store deployment package and append the deployment to the history, so it can be rolled back later.
+ * A failure here must not fail the deployment itself.
+ */
+export const recordDeployment = async (params: {
+  service: Workspace;
+  env: string;
+  region: string;
+  sha1: string;
+  checksumsKey: string;
+  deployedBy: string;
+  duration: number;
+  config: IRootConfig;
+  state: State;
+  eventsLog: EventsLog;
+  rollbackFrom?: string;
+  promotedFrom?: string;
+}): Promise<void> => {
+  const { service, env, region, sha1, config, state, eventsLog } = params;
+  const log = eventsLog.scope('deploy/history');
+  let packageKey: string | undefined = packageManifestKey(service.name, env, region, sha1);
+  try {
+    await storePackage(service, config, packageKey, log);
+  } catch (err) {
+    packageKey = undefined;
+    logger.warn(
+      'Error storing deployment package for service',
+      service.name,
+      '- this deployment cannot be rolled back to',
+    );
+    log.error('Error storing deployment package for service', service.name, err);
+  }
+  try {
+    await state.saveDeployment({
+      service: service.name,
+      env,
+      region,
+      sha1,
+      checksums_buckets: config.state.checksums,
+      checksums_key: params.checksumsKey,
+      deployed_by: params.deployedBy,
+      duration: params.duration,
+      // Undefined attributes are rejected by DynamoDB document client
+      ...(packageKey ? { package_key: packageKey } : {}),
+      ...(params.rollbackFrom ? { rollback_from: params.rollbackFrom } : {}),
+      ...(params.promotedFrom ? { promoted_from: params.promotedFrom } : {}),
+    });
+  } catch (err) {
+    logger.warn('Error recording deployment history for service', service.name);
+    log.error('Error recording deployment history for service', service.name, err);
+  }
+};
+
+/**
+ * Redeploy a deployment package stored in the remote cache in the given environment and region, then update
+ * state and deployments history accordingly.
+ * The deploy target is run on the workspace directly, so that targets it depends on (i.e. package)
+ * are not run again and do not overwrite the restored package. The serverless plugin is told the package is restored
+ * so that it deploys it as is instead of rebuilding it from current sources.
+ */
+export const deployStoredPackage = async (params: {
+  service: Workspace;
+  env: string;
+  region: string;
+  deployment: IDeployment;
+  envs: EnvsResolver;
+  deployedBy: string;
+  verbose: boolean;
+  config: IRootConfig;
+  state: State;
+  eventsLog: EventsLog;
+  rollbackFrom?: string;
+  promotedFrom?: string;
+}): Promise<void> => {
+  const { service, env, region, deployment, config, state, eventsLog } = params;
+  const startedAt = Date.now();
+  await restorePackage(service, config, deployment, eventsLog.scope('deploy/history'));
+  await lastValueFrom(
+    service.run({
+      cmd: 'deploy',
+      mode: 'parallel',
+      force: true,
+      env: { ...(await params.envs.resolve(region)).get(service.name), [RESTORED_PACKAGE_ENV]: 'true' },
+      stdio: params.verbose ? 'inherit' : 'pipe',
+    }),
+  );
+  await state.createServiceInstance({
+    name: service.name,
+    region,
+    env,
+    sha1: deployment.sha1,
+    checksums_buckets: deployment.checksums_buckets,
+    checksums_key: deployment.checksums_key,
+  });
+  await recordDeployment({
+    service,
+    env,
+    region,
+    sha1: deployment.sha1,
+    checksumsKey: deployment.checksums_key,
+    deployedBy: params.deployedBy,
+    duration: Date.now() - startedAt,
+    config,
+    state,
+    eventsLog,
+    rollbackFrom: params.rollbackFrom,
+    promotedFrom: params.promotedFrom,
+  });
+};
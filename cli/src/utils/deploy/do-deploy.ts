@@ -1,14 +1,20 @@
 import { prompt } from 'inquirer';
 import chalk from 'chalk';
-import { ICommandResult, RunCommandEventEnum, Runner, Workspace } from '@microlambda/runner-core';
+import { CacheBackends, ICommandResult, RunCommandEventEnum, Runner, Workspace } from '@microlambda/runner-core';
 import { logger } from '../logger';
 import { beforePackage } from '../package/before-package';
 import { MilaSpinnies } from '../spinnies';
-import { Project } from '@microlambda/core';
+import {
+  isTrafficShiftingEvent,
+  Project,
+  TrafficShifter,
+  TrafficShiftingEvent,
+  TrafficShiftingEventType,
+} from '@microlambda/core';
 import { packageServices } from '../package/do-package';
-import { DeployEvent, printReport, RemoveEvent } from './print-report';
-import { from, Observable, of } from 'rxjs';
-import { catchError, concatAll, map, mergeAll, tap } from 'rxjs/operators';
+import { DeployEvent, printReport, RemoveEvent, toDeployResults } from './print-report';
+import { concat, defer, EMPTY, from, Observable, of } from 'rxjs';
+import { catchError, concatAll, concatMap, ignoreElements, map, mergeAll, tap } from 'rxjs/operators';
 import { handleNext } from './handle-next';
 import { IDeployCmd } from './cmd-options';
 import { Operations } from './resolve-deltas';
@@ -18,6 +24,9 @@ import { EnvsResolver } from './envs';
 import { EventsLog } from '@microlambda/logger';
 import { deploySharedInfra } from '../shared-infra/deploy';
 import { SSMResolverMode } from '@microlambda/environments';
+import { recordDeployment, resolveDeployer } from './deployments';
+import { isStructuredOutput, output } from '../output';
+import { handleTrafficShifting, printTrafficShiftingReport } from './traffic-shifting';
 
 export const performDeploy = async (params: {
   cmd: IDeployCmd;
@@ -37,6 +46,11 @@ export const performDeploy = async (params: {
     await releaseLock();
     process.exit(0);
   }
+  if (cmd.prompt && isStructuredOutput()) {
+    logger.error('Confirmation cannot be asked in JSON/YAML output mode, use --no-prompt or --only-prompt');
+    await releaseLock();
+    process.exit(1);
+  }
   if (cmd.prompt) {
     const answers = await prompt([
       {
@@ -76,6 +90,7 @@ export const performDeploy = async (params: {
   if (!toDeploy.size && !toDestroy.size) {
     logger.lf();
     logger.success('Nothing to do 👌');
+    output('results', []);
     await releaseLock();
     process.exit(0);
   }
@@ -114,9 +129,13 @@ export const performDeploy = async (params: {
   logger.info(chalk.underline(chalk.bold('▼ Deploying services')));
   logger.lf();
 
+  const deployedBy = await resolveDeployer(config);
+  const remoteCache = { backend: CacheBackends.fromRootConfig(config, params.projectRoot) };
+
   const failures: Set<DeployEvent> = new Set();
   const actions: Set<DeployEvent> = new Set();
-  const deployCommands$: Array<Observable<DeployEvent>> = [];
+  const trafficShiftingEvents: Array<TrafficShiftingEvent> = [];
+  const deployCommands$: Array<Observable<DeployEvent | TrafficShiftingEvent>> = [];
   logger.debug('Preparing deploy commands');
   for (const [serviceName, serviceOperations] of operations.entries()) {
     logger.debug('Processing', serviceName);
@@ -126,7 +145,10 @@ export const performDeploy = async (params: {
       await releaseLock();
       process.exit(1);
     }
-    const deployServiceInAllRegions$: Array<Observable<DeployEvent>> = [];
+    const deployServiceInAllRegions$: Array<Observable<DeployEvent | TrafficShiftingEvent>> = [];
+    const trafficShifter = service.trafficShifting
+      ? new TrafficShifter(service.trafficShifting, eventsLog.scope('deploy/traffic-shifting'))
+      : undefined;
     for (const [region, type] of serviceOperations.entries()) {
       logger.debug('Processing', serviceName, 'in region', region, type);
       if (['first_deploy', 'redeploy'].includes(type)) {
@@ -139,13 +161,39 @@ export const performDeploy = async (params: {
             AWS_REGION: region,
           },
           stdio: options.verbose ? 'inherit' : 'pipe',
-          remoteCache: {
-            region: config.defaultRegion,
-            bucket: config.state.checksums,
-          },
+          remoteCache: remoteCache.backend.location,
           cachePrefix,
         });
         const runner = new Runner(project, 1, eventsLog);
+        let startedAt = Date.now();
+        const checksumsKey = `${cachePrefix}/${currentRevision}/checksums.json`;
+        const saveDeployment = async (duration: number): Promise<void> => {
+          try {
+            await state.createServiceInstance({
+              name: service.name,
+              region,
+              env: env.name,
+              sha1: currentRevision,
+              checksums_buckets: config.state.checksums,
+              checksums_key: checksumsKey,
+            });
+          } catch (err) {
+            logger.warn('Error updating state for service', service.name);
+            eventsLog.scope('deploy').error('Error updating state for service', service.name, err);
+          }
+          await recordDeployment({
+            service,
+            env: env.name,
+            region,
+            sha1: currentRevision,
+            checksumsKey,
+            deployedBy,
+            duration,
+            config,
+            state,
+            eventsLog,
+          });
+        };
         const deploy$ = runner
           .runCommand({
             mode: 'parallel',
@@ -153,10 +201,7 @@ export const performDeploy = async (params: {
             cmd: 'deploy',
             env: await envs.resolve(region),
             stdio: options.verbose ? 'inherit' : 'pipe',
-            remoteCache: {
-              region: config.defaultRegion,
-              bucket: config.state.checksums,
-            },
+            remoteCache,
             cachePrefix,
           })
           .pipe(
@@ -165,24 +210,38 @@ export const performDeploy = async (params: {
               region,
               action: 'deploy' as const,
             })),
-            tap(async (evt) => {
-              if (evt.type === RunCommandEventEnum.NODE_PROCESSED) {
-                if (evt.result.commands.every((cmd) => (cmd as ICommandResult).exitCode === 0)) {
-                  try {
-                    await state.createServiceInstance({
-                      name: service.name,
-                      region,
-                      env: env.name,
-                      sha1: currentRevision,
-                      checksums_buckets: config.state.checksums,
-                      checksums_key: `${cachePrefix}/${currentRevision}/checksums.json`,
-                    });
-                  } catch (err) {
-                    logger.warn('Error updating state for service', service.name);
-                    eventsLog.scope('deploy').error('Error updating state for service', service.name, err);
-                  }
-                }
+            tap((evt) => {
+              if (evt.type === RunCommandEventEnum.NODE_STARTED) {
+                startedAt = Date.now();
+              }
+            }),
+            // Once deployed, traffic is progressively shifted to the new version if configured.
+            // State and history are only updated if the new version receives the traffic, and before completing, so
+            // the process does not exit while uploading.
+            concatMap((evt): Observable<DeployEvent | TrafficShiftingEvent> => {
+              if (
+                evt.type !== RunCommandEventEnum.NODE_PROCESSED ||
+                !evt.result.commands.every((cmd) => (cmd as ICommandResult).exitCode === 0)
+              ) {
+                return of(evt);
               }
+              const duration = Date.now() - startedAt;
+              let shifted = !trafficShifter;
+              return concat(
+                of(evt),
+                trafficShifter
+                  ? trafficShifter
+                      .shift(service, env.name, region)
+                      .pipe(tap((shift) => (shifted = shift.type === TrafficShiftingEventType.COMPLETED)))
+                  : EMPTY,
+                defer(async () => {
+                  if (shifted) {
+                    await saveDeployment(duration);
+                  } else {
+                    eventsLog.scope('deploy').warn('Traffic not shifted, state not updated', service.name, region);
+                  }
+                }).pipe(ignoreElements()),
+              );
             }),
             catchError((err) => {
               const evt = {
@@ -240,7 +299,11 @@ export const performDeploy = async (params: {
   return new Promise<void>((resolve, reject) => {
     deployProcess$.subscribe({
       next: (evt) => {
-        handleNext(evt, spinnies, failures, actions, options.verbose);
+        if (isTrafficShiftingEvent(evt)) {
+          handleTrafficShifting(evt, spinnies, trafficShiftingEvents);
+        } else {
+          handleNext(evt, spinnies, failures, actions, options.verbose);
+        }
       },
       error: async (err) => {
         logger.error('Unexpected error happened during deploy process', err);
@@ -248,8 +311,13 @@ export const performDeploy = async (params: {
         return reject(err);
       },
       complete: async () => {
-        if (failures.size) {
-          await printReport(actions, failures, deployCommands$.length, 'deploy', options.verbose);
+        const failedShifts = trafficShiftingEvents.filter((evt) => evt.type === TrafficShiftingEventType.FAILED);
+        output('results', toDeployResults(actions, failures, failedShifts));
+        printTrafficShiftingReport(trafficShiftingEvents);
+        if (failures.size || failedShifts.length) {
+          if (failures.size) {
+            await printReport(actions, failures, deployCommands$.length, 'deploy', options.verbose);
+          }
           await releaseLock();
           return reject();
         }
@@ -0,0 +1,220 @@
+import { mkdtempSync, promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { SinonStub, stub } from 'sinon';
+import { Project } from '@microlambda/core';
+import { MilaErrorCode } from '@microlambda/errors';
+import { IEnvironment, State } from '@microlambda/remote-state';
+import { Checksums } from '@microlambda/runner-core/lib/checksums';
+import {
+  buildDeployPlan,
+  diffDeployPlans,
+  IDeployPlan,
+  IPlannedOperation,
+  readDeployPlan,
+  writeDeployPlan,
+} from './plan';
+import { EnvsResolver } from './envs';
+import { IDeployCmd } from './cmd-options';
+import { ActionType, Operations } from './resolve-deltas';
+
+const operation = (attributes: Partial<IPlannedOperation> = {}): IPlannedOperation => ({
+  service: 'users',
+  region: 'eu-west-1',
+  action: 'redeploy',
+  checksums: 'checksums',
+  env: { AWS_REGION: 'hash' },
+  deployed: { sha1: 'a'.repeat(40), checksums_key: 'checksums-key' },
+  ...attributes,
+});
+
+const plan = (attributes: Partial<IDeployPlan> = {}): IDeployPlan => ({
+  version: 1,
+  env: 'prod',
+  regions: ['eu-west-1', 'us-east-1'],
+  sha1: 'b'.repeat(40),
+  created_at: '2023-01-01T00:00:00.000Z',
+  options: { force: false, forcePackage: false, forceDeploy: false },
+  operations: [operation(), operation({ service: 'orders' })],
+  ...attributes,
+});
+
+describe('[function] buildDeployPlan', () => {
+  const stubs: Record<string, SinonStub> = {};
+
+  beforeEach(() => {
+    stubs.calculate = stub(Checksums.prototype, 'calculate');
+  });
+
+  afterEach(() => {
+    Object.values(stubs).forEach((s) => s.restore());
+  });
+
+  it('should snapshot operations with sources checksums, environment hashes and deployed instances', async () => {
+    stubs.calculate.resolves({ checksums: { 'src/index.ts': 'b', 'package.json': 'a' } });
+    const project = {
+      services: new Map([
+        ['users', {}],
+        ['orders', {}],
+      ]),
+    } as unknown as Project;
+    const operations: Operations = new Map([
+      ['users', new Map<string, ActionType>([['eu-west-1', 'redeploy']])],
+      ['orders', new Map<string, ActionType>([['eu-west-1', 'destroy']])],
+    ]);
+    const state = {
+      listServiceInstances: stub().callsFake(async (env: string, service: string) =>
+        service === 'users' ? [{ region: 'eu-west-1', sha1: 'a'.repeat(40), checksums_key: 'checksums-key' }] : [],
+      ),
+    };
+    const envs = { resolve: stub().resolves(new Map([['users', { SECRET: 'p@ssw0rd', AWS_REGION: 'eu-west-1' }]])) };
+    const result = await buildDeployPlan({
+      env: { name: 'prod', regions: ['eu-west-1'] } as IEnvironment,
+      project,
+      cmd: { s: 'users,orders', force: true } as IDeployCmd,
+      operations,
+      state: state as unknown as State,
+      envs: envs as unknown as EnvsResolver,
+      sha1: 'b'.repeat(40),
+    });
+    expect(result).toMatchObject({
+      version: 1,
+      env: 'prod',
+      regions: ['eu-west-1'],
+      sha1: 'b'.repeat(40),
+      options: { services: ['users', 'orders'], force: true, forcePackage: false, forceDeploy: false },
+    });
+    expect(result.operations).toHaveLength(2);
+    const [users, orders] = result.operations;
+    expect(users).toMatchObject({
+      service: 'users',
+      action: 'redeploy',
+      deployed: { sha1: 'a'.repeat(40), checksums_key: 'checksums-key' },
+    });
+    expect(users.checksums).toMatch(/^[0-9a-f]{64}$/);
+    // Environment variables values are never written in the plan
+    expect(users.env).toEqual({
+      AWS_REGION: Checksums.hashValue('eu-west-1'),
+      SECRET: Checksums.hashValue('p@ssw0rd'),
+    });
+    expect(JSON.stringify(result)).not.toContain('p@ssw0rd');
+    expect(orders).toEqual({ service: 'orders', region: 'eu-west-1', action: 'destroy' });
+  });
+
+  it('should plan operations without checksums if they cannot be computed', async () => {
+    stubs.calculate.rejects(new Error('Cache disabled'));
+    const result = await buildDeployPlan({
+      env: { name: 'prod', regions: ['eu-west-1'] } as IEnvironment,
+      project: { services: new Map([['users', {}]]) } as unknown as Project,
+      cmd: {} as IDeployCmd,
+      operations: new Map([['users', new Map<string, ActionType>([['eu-west-1', 'first_deploy']])]]),
+      state: { listServiceInstances: stub().resolves([]) } as unknown as State,
+      envs: { resolve: stub().resolves(new Map()) } as unknown as EnvsResolver,
+      sha1: 'b'.repeat(40),
+    });
+    expect(result.operations).toEqual([
+      {
+        service: 'users',
+        region: 'eu-west-1',
+        action: 'first_deploy',
+        env: { AWS_REGION: Checksums.hashValue('eu-west-1') },
+      },
+    ]);
+  });
+});
+
+describe('[function] readDeployPlan', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'mila-plan-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('should read a written plan', async () => {
+    await writeDeployPlan(join(directory, 'plan.json'), plan());
+    expect(await readDeployPlan(join(directory, 'plan.json'))).toEqual(plan());
+  });
+
+  it('should refuse a plan that cannot be read', async () => {
+    await expect(readDeployPlan(join(directory, 'missing.json'))).rejects.toMatchObject({
+      code: MilaErrorCode.INVALID_DEPLOY_PLAN,
+    });
+    await fs.writeFile(join(directory, 'plan.json'), '{ not json');
+    await expect(readDeployPlan(join(directory, 'plan.json'))).rejects.toMatchObject({
+      code: MilaErrorCode.INVALID_DEPLOY_PLAN,
+    });
+  });
+
+  it('should refuse a plan with another version or missing attributes', async () => {
+    await writeDeployPlan(join(directory, 'plan.json'), plan({ version: 2 }));
+    await expect(readDeployPlan(join(directory, 'plan.json'))).rejects.toThrow(/is not a valid deploy plan/);
+    await fs.writeFile(join(directory, 'plan.json'), JSON.stringify({ ...plan(), operations: undefined }));
+    await expect(readDeployPlan(join(directory, 'plan.json'))).rejects.toThrow(/is not a valid deploy plan/);
+  });
+});
+
+describe('[function] diffDeployPlans', () => {
+  it('should not find any difference between identical plans', () => {
+    expect(diffDeployPlans(plan(), plan({ created_at: '2023-01-02T00:00:00.000Z' }))).toEqual([]);
+  });
+
+  it('should refuse a plan made for another environment', () => {
+    expect(diffDeployPlans(plan(), plan({ env: 'staging' }))).toEqual([
+      'Plan targets environment prod instead of staging',
+    ]);
+  });
+
+  it('should refuse a plan made on another revision', () => {
+    expect(diffDeployPlans(plan(), plan({ sha1: 'c'.repeat(40) }))).toEqual([
+      `Plan has been computed on revision ${'b'.repeat(40)}, current revision is ${'c'.repeat(40)}`,
+    ]);
+  });
+
+  it('should refuse a plan if environment regions changed', () => {
+    expect(diffDeployPlans(plan(), plan({ regions: ['us-east-1', 'eu-west-1'] }))).toEqual([]);
+    expect(diffDeployPlans(plan(), plan({ regions: ['eu-west-1'] }))).toEqual([
+      'Environment regions changed: eu-west-1',
+    ]);
+  });
+
+  it('should refuse a plan if an action changed', () => {
+    expect(
+      diffDeployPlans(
+        plan(),
+        plan({ operations: [operation({ action: 'no_changes' }), operation({ service: 'orders' })] }),
+      ),
+    ).toEqual(['users (eu-west-1) action changed from redeploy to no_changes']);
+  });
+
+  it('should refuse a plan if sources changed', () => {
+    expect(
+      diffDeployPlans(
+        plan(),
+        plan({ operations: [operation({ checksums: 'other' }), operation({ service: 'orders' })] }),
+      ),
+    ).toEqual(['users (eu-west-1) sources changed']);
+  });
+
+  it('should refuse a plan if environment variables changed', () => {
+    const operations = [operation({ env: { AWS_REGION: 'hash', SECRET: 'hash' } }), operation({ service: 'orders' })];
+    expect(diffDeployPlans(plan(), plan({ operations }))).toEqual(['users (eu-west-1) environment variables changed']);
+  });
+
+  it('should refuse a plan if a service has been deployed since', () => {
+    const deployed = { sha1: 'c'.repeat(40), checksums_key: 'checksums-key' };
+    expect(
+      diffDeployPlans(plan(), plan({ operations: [operation({ deployed }), operation({ service: 'orders' })] })),
+    ).toEqual(['users (eu-west-1) has been deployed since the plan was made']);
+  });
+
+  it('should refuse a plan if operations are missing or added', () => {
+    expect(diffDeployPlans(plan(), plan({ operations: [operation(), operation({ service: 'payments' })] }))).toEqual([
+      'orders (eu-west-1) is not part of the deployment anymore',
+      'payments (eu-west-1) is not part of the plan',
+    ]);
+  });
+});
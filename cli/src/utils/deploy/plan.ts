@@ -0,0 +1,198 @@
+import { promises as fs } from 'fs';
+import { createHash } from 'crypto';
+import { Checksums } from '@microlambda/runner-core/lib/checksums';
+import { IEnvironment, State } from '@microlambda/remote-state';
+import { Project } from '@microlambda/core';
+import { MilaError, MilaErrorCode } from '@microlambda/errors';
+import { EventsLogger } from '@microlambda/logger';
+import { ActionType, Operations } from './resolve-deltas';
+import { EnvsResolver } from './envs';
+import { IDeployCmd } from './cmd-options';
+
+const PLAN_VERSION = 1;
+
+export interface IPlannedOperation {
+  service: string;
+  region: string;
+  action: ActionType;
+  /**
+   * Hash of the deploy sources checksums, undefined when the service is not deployed by mila or cache is disabled
+   */
+  checksums?: string;
+  /**
+   * Hash of each environment variable injected in the deploy command, values themselves are never written
+   */
+  env?: Record<string, string>;
+  /**
+   * Service instance currently deployed, as read in remote state
+   */
+  deployed?: {
+    sha1: string;
+    checksums_key: string;
+  };
+}
+
+export interface IDeployPlan {
+  version: number;
+  env: string;
+  regions: Array<string>;
+  /**
+   * Git revision the plan has been computed on
+   */
+  sha1: string;
+  created_at: string;
+  /**
+   * Deploy options the plan has been computed with, applied again when the plan is applied
+   */
+  options: {
+    services?: Array<string>;
+    force: boolean;
+    forcePackage: boolean;
+    forceDeploy: boolean;
+  };
+  operations: Array<IPlannedOperation>;
+}
+
+const hash = (value: unknown): string => createHash('sha256').update(JSON.stringify(value)).digest('hex');
+
+const sortKeys = (record: Record<string, string>): Record<string, string> =>
+  Object.fromEntries(Object.entries(record).sort(([k1], [k2]) => k1.localeCompare(k2)));
+
+/**
+ * Snapshot the resolved deltas along with everything they depend on (sources checksums, environment variables and
+ * remote state), so that applying the plan later can detect whether one of them changed in the meantime.
+ */
+export const buildDeployPlan = async (params: {
+  env: IEnvironment;
+  project: Project;
+  cmd: IDeployCmd;
+  operations: Operations;
+  state: State;
+  envs: EnvsResolver;
+  sha1: string;
+  log?: EventsLogger;
+}): Promise<IDeployPlan> => {
+  const { env, project, cmd, operations, state, envs, log } = params;
+  const planned: Array<IPlannedOperation> = [];
+  for (const [service, serviceOperations] of operations.entries()) {
+    const instances = await state.listServiceInstances(env.name, service);
+    for (const [region, action] of serviceOperations.entries()) {
+      const operation: IPlannedOperation = { service, region, action };
+      const workspace = project.services.get(service);
+      if (workspace && action !== 'destroy' && action !== 'not_deployed') {
+        const resolvedEnv = (await envs.resolve(region)).get(service) ?? { AWS_REGION: region };
+        operation.env = sortKeys(
+          Object.fromEntries(Object.entries(resolvedEnv).map(([name, value]) => [name, Checksums.hashValue(value)])),
+        );
+        try {
+          const checksums = await new Checksums(workspace, 'deploy', [], resolvedEnv).calculate();
+          operation.checksums = hash(sortKeys(checksums.checksums));
+        } catch (e) {
+          log?.warn('Cannot compute deploy checksums', service, region, e);
+        }
+      }
+      const instance = instances.find((i) => i.region === region);
+      if (instance) {
+        operation.deployed = { sha1: instance.sha1, checksums_key: instance.checksums_key };
+      }
+      planned.push(operation);
+    }
+  }
+  return {
+    version: PLAN_VERSION,
+    env: env.name,
+    regions: env.regions,
+    sha1: params.sha1,
+    created_at: new Date().toISOString(),
+    options: {
+      services: cmd.s?.split(','),
+      force: !!cmd.force,
+      forcePackage: !!cmd.forcePackage,
+      forceDeploy: !!cmd.forceDeploy,
+    },
+    operations: planned,
+  };
+};
+
+export const writeDeployPlan = async (path: string, plan: IDeployPlan): Promise<void> => {
+  await fs.writeFile(path, JSON.stringify(plan, null, 2) + '\n');
+};
+
+export const readDeployPlan = async (path: string): Promise<IDeployPlan> => {
+  let plan: Partial<IDeployPlan>;
+  try {
+    plan = JSON.parse(await fs.readFile(path, 'utf-8'));
+  } catch (e) {
+    throw new MilaError(MilaErrorCode.INVALID_DEPLOY_PLAN, `Cannot read deploy plan ${path}`, e);
+  }
+  if (plan.version !== PLAN_VERSION || !plan.env || !plan.sha1 || !plan.options || !Array.isArray(plan.operations)) {
+    throw new MilaError(MilaErrorCode.INVALID_DEPLOY_PLAN, `${path} is not a valid deploy plan`);
+  }
+  return plan as IDeployPlan;
+};
+
+export const toOperations = (plan: IDeployPlan): Operations => {
+  const operations: Operations = new Map();
+  for (const op of plan.operations) {
+    const serviceOperations = operations.get(op.service) ?? new Map<string, ActionType>();
+    serviceOperations.set(op.region, op.action);
+    operations.set(op.service, serviceOperations);
+  }
+  return operations;
+};
+
+/**
+ * List what changed between the plan that has been reviewed and the one resolved now, empty if the plan
+ * can be applied as is.
+ */
+export const diffDeployPlans = (planned: IDeployPlan, current: IDeployPlan): Array<string> => {
+  const differences: Array<string> = [];
+  if (planned.env !== current.env) {
+    differences.push(`Plan targets environment ${planned.env} instead of ${current.env}`);
+  }
+  if (planned.sha1 !== current.sha1) {
+    differences.push(`Plan has been computed on revision ${planned.sha1}, current revision is ${current.sha1}`);
+  }
+  if (JSON.stringify([...planned.regions].sort()) !== JSON.stringify([...current.regions].sort())) {
+    differences.push(`Environment regions changed: ${current.regions.join(', ')}`);
+  }
+  const key = (op: IPlannedOperation): string => `${op.service} (${op.region})`;
+  const currentOperations = new Map(current.operations.map((op) => [key(op), op]));
+  const plannedOperations = new Map(planned.operations.map((op) => [key(op), op]));
+  for (const [label, op] of plannedOperations.entries()) {
+    const now = currentOperations.get(label);
+    if (!now) {
+      differences.push(`${label} is not part of the deployment anymore`);
+      continue;
+    }
+    if (op.action !== now.action) {
+      differences.push(`${label} action changed from ${op.action} to ${now.action}`);
+    }
+    if (op.checksums !== now.checksums) {
+      differences.push(`${label} sources changed`);
+    }
+    if (JSON.stringify(op.env ?? {}) !== JSON.stringify(now.env ?? {})) {
+      differences.push(`${label} environment variables changed`);
+    }
+    if (op.deployed?.sha1 !== now.deployed?.sha1 || op.deployed?.checksums_key !== now.deployed?.checksums_key) {
+      differences.push(`${label} has been deployed since the plan was made`);
+    }
+  }
+  for (const label of currentOperations.keys()) {
+    if (!plannedOperations.has(label)) {
+      differences.push(`${label} is not part of the plan`);
+    }
+  }
+  return differences;
+};
+
+/**
+ * Deploy options are the ones the plan has been computed with, so that deltas are resolved the same way
+ */
+export const withPlanOptions = (cmd: IDeployCmd, plan: IDeployPlan): IDeployCmd => ({
+  ...cmd,
+  s: plan.options.services?.join(','),
+  force: plan.options.force,
+  forcePackage: plan.options.forcePackage,
+  forceDeploy: plan.options.forceDeploy,
+});
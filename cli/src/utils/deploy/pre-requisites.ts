@@ -11,7 +11,7 @@ import { Project } from '@microlambda/core';
 import { IRootConfig } from '@microlambda/config';
 
 export const beforeDeploy = async (
-  cmd: IDeployCmd,
+  cmd: Pick<IDeployCmd, 'e' | 's' | 'install'>,
   eventsLog: EventsLog,
 ): Promise<{
   state: State;
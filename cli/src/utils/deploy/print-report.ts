@@ -1,4 +1,5 @@
 import { isDaemon, isNodeSucceededEvent, RunCommandEvent, RunCommandEventEnum } from '@microlambda/runner-core';
+import { TrafficShiftingEvent } from '@microlambda/core';
 import { logger } from '../logger';
 import chalk from 'chalk';
 import { printError } from '../print-process-error';
@@ -100,3 +101,52 @@ export const printReport = async (
     logger.error(chalk.green('Process exited without errors'));
   }
 };
+
+export interface IDeployResult {
+  service: string;
+  region: string;
+  action: 'deploy' | 'remove';
+  status: 'succeeded' | 'failed';
+  error?: string;
+}
+
+/**
+ * Results of a deployment, to be printed in JSON/YAML output mode.
+ * Services deployed whose traffic shifting failed are reported as failed.
+ */
+export const toDeployResults = (
+  actions: Set<DeployEvent>,
+  failures: Set<DeployEvent>,
+  failedShifts: Array<TrafficShiftingEvent> = [],
+): Array<IDeployResult> => {
+  const isTargetEvent = (evt: DeployEvent): boolean =>
+    !!evt.region &&
+    evt.type !== RunCommandEventEnum.TARGETS_RESOLVED &&
+    evt.type !== RunCommandEventEnum.SOURCES_CHANGED;
+  const errorMessage = (error: unknown): string => (error instanceof Error ? error.message : String(error));
+  const toResult = (evt: DeployEvent, status: IDeployResult['status']): IDeployResult => {
+    const error = (evt as { error?: unknown }).error;
+    const service = (evt as { target: { workspace: { name: string } } }).target.workspace.name;
+    const failedShift = failedShifts.find((shift) => shift.workspace.name === service && shift.region === evt.region);
+    if (status === 'succeeded' && failedShift) {
+      return {
+        service,
+        region: evt.region,
+        action: evt.action,
+        status: 'failed',
+        error: errorMessage((failedShift as { error: unknown }).error),
+      };
+    }
+    return {
+      service,
+      region: evt.region,
+      action: evt.action,
+      status,
+      ...(error ? { error: errorMessage(error) } : {}),
+    };
+  };
+  return [
+    ...[...actions].filter(isTargetEvent).map((evt) => toResult(evt, 'succeeded')),
+    ...[...failures].filter(isTargetEvent).map((evt) => toResult(evt, 'failed')),
+  ];
+};
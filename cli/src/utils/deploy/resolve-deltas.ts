@@ -1,18 +1,58 @@
-import { aws } from '@microlambda/aws';
 import { Checksums } from '@microlambda/runner-core/lib/checksums';
 import { logger } from '../logger';
 import chalk from 'chalk';
 import { IEnvironment, State } from '@microlambda/remote-state';
 import Table from 'cli-table3';
 import { Project } from '@microlambda/core';
+import { CacheBackends } from '@microlambda/runner-core';
 import { IDeployCmd } from './cmd-options';
 import { IRootConfig } from '@microlambda/config';
 import { EventsLog } from '@microlambda/logger';
 import { EnvsResolver } from './envs';
+import { mapToObject, output } from '../output';
 
 export type ActionType = 'first_deploy' | 'redeploy' | 'no_changes' | 'destroy' | 'not_deployed';
 export type Operations = Map<string, Map<string, ActionType>>;
 
+const printType = (type: ActionType): string => {
+  switch (type) {
+    case 'redeploy':
+    case 'first_deploy':
+      return chalk.green(type);
+    case 'no_changes':
+      return chalk.cyan(type);
+    case 'not_deployed':
+      return chalk.grey(type);
+    case 'destroy':
+      return chalk.red.bold(type);
+  }
+};
+
+export const printOperations = (regions: Array<string>, operations: Operations): void => {
+  const allRegions = new Set<string>();
+  regions.forEach((r) => allRegions.add(r));
+  operations.forEach((op) => op.forEach((t, r) => allRegions.add(r)));
+
+  const table = new Table({
+    head: ['Service', ...allRegions],
+    style: {
+      head: ['cyan'],
+    },
+  });
+
+  for (const [serviceName, serviceOperations] of operations.entries()) {
+    const row = [chalk.bold(serviceName)];
+    for (const region of allRegions) {
+      const type = serviceOperations.get(region);
+      row.push(type ? printType(type) : printType('not_deployed'));
+    }
+    table.push(row);
+  }
+  // Printed through logger so that it goes to stderr in JSON/YAML output mode
+  logger.info(table.toString());
+  logger.lf();
+};
+
 export const resolveDeltas = async (
   env: IEnvironment,
   project: Project,
@@ -32,6 +72,8 @@ export const resolveDeltas = async (
   const targets = cmd.s ? graphServices.filter((s) => cmd.s?.split(',').includes(s.name)) : graphServices;
   const operations = new Map<string, Map<string, ActionType>>();
   const defaultRegions = env.regions;
+  // Checksums are written in the remote cache configured for the project on deploy
+  const remoteCache = CacheBackends.fromRootConfig(config, project.root);
 
   for (const localService of targets) {
     const serviceOperations = new Map<string, ActionType>();
@@ -52,11 +94,7 @@ export const resolveDeltas = async (
             serviceOperations.set(targetRegion, 'redeploy');
             continue;
           }
-          const rawStoredChecksums = await aws.s3.downloadBuffer(
-            deployedRegionalServiceInstance.checksums_buckets,
-            deployedRegionalServiceInstance.checksums_key,
-            config.defaultRegion,
-          );
+          const rawStoredChecksums = await remoteCache.read(deployedRegionalServiceInstance.checksums_key);
           const storedChecksums = rawStoredChecksums ? JSON.parse(rawStoredChecksums?.toString('utf-8')) : {};
           const resolvedEnvs = await envs.resolve(targetRegion);
           const resolvedEnv = resolvedEnvs.get(localService.name) ?? { AWS_REGION: targetRegion };
@@ -103,41 +141,7 @@ export const resolveDeltas = async (
     }
   }
 
-  const printType = (type: ActionType): string => {
-    switch (type) {
-      case 'redeploy':
-      case 'first_deploy':
-        return chalk.green(type);
-      case 'no_changes':
-        return chalk.cyan(type);
-      case 'not_deployed':
-        return chalk.grey(type);
-      case 'destroy':
-        return chalk.red.bold(type);
-    }
-  };
-
-  const allRegions = new Set<string>();
-  env.regions.forEach((r) => allRegions.add(r));
-  operations.forEach((op) => op.forEach((t, r) => allRegions.add(r)));
-
-  const table = new Table({
-    head: ['Service', ...allRegions],
-    style: {
-      head: ['cyan'],
-    },
-  });
-
-  for (const [serviceName, serviceOperations] of operations.entries()) {
-    const row = [chalk.bold(serviceName)];
-    for (const region of allRegions) {
-      const type = serviceOperations.get(region);
-      row.push(type ? printType(type) : printType('not_deployed'));
-    }
-    table.push(row);
-  }
-  // eslint-disable-next-line no-console
-  console.log(table.toString());
-  logger.lf();
+  printOperations(env.regions, operations);
+  output('plan', { env: env.name, regions: env.regions, operations: mapToObject(operations) });
   return operations;
 };
@@ -0,0 +1,74 @@
+import chalk from 'chalk';
+import { TrafficShiftingEvent, TrafficShiftingEventType } from '@microlambda/core';
+import { MilaSpinnies } from '../spinnies';
+import { logger } from '../logger';
+import { printError } from '../print-process-error';
+
+const key = (evt: TrafficShiftingEvent): string => `${evt.workspace.name}|${evt.region}|traffic`;
+
+const label = (evt: TrafficShiftingEvent): string => `${evt.workspace.name} ${chalk.magenta(`[${evt.region}]`)}`;
+
+export const handleTrafficShifting = (
+  evt: TrafficShiftingEvent,
+  spinnies: MilaSpinnies,
+  events: Array<TrafficShiftingEvent>,
+): void => {
+  events.push(evt);
+  switch (evt.type) {
+    case TrafficShiftingEventType.STARTED:
+      spinnies.add(
+        key(evt),
+        `Shifting traffic of ${label(evt)} to new version ${chalk.grey(`(${[...evt.steps, 100].join('% → ')}%)`)}`,
+      );
+      break;
+    case TrafficShiftingEventType.SHIFTED:
+      spinnies.update(key(evt), `Shifting traffic of ${label(evt)}: ${evt.percentage}% on new version, watching alarms`);
+      break;
+    case TrafficShiftingEventType.ALARM:
+      spinnies.update(key(evt), `Alarm triggered for ${label(evt)}: ${evt.alarms.join(', ')}`);
+      break;
+    case TrafficShiftingEventType.ROLLED_BACK:
+      spinnies.update(key(evt), `Shifted traffic of ${label(evt)} back to previous version`);
+      break;
+    case TrafficShiftingEventType.COMPLETED:
+      if (evt.functions.length) {
+        spinnies.succeed(key(evt), `Shifted all traffic of ${label(evt)} to new version`);
+      }
+      break;
+    case TrafficShiftingEventType.FAILED:
+      spinnies.fail(key(evt), `Error shifting traffic of ${label(evt)} !`);
+      break;
+  }
+};
+
+export const printTrafficShiftingReport = (events: Array<TrafficShiftingEvent>): void => {
+  const outcomes = events.filter(
+    (evt) =>
+      (evt.type === TrafficShiftingEventType.COMPLETED && evt.functions.length) ||
+      evt.type === TrafficShiftingEventType.ROLLED_BACK ||
+      evt.type === TrafficShiftingEventType.FAILED,
+  );
+  if (!outcomes.length) {
+    return;
+  }
+  logger.lf();
+  logger.info(chalk.underline(chalk.bold('▼ Traffic shifting summary\n')));
+  for (const evt of outcomes) {
+    switch (evt.type) {
+      case TrafficShiftingEventType.COMPLETED:
+        logger.info(
+          `${label(evt)}: all traffic shifted`,
+          chalk.grey(evt.functions.map((fn) => `${fn.name} ${fn.from} → ${fn.to}`).join(', ')),
+        );
+        break;
+      case TrafficShiftingEventType.ROLLED_BACK:
+        logger.warn(`${evt.workspace.name} [${evt.region}]: traffic shifted back to previous version`);
+        break;
+      case TrafficShiftingEventType.FAILED:
+        logger.error(`${evt.workspace.name} [${evt.region}]: traffic shifting failed`);
+        printError(evt.error);
+        break;
+    }
+  }
+  logger.lf();
+};
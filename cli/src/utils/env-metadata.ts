@@ -0,0 +1,52 @@
+import chalk from 'chalk';
+import { IEnvironment } from '@microlambda/remote-state';
+import { logger } from './logger';
+
+export interface IEnvMetadataCmd {
+  description?: string;
+  owner?: string;
+  tags?: string;
+  allowedBranches?: string;
+}
+
+/**
+ * Parse a coma-separated list of key=value pairs, e.g. team=payments,cost-center=42
+ */
+export const parseTags = (raw: string): Record<string, string> => {
+  const tags: Record<string, string> = {};
+  for (const pair of raw.split(',').filter((p) => !!p.trim())) {
+    const [key, ...value] = pair.split('=');
+    if (!key.trim()) {
+      logger.error(chalk.red(`Invalid tag ${pair}, tags must be given as key=value`));
+      process.exit(1);
+    }
+    tags[key.trim()] = value.join('=').trim();
+  }
+  return tags;
+};
+
+export const parseList = (raw: string): Array<string> =>
+  raw
+    .split(',')
+    .map((item) => item.trim())
+    .filter((item) => !!item);
+
+export const printEnvMetadata = (env: IEnvironment): void => {
+  const print = (label: string, value?: string): void => {
+    if (value) {
+      logger.info(`${chalk.grey(label.padEnd(18))}${value}`);
+    }
+  };
+  print('Regions', env.regions.join(', '));
+  print('Description', env.description);
+  print('Owner', env.owner);
+  print('Tags', env.tags && Object.entries(env.tags).map(([key, value]) => `${key}=${value}`).join(', '));
+  print('Created by', env.created_by);
+  print('Created at', env.created_at);
+  print('Protected', env.protected ? chalk.yellow('yes') : 'no');
+  print('Allowed branches', env.allowed_branches?.length ? env.allowed_branches.join(', ') : 'all');
+  if (env.preview) {
+    print('Preview of branch', env.preview.branch);
+    print('Expires at', env.preview.expires_at);
+  }
+};
@@ -1,5 +1,6 @@
 import chalk from 'chalk';
 import { inspect } from 'util';
+import { isStructuredOutput } from './output';
 
 const printArg = (arg: unknown): string => {
   switch (typeof arg) {
@@ -18,13 +19,15 @@ const printArg = (arg: unknown): string => {
 };
 
 /* eslint-disable no-console */
+const print = (...args: unknown[]): void => (isStructuredOutput() ? console.error(...args) : console.log(...args));
+
 export const logger = {
   took: (ms: number): string => chalk.magenta(`Took ${ms}ms`),
   hint: (...args: unknown[]): void => {
-    console.info(args.map((a) => chalk.grey(printArg(a))).join(' '));
+    print(args.map((a) => chalk.grey(printArg(a))).join(' '));
   },
   info: (...args: unknown[]): void => {
-    console.log(args.map((a) => printArg(a)).join(' '));
+    print(args.map((a) => printArg(a)).join(' '));
   },
   success: (...args: unknown[]): void => {
     console.error(args.map((a) => chalk.green.bold(printArg(a))).join(' '));
@@ -43,7 +46,7 @@ export const logger = {
   },
   debug(...args: unknown[]): void {
     if (process.env.MILA_DEBUG) {
-      console.debug(chalk.bold.cyan('debug'), args.map((a) => printArg(a)).join(' '));
+      print(chalk.bold.cyan('debug'), args.map((a) => printArg(a)).join(' '));
     }
   },
 };
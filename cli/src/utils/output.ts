@@ -0,0 +1,59 @@
+import { writeSync } from 'fs';
+import { dump } from 'js-yaml';
+
+export type OutputFormat = 'text' | 'json' | 'yaml';
+
+let format: OutputFormat = 'text';
+const document: Record<string, unknown> = {};
+let isFlushRegistered = false;
+
+export const setOutputFormat = (options: { json?: boolean; yaml?: boolean }): void => {
+  if (options.json) {
+    format = 'json';
+  } else if (options.yaml) {
+    format = 'yaml';
+  }
+};
+
+/**
+ * In JSON/YAML output mode, stdout is reserved to the structured document, human-readable logs and tables
+ * are respectively printed on stderr and skipped.
+ */
+export const isStructuredOutput = (): boolean => format !== 'text';
+
+export const formatOutput = (data: unknown, outputFormat: Exclude<OutputFormat, 'text'>): string =>
+  outputFormat === 'json' ? JSON.stringify(data, null, 2) + '\n' : dump(data, { skipInvalid: true });
+
+/**
+ * Add a section to the structured document printed on stdout when the process exits. The document is printed
+ * on exit as most commands end with process.exit, and so that sections gathered all along a command, like
+ * a deployment plan and then its results, are printed as a single document.
+ */
+export const output = (key: string, data: unknown): void => {
+  if (!isStructuredOutput()) {
+    return;
+  }
+  // Serialized right away, so later mutations of data are not printed
+  document[key] = JSON.parse(JSON.stringify(data));
+  if (!isFlushRegistered) {
+    isFlushRegistered = true;
+    process.on('exit', () => {
+      // Synchronous write, as asynchronous operations are not run on exit
+      writeSync(1, formatOutput(document, format === 'yaml' ? 'yaml' : 'json'));
+    });
+  }
+};
+
+/**
+ * Convert nested maps, such as deployment operations, into plain objects
+ */
+export const mapToObject = <T>(map: Map<string, T>): Record<string, unknown> =>
+  Object.fromEntries(
+    [...map.entries()].map(([key, value]) => [key, value instanceof Map ? mapToObject(value) : value]),
+  );
+
+/**
+ * Remove remote state partition and sort keys (k1, k2...) from an item
+ */
+export const withoutStateKeys = <T extends object>(item: T): Partial<T> =>
+  Object.fromEntries(Object.entries(item).filter(([key]) => !/^k\d$/.test(key))) as Partial<T>;
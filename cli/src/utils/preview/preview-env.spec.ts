@@ -0,0 +1,74 @@
+import { Project } from '@microlambda/core';
+import { IEnvironment } from '@microlambda/remote-state';
+import { Workspace } from '@microlambda/runner-core';
+import { isPreviewExpired, previewEnvName, resolveAffectedServices } from './preview-env';
+
+describe('[function] previewEnvName', () => {
+  it('should slug branch name', () => {
+    expect(previewEnvName('fix/Login_form')).toBe('preview-fix-login-form');
+    expect(previewEnvName('feature/JIRA-42')).toBe('preview-feature-jira-42');
+    expect(previewEnvName('--hotfix//#12--')).toBe('preview-hotfix-12');
+  });
+
+  it('should use the given prefix', () => {
+    expect(previewEnvName('fix/login', 'pr-')).toBe('pr-fix-login');
+  });
+
+  it('should truncate long names and suffix them by a hash of the branch name', () => {
+    const name = previewEnvName('feature/new-checkout-flow-with-coupons');
+    expect(name).toMatch(/^preview-feature-n-[0-9a-f]{6}$/);
+    expect(name.length).toBeLessThanOrEqual(24);
+    expect(previewEnvName('feature/new-checkout-flow-with-coupons')).toBe(name);
+  });
+
+  it('should give distinct names to long branch names sharing the same prefix', () => {
+    const first = previewEnvName('feature/new-checkout-flow-with-coupons');
+    const second = previewEnvName('feature/new-checkout-flow-with-gift-cards');
+    expect(first).not.toBe(second);
+    expect(first.substring(0, 17)).toBe(second.substring(0, 17));
+  });
+
+  it('should not leave a trailing dash before the hash when truncating', () => {
+    expect(previewEnvName('abcdefghi-jklmnopqrstuvwxyz')).toMatch(/^preview-abcdefghi-[0-9a-f]{6}$/);
+    expect(previewEnvName('abcdefgh-ijklmnopqrstuvwxyz')).toMatch(/^preview-abcdefgh-[0-9a-f]{6}$/);
+  });
+});
+
+describe('[function] isPreviewExpired', () => {
+  const now = new Date('2023-01-08T00:00:00.000Z').getTime();
+
+  it('should only expire preview environments past their expiration date', () => {
+    const preview = (expiresAt: string): IEnvironment =>
+      ({ name: 'preview-fix', preview: { expires_at: expiresAt } } as IEnvironment);
+    expect(isPreviewExpired(preview('2023-01-07T00:00:00.000Z'), now)).toBe(true);
+    expect(isPreviewExpired(preview('2023-01-09T00:00:00.000Z'), now)).toBe(false);
+    expect(isPreviewExpired({ name: 'dev' } as IEnvironment, now)).toBe(false);
+  });
+});
+
+describe('[function] resolveAffectedServices', () => {
+  const workspace = (name: string, affected: boolean, dependencies: Array<Workspace> = []): Workspace =>
+    ({ name, isAffected: async () => affected, dependencies: () => dependencies } as unknown as Workspace);
+
+  it('should resolve affected services along with the services they depend on', async () => {
+    const shared = workspace('@org/shared', true);
+    const orders = workspace('orders', false, [shared]);
+    const users = workspace('users', false, [shared, orders]);
+    const payments = workspace('payments', true, [users]);
+    const notifications = workspace('notifications', false);
+    const project = {
+      services: new Map([
+        ['orders', orders],
+        ['users', users],
+        ['payments', payments],
+        ['notifications', notifications],
+      ]),
+    } as unknown as Project;
+    expect((await resolveAffectedServices(project, 'origin/main')).sort()).toEqual(['orders', 'payments', 'users']);
+  });
+
+  it('should resolve no services if none is affected', async () => {
+    const project = { services: new Map([['users', workspace('users', false)]]) } as unknown as Project;
+    expect(await resolveAffectedServices(project, 'origin/main')).toEqual([]);
+  });
+});
@@ -0,0 +1,75 @@
+import { createHash } from 'crypto';
+import { IRootConfig } from '@microlambda/config';
+import { Project } from '@microlambda/core';
+import { IEnvironment } from '@microlambda/remote-state';
+import { parseDuration, Workspace } from '@microlambda/runner-core';
+import { EventsLogger } from '@microlambda/logger';
+
+const DEFAULT_PREFIX = 'preview-';
+const DEFAULT_TTL = '7d';
+const DEFAULT_BASE = 'origin/main';
+
+/**
+ * Environment name ends up in stacks and functions names, which are limited to 64 characters.
+ */
+const MAX_NAME_LENGTH = 24;
+
+/**
+ * Derive a preview environment name from a branch name, e.g. fix/Login_form gives preview-fix-login-form.
+ * Names too long are truncated and suffixed by a hash of the branch name,
+ * so that two branches sharing the same prefix do not share the same preview.
+ */
+export const previewEnvName = (branch: string, prefix = DEFAULT_PREFIX): string => {
+  const slug = branch
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+  const name = `${prefix}${slug}`;
+  if (name.length <= MAX_NAME_LENGTH) {
+    return name;
+  }
+  const hash = createHash('sha1').update(branch).digest('hex').substring(0, 6);
+  const truncated = slug.substring(0, MAX_NAME_LENGTH - prefix.length - hash.length - 1).replace(/-+$/, '');
+  return `${prefix}${truncated}-${hash}`;
+};
+
+export const resolvePreviewSettings = (
+  config: IRootConfig,
+): { prefix: string; ttl: number; base: string; regions: Array<string> } => ({
+  prefix: config.previews?.prefix ?? DEFAULT_PREFIX,
+  ttl: parseDuration(config.previews?.ttl ?? DEFAULT_TTL),
+  base: config.previews?.base ?? DEFAULT_BASE,
+  regions: config.previews?.regions ?? [config.defaultRegion],
+});
+
+export const isPreviewExpired = (env: IEnvironment, now = Date.now()): boolean =>
+  !!env.preview && new Date(env.preview.expires_at).getTime() < now;
+
+const collectServiceDependencies = (workspace: Workspace, project: Project, collected: Set<string>): void => {
+  for (const dep of workspace.dependencies()) {
+    if (project.services.has(dep.name) && !collected.has(dep.name)) {
+      collected.add(dep.name);
+      collectServiceDependencies(dep, project, collected);
+    }
+  }
+};
+
+/**
+ * Services affected since base revision, either because their sources or the sources of one of their
+ * dependencies changed, plus the services they depend on.
+ */
+export const resolveAffectedServices = async (
+  project: Project,
+  base: string,
+  log?: EventsLogger,
+): Promise<Array<string>> => {
+  const affected = new Set<string>();
+  for (const service of project.services.values()) {
+    if (await service.isAffected(base)) {
+      log?.debug('Service affected', service.name, base);
+      affected.add(service.name);
+      collectServiceDependencies(service, project, affected);
+    }
+  }
+  return [...affected];
+};
@@ -0,0 +1,97 @@
+import { mkdtempSync, promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { stub } from 'sinon';
+import { IRootConfig } from '@microlambda/config';
+import { Project } from '@microlambda/core';
+import { EventsLog } from '@microlambda/logger';
+import { IDeployment, IEnvironment, IServiceInstance, State } from '@microlambda/remote-state';
+import { Workspace } from '@microlambda/runner-core';
+import { resolvePromotionDeltas } from './resolve-deltas';
+
+describe('[function] resolvePromotionDeltas', () => {
+  let root: string;
+  let config: IRootConfig;
+  const users = { name: 'users', hasCommand: () => true } as unknown as Workspace;
+  const project = (): Project => ({ root, services: new Map([['users', users]]) } as unknown as Project);
+  const staging = { name: 'staging', regions: ['eu-west-1'] } as IEnvironment;
+  const prod = { name: 'prod', regions: ['eu-west-1'] } as IEnvironment;
+
+  const instance = (
+    env: string,
+    sha1: string,
+    checksumsKey = `caches/users/deploy/${env}/eu-west-1/${sha1}`,
+  ): IServiceInstance =>
+    ({
+      name: 'users',
+      env,
+      region: 'eu-west-1',
+      sha1,
+      checksums_buckets: 'mila-checksums',
+      checksums_key: checksumsKey,
+    } as IServiceInstance);
+
+  const deployment = (env: string, sha1: string, packageKey?: string): IDeployment =>
+    ({ service: 'users', env, region: 'eu-west-1', sha1, package_key: packageKey } as IDeployment);
+
+  const resolve = (
+    state: Partial<Record<keyof State, unknown>>,
+    force = false,
+  ): ReturnType<typeof resolvePromotionDeltas> =>
+    resolvePromotionDeltas({
+      from: staging,
+      to: prod,
+      project: project(),
+      force,
+      state: state as unknown as State,
+      config,
+      eventsLog: new EventsLog(),
+    });
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'mila-promote-'));
+    config = {
+      defaultRegion: 'eu-west-1',
+      defaultRuntime: 'nodejs16.x',
+      state: { table: 'mila-state', checksums: 'mila-checksums' },
+      cache: { backend: { type: 'filesystem', path: join(root, '.cache') } },
+    };
+  });
+
+  afterEach(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  it('should promote the package stored for the revision running in source environment', async () => {
+    const { operations, promotions } = await resolve({
+      listServices: stub().resolves([instance('staging', 'a'.repeat(40))]),
+      listServiceInstances: stub().resolves([instance('prod', 'b'.repeat(40))]),
+      listDeployments: stub()
+        .withArgs('staging', 'users', 'eu-west-1')
+        .resolves([
+          deployment('staging', 'c'.repeat(40), 'deployments/users/staging/eu-west-1/ccc/package-manifest.json'),
+          deployment('staging', 'a'.repeat(40)),
+          deployment('staging', 'a'.repeat(40), 'deployments/users/staging/eu-west-1/aaa/package-manifest.json'),
+        ]),
+    });
+    expect(operations.get('users')?.get('eu-west-1')).toBe('redeploy');
+    expect(promotions).toHaveLength(1);
+    expect(promotions[0].source.sha1).toBe('a'.repeat(40));
+    expect(promotions[0].deployment?.package_key).toBe('deployments/users/staging/eu-west-1/aaa/package-manifest.json');
+  });
+
+  it('should not promote a revision already deployed with the same checksums', async () => {
+    const checksums = JSON.stringify({ 'src/index.ts': 'hash' });
+    await fs.mkdir(join(root, '.cache', 'staging'), { recursive: true });
+    await fs.mkdir(join(root, '.cache', 'prod'), { recursive: true });
+    await fs.writeFile(join(root, '.cache', 'staging', 'checksums.json'), checksums);
+    await fs.writeFile(join(root, '.cache', 'prod', 'checksums.json'), checksums);
+    const state = {
+      listServices: stub().resolves([instance('staging', 'a'.repeat(40), 'staging/checksums.json')]),
+      listServiceInstances: stub().resolves([instance('prod', 'a'.repeat(40), 'prod/checksums.json')]),
+      listDeployments: stub().resolves([]),
+    };
+    expect((await resolve(state)).promotions).toHaveLength(0);
+    expect((await resolve(state, true)).promotions).toHaveLength(1);
+  });
+});
@@ -0,0 +1,110 @@
+import chalk from 'chalk';
+import { Checksums } from '@microlambda/runner-core/lib/checksums';
+import { CacheBackends, ICacheBackend, Workspace } from '@microlambda/runner-core';
+import { Project } from '@microlambda/core';
+import { IRootConfig } from '@microlambda/config';
+import { EventsLog } from '@microlambda/logger';
+import { IDeployment, IEnvironment, IServiceInstance, State } from '@microlambda/remote-state';
+import { logger } from '../logger';
+import { ActionType, Operations, printOperations } from '../deploy/resolve-deltas';
+
+export interface IPromotion {
+  service: Workspace;
+  region: string;
+  /**
+   * Instance of the service in source environment whose revision is promoted
+   */
+  source: IServiceInstance;
+  /**
+   * Deployment of the source instance holding the package to deploy, undefined if it has not been stored
+   */
+  deployment?: IDeployment;
+}
+
+const areChecksumsEqual = async (
+  i1: IServiceInstance,
+  i2: IServiceInstance,
+  remoteCache: ICacheBackend,
+): Promise<boolean> => {
+  if (i1.checksums_buckets === i2.checksums_buckets && i1.checksums_key === i2.checksums_key) {
+    return true;
+  }
+  const [raw1, raw2] = await Promise.all([i1, i2].map((i) => remoteCache.read(i.checksums_key)));
+  if (!raw1 || !raw2) {
+    return false;
+  }
+  return Checksums.compare(JSON.parse(raw1.toString('utf-8')), JSON.parse(raw2.toString('utf-8')));
+};
+
+/**
+ * Resolve, for each service deployed in source environment, which regions of the target environment
+ * must be deployed with the revision that runs in source environment.
+ * A region is up-to-date when the same revision with the same checksums is already deployed in it.
+ */
+export const resolvePromotionDeltas = async (params: {
+  from: IEnvironment;
+  to: IEnvironment;
+  project: Project;
+  services?: Array<Workspace>;
+  force: boolean;
+  state: State;
+  config: IRootConfig;
+  eventsLog: EventsLog;
+}): Promise<{ operations: Operations; promotions: Array<IPromotion> }> => {
+  const { from, to, project, state, config } = params;
+  const log = params.eventsLog.scope('promote/resolve-deltas');
+  logger.lf();
+  logger.info(chalk.underline(chalk.bold('▼ Resolving deltas')));
+  logger.lf();
+
+  const operations: Operations = new Map();
+  const promotions: Array<IPromotion> = [];
+  const remoteCache = CacheBackends.fromRootConfig(config, project.root);
+  const targets = params.services?.map((s) => s.name);
+  const sourceInstances = (await state.listServices(from.name)).filter((i) => !targets || targets.includes(i.name));
+  const sourceServices = [...new Set(sourceInstances.map((i) => i.name))];
+
+  for (const serviceName of sourceServices) {
+    const service = project.services.get(serviceName);
+    if (!service) {
+      logger.warn(`Service ${serviceName} is deployed in ${from.name} but does not exist anymore in project, skipping it`);
+      continue;
+    }
+    const serviceOperations = new Map<string, ActionType>();
+    const instances = sourceInstances.filter((i) => i.name === serviceName);
+    const deployedInstances = await state.listServiceInstances(to.name, serviceName);
+    for (const region of service.regions ?? to.regions) {
+      if (!service.hasCommand('deploy')) {
+        serviceOperations.set(region, 'not_deployed');
+        continue;
+      }
+      // Package does not depend on region, if service is not deployed in the same region in source environment
+      // the revision deployed in any other region is promoted.
+      const source = instances.find((i) => i.region === region) ?? instances[0];
+      const deployed = deployedInstances.find((i) => i.region === region);
+      let action: ActionType = deployed ? 'redeploy' : 'first_deploy';
+      if (deployed && !params.force && deployed.sha1 === source.sha1) {
+        try {
+          if (await areChecksumsEqual(deployed, source, remoteCache)) {
+            action = 'no_changes';
+          }
+        } catch (e) {
+          log.warn('Error comparing checksums', serviceName, region, e);
+          logger.warn('Error reading currently deployed checksums for service', serviceName, 'in region', region);
+          logger.warn('This service will be thus redeployed even if it could have not been changed.');
+        }
+      }
+      serviceOperations.set(region, action);
+      if (action !== 'no_changes') {
+        const history = await state.listDeployments(from.name, serviceName, source.region);
+        const deployment = history.find((d) => d.sha1 === source.sha1 && !!d.package_key);
+        log.debug('Deployment to promote', serviceName, source.region, deployment);
+        promotions.push({ service, region, source, deployment });
+      }
+    }
+    operations.set(serviceName, serviceOperations);
+  }
+
+  printOperations(to.regions, operations);
+  return { operations, promotions };
+};
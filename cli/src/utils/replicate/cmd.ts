@@ -11,4 +11,5 @@ export interface IReplicateCmd {
   install: boolean;
   verbose: boolean;
   deploy: boolean;
+  confirmEnv?: string;
 }
@@ -1,10 +1,13 @@
 import { logger } from './logger';
 import { aws } from '@microlambda/aws';
-import { verifyStateKeysSchema } from '@microlambda/remote-state';
+import { StateBackends, verifyStateKeysSchema } from '@microlambda/remote-state';
 import { IRootConfig } from '@microlambda/config';
 
 export const verifyState = async (config: IRootConfig): Promise<void> => {
   const verifyTable = async (): Promise<void> => {
+    if (!StateBackends.isDynamoDB(config)) {
+      return;
+    }
     try {
       const isValid = await verifyStateKeysSchema(config);
       if (!isValid) {
@@ -1,4 +1,8 @@
 export * from './types/package-config';
 export * from './types/root-config';
+export * from './types/cache-config';
+export * from './types/state-config';
+export * from './types/previews-config';
+export * from './types/traffic-shifting-config';
 export * from './config-reader';
 export * from './regions';
@@ -0,0 +1,49 @@
+import joi from 'joi';
+import { regions } from '../regions';
+
+const s3BackendSchema = joi.object().keys({
+  type: joi.string().valid('s3').required(),
+  bucket: joi.string().optional(),
+  region: joi
+    .string()
+    .valid(...regions)
+    .optional(),
+  endpoint: joi.string().uri().optional(),
+  forcePathStyle: joi.boolean().optional(),
+});
+
+const filesystemBackendSchema = joi.object().keys({
+  type: joi.string().valid('filesystem').required(),
+  path: joi.string().required(),
+});
+
+const httpBackendSchema = joi.object().keys({
+  type: joi.string().valid('http').required(),
+  url: joi.string().uri().required(),
+  headers: joi.object().pattern(joi.string(), joi.string().required()).optional(),
+  tokenEnv: joi.string().optional(),
+});
+
+const customBackendSchema = joi
+  .object()
+  .keys({
+    type: joi.string().invalid('s3', 'filesystem', 'http').required(),
+  })
+  .unknown(true);
+
+const retentionSchema = joi.object().keys({
+  maxAge: joi
+    .alternatives(joi.number().positive(), joi.string().pattern(/^\d+(\.\d+)?\s*[mhdw]$/i))
+    .optional(),
+  maxSize: joi
+    .alternatives(joi.number().integer().positive(), joi.string().pattern(/^\d+(\.\d+)?\s*(B|KB|MB|GB|TB)$/i))
+    .optional(),
+  keepLast: joi.number().integer().min(1).optional(),
+});
+
+export const cacheConfigSchema = joi.object().keys({
+  backend: joi
+    .alternatives(s3BackendSchema, filesystemBackendSchema, httpBackendSchema, customBackendSchema)
+    .optional(),
+  retention: retentionSchema.optional(),
+});
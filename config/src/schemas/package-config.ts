@@ -1,6 +1,7 @@
 import joi from 'joi';
 import { targetsConfigSchema } from './target-config';
 import { regions } from '../regions';
+import { trafficShiftingConfigSchema } from './traffic-shifting-config';
 
 export const packageConfigSchema = joi.object().keys({
   extends: joi.string().optional(),
@@ -11,6 +12,7 @@ export const packageConfigSchema = joi.object().keys({
       envSpecific: joi.boolean().optional(),
     })
     .optional(),
+  trafficShifting: trafficShiftingConfigSchema.optional(),
   ports: joi
     .alternatives(
       joi.number().port().optional(),
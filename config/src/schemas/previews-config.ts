@@ -0,0 +1,17 @@
+import joi from 'joi';
+import { regions } from '../regions';
+
+export const previewsConfigSchema = joi.object().keys({
+  ttl: joi.alternatives(joi.number().positive(), joi.string().pattern(/^\d+(\.\d+)?\s*[mhdw]$/i)).optional(),
+  base: joi.string().optional(),
+  regions: joi
+    .array()
+    .items(joi.string().valid(...regions))
+    .min(1)
+    .optional(),
+  prefix: joi
+    .string()
+    .pattern(/^[a-z][a-z0-9-]*$/)
+    .max(12)
+    .optional(),
+});
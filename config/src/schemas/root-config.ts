@@ -1,6 +1,9 @@
 import joi from 'joi';
 import { regions } from '../regions';
 import { targetsConfigSchema } from './target-config';
+import { cacheConfigSchema } from './cache-config';
+import { stateConfigSchema } from './state-config';
+import { previewsConfigSchema } from './previews-config';
 
 export const rootConfigSchema = joi.object().keys({
   defaultRegion: joi
@@ -8,12 +11,8 @@ export const rootConfigSchema = joi.object().keys({
     .valid(...regions)
     .required(),
   defaultRuntime: joi.string().valid('nodejs12.x', 'nodejs14.x', 'nodejs16.x').required(),
-  state: joi
-    .object()
-    .keys({
-      checksums: joi.string().required(),
-      table: joi.string().required(),
-    })
-    .required(),
+  state: stateConfigSchema.required(),
   targets: targetsConfigSchema.optional(),
+  cache: cacheConfigSchema.optional(),
+  previews: previewsConfigSchema.optional(),
 });
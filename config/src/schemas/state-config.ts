@@ -0,0 +1,23 @@
+import joi from 'joi';
+
+const dynamodbBackendSchema = joi.object().keys({
+  type: joi.string().valid('dynamodb').required(),
+});
+
+const fileBackendSchema = joi.object().keys({
+  type: joi.string().valid('file').required(),
+  path: joi.string().required(),
+});
+
+const customBackendSchema = joi
+  .object()
+  .keys({
+    type: joi.string().invalid('dynamodb', 'file').required(),
+  })
+  .unknown(true);
+
+export const stateConfigSchema = joi.object().keys({
+  checksums: joi.string().required(),
+  table: joi.string().required(),
+  backend: joi.alternatives(dynamodbBackendSchema, fileBackendSchema, customBackendSchema).optional(),
+});
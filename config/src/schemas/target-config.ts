@@ -1,7 +1,13 @@
 import joi from 'joi';
 import { logConditionsSchema } from './log-conditions';
 
-const commandConfigSchema = joi.object().keys({
+const executionLimitsSchema = joi.object().keys({
+  timeout: joi.number().integer().positive().optional(),
+  retries: joi.number().integer().min(0).optional(),
+  retryDelay: joi.number().integer().min(0).optional(),
+});
+
+const commandConfigSchema = executionLimitsSchema.keys({
   run: joi.string().required(),
   env: joi.object().pattern(joi.string(), joi.string().required()).optional(),
   daemon: joi
@@ -13,7 +19,7 @@ const commandConfigSchema = joi.object().keys({
     .optional(),
 });
 
-const cachingSchema = joi.object().keys({
+const cachingSchema = executionLimitsSchema.keys({
   src: joi
     .object()
     .keys({
@@ -23,6 +29,10 @@ const cachingSchema = joi.object().keys({
     })
     .optional(),
   artifacts: joi.array().items(joi.string().required()).optional(),
+  dependsOn: joi
+    .array()
+    .items(joi.string().pattern(/^\^?[^\s^]+$/).required())
+    .optional(),
 });
 
 export const targetConfigSchemaCmds = cachingSchema.keys({
@@ -0,0 +1,14 @@
+import joi from 'joi';
+
+export const trafficShiftingConfigSchema = joi.object().keys({
+  type: joi.string().valid('canary', 'linear').required(),
+  percentage: joi.number().integer().min(1).max(99).required(),
+  interval: joi.alternatives(joi.number().positive(), joi.string().pattern(/^\d+(\.\d+)?\s*[mh]$/i)).required(),
+  alias: joi
+    .string()
+    .pattern(/^(?!^[0-9]+$)[a-zA-Z0-9-_]+$/)
+    .max(128)
+    .optional(),
+  alarms: joi.array().items(joi.string()).optional(),
+  rollback: joi.boolean().optional(),
+});
@@ -0,0 +1,50 @@
+export interface IS3CacheBackendConfig {
+  type: 's3';
+  bucket?: string;
+  region?: string;
+  endpoint?: string;
+  forcePathStyle?: boolean;
+}
+
+export interface IFilesystemCacheBackendConfig {
+  type: 'filesystem';
+  path: string;
+}
+
+export interface IHttpCacheBackendConfig {
+  type: 'http';
+  url: string;
+  headers?: Record<string, string>;
+  tokenEnv?: string;
+}
+
+export interface ICustomCacheBackendConfig {
+  type: string;
+  [option: string]: unknown;
+}
+
+export type ICacheBackendConfig =
+  | IS3CacheBackendConfig
+  | IFilesystemCacheBackendConfig
+  | IHttpCacheBackendConfig
+  | ICustomCacheBackendConfig;
+
+export interface ICacheRetentionConfig {
+  /**
+   * Entries older than this are pruned. A number of days, or a duration such as "12h", "7d" or "2w"
+   */
+  maxAge?: number | string;
+  /**
+   * Oldest entries are pruned until the cache fits. A number of bytes, or a size such as "500MB" or "10GB"
+   */
+  maxSize?: number | string;
+  /**
+   * Number of entries kept per target and per branch
+   */
+  keepLast?: number;
+}
+
+export interface ICacheConfig {
+  backend?: ICacheBackendConfig;
+  retention?: ICacheRetentionConfig;
+}
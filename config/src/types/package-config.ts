@@ -1,3 +1,5 @@
+import { ITrafficShiftingConfig } from './traffic-shifting-config';
+
 export interface ILogsCondition {
   type: 'success' | 'failure';
   stdio: 'stdout' | 'stderr' | 'all';
@@ -6,7 +8,22 @@ export interface ILogsCondition {
   timeout?: number;
 }
 
-export interface ICommandConfig {
+export interface IExecutionLimitsConfig {
+  /**
+   * Time in milliseconds after which the command is killed and considered failed
+   */
+  timeout?: number;
+  /**
+   * Number of times a failed or timed-out command is run again before the target is considered failed
+   */
+  retries?: number;
+  /**
+   * Time in milliseconds to wait before retrying
+   */
+  retryDelay?: number;
+}
+
+export interface ICommandConfig extends IExecutionLimitsConfig {
   run: string;
   env?: Record<string, string>;
   daemon?: false | Array<ILogsCondition> | ILogsCondition;
@@ -21,13 +38,21 @@ export interface ITargetCacheConfig {
   artifacts?: string[];
 }
 
-export interface ITargetConfigScript extends ITargetCacheConfig {
+export interface ITargetDependenciesConfig {
+  /**
+   * Targets to run before this one. "build" refers to the build target of the same workspace,
+   * "^build" to the build target of its dependencies.
+   */
+  dependsOn?: string[];
+}
+
+export interface ITargetConfigScript extends ITargetCacheConfig, ITargetDependenciesConfig, IExecutionLimitsConfig {
   script: string;
   env?: Record<string, string>;
   daemon?: false | Array<ILogsCondition> | ILogsCondition;
 }
 
-export interface ITargetConfigCmd extends ITargetCacheConfig {
+export interface ITargetConfigCmd extends ITargetCacheConfig, ITargetDependenciesConfig, IExecutionLimitsConfig {
   cmd: string | string[] | ICommandConfig | Array<ICommandConfig>;
 }
 
@@ -53,6 +78,10 @@ export interface IPackageConfig {
   };
   ports?: IPortsConfig | number;
   extends?: string;
+  /**
+   * Progressively shift traffic to the new version of the service functions when deploying
+   */
+  trafficShifting?: ITrafficShiftingConfig;
 }
 
 export interface IResolvedPackageConfig {
@@ -63,4 +92,5 @@ export interface IResolvedPackageConfig {
     [cmd: string]: ITargetConfig;
   };
   ports?: IPortsConfig | number;
+  trafficShifting?: ITrafficShiftingConfig;
 }
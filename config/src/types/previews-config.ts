@@ -0,0 +1,19 @@
+export interface IPreviewsConfig {
+  /**
+   * Duration after which a preview environment expires and is destroyed by "mila envs gc".
+   * A number of days, or a duration such as "12h", "7d" or "2w". Defaults to 7 days
+   */
+  ttl?: number | string;
+  /**
+   * Revision services are compared with to find the ones affected by the branch. Defaults to origin/main
+   */
+  base?: string;
+  /**
+   * Regions where previews are deployed. Defaults to defaultRegion
+   */
+  regions?: string[];
+  /**
+   * Prefix of preview environments names. Defaults to "preview-"
+   */
+  prefix?: string;
+}
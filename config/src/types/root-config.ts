@@ -1,11 +1,13 @@
 import { ITargetsConfig } from './package-config';
+import { ICacheConfig } from './cache-config';
+import { IStateConfig } from './state-config';
+import { IPreviewsConfig } from './previews-config';
 
 export interface IRootConfig {
   defaultRegion: string;
   defaultRuntime: string;
-  state: {
-    checksums: string;
-    table: string;
-  };
+  state: IStateConfig;
   targets?: ITargetsConfig;
+  cache?: ICacheConfig;
+  previews?: IPreviewsConfig;
 }
@@ -0,0 +1,30 @@
+export interface IDynamoDBStateBackendConfig {
+  type: 'dynamodb';
+}
+
+export interface IFileStateBackendConfig {
+  type: 'file';
+  /**
+   * Directory where the state is written, relative to project root or absolute (e.g. a shared volume)
+   */
+  path: string;
+}
+
+export interface ICustomStateBackendConfig {
+  type: string;
+  [option: string]: unknown;
+}
+
+export type IStateBackendConfig = IDynamoDBStateBackendConfig | IFileStateBackendConfig | ICustomStateBackendConfig;
+
+export interface IStateConfig {
+  checksums: string;
+  /**
+   * Name of the DynamoDB table, or of the state file for the file backend
+   */
+  table: string;
+  /**
+   * Where the remote state is stored, defaults to DynamoDB
+   */
+  backend?: IStateBackendConfig;
+}
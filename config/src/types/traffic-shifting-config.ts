@@ -0,0 +1,27 @@
+export interface ITrafficShiftingConfig {
+  /**
+   * canary: shift percentage of the traffic to the new version, then the rest after interval.
+   * linear: shift percentage of the traffic more to the new version every interval, until all traffic is shifted.
+   */
+  type: 'canary' | 'linear';
+  /**
+   * Percentage of the traffic shifted to the new version at each step
+   */
+  percentage: number;
+  /**
+   * Time to wait between two steps, as a number of minutes or a duration such as "5m" or "1h"
+   */
+  interval: number | string;
+  /**
+   * Lambda alias event sources invoke, whose traffic is shifted from the current to the new version. Defaults to "live"
+   */
+  alias?: string;
+  /**
+   * Names of the CloudWatch alarms checked between steps. If one of them is in ALARM state, traffic shifting is stopped
+   */
+  alarms?: string[];
+  /**
+   * Shift all the traffic back to the previous version if an alarm is triggered. Defaults to true
+   */
+  rollback?: boolean;
+}
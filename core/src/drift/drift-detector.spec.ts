@@ -0,0 +1,129 @@
+import { SinonStub, stub } from 'sinon';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { aws } from '@microlambda/aws';
+import { IServiceInstance, ISharedInfraState, State } from '@microlambda/remote-state';
+import { Project } from '../graph/project';
+import { DriftDetector } from './drift-detector';
+
+describe('[class] DriftDetector', () => {
+  const stubs: Record<string, SinonStub> = {};
+  let root: string;
+  let detector: DriftDetector;
+  const state = {
+    listServices: stub(),
+    getSharedInfrastructureState: stub(),
+    removeServiceInstances: stub(),
+    deleteSharedInfrastructureState: stub(),
+  };
+  const instance = (name: string, region: string, deployedAt?: string): IServiceInstance => ({
+    k1: name,
+    k2: `service|dev|${region}`,
+    k3: 'service|dev',
+    name,
+    region,
+    env: 'dev',
+    sha1: '$sha1',
+    checksums_buckets: '$bucket',
+    checksums_key: '$key',
+    deployed_at: deployedAt,
+  });
+  const stack = (status: string, lastUpdatedTime?: string, driftStatus?: string): unknown => ({
+    stackName: '$stack',
+    status,
+    creationTime: new Date('2022-01-01T00:00:00.000Z'),
+    lastUpdatedTime: lastUpdatedTime ? new Date(lastUpdatedTime) : undefined,
+    driftStatus,
+  });
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'mila-drift-'));
+    writeFileSync(join(root, 'serverless.yml'), 'service: users\nprovider:\n  name: aws\n  stage: ${env:ENV}\n');
+    const workspace = { name: 'users', root, hasCommand: (): boolean => false };
+    const project = { workspaces: new Map([['users', workspace]]) } as unknown as Project;
+    detector = new DriftDetector(project, state as unknown as State);
+    state.getSharedInfrastructureState.resolves([]);
+    stubs.describeStack = stub(aws.cloudformation, 'describeStack');
+    stubs.detectStackDrift = stub(aws.cloudformation, 'detectStackDrift');
+  });
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+    Object.values(state).forEach((s) => s.reset());
+    Object.values(stubs).forEach((s) => s.restore());
+  });
+
+  it('should report stacks in sync', async () => {
+    state.listServices.resolves([instance('users', 'eu-west-1', '2022-02-01T00:00:00.000Z')]);
+    stubs.describeStack.resolves(stack('UPDATE_COMPLETE', '2022-01-31T23:59:00.000Z', 'IN_SYNC'));
+    const [entry] = await detector.detect('dev');
+    expect(entry.status).toBe('in_sync');
+    expect(entry.stackName).toBe('users-dev');
+    expect(stubs.describeStack.getCall(0).args.slice(0, 2)).toEqual(['eu-west-1', 'users-dev']);
+    expect(stubs.detectStackDrift.called).toBe(false);
+  });
+  it('should report stacks deleted outside mila', async () => {
+    state.listServices.resolves([instance('users', 'eu-west-1')]);
+    stubs.describeStack.resolves(undefined);
+    const [entry] = await detector.detect('dev');
+    expect(entry.status).toBe('deleted');
+  });
+  it('should report stacks updated outside mila', async () => {
+    state.listServices.resolves([instance('users', 'eu-west-1', '2022-02-01T00:00:00.000Z')]);
+    stubs.describeStack.resolves(stack('UPDATE_COMPLETE', '2022-03-01T00:00:00.000Z'));
+    const [entry] = await detector.detect('dev');
+    expect(entry.status).toBe('updated_outside');
+  });
+  it('should report failed stacks', async () => {
+    state.listServices.resolves([instance('users', 'eu-west-1')]);
+    stubs.describeStack.resolves(stack('UPDATE_ROLLBACK_FAILED'));
+    const [entry] = await detector.detect('dev');
+    expect(entry.status).toBe('failed');
+  });
+  it('should run drift detection if asked', async () => {
+    state.listServices.resolves([instance('users', 'eu-west-1')]);
+    stubs.describeStack.resolves(stack('UPDATE_COMPLETE', undefined, 'IN_SYNC'));
+    stubs.detectStackDrift.resolves('DRIFTED');
+    const [entry] = await detector.detect('dev', { detectDrift: true });
+    expect(entry.status).toBe('drifted');
+    expect(stubs.detectStackDrift.getCall(0).args[0]).toEqual({ region: 'eu-west-1', stackName: 'users-dev' });
+  });
+  it('should report unknown status if stack name cannot be resolved', async () => {
+    state.listServices.resolves([instance('orders', 'eu-west-1')]);
+    const [entry] = await detector.detect('dev');
+    expect(entry.status).toBe('unknown');
+    expect(stubs.describeStack.called).toBe(false);
+  });
+  it('should report shared infrastructure stacks', async () => {
+    const workspace = { name: 'infra', root, hasCommand: (): boolean => true };
+    const project = { workspaces: new Map([['infra', workspace]]) } as unknown as Project;
+    const infra: ISharedInfraState = {
+      k1: 'infra',
+      k2: 'shared-infra|dev|eu-west-1',
+      name: 'infra',
+      region: 'eu-west-1',
+      env: 'dev',
+      sha1: '$sha1',
+      checksums_buckets: '$bucket',
+      checksums_key: '$key',
+    };
+    state.listServices.resolves([]);
+    state.getSharedInfrastructureState.resolves([infra]);
+    stubs.describeStack.resolves(undefined);
+    const entries = await new DriftDetector(project, state as unknown as State).detect('dev');
+    expect(entries).toEqual([
+      expect.objectContaining({ type: 'shared-infra', name: 'infra', stackName: 'users-dev', status: 'deleted' }),
+    ]);
+  });
+  it('should remove deleted stacks from state when reconciling', async () => {
+    const reconciled = await detector.reconcile([
+      { type: 'service', name: 'users', region: 'eu-west-1', env: 'dev', status: 'deleted' },
+      { type: 'service', name: 'orders', region: 'eu-west-1', env: 'dev', status: 'drifted' },
+      { type: 'shared-infra', name: 'infra', region: 'eu-west-1', status: 'deleted' },
+    ]);
+    expect(reconciled.map((e) => e.name)).toEqual(['users', 'infra']);
+    expect(state.removeServiceInstances.getCall(0).args[0]).toEqual({ service: 'users', env: 'dev', region: 'eu-west-1' });
+    expect(state.deleteSharedInfrastructureState.getCall(0).args).toEqual(['infra', 'eu-west-1', undefined]);
+    expect(state.removeServiceInstances.callCount).toBe(1);
+  });
+});
@@ -0,0 +1,164 @@
+import { aws, IStackDescription } from '@microlambda/aws';
+import { State } from '@microlambda/remote-state';
+import { IBaseLogger } from '@microlambda/types';
+import { Project } from '../graph/project';
+import { resolveStackName } from './stack-name';
+
+const ONE_MINUTE = 60 * 1000;
+
+export type DriftStatus = 'in_sync' | 'deleted' | 'failed' | 'updated_outside' | 'drifted' | 'unknown';
+
+export interface IDriftReportEntry {
+  type: 'service' | 'shared-infra';
+  name: string;
+  region: string;
+  /**
+   * Undefined for shared infrastructure that is not environment specific
+   */
+  env?: string;
+  stackName?: string;
+  status: DriftStatus;
+  stackStatus?: string;
+  lastUpdatedTime?: string;
+  deployedAt?: string;
+  reason?: string;
+}
+
+export interface IDriftDetectionOptions {
+  /**
+   * Run a CloudFormation drift detection on each stack, which may take a while.
+   * Otherwise, only the result of the last drift detection is reported.
+   */
+  detectDrift?: boolean;
+  /**
+   * Delay in milliseconds tolerated between a stack update and its recording in state, defaults to one minute
+   */
+  tolerance?: number;
+}
+
+interface IDeployedStack {
+  type: IDriftReportEntry['type'];
+  name: string;
+  region: string;
+  env?: string;
+  stackName?: string;
+  deployedAt?: string;
+}
+
+const isFailed = (stackStatus: string): boolean => stackStatus.endsWith('_FAILED') || stackStatus === 'ROLLBACK_COMPLETE';
+
+const lastUpdate = (stack: IStackDescription): Date | undefined => stack.lastUpdatedTime ?? stack.creationTime;
+
+/**
+ * @class DriftDetector
+ * Compare what remote state records as deployed with the actual CloudFormation stacks, to detect stacks
+ * that have been deleted or updated outside mila, and resources that drifted from their template.
+ */
+export class DriftDetector {
+  constructor(readonly project: Project, readonly state: State, private readonly _logger?: IBaseLogger) {}
+
+  async detect(env: string, options: IDriftDetectionOptions = {}): Promise<Array<IDriftReportEntry>> {
+    const stacks = [...(await this._listServices(env)), ...(await this._listSharedInfrastructure(env))];
+    this._logger?.debug('Checking stacks', stacks);
+    return Promise.all(stacks.map((stack) => this._check(stack, options)));
+  }
+
+  /**
+   * Remove from state the services and shared infrastructure whose stack has been deleted outside mila.
+   * Other drifts cannot be reconciled from state, and require a new deployment.
+   * @returns the reconciled entries
+   */
+  async reconcile(entries: Array<IDriftReportEntry>): Promise<Array<IDriftReportEntry>> {
+    const deleted = entries.filter((entry) => entry.status === 'deleted');
+    for (const entry of deleted) {
+      this._logger?.debug('Removing from state', entry.type, entry.name, entry.region, entry.env);
+      if (entry.type === 'service' && entry.env) {
+        await this.state.removeServiceInstances({ service: entry.name, env: entry.env, region: entry.region });
+      } else {
+        await this.state.deleteSharedInfrastructureState(entry.name, entry.region, entry.env);
+      }
+    }
+    return deleted;
+  }
+
+  private async _listServices(env: string): Promise<Array<IDeployedStack>> {
+    const instances = await this.state.listServices(env);
+    return instances.map((instance) => {
+      const workspace = this.project.workspaces.get(instance.name);
+      return {
+        type: 'service',
+        name: instance.name,
+        region: instance.region,
+        env,
+        stackName: workspace ? resolveStackName(workspace.root, env) : undefined,
+        deployedAt: instance.deployed_at,
+      };
+    });
+  }
+
+  private async _listSharedInfrastructure(env: string): Promise<Array<IDeployedStack>> {
+    const stacks: Array<IDeployedStack> = [];
+    for (const workspace of this.project.workspaces.values()) {
+      if (!workspace.hasCommand('infra:deploy') || !workspace.hasCommand('infra:remove')) {
+        continue;
+      }
+      for (const infra of await this.state.getSharedInfrastructureState(workspace.name, env)) {
+        stacks.push({
+          type: 'shared-infra',
+          name: infra.name,
+          region: infra.region,
+          env: infra.env,
+          stackName: resolveStackName(workspace.root, infra.env),
+          deployedAt: infra.deployed_at,
+        });
+      }
+    }
+    return stacks;
+  }
+
+  private async _check(deployed: IDeployedStack, options: IDriftDetectionOptions): Promise<IDriftReportEntry> {
+    const { stackName, deployedAt, ...entry } = deployed;
+    if (!stackName) {
+      return { ...entry, deployedAt, status: 'unknown', reason: 'Cannot resolve stack name from serverless manifest' };
+    }
+    let stack: IStackDescription | undefined;
+    try {
+      stack = await aws.cloudformation.describeStack(deployed.region, stackName, this._logger);
+    } catch (e) {
+      this._logger?.warn('Cannot describe stack', stackName, e);
+      return { ...entry, stackName, deployedAt, status: 'unknown', reason: (e as Error).message };
+    }
+    if (!stack) {
+      return { ...entry, stackName, deployedAt, status: 'deleted', reason: 'Stack does not exist' };
+    }
+    const updatedAt = lastUpdate(stack);
+    const report: IDriftReportEntry = {
+      ...entry,
+      stackName,
+      deployedAt,
+      status: 'in_sync',
+      stackStatus: stack.status,
+      lastUpdatedTime: updatedAt?.toISOString(),
+    };
+    if (isFailed(stack.status)) {
+      return { ...report, status: 'failed', reason: `Stack is in status ${stack.status}` };
+    }
+    const tolerance = options.tolerance ?? ONE_MINUTE;
+    if (deployedAt && updatedAt && updatedAt.getTime() > new Date(deployedAt).getTime() + tolerance) {
+      return { ...report, status: 'updated_outside', reason: `Stack updated after last deployment (${deployedAt})` };
+    }
+    let driftStatus = stack.driftStatus;
+    if (options.detectDrift) {
+      try {
+        driftStatus = await aws.cloudformation.detectStackDrift({ region: deployed.region, stackName }, this._logger);
+      } catch (e) {
+        this._logger?.warn('Cannot detect drift of stack', stackName, e);
+        return { ...report, status: 'unknown', reason: (e as Error).message };
+      }
+    }
+    if (driftStatus === 'DRIFTED') {
+      return { ...report, status: 'drifted', reason: 'Stack resources drifted from template' };
+    }
+    return report;
+  }
+}
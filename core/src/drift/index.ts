@@ -0,0 +1,2 @@
+export * from './drift-detector';
+export * from './stack-name';
@@ -0,0 +1,29 @@
+import { existsSync, readFileSync } from 'fs';
+import { join } from 'path';
+
+const SERVERLESS_FILES = ['serverless.yml', 'serverless.yaml'];
+
+const isLiteral = (value: string): boolean => !value.includes('${');
+
+/**
+ * Resolve the name of the CloudFormation stack deployed by serverless for the given workspace and stage.
+ * Stack is named after provider.stackName if set, otherwise $service-$stage.
+ * Returns undefined if there is no serverless manifest or if values are resolved from variables
+ * (except the stage itself, which is the mila environment).
+ */
+export const resolveStackName = (root: string, stage?: string): string | undefined => {
+  const manifest = SERVERLESS_FILES.map((file) => join(root, file)).find((path) => existsSync(path));
+  if (!manifest) {
+    return undefined;
+  }
+  const content = readFileSync(manifest, 'utf-8');
+  const stackName = content.match(/^\s+stackName:\s*['"]?([^'"\s#]+)/m)?.[1];
+  if (stackName) {
+    return isLiteral(stackName) ? stackName : undefined;
+  }
+  const service = content.match(/^service:[ \t]*(?:\n[ \t]+name:[ \t]*)?['"]?([^'"\s#]+)/m)?.[1];
+  if (!service || !isLiteral(service) || !stage) {
+    return undefined;
+  }
+  return `${service}-${stage}`;
+};
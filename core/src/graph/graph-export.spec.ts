@@ -0,0 +1,43 @@
+import { GraphExporter, IWorkspacesGraph } from './graph-export';
+
+describe('[class] GraphExporter', () => {
+  const graph: IWorkspacesGraph = {
+    name: 'test-project',
+    nodes: [
+      { name: '@org/api', type: 'service', isAffected: true, lastBuildDuration: 12300 },
+      { name: '@org/shared', type: 'package', isAffected: false, lastBuildDuration: 450 },
+    ],
+    edges: [{ from: '@org/api', to: '@org/shared' }],
+  };
+  describe('[static method] format', () => {
+    it('should export graph in dot format', () => {
+      expect(GraphExporter.format(graph, 'dot')).toBe([
+        'digraph "test-project" {',
+        '  rankdir=LR;',
+        '  node [shape=box, style="rounded,filled", fillcolor=white];',
+        '  "@org/api" [label="@org/api\\n12.3s\\naffected", shape=component, fillcolor="#ffcc80"];',
+        '  "@org/shared" [label="@org/shared\\n450ms"];',
+        '  "@org/api" -> "@org/shared";',
+        '}',
+      ].join('\n'));
+    });
+    it('should export graph in mermaid format', () => {
+      expect(GraphExporter.format(graph, 'mermaid')).toBe([
+        'graph LR',
+        '  n0(["@org/api<br/>12.3s<br/>affected"])',
+        '  n1["@org/shared<br/>450ms"]',
+        '  n0 --> n1',
+        '  classDef affected fill:#ffcc80,stroke:#e65100',
+        '  class n0 affected',
+      ].join('\n'));
+    });
+    it('should export graph in json format', () => {
+      expect(JSON.parse(GraphExporter.format(graph, 'json'))).toEqual(graph);
+    });
+    it('should embed mermaid graph in a standalone html page', () => {
+      const html = GraphExporter.format(graph, 'html');
+      expect(html).toContain('<title>test-project dependencies graph</title>');
+      expect(html).toContain('n0 --&gt; n1');
+    });
+  });
+});
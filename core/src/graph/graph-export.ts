@@ -0,0 +1,178 @@
+import { LocalCache } from '@microlambda/runner-core';
+import { Project } from './project';
+import { Workspace } from './workspace';
+
+export type GraphFormat = 'dot' | 'mermaid' | 'json' | 'html';
+
+export const graphFormats: Array<GraphFormat> = ['dot', 'mermaid', 'json', 'html'];
+
+export interface IGraphNode {
+  name: string;
+  version?: string;
+  type: 'service' | 'package';
+  /**
+   * Whether the workspace is affected between the given revisions, only set if revisions were given
+   */
+  isAffected?: boolean;
+  /**
+   * Duration in milliseconds of the last build found in local cache
+   */
+  lastBuildDuration?: number;
+}
+
+export interface IGraphEdge {
+  from: string;
+  to: string;
+}
+
+export interface IWorkspacesGraph {
+  name: string;
+  nodes: Array<IGraphNode>;
+  edges: Array<IGraphEdge>;
+}
+
+export interface IGraphExportOptions {
+  /**
+   * Only export this workspace and its dependencies
+   */
+  workspace?: Workspace;
+  affected?: { rev1: string; rev2?: string };
+  /**
+   * Target whose last execution duration must be annotated
+   */
+  durations?: string;
+}
+
+const formatDuration = (ms: number): string => (ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`);
+
+const describeNode = (node: IGraphNode): Array<string> => {
+  const details: Array<string> = [];
+  if (node.lastBuildDuration != null) {
+    details.push(formatDuration(node.lastBuildDuration));
+  }
+  if (node.isAffected) {
+    details.push('affected');
+  }
+  return details;
+};
+
+/**
+ * @class GraphExporter
+ * Serialize the workspaces dependencies graph so it can be rendered outside of the terminal.
+ * Edges go from a workspace to its dependencies.
+ */
+export class GraphExporter {
+  constructor(readonly project: Project) {}
+
+  async resolve(options: IGraphExportOptions = {}): Promise<IWorkspacesGraph> {
+    const workspaces = options.workspace
+      ? [options.workspace, ...options.workspace.descendants.values()]
+      : Array.from(this.project.workspaces.values());
+    const nodes = await Promise.all(workspaces.map(async (workspace): Promise<IGraphNode> => {
+      const node: IGraphNode = {
+        name: workspace.name,
+        version: workspace.version,
+        type: this.project.services.has(workspace.name) ? 'service' : 'package',
+      };
+      if (options.affected) {
+        node.isAffected = await workspace.isAffected(options.affected.rev1, options.affected.rev2);
+      }
+      if (options.durations) {
+        const output = workspace.hasCommand(options.durations)
+          ? await new LocalCache(workspace, options.durations).readOutput()
+          : null;
+        if (output?.length) {
+          node.lastBuildDuration = output.reduce((acc, result) => acc + (result.took ?? 0), 0);
+        }
+      }
+      return node;
+    }));
+    const names = new Set(nodes.map((node) => node.name));
+    const edges: Array<IGraphEdge> = [];
+    for (const workspace of workspaces) {
+      for (const dependency of workspace.dependencies()) {
+        if (names.has(dependency.name)) {
+          edges.push({ from: workspace.name, to: dependency.name });
+        }
+      }
+    }
+    return { name: options.workspace?.name ?? this.project.name, nodes, edges };
+  }
+
+  static format(graph: IWorkspacesGraph, format: GraphFormat): string {
+    switch (format) {
+      case 'dot':
+        return GraphExporter.toDot(graph);
+      case 'mermaid':
+        return GraphExporter.toMermaid(graph);
+      case 'json':
+        return JSON.stringify(graph, null, 2);
+      case 'html':
+        return GraphExporter.toHtml(graph);
+    }
+  }
+
+  static toDot(graph: IWorkspacesGraph): string {
+    const quote = (value: string): string => JSON.stringify(value);
+    const lines = [`digraph ${quote(graph.name)} {`, '  rankdir=LR;', '  node [shape=box, style="rounded,filled", fillcolor=white];'];
+    for (const node of graph.nodes) {
+      const attributes = [`label=${quote([node.name, ...describeNode(node)].join('\n'))}`];
+      if (node.type === 'service') {
+        attributes.push('shape=component');
+      }
+      if (node.isAffected) {
+        attributes.push('fillcolor="#ffcc80"');
+      }
+      lines.push(`  ${quote(node.name)} [${attributes.join(', ')}];`);
+    }
+    for (const edge of graph.edges) {
+      lines.push(`  ${quote(edge.from)} -> ${quote(edge.to)};`);
+    }
+    lines.push('}');
+    return lines.join('\n');
+  }
+
+  static toMermaid(graph: IWorkspacesGraph): string {
+    // Workspaces names such as @org/package are not valid mermaid identifiers
+    const ids = new Map(graph.nodes.map((node, idx) => [node.name, `n${idx}`]));
+    const lines = ['graph LR'];
+    for (const node of graph.nodes) {
+      const label = [node.name, ...describeNode(node)].join('<br/>').replace(/"/g, '#quot;');
+      const id = ids.get(node.name);
+      lines.push(node.type === 'service' ? `  ${id}(["${label}"])` : `  ${id}["${label}"]`);
+    }
+    for (const edge of graph.edges) {
+      lines.push(`  ${ids.get(edge.from)} --> ${ids.get(edge.to)}`);
+    }
+    const affected = graph.nodes.filter((node) => node.isAffected);
+    if (affected.length) {
+      lines.push('  classDef affected fill:#ffcc80,stroke:#e65100');
+      lines.push(`  class ${affected.map((node) => ids.get(node.name)).join(',')} affected`);
+    }
+    return lines.join('\n');
+  }
+
+  static toHtml(graph: IWorkspacesGraph): string {
+    const escape = (value: string): string => value
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;');
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>${escape(graph.name)} dependencies graph</title>
+</head>
+<body>
+  <pre class="mermaid">
+${escape(GraphExporter.toMermaid(graph))}
+  </pre>
+  <script type="module">
+    import mermaid from 'https://cdn.jsdelivr.net/npm/mermaid@10/dist/mermaid.esm.min.mjs';
+    mermaid.initialize({ startOnLoad: true });
+  </script>
+</body>
+</html>
+`;
+  }
+}
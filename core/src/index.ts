@@ -3,8 +3,11 @@ export * from './logs';
 export * from './resolve-ports';
 export * from './graph/workspace';
 export * from './graph/project';
+export * from './graph/graph-export';
 export * from './scheduler';
 export * from './log-handlers/file';
 export * from './shared-infra';
 export * from './shared-infra/types';
 export * from './environment';
+export * from './drift';
+export * from './traffic-shifting';
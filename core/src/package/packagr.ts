@@ -11,6 +11,12 @@ import { Workspace } from '../graph/workspace';
 import { Project } from '../graph/project';
 import { resolveProjectRoot, getTsConfig } from '@microlambda/utils';
 
+/**
+ * Set when deploying a package restored from remote cache (i.e. on rollback or promotion), so that it is deployed as is
+ * instead of being rebuilt from current sources
+ */
+export const RESTORED_PACKAGE_ENV = 'MILA_RESTORED_PACKAGE';
+
 export class Packager {
   private readonly _projectRoot: string;
   private _packagePath: string | undefined;
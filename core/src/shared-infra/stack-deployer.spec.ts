@@ -1,48 +1,63 @@
 import { SinonStub, stub } from 'sinon';
-import execa = require('execa');
+import { Observable, of, throwError, timer } from 'rxjs';
+import { map } from 'rxjs/operators';
+import { RunCommandEventEnum, RunOptions, Runner, Workspace } from '@microlambda/runner-core';
+import { IRootConfig } from '@microlambda/config';
+import { IEnvironment, State } from '@microlambda/remote-state';
 import { deploySharedInfraStack } from './stack-deployer';
-import { IEnvironment } from '@microlambda/remote-state';
 import { SharedInfraDeployEventType } from './types';
+import { Project } from '../graph/project';
 
 describe('The stack deployer', () => {
   const stubs: Record<string, SinonStub> = {};
   beforeEach(() => {
-    stubs.execa = stub(execa, 'command');
-    stubs.execa.rejects();
+    stubs.runCommand = stub(Runner.prototype, 'runCommand');
   });
   afterEach(() => {
     Object.values(stubs).forEach((s) => s.restore());
   });
   it('should try tp deploy stack is each activated region', (done) => {
-    stubs.execa.withArgs('npx sls deploy', { env: { ENV: 'dev', AWS_REGION: 'eu-west-1' }, cwd: '/foo/bar' }).returns(
-      new Promise((resolve) => {
-        setTimeout(() => resolve({}), 30);
-      }),
-    );
-    stubs.execa.withArgs('npx sls deploy', { env: { ENV: 'dev', AWS_REGION: 'us-east-1' }, cwd: '/foo/bar' }).returns(
-      new Promise((resolve) => {
-        setTimeout(() => resolve({}), 10);
-      }),
-    );
-    stubs.execa
-      .withArgs('npx sls deploy', { env: { ENV: 'dev', AWS_REGION: 'ap-southeast-1' }, cwd: '/foo/bar' })
-      .rejects(new Error('Boom!'));
+    const processed = (delay: number): Observable<unknown> =>
+      timer(delay).pipe(map(() => ({ type: RunCommandEventEnum.NODE_PROCESSED, result: {} })));
+    stubs.runCommand.callsFake((options: RunOptions) => {
+      switch ((options.env as Record<string, string>).AWS_REGION) {
+        case 'eu-west-1':
+          return processed(30);
+        case 'us-east-1':
+          return processed(10);
+        case 'ap-southeast-1':
+          return of({ type: RunCommandEventEnum.NODE_ERRORED, error: new Error('Boom!') });
+        default:
+          return throwError(() => new Error('Unexpected region'));
+      }
+    });
+    const state = {
+      getSharedInfrastructureState: stub().resolves([]),
+      setSharedInfrastructureState: stub().resolves(),
+    };
     const started: string[] = [];
     const success: string[] = [];
     const failures: string[] = [];
-    deploySharedInfraStack(
-      { name: 'dev', regions: ['eu-west-1', 'us-east-1', 'ap-southeast-1'] } as IEnvironment,
-      '/foo/bar/serverless.yml',
-    ).subscribe({
+    deploySharedInfraStack({
+      env: { name: 'dev', regions: ['eu-west-1', 'us-east-1', 'ap-southeast-1'] } as IEnvironment,
+      workspace: { name: 'infra', _config: {} } as unknown as Workspace,
+      state: state as unknown as State,
+      config: { defaultRegion: 'eu-west-1', state: { table: 'state', checksums: 'checksums' } } as IRootConfig,
+      verbose: false,
+      force: false,
+      project: {} as Project,
+      concurrency: 1,
+      currentRevision: 'abcdef',
+    }).subscribe({
       next: (res) => {
         switch (res.type) {
-          case SharedInfraDeployEventType.STARTED:
+          case SharedInfraDeployEventType.DEPLOYING:
             started.push(res.region);
             break;
-          case SharedInfraDeployEventType.SUCCEEDED:
+          case SharedInfraDeployEventType.DEPLOYED:
             success.push(res.region);
             break;
-          case SharedInfraDeployEventType.FAILED:
+          case SharedInfraDeployEventType.FAILED_DEPLOY:
             failures.push(res.region);
             break;
         }
@@ -52,6 +67,7 @@ describe('The stack deployer', () => {
         expect(started).toEqual(['eu-west-1', 'us-east-1', 'ap-southeast-1']);
         expect(success).toEqual(['eu-west-1', 'us-east-1']);
         expect(failures).toEqual(['ap-southeast-1']);
+        expect(state.setSharedInfrastructureState.callCount).toBe(2);
         done();
       },
     });
@@ -2,7 +2,7 @@ import { IEnvironment, ISharedInfraStateRequest, State } from '@microlambda/remo
 import { concatAll, from, Observable, of } from 'rxjs';
 import { SharedInfraDeployEvent, SharedInfraDeployEventType } from './types';
 import { IBaseLogger } from '@microlambda/types';
-import { RunCommandEventEnum, Runner, Workspace } from '@microlambda/runner-core';
+import { CacheBackends, RunCommandEventEnum, Runner, Workspace } from '@microlambda/runner-core';
 import { IRootConfig } from '@microlambda/config';
 import { Project } from '../graph/project';
 
@@ -54,13 +54,7 @@ const runSlsCommand = (
         },
         force: action === 'remove' || force,
         stdio: verbose ? 'inherit' : 'pipe',
-        remoteCache:
-          action === 'deploy'
-            ? {
-                region: config.defaultRegion,
-                bucket: config.state.checksums,
-              }
-            : undefined,
+        remoteCache: action === 'deploy' ? { backend: CacheBackends.fromRootConfig(config, project.root) } : undefined,
         cachePrefix,
       })
       .subscribe({
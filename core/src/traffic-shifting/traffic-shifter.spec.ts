@@ -0,0 +1,134 @@
+import { SinonStub, stub } from 'sinon';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { lastValueFrom, toArray } from 'rxjs';
+import { aws } from '@microlambda/aws';
+import { ITrafficShiftingConfig } from '@microlambda/config';
+import { Workspace } from '@microlambda/runner-core';
+import { resolveTrafficSteps, TrafficShifter } from './traffic-shifter';
+import { TrafficShiftingEvent, TrafficShiftingEventType } from './types';
+
+describe('[function] resolveTrafficSteps', () => {
+  it('should shift the traffic once for canary', () => {
+    expect(resolveTrafficSteps({ type: 'canary', percentage: 10, interval: 5 })).toEqual([10]);
+  });
+  it('should shift the traffic every interval for linear', () => {
+    expect(resolveTrafficSteps({ type: 'linear', percentage: 25, interval: 5 })).toEqual([25, 50, 75]);
+    expect(resolveTrafficSteps({ type: 'linear', percentage: 40, interval: 5 })).toEqual([40, 80]);
+  });
+});
+
+describe('[class] TrafficShifter', () => {
+  const stubs: Record<string, SinonStub> = {};
+  let root: string;
+  let workspace: Workspace;
+  const sleep = stub().resolves();
+  const shift = (config: Partial<ITrafficShiftingConfig> = {}): Promise<Array<TrafficShiftingEvent>> => {
+    const shifter = new TrafficShifter(
+      { type: 'canary', percentage: 10, interval: 1, alarms: ['$alarm'], ...config },
+      undefined,
+      {},
+      sleep,
+    );
+    return lastValueFrom(shifter.shift(workspace, 'dev', 'eu-west-1').pipe(toArray()));
+  };
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'mila-traffic-'));
+    writeFileSync(join(root, 'serverless.yml'), 'service: users\nprovider:\n  name: aws\n');
+    workspace = { name: 'users', root } as unknown as Workspace;
+    stubs.listStackFunctions = stub(aws.cloudformation, 'listStackFunctions').resolves(['users-dev-handler']);
+    stubs.publishVersion = stub(aws.lambda, 'publishVersion').resolves('4');
+    stubs.getAlias = stub(aws.lambda, 'getAlias').resolves({ name: 'live', functionVersion: '3', weights: {} });
+    stubs.createAlias = stub(aws.lambda, 'createAlias').resolves();
+    stubs.updateAlias = stub(aws.lambda, 'updateAlias').resolves();
+    stubs.getAlarmsInAlarm = stub(aws.cloudwatch, 'getAlarmsInAlarm').resolves([]);
+  });
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+    sleep.reset();
+    sleep.resolves();
+    Object.values(stubs).forEach((s) => s.restore());
+  });
+
+  it('should shift traffic to the new version step by step', async () => {
+    const events = await shift();
+    expect(events.map((e) => e.type)).toEqual([
+      TrafficShiftingEventType.STARTED,
+      TrafficShiftingEventType.SHIFTED,
+      TrafficShiftingEventType.COMPLETED,
+    ]);
+    expect(stubs.listStackFunctions.getCall(0).args.slice(0, 2)).toEqual(['eu-west-1', 'users-dev']);
+    expect(stubs.updateAlias.getCalls().map((c) => c.args[0])).toEqual([
+      { region: 'eu-west-1', functionName: 'users-dev-handler', alias: 'live', version: '3', weights: { '4': 0.1 } },
+      { region: 'eu-west-1', functionName: 'users-dev-handler', alias: 'live', version: '4', weights: undefined },
+    ]);
+    expect(sleep.getCalls().reduce((total, c) => total + c.args[0], 0)).toBe(60 * 1000);
+  });
+  it('should create the alias on the new version on first deployment', async () => {
+    stubs.getAlias.resolves(undefined);
+    const events = await shift({ alias: 'current' });
+    expect(events.map((e) => e.type)).toEqual([TrafficShiftingEventType.COMPLETED]);
+    expect(stubs.createAlias.getCall(0).args[0]).toEqual({
+      region: 'eu-west-1',
+      functionName: 'users-dev-handler',
+      alias: 'current',
+      version: '4',
+    });
+    expect(stubs.updateAlias.called).toBe(false);
+  });
+  it('should shift traffic back to the previous version when an alarm is triggered', async () => {
+    stubs.getAlarmsInAlarm.onCall(1).resolves(['$alarm']);
+    const events = await shift({ type: 'linear', percentage: 50 });
+    expect(events.map((e) => e.type)).toEqual([
+      TrafficShiftingEventType.STARTED,
+      TrafficShiftingEventType.SHIFTED,
+      TrafficShiftingEventType.ALARM,
+      TrafficShiftingEventType.ROLLED_BACK,
+      TrafficShiftingEventType.FAILED,
+    ]);
+    expect(stubs.updateAlias.lastCall.args[0]).toEqual({
+      region: 'eu-west-1',
+      functionName: 'users-dev-handler',
+      alias: 'live',
+      version: '3',
+      weights: undefined,
+    });
+  });
+  it('should not shift traffic back if rollback is disabled', async () => {
+    stubs.getAlarmsInAlarm.resolves(['$alarm']);
+    const events = await shift({ rollback: false });
+    expect(events.map((e) => e.type)).toEqual([
+      TrafficShiftingEventType.STARTED,
+      TrafficShiftingEventType.SHIFTED,
+      TrafficShiftingEventType.ALARM,
+      TrafficShiftingEventType.FAILED,
+    ]);
+    expect(stubs.updateAlias.callCount).toBe(1);
+  });
+  it('should shift traffic back to the previous version if shifting fails', async () => {
+    stubs.getAlarmsInAlarm.onCall(1).rejects(new Error('Throttled'));
+    const events = await shift({ type: 'linear', percentage: 50, rollback: false });
+    expect(events.map((e) => e.type)).toEqual([
+      TrafficShiftingEventType.STARTED,
+      TrafficShiftingEventType.SHIFTED,
+      TrafficShiftingEventType.ROLLED_BACK,
+      TrafficShiftingEventType.FAILED,
+    ]);
+    expect(events[3]).toMatchObject({ error: new Error('Throttled') });
+    expect(stubs.updateAlias.lastCall.args[0]).toEqual({
+      region: 'eu-west-1',
+      functionName: 'users-dev-handler',
+      alias: 'live',
+      version: '3',
+      weights: undefined,
+    });
+  });
+  it('should emit a failed event if something wrong happens', async () => {
+    stubs.listStackFunctions.rejects(new Error('BOOM'));
+    const events = await shift();
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({ type: TrafficShiftingEventType.FAILED, error: new Error('BOOM') });
+  });
+});
@@ -0,0 +1,192 @@
+import { Observable } from 'rxjs';
+import { aws } from '@microlambda/aws';
+import { ITrafficShiftingConfig } from '@microlambda/config';
+import { MilaError, MilaErrorCode } from '@microlambda/errors';
+import { parseDuration, Workspace } from '@microlambda/runner-core';
+import { IBaseLogger } from '@microlambda/types';
+import { resolveStackName } from '../drift/stack-name';
+import { IShiftedFunction, TrafficShiftingEvent, TrafficShiftingEventType } from './types';
+
+const DEFAULT_ALIAS = 'live';
+const ONE_MINUTE = 60 * 1000;
+const THIRTY_SECONDS = 30 * 1000;
+
+const sleep = (ms: number): Promise<void> => new Promise((resolve) => setTimeout(resolve, ms));
+
+export interface ITrafficShifterOptions {
+  /**
+   * Interval in milliseconds between two checks of the alarms while waiting for the next step, defaults to 30 seconds
+   */
+  pollingInterval?: number;
+}
+
+/**
+ * Percentages of the traffic routed to the new version at each step, before all the traffic is shifted.
+ * E.g. canary 10% gives [10] and linear 25% gives [25, 50, 75].
+ */
+export const resolveTrafficSteps = (config: ITrafficShiftingConfig): Array<number> => {
+  if (config.type === 'canary') {
+    return [config.percentage];
+  }
+  const steps: Array<number> = [];
+  for (let percentage = config.percentage; percentage < 100; percentage += config.percentage) {
+    steps.push(percentage);
+  }
+  return steps;
+};
+
+/**
+ * Time to wait between two steps in milliseconds, numbers are considered as minutes
+ */
+export const resolveStepInterval = (config: ITrafficShiftingConfig): number =>
+  typeof config.interval === 'number' ? config.interval * ONE_MINUTE : parseDuration(config.interval);
+
+/**
+ * @class TrafficShifter
+ * Progressively shift the traffic of the lambda alias of every function of a service from the version it pointed
+ * to before the deployment to the version that has just been deployed.
+ * Configured alarms are checked between steps, if one of them is triggered, the traffic is shifted back to the
+ * previous version unless rollback is disabled. The traffic is always shifted back if shifting fails.
+ */
+export class TrafficShifter {
+  private readonly _pollingInterval: number;
+
+  constructor(
+    readonly config: ITrafficShiftingConfig,
+    private readonly _logger?: IBaseLogger,
+    options: ITrafficShifterOptions = {},
+    private readonly _sleep: (ms: number) => Promise<void> = sleep,
+  ) {
+    this._pollingInterval = options.pollingInterval ?? THIRTY_SECONDS;
+  }
+
+  get alias(): string {
+    return this.config.alias ?? DEFAULT_ALIAS;
+  }
+
+  /**
+   * Shift the traffic of a freshly deployed service. Errors are emitted as failed events, so the observable
+   * always completes.
+   */
+  shift(workspace: Workspace, env: string, region: string): Observable<TrafficShiftingEvent> {
+    return new Observable<TrafficShiftingEvent>((obs) => {
+      const base = { workspace, env, region };
+      this._shift(base, (evt) => obs.next(evt))
+        .catch((error) => {
+          this._logger?.error('Traffic shifting failed', workspace.name, region, error);
+          obs.next({ ...base, type: TrafficShiftingEventType.FAILED, error });
+        })
+        .finally(() => obs.complete());
+    });
+  }
+
+  private async _shift(
+    base: { workspace: Workspace; env: string; region: string },
+    emit: (evt: TrafficShiftingEvent) => void,
+  ): Promise<void> {
+    const { workspace, region } = base;
+    const functions = await this._resolveFunctions(workspace, base.env, region);
+    this._logger?.debug('Shifting traffic', workspace.name, region, functions);
+    if (!functions.length) {
+      emit({ ...base, type: TrafficShiftingEventType.COMPLETED, functions });
+      return;
+    }
+    const steps = resolveTrafficSteps(this.config);
+    emit({ ...base, type: TrafficShiftingEventType.STARTED, functions, steps });
+    let triggered: { alarms: Array<string>; percentage: number } | undefined;
+    try {
+      for (const percentage of steps) {
+        await this._route(region, functions, percentage);
+        emit({ ...base, type: TrafficShiftingEventType.SHIFTED, percentage });
+        const alarms = await this._watchAlarms(region, resolveStepInterval(this.config));
+        if (alarms.length) {
+          triggered = { alarms, percentage };
+          break;
+        }
+      }
+      if (!triggered) {
+        await this._route(region, functions, 100);
+      }
+    } catch (e) {
+      // The alias must not be left weighted between the two versions
+      this._logger?.error('Error shifting traffic, routing it back to the previous version', workspace.name, region);
+      await this._route(region, functions, 0);
+      emit({ ...base, type: TrafficShiftingEventType.ROLLED_BACK, functions });
+      throw e;
+    }
+    if (triggered) {
+      const { alarms, percentage } = triggered;
+      emit({ ...base, type: TrafficShiftingEventType.ALARM, alarms, percentage });
+      if (this.config.rollback !== false) {
+        await this._route(region, functions, 0);
+        emit({ ...base, type: TrafficShiftingEventType.ROLLED_BACK, functions });
+      }
+      throw new MilaError(
+        MilaErrorCode.TRAFFIC_SHIFTING_FAILED,
+        `Alarms ${alarms.join(', ')} triggered with ${percentage}% of the traffic on the new version of ${
+          workspace.name
+        }`,
+      );
+    }
+    emit({ ...base, type: TrafficShiftingEventType.COMPLETED, functions });
+  }
+
+  /**
+   * Publish a version of each function of the service stack, and resolve the ones whose alias must be shifted.
+   * If the alias does not exist yet, it is created on the new version as there is no traffic to shift.
+   */
+  private async _resolveFunctions(workspace: Workspace, env: string, region: string): Promise<Array<IShiftedFunction>> {
+    const stackName = resolveStackName(workspace.root, env);
+    if (!stackName) {
+      throw new MilaError(
+        MilaErrorCode.TRAFFIC_SHIFTING_FAILED,
+        `Cannot resolve stack name of ${workspace.name} from serverless manifest`,
+      );
+    }
+    const functions: Array<IShiftedFunction> = [];
+    for (const name of await aws.cloudformation.listStackFunctions(region, stackName, this._logger)) {
+      const version = await aws.lambda.publishVersion(region, name, this._logger);
+      const alias = await aws.lambda.getAlias(region, name, this.alias, this._logger);
+      if (!alias) {
+        await aws.lambda.createAlias({ region, functionName: name, alias: this.alias, version }, this._logger);
+      } else if (alias.functionVersion !== version) {
+        functions.push({ name, from: alias.functionVersion, to: version });
+      }
+    }
+    return functions;
+  }
+
+  private async _route(region: string, functions: Array<IShiftedFunction>, percentage: number): Promise<void> {
+    await Promise.all(
+      functions.map((fn) =>
+        aws.lambda.updateAlias(
+          {
+            region,
+            functionName: fn.name,
+            alias: this.alias,
+            version: percentage === 100 ? fn.to : fn.from,
+            weights: percentage > 0 && percentage < 100 ? { [fn.to]: percentage / 100 } : undefined,
+          },
+          this._logger,
+        ),
+      ),
+    );
+  }
+
+  /**
+   * Wait for the given duration while checking alarms regularly.
+   * @returns the alarms in ALARM state, as soon as one of them is triggered
+   */
+  private async _watchAlarms(region: string, duration: number): Promise<Array<string>> {
+    const alarms = this.config.alarms ?? [];
+    let elapsed = 0;
+    let inAlarm = await aws.cloudwatch.getAlarmsInAlarm(region, alarms, this._logger);
+    while (!inAlarm.length && elapsed < duration) {
+      const wait = Math.min(this._pollingInterval, duration - elapsed);
+      await this._sleep(wait);
+      elapsed += wait;
+      inAlarm = await aws.cloudwatch.getAlarmsInAlarm(region, alarms, this._logger);
+    }
+    return inAlarm;
+  }
+}
@@ -0,0 +1,71 @@
+import { Workspace } from '@microlambda/runner-core';
+
+export enum TrafficShiftingEventType {
+  STARTED = 'traffic_shifting_started',
+  SHIFTED = 'traffic_shifted',
+  ALARM = 'alarm_triggered',
+  ROLLED_BACK = 'traffic_rolled_back',
+  COMPLETED = 'traffic_shifting_completed',
+  FAILED = 'traffic_shifting_failed',
+}
+
+export interface IShiftedFunction {
+  name: string;
+  /**
+   * Version the alias pointed to before the deployment
+   */
+  from: string;
+  to: string;
+}
+
+interface ITrafficShiftingBaseEvent {
+  workspace: Workspace;
+  env: string;
+  region: string;
+}
+
+interface ITrafficShiftingStartedEvent extends ITrafficShiftingBaseEvent {
+  type: TrafficShiftingEventType.STARTED;
+  functions: Array<IShiftedFunction>;
+  steps: Array<number>;
+}
+
+interface ITrafficShiftedEvent extends ITrafficShiftingBaseEvent {
+  type: TrafficShiftingEventType.SHIFTED;
+  /**
+   * Percentage of the traffic routed to the new version
+   */
+  percentage: number;
+}
+
+interface IAlarmTriggeredEvent extends ITrafficShiftingBaseEvent {
+  type: TrafficShiftingEventType.ALARM;
+  alarms: Array<string>;
+  percentage: number;
+}
+
+interface ITrafficRolledBackEvent extends ITrafficShiftingBaseEvent {
+  type: TrafficShiftingEventType.ROLLED_BACK;
+  functions: Array<IShiftedFunction>;
+}
+
+interface ITrafficShiftingCompletedEvent extends ITrafficShiftingBaseEvent {
+  type: TrafficShiftingEventType.COMPLETED;
+  functions: Array<IShiftedFunction>;
+}
+
+export interface ITrafficShiftingFailedEvent extends ITrafficShiftingBaseEvent {
+  type: TrafficShiftingEventType.FAILED;
+  error: unknown;
+}
+
+export type TrafficShiftingEvent =
+  | ITrafficShiftingStartedEvent
+  | ITrafficShiftedEvent
+  | IAlarmTriggeredEvent
+  | ITrafficRolledBackEvent
+  | ITrafficShiftingCompletedEvent
+  | ITrafficShiftingFailedEvent;
+
+export const isTrafficShiftingEvent = (evt: { type: unknown }): evt is TrafficShiftingEvent =>
+  Object.values(TrafficShiftingEventType).includes(evt.type as TrafficShiftingEventType);
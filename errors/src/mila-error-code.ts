@@ -34,4 +34,21 @@ export enum MilaErrorCode {
   NOT_A_SECRET = 'MILA0033',
   SSM_PARAMETER_ALREADY_EXISTS = 'MILA0034',
   NOT_A_SSM_PARAMETER = 'MILA0035',
+  UNKNOWN_CACHE_BACKEND = 'MILA0036',
+  CACHE_BACKEND_ERROR = 'MILA0037',
+  INVALID_CACHE_RETENTION = 'MILA0038',
+  AGENT_UNREACHABLE = 'MILA0039',
+  AGENT_REVISION_MISMATCH = 'MILA0040',
+  INVALID_TARGET_DEPENDENCY = 'MILA0041',
+  CIRCULAR_DEPENDENCY = 'MILA0042',
+  COMMAND_TIMED_OUT = 'MILA0043',
+  DEPLOYMENT_NOT_FOUND = 'MILA0044',
+  UNKNOWN_STATE_BACKEND = 'MILA0045',
+  STATE_BACKEND_ERROR = 'MILA0046',
+  ENVIRONMENT_LOCKED = 'MILA0047',
+  ENVIRONMENT_PROTECTED = 'MILA0048',
+  BRANCH_NOT_ALLOWED = 'MILA0049',
+  INVALID_DEPLOY_PLAN = 'MILA0050',
+  DEPLOY_PLAN_OUTDATED = 'MILA0051',
+  TRAFFIC_SHIFTING_FAILED = 'MILA0052',
 }
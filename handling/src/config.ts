@@ -1,5 +1,6 @@
 import { all as merge } from 'deepmerge';
 import { log } from './debug';
+import { BodyParser, ResponseSerializer } from './handling/api/types';
 
 export interface IApiConfigCorsOptions {
   origin: string;
@@ -13,10 +14,36 @@ export interface IApiConfigCorsOptions {
 export interface IApiConfigOptions {
   cors: boolean | IApiConfigCorsOptions;
   blacklist: string[];
+  /**
+   * Request body parsers by media type or range (e.g. text/*), taking precedence over default ones
+   */
+  parsers?: Record<string, BodyParser>;
+  /**
+   * Response serializers by media type, selected from the Accept header and taking precedence over default ones
+   */
+  serializers?: Record<string, ResponseSerializer>;
+  /**
+   * Validate responses against the schema declared with withValidation. Meant for non-production stages, as an
+   * invalid response results in a 500 error.
+   */
+  validateResponses?: boolean;
+  /**
+   * Format error responses as RFC 7807 problem details, with application/problem+json content type
+   */
+  problemDetails?: boolean;
+}
+
+export interface IEventsConfigOptions {
+  /**
+   * Report failed records of SQS and DynamoDB Streams batches so only them are retried, instead of failing the whole
+   * batch. ReportBatchItemFailures must be enabled on the event source mapping. Defaults to false.
+   */
+  reportBatchItemFailures: boolean;
 }
 
 export interface IConfigOptions {
   api: IApiConfigOptions;
+  events?: IEventsConfigOptions;
 }
 
 let internalConfig: IConfigOptions = {
@@ -3,6 +3,7 @@ import { getConfig } from '../../config';
 import { TestingHandler } from '../index.spec';
 import * as middleware from '../middleware';
 import { apiHandler } from './api';
+import { ConflictError, NotFoundError, registerError, TooManyRequestsError } from './errors';
 import { stub } from 'sinon';
 
 jest.mock('../../config');
@@ -339,4 +340,338 @@ describe('handling', () => {
       });
     });
   });
+
+  describe('api payload formats', () => {
+    const httpApiEvent = (overrides = {}): unknown => ({
+      version: '2.0',
+      routeKey: 'POST /users',
+      rawPath: '/users',
+      headers: { 'content-type': 'application/json' },
+      cookies: ['session=abc'],
+      queryStringParameters: { tags: 'a,b' },
+      requestContext: { domainName: 'api.example.com', http: { method: 'POST' } },
+      body: JSON.stringify({ email: 'foo@example.com' }),
+      isBase64Encoded: false,
+      ...overrides,
+    });
+
+    it('normalizes HTTP API events in the REST API shape', async () => {
+      const handler = stub().resolves(null);
+      await (apiHandler(handler) as TestingHandler)(httpApiEvent());
+
+      expect(handler.getCall(0).args[0]).toMatchObject({
+        source: 'http',
+        httpMethod: 'POST',
+        path: '/users',
+        headers: { 'content-type': 'application/json', 'cookie': 'session=abc' },
+        cookies: ['session=abc'],
+        multiValueQueryStringParameters: { tags: ['a', 'b'] },
+        pathParameters: null,
+        body: { email: 'foo@example.com' },
+      });
+    });
+
+    it('returns cookies and no multi-value headers to HTTP APIs and function URLs', async () => {
+      const event = httpApiEvent({
+        requestContext: { domainName: 'xyz.lambda-url.eu-west-1.on.aws', http: { method: 'GET' } },
+        body: undefined,
+      });
+      const response = await (
+        apiHandler(async (_, response): Promise<{ id: number }> => {
+          response.headers['set-cookie'] = ['a=1', 'b=2'];
+          response.headers['x-foo'] = 'foo';
+          return { id: 1 };
+        }) as TestingHandler
+      )(event);
+
+      expect(response).toEqual({
+        statusCode: 200,
+        headers: { 'x-foo': 'foo' },
+        cookies: ['a=1', 'b=2'],
+        body: JSON.stringify({ id: 1 }),
+        isBase64Encoded: undefined,
+      });
+    });
+
+    it('decodes base64 encoded bodies', async () => {
+      const handler = stub().resolves(null);
+      const body = Buffer.from(JSON.stringify({ email: 'foo@example.com' })).toString('base64');
+      await (apiHandler(handler) as TestingHandler)(httpApiEvent({ body, isBase64Encoded: true }));
+
+      expect(handler.getCall(0).args[0].body).toEqual({ email: 'foo@example.com' });
+    });
+
+    it('formats errors for HTTP APIs', async () => {
+      const response = await (
+        apiHandler(async (): Promise<void> => {
+          throw { name: 'ForbiddenError' };
+        }) as TestingHandler
+      )(httpApiEvent());
+
+      expect(response).toEqual({
+        statusCode: 403,
+        headers: {},
+        body: JSON.stringify('Forbidden'),
+        isBase64Encoded: undefined,
+      });
+    });
+
+    it('handles ALB events', async () => {
+      const handler = stub().resolves({ id: 1 });
+      const response = await (apiHandler(handler) as TestingHandler)({
+        requestContext: { elb: { targetGroupArn: 'arn' } },
+        httpMethod: 'GET',
+        path: '/users',
+        queryStringParameters: { q: 'foo%20bar' },
+        headers: { host: 'example.com' },
+        body: '',
+        isBase64Encoded: false,
+      });
+
+      expect(handler.getCall(0).args[0]).toMatchObject({
+        source: 'alb',
+        httpMethod: 'GET',
+        queryStringParameters: { q: 'foo bar' },
+        multiValueHeaders: { host: ['example.com'] },
+      });
+      expect(response).toEqual({
+        statusCode: 200,
+        statusDescription: '200 OK',
+        headers: {},
+        body: JSON.stringify({ id: 1 }),
+        isBase64Encoded: false,
+      });
+    });
+
+    it('answers 400 to ALB events with malformed query string', async () => {
+      const handler = stub().resolves({ id: 1 });
+      const response = await (apiHandler(handler) as TestingHandler)({
+        requestContext: { elb: { targetGroupArn: 'arn' } },
+        httpMethod: 'GET',
+        path: '/users',
+        queryStringParameters: { q: '%E0%A4%A' },
+        headers: { host: 'example.com' },
+        body: '',
+        isBase64Encoded: false,
+      });
+
+      expect(handler.called).toBe(false);
+      expect(response).toEqual({
+        statusCode: 400,
+        statusDescription: '400 Bad Request',
+        headers: {},
+        body: JSON.stringify('Bad Request'),
+        isBase64Encoded: false,
+      });
+    });
+
+    it('returns binary content base64 encoded to ALB', async () => {
+      const response = await (apiHandler(async () => Buffer.from('binary')) as TestingHandler)({
+        requestContext: { elb: { targetGroupArn: 'arn' } },
+        httpMethod: 'GET',
+        path: '/files/1',
+        headers: { host: 'example.com' },
+        body: '',
+        isBase64Encoded: false,
+      });
+
+      expect(response).toEqual({
+        statusCode: 200,
+        statusDescription: '200 OK',
+        headers: { 'Content-Type': 'application/octet-stream' },
+        body: Buffer.from('binary').toString('base64'),
+        isBase64Encoded: true,
+      });
+    });
+
+    it('returns multi-value headers to ALB when enabled on the target group', async () => {
+      const response = await (
+        apiHandler(async (_, response): Promise<null> => {
+          response.headers['x-foo'] = 'foo';
+          return null;
+        }) as TestingHandler
+      )({
+        requestContext: { elb: { targetGroupArn: 'arn' } },
+        httpMethod: 'DELETE',
+        path: '/users/1',
+        multiValueHeaders: { host: ['example.com'] },
+        body: '',
+        isBase64Encoded: false,
+      });
+
+      expect(response).toEqual({
+        statusCode: 204,
+        statusDescription: '204 No Content',
+        multiValueHeaders: { 'x-foo': ['foo'] },
+        body: '',
+        isBase64Encoded: false,
+      });
+    });
+  });
+
+  describe('api content negotiation', () => {
+    const parse = async (headers: Record<string, string>, body: string, isBase64Encoded = false): Promise<unknown> => {
+      const handler = stub().resolves(null);
+      await (apiHandler(handler) as TestingHandler)({ headers, body, isBase64Encoded });
+      return handler.getCall(0).args[0].body;
+    };
+    const respond = async (content: unknown, headers: Record<string, string> = {}): Promise<unknown> =>
+      (apiHandler(async () => content) as TestingHandler)({ headers });
+
+    it('parses form-urlencoded bodies', async () => {
+      const body = await parse({ 'Content-Type': 'application/x-www-form-urlencoded' }, 'name=foo&tags=a&tags=b');
+      expect(body).toEqual({ name: 'foo', tags: ['a', 'b'] });
+    });
+
+    it('parses multipart bodies with file parts', async () => {
+      const multipart = [
+        '--XyZ',
+        'Content-Disposition: form-data; name="title"',
+        '',
+        'My file',
+        '--XyZ',
+        'Content-Disposition: form-data; name="file"; filename="hello.txt"',
+        'Content-Type: text/plain',
+        '',
+        'Hello\r\nworld',
+        '--XyZ--',
+        '',
+      ].join('\r\n');
+      const body = await parse({ 'content-type': 'multipart/form-data; boundary=XyZ' }, multipart);
+      expect(body).toEqual({
+        title: 'My file',
+        file: {
+          fieldName: 'file',
+          filename: 'hello.txt',
+          contentType: 'text/plain',
+          content: Buffer.from('Hello\r\nworld'),
+        },
+      });
+    });
+
+    it('parses text bodies and leaves binary bodies as buffers', async () => {
+      expect(await parse({ 'content-type': 'text/plain; charset=utf-8' }, 'Hello')).toBe('Hello');
+      const binary = Buffer.from([0xff, 0x00, 0x10]);
+      expect(await parse({ 'content-type': 'image/png' }, binary.toString('base64'), true)).toEqual(binary);
+    });
+
+    it('uses parsers from config first', async () => {
+      mock.mockReturnValue({ api: { cors: false, blacklist: [], parsers: { 'text/*': () => 'custom' } } });
+      expect(await parse({ 'content-type': 'text/plain' }, 'Hello')).toBe('custom');
+    });
+
+    it('serializes responses according to Accept header', async () => {
+      const users = [
+        { id: 1, name: 'Foo, Bar' },
+        { id: 2, name: 'Baz' },
+      ];
+      expect(await respond(users, { accept: 'text/csv' })).toEqual({
+        statusCode: 200,
+        headers: { 'Content-Type': 'text/csv' },
+        multiValueHeaders: {},
+        body: 'id,name\n1,"Foo, Bar"\n2,Baz',
+      });
+      expect(await respond('Hello', { accept: 'text/html;q=0.5, text/plain' })).toMatchObject({
+        headers: { 'Content-Type': 'text/plain' },
+        body: 'Hello',
+      });
+      expect(await respond('Hello', { accept: 'text/html, */*;q=0.1' })).toMatchObject({
+        headers: {},
+        body: JSON.stringify('Hello'),
+      });
+    });
+
+    it('returns binary content base64 encoded', async () => {
+      const response = await respond(Buffer.from('binary'));
+      expect(response).toEqual({
+        statusCode: 200,
+        headers: { 'Content-Type': 'application/octet-stream' },
+        multiValueHeaders: {},
+        body: Buffer.from('binary').toString('base64'),
+        isBase64Encoded: true,
+      });
+    });
+
+    it('uses serializers from config', async () => {
+      const serializers = { 'application/xml': (content: { id: number }): string => `<id>${content.id}</id>` };
+      mock.mockReturnValue({ api: { cors: false, blacklist: [], serializers } });
+      expect(await respond({ id: 1 }, { accept: 'application/xml' })).toMatchObject({
+        headers: { 'Content-Type': 'application/xml' },
+        body: '<id>1</id>',
+      });
+    });
+  });
+
+  describe('api errors', () => {
+    const respondWith = (error: unknown, event = {}): Promise<unknown> =>
+      (
+        apiHandler(async () => {
+          throw error;
+        }) as TestingHandler
+      )(event) as Promise<unknown>;
+
+    it('formats HTTP errors', async () => {
+      expect(await respondWith(new NotFoundError())).toEqual({
+        statusCode: 404,
+        headers: {},
+        multiValueHeaders: {},
+        body: JSON.stringify('Not Found'),
+      });
+      expect(await respondWith(new ConflictError('Already exists', { details: { id: 1 } }))).toEqual({
+        statusCode: 409,
+        headers: {},
+        multiValueHeaders: {},
+        body: JSON.stringify({ data: { id: 1 } }),
+      });
+    });
+
+    it('returns Retry-After header', async () => {
+      expect(await respondWith(new TooManyRequestsError('Slow down', { retryAfter: 30 }))).toEqual({
+        statusCode: 429,
+        headers: { 'Retry-After': '30' },
+        multiValueHeaders: {},
+        body: JSON.stringify('Too Many Requests'),
+      });
+    });
+
+    it('maps registered error classes', async () => {
+      class QuotaExceeded extends Error {}
+      class DailyQuotaExceeded extends QuotaExceeded {}
+      registerError(QuotaExceeded, 402);
+      registerError(DailyQuotaExceeded, () => ({ statusCode: 429, details: { period: 'day' } }));
+
+      expect(await respondWith(new QuotaExceeded())).toMatchObject({
+        statusCode: 402,
+        body: JSON.stringify('Payment Required'),
+      });
+      expect(await respondWith(new DailyQuotaExceeded())).toMatchObject({
+        statusCode: 429,
+        body: JSON.stringify({ data: { period: 'day' } }),
+      });
+    });
+
+    it('formats errors as problem details when enabled', async () => {
+      mock.mockReturnValue({ api: { cors: false, blacklist: [], problemDetails: true } });
+      const response = (await respondWith(new NotFoundError('User not found'), { path: '/users/1' })) as {
+        headers: unknown;
+        body: string;
+      };
+
+      expect(response.headers).toEqual({ 'Content-Type': 'application/problem+json' });
+      expect(JSON.parse(response.body)).toEqual({
+        type: 'about:blank',
+        title: 'Not Found',
+        status: 404,
+        detail: 'User not found',
+        instance: '/users/1',
+      });
+    });
+
+    it('does not expose unexpected errors in problem details', async () => {
+      mock.mockReturnValue({ api: { cors: false, blacklist: [], problemDetails: true } });
+      const response = (await respondWith(new Error('Connection refused'))) as { body: string };
+
+      expect(JSON.parse(response.body)).toEqual({ type: 'about:blank', title: 'Internal Server Error', status: 500 });
+    });
+  });
 });
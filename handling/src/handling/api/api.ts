@@ -1,39 +1,32 @@
-import {
-  APIGatewayEvent,
-  APIGatewayProxyEvent,
-  APIGatewayProxyHandler,
-  APIGatewayProxyResult,
-  Context,
-} from 'aws-lambda';
-import { OutgoingHttpHeaders } from 'http';
+import { APIGatewayProxyResult, Context } from 'aws-lambda';
+import { OutgoingHttpHeaders, STATUS_CODES } from 'http';
 
 import { IApiConfigCorsOptions, getConfig } from '../../config';
+import { getHeader } from './media-type';
+import { HandlingError, IErrorResponse, resolveErrorResponse } from './errors';
 import { callAfterMiddleware, callBeforeMiddleware, callErrorHandlers } from '../middleware';
 import {
   ApiAfterMiddleware,
   ApiBeforeMiddleware,
   ApiErrorHandler,
+  ApiEvent,
   ApiHandler,
   ApiHandlerEvent,
+  ApiResult,
   IMultiValueHeaders,
   Response,
   ISingleValueHeaders,
 } from './types';
+import { resolveEventSource, toRestEvent, toSourceResult } from './payload';
+import { parseBody } from './parsers';
+import { serialize } from './serializers';
 import { log } from '../../debug';
 
-const normalize = (event: APIGatewayProxyEvent): ApiHandlerEvent => {
+const normalize = async (event: ApiHandlerEvent<string | null>): Promise<ApiHandlerEvent> => {
   log.debug('[API] Normalizing event');
   const clonedEvent = Object.assign(event);
   if (event.body) {
-    try {
-      log.debug('[API] Parsing request body from JSON');
-      clonedEvent.body = JSON.parse(clonedEvent.body);
-    } catch (e) {
-      log.debug('[API] ERROR: Only JSON Accepted');
-      const error = new Error('Only JSON payloads are accepted');
-      error.name = 'BadRequestError';
-      throw error;
-    }
+    clonedEvent.body = await parseBody(event as ApiHandlerEvent<string>);
   }
 
   return clonedEvent;
@@ -73,8 +66,13 @@ const multipleHeaders = (event: ApiHandlerEvent, headers: OutgoingHttpHeaders):
   return finalHeaders;
 };
 
-const format = (event: ApiHandlerEvent, response: Response, content: any): APIGatewayProxyResult => {
+const format = async (event: ApiHandlerEvent, response: Response, content: any): Promise<APIGatewayProxyResult> => {
   log.debug('[API] Formatting response');
+  const isEmpty = content === null || content === undefined || content === '';
+  const serialized = isEmpty ? undefined : await serialize(event, response, content);
+  if (serialized?.contentType && !getHeader(response.headers, 'content-type')) {
+    response.headers['Content-Type'] = serialized.contentType;
+  }
   log.debug('[API] Setting headers');
   const headers = singleHeaders(event, response.headers);
   const multiValueHeaders = multipleHeaders(event, response.headers);
@@ -86,7 +84,7 @@ const format = (event: ApiHandlerEvent, response: Response, content: any): APIGa
       apiGatewayHeaders[key] = value;
     }
   });
-  if (content === null || content === undefined || content === '') {
+  if (!serialized) {
     log.debug('[API] No content returning 204');
     return {
       headers: apiGatewayHeaders,
@@ -99,67 +97,70 @@ const format = (event: ApiHandlerEvent, response: Response, content: any): APIGa
     headers: apiGatewayHeaders,
     multiValueHeaders,
     statusCode: httpMethodToStatus(event.httpMethod, response.statusCode),
-    body: JSON.stringify(content, (key, value) => {
-      return getConfig().api.blacklist.indexOf(key) > -1 ? undefined : value;
-    }),
+    body: serialized.body,
+    ...(serialized.isBase64Encoded ? { isBase64Encoded: true } : {}),
   };
 };
 
-const formatError = (
-  event: APIGatewayProxyEvent,
+const PROBLEM_JSON = 'application/problem+json';
+
+/**
+ * RFC 7807 problem details
+ */
+const toProblem = (event: ApiHandlerEvent, error: IErrorResponse): Record<string, unknown> => ({
+  type: error.type ?? 'about:blank',
+  title: STATUS_CODES[error.statusCode],
+  status: error.statusCode,
+  ...(error.detail ? { detail: error.detail } : {}),
+  instance: event.path,
+  ...(error.details ? { errors: error.details } : {}),
+});
+
+const formatError = async (
+  event: ApiHandlerEvent,
   response: Response,
-  err: { name: string; details?: any; statusCode?: number; body?: any },
-): APIGatewayProxyResult => {
-  log.debug('[API] Error name', err.name);
-  switch (err.name) {
-    case 'ValidationError':
-      log.debug('[API] 422 - Validation error');
-      response.statusCode = 422;
-      return format(event, response, { data: err.details });
-    case 'BadRequestError':
-      log.debug('[API] 400 - Bad request');
-      response.statusCode = 400;
-      return format(event, response, err.details ? { data: err.details } : 'Bad Request');
-    case 'ForbiddenError':
-      response.statusCode = 403;
-      return format(event, response, err.details ? { data: err.details } : 'Forbidden');
-    default:
-      log.debug('[API] 500 - Generic error');
-      response.statusCode = err.statusCode || 500;
-      return format(event, response, err.body || 'Internal Server Error');
+  err: unknown,
+): Promise<APIGatewayProxyResult> => {
+  log.debug('[API] Error name', (err as HandlingError)?.name);
+  const error = resolveErrorResponse(err);
+  log.debug('[API] Error status code', error.statusCode);
+  response.statusCode = error.statusCode;
+  Object.assign(response.headers, error.headers);
+  if (getConfig().api.problemDetails) {
+    log.debug('[API] Formatting error as problem details');
+    response.headers['Content-Type'] = PROBLEM_JSON;
+    return format(event, response, toProblem(event, error));
   }
+  return format(event, response, error.body);
 };
 
-export class HandlingError extends Error {
-  statusCode?: number;
-  body?: any;
-  details?: any;
-}
-
-export const apiHandler = (next: ApiHandler): APIGatewayProxyHandler => {
-  return async (event: APIGatewayEvent, context: Context): Promise<APIGatewayProxyResult> => {
+export const apiHandler = (next: ApiHandler): ((event: ApiEvent, context: Context) => Promise<ApiResult>) => {
+  return async (event: ApiEvent, context: Context): Promise<ApiResult> => {
     log.debug('[API] Initializing response');
     const response = new Response();
+    // Used to format the error response if the event cannot be normalized
+    let restEvent = { ...event, source: resolveEventSource(event), raw: event } as unknown as ApiHandlerEvent;
     try {
+      // HTTP API, function URL and ALB events are converted to the REST API shape, and responses back to their format
+      restEvent = toRestEvent(event);
       log.debug('[API] Normalizing event', event);
-      const normalizedEvent = await normalize(event);
+      const normalizedEvent = await normalize(restEvent);
       log.debug('[API] Normalized event', normalizedEvent);
       log.debug('[API] Calling before middleware');
       await callBeforeMiddleware<ApiBeforeMiddleware>('ApiGateway', [normalizedEvent, context]);
       log.debug('[API] Run business logic code');
-      const result = format(normalizedEvent, response, await next(normalizedEvent, response, context));
+      const result = await format(normalizedEvent, response, await next(normalizedEvent, response, context));
       log.debug('[API] Formatted result', result);
       log.debug('[API] Calling after middleware');
       await callAfterMiddleware<ApiAfterMiddleware>('ApiGateway', [normalizedEvent, result]);
-      return result;
+      return toSourceResult(normalizedEvent, result);
     } catch (e) {
-      const err = e as HandlingError;
-      log.debug('[API] Error happened !', err);
-      const result = formatError(event, response, err);
+      log.debug('[API] Error happened !', e);
+      const result = await formatError(restEvent, response, e);
       log.debug('[API] Formatted', result);
       log.debug('[API] Calling error middleware');
-      await callErrorHandlers<ApiErrorHandler>('ApiGateway', [event, err, result]);
-      return result;
+      await callErrorHandlers<ApiErrorHandler>('ApiGateway', [restEvent, e as Error, result]);
+      return toSourceResult(restEvent, result);
     }
   };
 };
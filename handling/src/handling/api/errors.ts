@@ -0,0 +1,210 @@
+import { OutgoingHttpHeaders, STATUS_CODES } from 'http';
+
+export class HandlingError extends Error {
+  statusCode?: number;
+  body?: any;
+  details?: any;
+}
+
+export interface IHttpErrorOptions {
+  /**
+   * Returned in the response body as { data: details }, or as errors in problem details
+   */
+  details?: any;
+  /**
+   * Response headers to set
+   */
+  headers?: OutgoingHttpHeaders;
+}
+
+export interface IRetryableErrorOptions extends IHttpErrorOptions {
+  /**
+   * Delay in seconds or date after which the client can retry, returned in Retry-After header
+   */
+  retryAfter?: number | Date;
+}
+
+/**
+ * @class HttpError
+ * Error resulting in a response with the given status code. Message defaults to the status reason phrase.
+ */
+export class HttpError extends HandlingError {
+  readonly headers: OutgoingHttpHeaders;
+
+  constructor(statusCode: number, message?: string, options: IHttpErrorOptions = {}) {
+    super(message ?? STATUS_CODES[statusCode]);
+    this.name = 'HttpError';
+    this.statusCode = statusCode;
+    this.details = options.details;
+    this.headers = { ...options.headers };
+  }
+}
+
+const retryAfter = (options: IRetryableErrorOptions): IHttpErrorOptions => {
+  if (options.retryAfter == null) {
+    return options;
+  }
+  const value = options.retryAfter instanceof Date ? options.retryAfter.toUTCString() : String(options.retryAfter);
+  return { ...options, headers: { ...options.headers, 'Retry-After': value } };
+};
+
+export class BadRequestError extends HttpError {
+  constructor(message?: string, options?: IHttpErrorOptions) {
+    super(400, message, options);
+    this.name = 'BadRequestError';
+  }
+}
+
+export class UnauthorizedError extends HttpError {
+  constructor(message?: string, options?: IHttpErrorOptions) {
+    super(401, message, options);
+    this.name = 'UnauthorizedError';
+  }
+}
+
+export class ForbiddenError extends HttpError {
+  constructor(message?: string, options?: IHttpErrorOptions) {
+    super(403, message, options);
+    this.name = 'ForbiddenError';
+  }
+}
+
+export class NotFoundError extends HttpError {
+  constructor(message?: string, options?: IHttpErrorOptions) {
+    super(404, message, options);
+    this.name = 'NotFoundError';
+  }
+}
+
+export class MethodNotAllowedError extends HttpError {
+  constructor(message?: string, options?: IHttpErrorOptions) {
+    super(405, message, options);
+    this.name = 'MethodNotAllowedError';
+  }
+}
+
+export class ConflictError extends HttpError {
+  constructor(message?: string, options?: IHttpErrorOptions) {
+    super(409, message, options);
+    this.name = 'ConflictError';
+  }
+}
+
+export class GoneError extends HttpError {
+  constructor(message?: string, options?: IHttpErrorOptions) {
+    super(410, message, options);
+    this.name = 'GoneError';
+  }
+}
+
+export class PreconditionFailedError extends HttpError {
+  constructor(message?: string, options?: IHttpErrorOptions) {
+    super(412, message, options);
+    this.name = 'PreconditionFailedError';
+  }
+}
+
+export class UnsupportedMediaTypeError extends HttpError {
+  constructor(message?: string, options?: IHttpErrorOptions) {
+    super(415, message, options);
+    this.name = 'UnsupportedMediaTypeError';
+  }
+}
+
+export class TooManyRequestsError extends HttpError {
+  constructor(message?: string, options: IRetryableErrorOptions = {}) {
+    super(429, message, retryAfter(options));
+    this.name = 'TooManyRequestsError';
+  }
+}
+
+export class InternalServerError extends HttpError {
+  constructor(message?: string, options?: IHttpErrorOptions) {
+    super(500, message, options);
+    this.name = 'InternalServerError';
+  }
+}
+
+export class ServiceUnavailableError extends HttpError {
+  constructor(message?: string, options: IRetryableErrorOptions = {}) {
+    super(503, message, retryAfter(options));
+    this.name = 'ServiceUnavailableError';
+  }
+}
+
+/**
+ * Response of an error, as returned by the mappers of the registry
+ */
+export interface IErrorResponse {
+  statusCode: number;
+  /**
+   * Response body, defaults to { data: details } if there are details, and to the status reason phrase otherwise.
+   * Not used with problem details.
+   */
+  body?: any;
+  details?: any;
+  headers?: OutgoingHttpHeaders;
+  /**
+   * Problem details type URI, defaults to about:blank
+   */
+  type?: string;
+  /**
+   * Problem details explanation, not set for unexpected errors
+   */
+  detail?: string;
+}
+
+export type ErrorMapper<T extends Error = Error> = (error: T) => IErrorResponse;
+
+type ErrorClass<T extends Error> = abstract new (...args: any[]) => T;
+
+const registry: Array<[ErrorClass<Error>, ErrorMapper<any>]> = [];
+
+/**
+ * Map errors of the given class, and of its subclasses, to a response. Either a status code or a mapper can be given.
+ * Errors registered last take precedence.
+ */
+export const registerError = <T extends Error>(errorClass: ErrorClass<T>, mapper: ErrorMapper<T> | number): void => {
+  registry.unshift([errorClass, typeof mapper === 'number' ? (): IErrorResponse => ({ statusCode: mapper }) : mapper]);
+};
+
+// Plain objects thrown with these names are handled as the corresponding errors
+const knownErrors: Record<string, number> = {
+  BadRequestError: 400,
+  UnauthorizedError: 401,
+  ForbiddenError: 403,
+  NotFoundError: 404,
+  MethodNotAllowedError: 405,
+  ConflictError: 409,
+  GoneError: 410,
+  PreconditionFailedError: 412,
+  UnsupportedMediaTypeError: 415,
+  TooManyRequestsError: 429,
+  ServiceUnavailableError: 503,
+};
+
+const withDefaultBody = (response: IErrorResponse): IErrorResponse => ({
+  ...response,
+  body: response.body ?? (response.details ? { data: response.details } : STATUS_CODES[response.statusCode]),
+});
+
+export const resolveErrorResponse = (err: any): IErrorResponse => {
+  const registered = registry.find(([errorClass]) => err instanceof errorClass);
+  if (registered) {
+    return withDefaultBody(registered[1](err));
+  }
+  if (err?.name === 'ValidationError') {
+    return { statusCode: 422, body: { data: err.details }, details: err.details, detail: err.message };
+  }
+  const statusCode = err instanceof HttpError ? err.statusCode : knownErrors[err?.name];
+  if (statusCode) {
+    return withDefaultBody({
+      statusCode,
+      body: err.body,
+      details: err.details,
+      headers: err.headers,
+      detail: err.message,
+    });
+  }
+  return { statusCode: err?.statusCode || 500, body: err?.body || 'Internal Server Error', headers: err?.headers };
+};
@@ -1,2 +1,4 @@
 export * from './types';
 export * from './api';
+export * from './errors';
+export { isApiEvent } from './payload';
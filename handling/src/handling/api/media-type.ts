@@ -0,0 +1,69 @@
+import { OutgoingHttpHeaders } from 'http';
+
+export interface IMediaType {
+  /**
+   * Lower-cased type and subtype, e.g. application/json
+   */
+  type: string;
+  params: Record<string, string>;
+}
+
+/**
+ * Parse a header value made of a main value and parameters, such as Content-Type or Content-Disposition
+ */
+export const parseMediaType = (value: string): IMediaType => {
+  const [type, ...params] = value.split(';');
+  return {
+    type: type.trim().toLowerCase(),
+    params: params.reduce((acc: Record<string, string>, param) => {
+      const separator = param.indexOf('=');
+      if (separator > -1) {
+        const name = param.slice(0, separator).trim().toLowerCase();
+        acc[name] = param
+          .slice(separator + 1)
+          .trim()
+          .replace(/^"(.*)"$/, '$1');
+      }
+      return acc;
+    }, {}),
+  };
+};
+
+/**
+ * Whether a media type matches a media range such as *\/*, text/* or application/json.
+ * Structured syntax suffixes match their base type, e.g. application/problem+json matches application/json.
+ */
+export const matchesMediaType = (range: string, type: string): boolean => {
+  const [rangeType, rangeSubtype] = range.toLowerCase().split('/');
+  const [mainType, subtype] = type.toLowerCase().split('/');
+  if (rangeType === '*') {
+    return true;
+  }
+  if (rangeType !== mainType) {
+    return false;
+  }
+  return rangeSubtype === '*' || rangeSubtype === subtype || subtype?.endsWith(`+${rangeSubtype}`);
+};
+
+/**
+ * Media ranges of an Accept header, from the most to the least preferred. Not acceptable ranges (q=0) are omitted.
+ */
+export const parseAccept = (accept: string): string[] =>
+  accept
+    .split(',')
+    .map((range, index) => {
+      const { type, params } = parseMediaType(range);
+      return { type, index, quality: params.q != null ? Number(params.q) : 1 };
+    })
+    .filter((range) => range.type && range.quality > 0)
+    .sort((a, b) => b.quality - a.quality || a.index - b.index)
+    .map((range) => range.type);
+
+export const getHeader = (
+  headers: Record<string, string | undefined> | OutgoingHttpHeaders | null | undefined,
+  name: string,
+): string | undefined => {
+  const key = Object.keys(headers ?? {}).find((k) => k.toLowerCase() === name.toLowerCase());
+  const value = key && headers ? headers[key] : undefined;
+  return value != null ? String(value) : undefined;
+};
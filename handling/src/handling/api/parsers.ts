@@ -0,0 +1,114 @@
+import { getConfig } from '../../config';
+import { BadRequestError } from './errors';
+import { getHeader, matchesMediaType, parseMediaType } from './media-type';
+import { ApiHandlerEvent, BodyParser, IUploadedFile } from './types';
+import { log } from '../../debug';
+
+// Requests without content type have always been considered JSON
+const DEFAULT_CONTENT_TYPE = 'application/json';
+const CRLF = '\r\n';
+
+type Fields<T> = Record<string, T | T[]>;
+
+/**
+ * Repeated fields are gathered in arrays
+ */
+const appendField = <T>(fields: Fields<T>, name: string, value: T): void => {
+  const current = fields[name];
+  if (current === undefined) {
+    fields[name] = value;
+  } else {
+    fields[name] = Array.isArray(current) ? [...current, value] : [current, value];
+  }
+};
+
+const parseJson: BodyParser = (body) => {
+  try {
+    log.debug('[API] Parsing request body from JSON');
+    return JSON.parse(body.toString());
+  } catch (e) {
+    log.debug('[API] ERROR: Invalid JSON');
+    throw new BadRequestError('Invalid JSON payload');
+  }
+};
+
+const parseForm: BodyParser = (body) => {
+  log.debug('[API] Parsing request body from form');
+  const fields: Fields<string> = {};
+  new URLSearchParams(body.toString()).forEach((value, name) => appendField(fields, name, value));
+  return fields;
+};
+
+/**
+ * Text fields are parsed as strings, and file parts as IUploadedFile
+ */
+const parseMultipart: BodyParser = (body, { params }) => {
+  log.debug('[API] Parsing request body from multipart form');
+  if (!params.boundary) {
+    throw new BadRequestError('Missing multipart boundary');
+  }
+  const delimiter = Buffer.from(`--${params.boundary}`);
+  const fields: Fields<string | IUploadedFile> = {};
+  let start = body.indexOf(delimiter);
+  while (start > -1) {
+    const partStart = start + delimiter.length;
+    const end = body.indexOf(delimiter, partStart);
+    // The closing delimiter is followed by "--"
+    if (end === -1 || body.subarray(partStart, partStart + 2).toString() === '--') {
+      break;
+    }
+    // Each part is surrounded by line breaks, and its headers are separated from its content by an empty line
+    const part = body.subarray(partStart + CRLF.length, end - CRLF.length);
+    const separator = part.indexOf(CRLF + CRLF);
+    if (separator > -1) {
+      const headers = Object.fromEntries(
+        part
+          .subarray(0, separator)
+          .toString()
+          .split(CRLF)
+          .map((line) => [line.slice(0, line.indexOf(':')).trim().toLowerCase(), line.slice(line.indexOf(':') + 1)]),
+      );
+      const disposition = parseMediaType(headers['content-disposition'] ?? '');
+      const content = part.subarray(separator + 2 * CRLF.length);
+      if (disposition.params.name) {
+        const value =
+          disposition.params.filename != null
+            ? {
+                fieldName: disposition.params.name,
+                filename: disposition.params.filename,
+                contentType: headers['content-type']?.trim(),
+                content,
+              }
+            : content.toString();
+        appendField(fields, disposition.params.name, value);
+      }
+    }
+    start = end;
+  }
+  return fields;
+};
+
+const parseText: BodyParser = (body) => body.toString();
+
+const defaultParsers: Record<string, BodyParser> = {
+  'application/json': parseJson,
+  'application/x-www-form-urlencoded': parseForm,
+  'multipart/form-data': parseMultipart,
+  'text/*': parseText,
+};
+
+/**
+ * Parse request body according to its content type. Parsers configured with config() take precedence over default
+ * ones. Bodies of other content types are left as string, or as buffer when base64 encoded.
+ */
+export const parseBody = async (event: ApiHandlerEvent<string>): Promise<unknown> => {
+  const { type, params } = parseMediaType(getHeader(event.headers, 'content-type') || DEFAULT_CONTENT_TYPE);
+  log.debug('[API] Request content type', type);
+  const body = event.isBase64Encoded ? Buffer.from(event.body, 'base64') : Buffer.from(event.body);
+  const parsers = [...Object.entries(getConfig().api.parsers ?? {}), ...Object.entries(defaultParsers)];
+  const parser = parsers.find(([range]) => matchesMediaType(range, type));
+  if (!parser) {
+    return event.isBase64Encoded ? body : body.toString();
+  }
+  return parser[1](body, { mediaType: type, params, event });
+};
@@ -0,0 +1,190 @@
+import {
+  ALBEvent,
+  ALBResult,
+  APIGatewayEventRequestContext,
+  APIGatewayProxyEvent,
+  APIGatewayProxyEventV2,
+  APIGatewayProxyResult,
+  APIGatewayProxyStructuredResultV2,
+} from 'aws-lambda';
+import { STATUS_CODES } from 'http';
+
+import { BadRequestError } from './errors';
+import { ApiEvent, ApiEventSource, ApiHandlerEvent, ApiResult } from './types';
+import { log } from '../../debug';
+
+type HeaderValue = boolean | number | string;
+
+const isHttpApiEvent = (event: unknown): event is APIGatewayProxyEventV2 =>
+  (event as APIGatewayProxyEventV2)?.version === '2.0' && !!(event as APIGatewayProxyEventV2).requestContext?.http;
+
+const isAlbEvent = (event: unknown): event is ALBEvent => !!(event as ALBEvent)?.requestContext?.elb;
+
+export const isApiEvent = (event: unknown): boolean =>
+  (event as APIGatewayProxyEvent)?.pathParameters !== undefined || isHttpApiEvent(event) || isAlbEvent(event);
+
+export const resolveEventSource = (event: ApiEvent): ApiEventSource => {
+  if (isHttpApiEvent(event)) {
+    return event.requestContext.domainName?.includes('.lambda-url.') ? 'function-url' : 'http';
+  }
+  return isAlbEvent(event) ? 'alb' : 'rest';
+};
+
+const fromHttpApi = (event: APIGatewayProxyEventV2, source: ApiEventSource): ApiHandlerEvent<string | null> => {
+  const headers: Record<string, string | undefined> = { ...event.headers };
+  if (event.cookies?.length) {
+    headers.cookie = event.cookies.join('; ');
+  }
+  const queryStringParameters = event.queryStringParameters ?? null;
+  return {
+    source,
+    raw: event,
+    httpMethod: event.requestContext.http.method,
+    path: event.rawPath,
+    resource: event.routeKey,
+    headers,
+    multiValueHeaders: Object.fromEntries(
+      Object.entries(headers).map(([name, value]) => [name, value != null ? [value] : undefined]),
+    ),
+    cookies: event.cookies,
+    // Payload format 2.0 joins the values of repeated query string parameters with commas
+    queryStringParameters,
+    multiValueQueryStringParameters: queryStringParameters
+      ? Object.fromEntries(Object.entries(queryStringParameters).map(([name, value]) => [name, value?.split(',')]))
+      : null,
+    pathParameters: event.pathParameters ?? null,
+    stageVariables: event.stageVariables ?? null,
+    requestContext: event.requestContext as unknown as APIGatewayEventRequestContext,
+    body: event.body ?? null,
+    isBase64Encoded: event.isBase64Encoded,
+  };
+};
+
+const decodeParameters = <T>(
+  params: Record<string, T> | undefined,
+  decode: (value: T) => T,
+): Record<string, T> | null =>
+  params ? Object.fromEntries(Object.entries(params).map(([name, value]) => [name, decode(value)])) : null;
+
+const fromAlb = (event: ALBEvent): ApiHandlerEvent<string | null> => {
+  // Multi-value headers are used instead of headers when enabled on the target group
+  const multiValueHeaders =
+    event.multiValueHeaders ??
+    Object.fromEntries(Object.entries(event.headers ?? {}).map(([name, value]) => [name, value ? [value] : undefined]));
+  const headers =
+    event.headers ??
+    Object.fromEntries(
+      Object.entries(event.multiValueHeaders ?? {}).map(([name, values]) => [name, values?.[values.length - 1]]),
+    );
+  // Query string parameters are URL-encoded by the load balancer
+  const decode = (value: string): string => {
+    try {
+      return decodeURIComponent(value);
+    } catch (e) {
+      log.debug('[API] ERROR: Invalid query string parameter', value);
+      throw new BadRequestError('Invalid query string');
+    }
+  };
+  return {
+    source: 'alb',
+    raw: event,
+    httpMethod: event.httpMethod,
+    path: event.path,
+    resource: event.path,
+    headers,
+    multiValueHeaders,
+    queryStringParameters: decodeParameters(event.queryStringParameters, (value) => (value ? decode(value) : value)),
+    multiValueQueryStringParameters: decodeParameters(event.multiValueQueryStringParameters, (values) =>
+      values?.map(decode),
+    ),
+    pathParameters: null,
+    stageVariables: null,
+    requestContext: event.requestContext as unknown as APIGatewayEventRequestContext,
+    body: event.body,
+    isBase64Encoded: event.isBase64Encoded,
+  };
+};
+
+/**
+ * Normalize any HTTP event in the REST API shape, the body is not parsed yet
+ */
+export const toRestEvent = (event: ApiEvent): ApiHandlerEvent<string | null> => {
+  const source = resolveEventSource(event);
+  log.debug('[API] Event source', source);
+  switch (source) {
+    case 'http':
+    case 'function-url':
+      return fromHttpApi(event as APIGatewayProxyEventV2, source);
+    case 'alb':
+      return fromAlb(event as ALBEvent);
+    default:
+      return Object.assign(event as APIGatewayProxyEvent, { source });
+  }
+};
+
+const isSetCookie = (header: string): boolean => header.toLowerCase() === 'set-cookie';
+
+const joinHeaders = (
+  result: APIGatewayProxyResult,
+  exclude: (header: string) => boolean = (): boolean => false,
+): Record<string, HeaderValue> => {
+  const headers: Record<string, HeaderValue> = {};
+  Object.entries(result.headers ?? {})
+    .filter(([name]) => !exclude(name))
+    .forEach(([name, value]) => (headers[name] = value));
+  Object.entries(result.multiValueHeaders ?? {})
+    .filter(([name]) => !exclude(name))
+    .forEach(([name, values]) => (headers[name] = values.join(', ')));
+  return headers;
+};
+
+const toHttpApiResult = (result: APIGatewayProxyResult): APIGatewayProxyStructuredResultV2 => {
+  // Payload format 2.0 does not support multi-value headers, cookies must be returned in a dedicated field
+  const cookies = [
+    ...Object.entries(result.headers ?? {})
+      .filter(([name]) => isSetCookie(name))
+      .map(([, value]) => String(value)),
+    ...Object.entries(result.multiValueHeaders ?? {})
+      .filter(([name]) => isSetCookie(name))
+      .flatMap(([, values]) => values.map(String)),
+  ];
+  return {
+    statusCode: result.statusCode,
+    headers: joinHeaders(result, isSetCookie),
+    ...(cookies.length ? { cookies } : {}),
+    body: result.body,
+    isBase64Encoded: result.isBase64Encoded,
+  };
+};
+
+const toAlbResult = (event: ApiHandlerEvent, result: APIGatewayProxyResult): ALBResult => {
+  const statusDescription = `${result.statusCode} ${STATUS_CODES[result.statusCode] ?? ''}`.trim();
+  const base = {
+    statusCode: result.statusCode,
+    statusDescription,
+    body: result.body,
+    isBase64Encoded: !!result.isBase64Encoded,
+  };
+  // The load balancer expects multi-value headers only if they are enabled on the target group, and headers otherwise
+  if ((event.raw as ALBEvent).multiValueHeaders) {
+    const multiValueHeaders: Record<string, HeaderValue[]> = { ...result.multiValueHeaders };
+    Object.entries(result.headers ?? {}).forEach(([name, value]) => (multiValueHeaders[name] = [value]));
+    return { ...base, multiValueHeaders };
+  }
+  return { ...base, headers: joinHeaders(result) };
+};
+
+/**
+ * Format the response in the shape expected by the source of the event
+ */
+export const toSourceResult = (event: ApiHandlerEvent, result: APIGatewayProxyResult): ApiResult => {
+  switch (event.source) {
+    case 'http':
+    case 'function-url':
+      return toHttpApiResult(result);
+    case 'alb':
+      return toAlbResult(event, result);
+    default:
+      return result;
+  }
+};
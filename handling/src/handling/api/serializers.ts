@@ -0,0 +1,116 @@
+import { Readable } from 'stream';
+
+import { getConfig } from '../../config';
+import { getHeader, matchesMediaType, parseAccept, parseMediaType } from './media-type';
+import { ApiHandlerEvent, Response, ResponseSerializer } from './types';
+import { log } from '../../debug';
+
+// JSON responses have always been returned without Content-Type header, other ones are explicitly typed
+const DEFAULT_MEDIA_TYPE = 'application/json';
+const BINARY_MEDIA_TYPE = 'application/octet-stream';
+
+export interface ISerializedContent {
+  body: string;
+  isBase64Encoded: boolean;
+  /**
+   * Content-Type header to add to the response, if not already set by the handler
+   */
+  contentType?: string;
+}
+
+const isBlacklisted = (key: string): boolean => getConfig().api.blacklist.indexOf(key) > -1;
+
+const toJson = (content: unknown): string =>
+  JSON.stringify(content, (key, value) => (isBlacklisted(key) ? undefined : value));
+
+const serializeJson: ResponseSerializer = (content) => toJson(content);
+
+const serializeText: ResponseSerializer = (content) =>
+  typeof content === 'object' ? toJson(content) : String(content);
+
+const csvValue = (value: unknown): string => {
+  const text = value == null ? '' : typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Objects are serialized as rows, columns being the keys found in the objects
+ */
+const serializeCsv: ResponseSerializer = (content) => {
+  const rows: Array<Record<string, unknown>> = Array.isArray(content) ? content : [content];
+  const columns = [...new Set(rows.flatMap((row) => Object.keys(row ?? {})))].filter((key) => !isBlacklisted(key));
+  return [columns.map(csvValue), ...rows.map((row) => columns.map((column) => csvValue(row?.[column])))]
+    .map((cells) => cells.join(','))
+    .join('\n');
+};
+
+const defaultSerializers: Record<string, ResponseSerializer> = {
+  'application/json': serializeJson,
+  'text/plain': serializeText,
+  'text/csv': serializeCsv,
+};
+
+const isBinary = (content: unknown): content is Buffer | Uint8Array | Readable =>
+  Buffer.isBuffer(content) || content instanceof Uint8Array || content instanceof Readable;
+
+const toBuffer = async (content: Buffer | Uint8Array | Readable): Promise<Buffer> => {
+  if (!(content instanceof Readable)) {
+    return Buffer.from(content);
+  }
+  const chunks: Buffer[] = [];
+  for await (const chunk of content) {
+    chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks);
+};
+
+/**
+ * The media type set by the handler in response headers is used if any, otherwise the most preferred media type
+ * of the Accept header that has a serializer. Falls back to JSON.
+ */
+const negotiate = (
+  event: ApiHandlerEvent,
+  response: Response,
+  serializers: Array<[string, ResponseSerializer]>,
+): { mediaType: string; serialize: ResponseSerializer } => {
+  const contentType = getHeader(response.headers, 'content-type');
+  const ranges = contentType
+    ? [parseMediaType(contentType).type]
+    : parseAccept(getHeader(event.headers, 'accept') ?? '');
+  for (const range of ranges) {
+    const serializer = serializers.find(([type]) => matchesMediaType(range, type) || matchesMediaType(type, range));
+    if (serializer) {
+      // When a wildcard range has been accepted, the serializer type is the one returned
+      return { mediaType: range.includes('*') ? serializer[0] : range, serialize: serializer[1] };
+    }
+  }
+  if (contentType) {
+    // The handler is responsible for content of media types without serializer
+    return { mediaType: parseMediaType(contentType).type, serialize: serializeText };
+  }
+  return { mediaType: DEFAULT_MEDIA_TYPE, serialize: serializeJson };
+};
+
+/**
+ * Serialize the response body. Buffers and readable streams are returned as binary, base64 encoded.
+ */
+export const serialize = async (
+  event: ApiHandlerEvent,
+  response: Response,
+  content: unknown,
+): Promise<ISerializedContent> => {
+  if (isBinary(content)) {
+    log.debug('[API] Returning binary content');
+    const body = await toBuffer(content);
+    return { body: body.toString('base64'), isBase64Encoded: true, contentType: BINARY_MEDIA_TYPE };
+  }
+  const serializers = [...Object.entries(getConfig().api.serializers ?? {}), ...Object.entries(defaultSerializers)];
+  const { mediaType, serialize: serializer } = negotiate(event, response, serializers);
+  log.debug('[API] Serializing response as', mediaType);
+  const body = await serializer(content, { mediaType, event });
+  const contentType = mediaType === DEFAULT_MEDIA_TYPE ? undefined : mediaType;
+  if (Buffer.isBuffer(body)) {
+    return { body: body.toString('base64'), isBase64Encoded: true, contentType };
+  }
+  return { body, isBase64Encoded: false, contentType };
+};
@@ -1,4 +1,12 @@
-import { APIGatewayProxyEvent, APIGatewayProxyResult, Context } from 'aws-lambda';
+import {
+  ALBEvent,
+  ALBResult,
+  APIGatewayProxyEvent,
+  APIGatewayProxyEventV2,
+  APIGatewayProxyResult,
+  APIGatewayProxyStructuredResultV2,
+  Context,
+} from 'aws-lambda';
 import { OutgoingHttpHeaders } from 'http';
 
 export class Response {
@@ -14,7 +22,29 @@ export interface ISingleValueHeaders {
   [header: string]: boolean | number | string | undefined;
 }
 
-export type ApiHandlerEvent<TRequest = any> = Omit<APIGatewayProxyEvent, 'body'> & { body: TRequest };
+/**
+ * Where the HTTP event comes from: REST API (payload format 1.0), HTTP API or Lambda function URL (payload format 2.0),
+ * or Application Load Balancer target
+ */
+export type ApiEventSource = 'rest' | 'http' | 'function-url' | 'alb';
+
+export type ApiEvent = APIGatewayProxyEvent | APIGatewayProxyEventV2 | ALBEvent;
+
+export type ApiResult = APIGatewayProxyResult | APIGatewayProxyStructuredResultV2 | ALBResult;
+
+/**
+ * Every HTTP event is normalized in the REST API shape, whatever its source.
+ * For other sources than REST API, requestContext is left untouched and the original event is available in raw.
+ */
+export type ApiHandlerEvent<TRequest = any> = Omit<APIGatewayProxyEvent, 'body'> & {
+  body: TRequest;
+  source: ApiEventSource;
+  /**
+   * Request cookies, as sent by HTTP APIs and function URLs. They are also in the cookie header.
+   */
+  cookies?: string[];
+  raw?: ApiEvent;
+};
 
 export type ApiHandleContext = Context;
 
@@ -39,3 +69,46 @@ export type ApiErrorHandler<TRequest = any> = (
   err: Error,
   result: APIGatewayProxyResult,
 ) => Promise<void>;
+
+/**
+ * File part of a multipart/form-data request body
+ */
+export interface IUploadedFile {
+  fieldName: string;
+  filename: string;
+  contentType?: string;
+  content: Buffer;
+}
+
+export interface IBodyParserOptions {
+  /**
+   * Request media type, without parameters
+   */
+  mediaType: string;
+  /**
+   * Parameters of the Content-Type header, e.g. charset or boundary
+   */
+  params: Record<string, string>;
+  event: ApiHandlerEvent<string>;
+}
+
+/**
+ * Parse the raw request body, already decoded when base64 encoded
+ */
+export type BodyParser = (body: Buffer, options: IBodyParserOptions) => unknown | Promise<unknown>;
+
+export interface IResponseSerializerOptions {
+  /**
+   * Negotiated response media type
+   */
+  mediaType: string;
+  event: ApiHandlerEvent;
+}
+
+/**
+ * Serialize the response body, buffers are returned base64 encoded
+ */
+export type ResponseSerializer = (
+  content: any,
+  options: IResponseSerializerOptions,
+) => string | Buffer | Promise<string | Buffer>;
@@ -0,0 +1,171 @@
+import { stub } from 'sinon';
+import { Context, DynamoDBStreamEvent, S3Event, ScheduledEvent, SNSEvent, SQSEvent } from 'aws-lambda';
+import { config } from '../../config';
+import { after, before, handleError } from '../middleware';
+import {
+  BatchItemFailuresError,
+  dynamoDBStreamsHandler,
+  isEventBridgeEvent,
+  isScheduledEvent,
+  isSqsEvent,
+  s3Handler,
+  scheduledHandler,
+  snsHandler,
+  sqsHandler,
+} from './events';
+
+const context = {} as Context;
+const apiConfig = { api: { cors: false, blacklist: [] } };
+
+const sqsEvent = (ids: string[], queue = 'arn:aws:sqs:eu-west-1:123456789012:queue'): SQSEvent =>
+  ({
+    Records: ids.map((messageId) => ({
+      messageId,
+      body: JSON.stringify({ id: messageId }),
+      attributes: {},
+      messageAttributes: {},
+      eventSource: 'aws:sqs',
+      eventSourceARN: queue,
+    })),
+  } as unknown as SQSEvent);
+
+describe('handling', () => {
+  describe('events', () => {
+    beforeEach(() => {
+      config({ ...apiConfig, events: { reportBatchItemFailures: false } });
+      before('SQS', []);
+      after('SQS', []);
+      handleError('SQS', []);
+    });
+
+    it('detects event sources', () => {
+      const scheduled = { source: 'aws.events', 'detail-type': 'Scheduled Event', detail: {} };
+      expect(isSqsEvent(sqsEvent(['1']))).toBe(true);
+      expect(isSqsEvent({ Records: [] })).toBe(false);
+      expect(isScheduledEvent(scheduled)).toBe(true);
+      expect(isEventBridgeEvent({ source: 'my.app', 'detail-type': 'UserCreated', detail: {} })).toBe(true);
+      expect(isEventBridgeEvent({ pathParameters: null })).toBe(false);
+    });
+
+    it('normalizes SQS messages and parses JSON bodies', async () => {
+      const next = stub().resolves();
+      await sqsHandler(next)(sqsEvent(['1', '2']), context);
+      expect(next.callCount).toBe(2);
+      expect(next.getCall(0).args[0]).toMatchObject({ messageId: '1', body: { id: '1' } });
+    });
+
+    it('normalizes SNS messages', async () => {
+      const next = stub().resolves();
+      const event = {
+        Records: [
+          { EventSource: 'aws:sns', Sns: { MessageId: 'm1', TopicArn: 'arn', Message: 'hello', Timestamp: 'now' } },
+        ],
+      } as unknown as SNSEvent;
+      await snsHandler(next)(event, context);
+      expect(next.getCall(0).args[0]).toMatchObject({ messageId: 'm1', topicArn: 'arn', message: 'hello' });
+    });
+
+    it('decodes S3 object keys', async () => {
+      const next = stub().resolves();
+      const event = {
+        Records: [
+          {
+            eventSource: 'aws:s3',
+            eventName: 'ObjectCreated:Put',
+            s3: { bucket: { name: 'bucket' }, object: { key: 'my+folder/file%C3%A9.txt', size: 42 } },
+          },
+        ],
+      } as unknown as S3Event;
+      await s3Handler(next)(event, context);
+      expect(next.getCall(0).args[0]).toMatchObject({ bucket: 'bucket', key: 'my folder/fileé.txt', size: 42 });
+    });
+
+    it('unmarshalls DynamoDB stream images', async () => {
+      const next = stub().resolves();
+      const event = {
+        Records: [
+          {
+            eventID: 'e1',
+            eventName: 'INSERT',
+            eventSource: 'aws:dynamodb',
+            dynamodb: {
+              SequenceNumber: '100',
+              Keys: { pk: { S: 'user#1' } },
+              NewImage: { pk: { S: 'user#1' }, age: { N: '42' } },
+            },
+          },
+        ],
+      } as unknown as DynamoDBStreamEvent;
+      await dynamoDBStreamsHandler(next)(event, context);
+      expect(next.getCall(0).args[0]).toMatchObject({
+        eventName: 'INSERT',
+        keys: { pk: 'user#1' },
+        newImage: { pk: 'user#1', age: 42 },
+      });
+    });
+
+    it('normalizes scheduled events', async () => {
+      const next = stub().resolves('done');
+      const event = {
+        id: 'id',
+        source: 'aws.events',
+        'detail-type': 'Scheduled Event',
+        resources: ['arn:aws:events:eu-west-1:123456789012:rule/cron'],
+        time: 'now',
+      } as unknown as ScheduledEvent;
+      expect(await scheduledHandler(next)(event, context)).toBe('done');
+      expect(next.getCall(0).args[0]).toMatchObject({ rule: 'arn:aws:events:eu-west-1:123456789012:rule/cron' });
+    });
+
+    it('fails the whole batch when batch item failures are not reported', async () => {
+      const next = stub().resolves();
+      next.onCall(1).rejects(new Error('BOOM'));
+      try {
+        await sqsHandler(next)(sqsEvent(['1', '2', '3']), context);
+        fail();
+      } catch (e) {
+        expect(e).toBeInstanceOf(BatchItemFailuresError);
+        expect((e as BatchItemFailuresError).failures.map((f) => f.itemIdentifier)).toEqual(['2']);
+      }
+      expect(next.callCount).toBe(3);
+    });
+
+    it('reports batch item failures when enabled', async () => {
+      config({ ...apiConfig, events: { reportBatchItemFailures: true } });
+      const next = stub().resolves();
+      next.onCall(1).rejects(new Error('BOOM'));
+      const result = await sqsHandler(next)(sqsEvent(['1', '2', '3']), context);
+      expect(result).toEqual({ batchItemFailures: [{ itemIdentifier: '2' }] });
+    });
+
+    it('does not process FIFO messages following a failed one', async () => {
+      config({ ...apiConfig, events: { reportBatchItemFailures: true } });
+      const next = stub().resolves();
+      next.onCall(1).rejects(new Error('BOOM'));
+      const result = await sqsHandler(next)(
+        sqsEvent(['1', '2', '3'], 'arn:aws:sqs:eu-west-1:123456789012:queue.fifo'),
+        context,
+      );
+      expect(next.callCount).toBe(2);
+      expect(result).toEqual({ batchItemFailures: [{ itemIdentifier: '2' }, { itemIdentifier: '3' }] });
+    });
+
+    it('runs middleware for each message', async () => {
+      const beforeMiddleware = stub().resolves();
+      const afterMiddleware = stub().resolves();
+      const errorHandler = stub().resolves();
+      before('SQS', [beforeMiddleware]);
+      after('SQS', [afterMiddleware]);
+      handleError('SQS', [errorHandler]);
+      const next = stub().resolves('ok');
+      next.onCall(1).rejects(new Error('BOOM'));
+      await expect(sqsHandler(next)(sqsEvent(['1', '2']), context)).rejects.toThrow(BatchItemFailuresError);
+      expect(beforeMiddleware.callCount).toBe(2);
+      expect(beforeMiddleware.getCall(0).args[0]).toMatchObject({ messageId: '1' });
+      expect(afterMiddleware.callCount).toBe(1);
+      expect(afterMiddleware.getCall(0).args[1]).toBe('ok');
+      expect(errorHandler.callCount).toBe(1);
+      expect(errorHandler.getCall(0).args[1]).toEqual(new Error('BOOM'));
+    });
+  });
+});
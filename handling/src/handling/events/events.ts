@@ -0,0 +1,261 @@
+import {
+  Context,
+  DynamoDBRecord,
+  DynamoDBStreamEvent,
+  EventBridgeEvent,
+  S3Event,
+  S3EventRecord,
+  ScheduledEvent,
+  SNSEvent,
+  SNSEventRecord,
+  SQSEvent,
+  SQSRecord,
+} from 'aws-lambda';
+import { unmarshall } from '@aws-sdk/util-dynamodb';
+
+import { getConfig } from '../../config';
+import { callAfterMiddleware, callBeforeMiddleware, callErrorHandlers, DefaultErrorHandler } from '../middleware';
+import { log } from '../../debug';
+import {
+  DynamoDBStreamsHandler,
+  EventAfterMiddleware,
+  EventBeforeMiddleware,
+  EventBridgeHandler,
+  EventHandlingType,
+  IBatchResponse,
+  IDynamoDBStreamRecord,
+  IEventBridgeEvent,
+  IS3Notification,
+  IScheduledEvent,
+  ISnsMessage,
+  ISqsMessage,
+  S3Handler,
+  ScheduledHandler,
+  SnsHandler,
+  SqsHandler,
+} from './types';
+
+type Unmarshallable = Parameters<typeof unmarshall>[0];
+
+const firstRecord = (event: unknown): Record<string, unknown> | undefined => {
+  const records = (event as { Records?: unknown })?.Records;
+  return Array.isArray(records) && records.length ? records[0] : undefined;
+};
+
+export const isSqsEvent = (event: unknown): event is SQSEvent => firstRecord(event)?.eventSource === 'aws:sqs';
+
+export const isSnsEvent = (event: unknown): event is SNSEvent => firstRecord(event)?.EventSource === 'aws:sns';
+
+export const isS3Event = (event: unknown): event is S3Event => firstRecord(event)?.eventSource === 'aws:s3';
+
+export const isDynamoDBStreamEvent = (event: unknown): event is DynamoDBStreamEvent =>
+  firstRecord(event)?.eventSource === 'aws:dynamodb';
+
+export const isScheduledEvent = (event: unknown): event is ScheduledEvent =>
+  (event as ScheduledEvent)?.source === 'aws.events' && (event as ScheduledEvent)['detail-type'] === 'Scheduled Event';
+
+export const isEventBridgeEvent = (event: unknown): event is EventBridgeEvent<string, unknown> =>
+  typeof (event as EventBridgeEvent<string, unknown>)?.['detail-type'] === 'string' &&
+  typeof (event as EventBridgeEvent<string, unknown>).source === 'string' &&
+  'detail' in (event as EventBridgeEvent<string, unknown>);
+
+const parseJson = (value: string): any => {
+  try {
+    return JSON.parse(value);
+  } catch (e) {
+    return value;
+  }
+};
+
+const normalizeSqsRecord = (record: SQSRecord): ISqsMessage => ({
+  messageId: record.messageId,
+  body: parseJson(record.body),
+  attributes: record.attributes,
+  messageAttributes: record.messageAttributes,
+  eventSourceARN: record.eventSourceARN,
+  raw: record,
+});
+
+const normalizeSnsRecord = (record: SNSEventRecord): ISnsMessage => ({
+  messageId: record.Sns.MessageId,
+  topicArn: record.Sns.TopicArn,
+  subject: record.Sns.Subject ?? undefined,
+  message: parseJson(record.Sns.Message),
+  timestamp: record.Sns.Timestamp,
+  messageAttributes: record.Sns.MessageAttributes,
+  raw: record,
+});
+
+const normalizeS3Record = (record: S3EventRecord): IS3Notification => ({
+  eventName: record.eventName,
+  eventTime: record.eventTime,
+  region: record.awsRegion,
+  bucket: record.s3.bucket.name,
+  // Object keys are URL-encoded in notifications, with spaces replaced by "+"
+  key: decodeURIComponent(record.s3.object.key.replace(/\+/g, ' ')),
+  size: record.s3.object.size,
+  eTag: record.s3.object.eTag,
+  versionId: record.s3.object.versionId,
+  raw: record,
+});
+
+const normalizeDynamoDBRecord = (record: DynamoDBRecord): IDynamoDBStreamRecord => ({
+  eventId: record.eventID ?? '',
+  eventName: record.eventName ?? 'MODIFY',
+  sequenceNumber: record.dynamodb?.SequenceNumber ?? '',
+  eventSourceARN: record.eventSourceARN,
+  keys: record.dynamodb?.Keys ? unmarshall(record.dynamodb.Keys as Unmarshallable) : {},
+  newImage: record.dynamodb?.NewImage ? unmarshall(record.dynamodb.NewImage as Unmarshallable) : undefined,
+  oldImage: record.dynamodb?.OldImage ? unmarshall(record.dynamodb.OldImage as Unmarshallable) : undefined,
+  raw: record,
+});
+
+const normalizeEventBridgeEvent = (event: EventBridgeEvent<string, unknown>): IEventBridgeEvent => ({
+  id: event.id,
+  source: event.source,
+  detailType: event['detail-type'],
+  detail: event.detail,
+  time: event.time,
+  region: event.region,
+  account: event.account,
+  resources: event.resources,
+  raw: event,
+});
+
+const normalizeScheduledEvent = (event: ScheduledEvent): IScheduledEvent => ({
+  id: event.id,
+  rule: event.resources[0],
+  time: event.time,
+  region: event.region,
+  account: event.account,
+  raw: event,
+});
+
+export class BatchItemFailuresError extends Error {
+  constructor(readonly failures: Array<{ itemIdentifier: string; error: unknown }>) {
+    super(`${failures.length} record(s) failed to be processed`);
+    this.name = 'BatchItemFailuresError';
+  }
+}
+
+const runMiddlewareChain = async <TEvent>(
+  type: EventHandlingType,
+  event: TEvent,
+  context: Context,
+  next: (event: TEvent, context: Context) => Promise<unknown>,
+): Promise<unknown> => {
+  try {
+    log.debug(`[${type}] Calling before middleware`);
+    await callBeforeMiddleware<EventBeforeMiddleware>(type, [event, context]);
+    log.debug(`[${type}] Run business logic code`);
+    const result = await next(event, context);
+    log.debug(`[${type}] Calling after middleware`);
+    await callAfterMiddleware<EventAfterMiddleware>(type, [event, result]);
+    return result;
+  } catch (e) {
+    log.debug(`[${type}] Error happened !`, e);
+    await callErrorHandlers<DefaultErrorHandler>(type, [event, e, undefined]);
+    throw e;
+  }
+};
+
+/**
+ * Call the handler for each record of the batch, one after the other.
+ * If some records failed, they are reported as batch item failures when supported by the event source and enabled
+ * in config, so only them are retried. Otherwise, the whole batch fails.
+ */
+const recordsHandler =
+  <TRecord, TNormalized>(params: {
+    type: EventHandlingType;
+    normalize: (record: TRecord) => TNormalized;
+    itemIdentifier: (record: TRecord) => string;
+    supportsBatchItemFailures: boolean;
+    /**
+     * Ordered records must not be processed once a previous record failed, they are considered failed as well
+     */
+    isOrdered: (record: TRecord) => boolean;
+  }) =>
+  (next: (record: TNormalized, context: Context) => Promise<unknown>) =>
+  async (event: { Records: TRecord[] }, context: Context): Promise<IBatchResponse | void> => {
+    const { type } = params;
+    log.debug(`[${type}] Processing ${event.Records.length} record(s)`);
+    const failures: Array<{ itemIdentifier: string; error: unknown }> = [];
+    for (const record of event.Records) {
+      const itemIdentifier = params.itemIdentifier(record);
+      if (failures.length && params.isOrdered(record)) {
+        log.debug(`[${type}] Skipping record after a failure`, itemIdentifier);
+        failures.push({ itemIdentifier, error: new Error('Not processed as a previous record failed') });
+        continue;
+      }
+      try {
+        await runMiddlewareChain(type, params.normalize(record), context, next);
+      } catch (error) {
+        failures.push({ itemIdentifier, error });
+      }
+    }
+    const reportBatchItemFailures = params.supportsBatchItemFailures && !!getConfig().events?.reportBatchItemFailures;
+    if (reportBatchItemFailures) {
+      log.debug(`[${type}] Reporting batch item failures`, failures);
+      return { batchItemFailures: failures.map(({ itemIdentifier }) => ({ itemIdentifier })) };
+    }
+    if (failures.length) {
+      throw new BatchItemFailuresError(failures);
+    }
+  };
+
+/**
+ * Call the handler once with the whole event
+ */
+const singleEventHandler =
+  <TEvent, TNormalized>(type: EventHandlingType, normalize: (event: TEvent) => TNormalized) =>
+  (next: (event: TNormalized, context: Context) => Promise<unknown>) =>
+  async (event: TEvent, context: Context): Promise<unknown> =>
+    runMiddlewareChain(type, normalize(event), context, next);
+
+export const sqsHandler: (next: SqsHandler) => (event: SQSEvent, context: Context) => Promise<IBatchResponse | void> =
+  recordsHandler({
+    type: 'SQS',
+    normalize: normalizeSqsRecord,
+    itemIdentifier: (record) => record.messageId,
+    supportsBatchItemFailures: true,
+    isOrdered: (record) => record.eventSourceARN.endsWith('.fifo'),
+  });
+
+export const snsHandler: (next: SnsHandler) => (event: SNSEvent, context: Context) => Promise<IBatchResponse | void> =
+  recordsHandler({
+    type: 'SNS',
+    normalize: normalizeSnsRecord,
+    itemIdentifier: (record) => record.Sns.MessageId,
+    supportsBatchItemFailures: false,
+    isOrdered: () => false,
+  });
+
+export const s3Handler: (next: S3Handler) => (event: S3Event, context: Context) => Promise<IBatchResponse | void> =
+  recordsHandler({
+    type: 'S3',
+    normalize: normalizeS3Record,
+    itemIdentifier: (record) => `${record.s3.bucket.name}/${record.s3.object.key}`,
+    supportsBatchItemFailures: false,
+    isOrdered: () => false,
+  });
+
+export const dynamoDBStreamsHandler: (
+  next: DynamoDBStreamsHandler,
+) => (event: DynamoDBStreamEvent, context: Context) => Promise<IBatchResponse | void> = recordsHandler({
+  type: 'DynamoDBStreams',
+  normalize: normalizeDynamoDBRecord,
+  itemIdentifier: (record) => record.dynamodb?.SequenceNumber ?? '',
+  supportsBatchItemFailures: true,
+  // Records of a shard must be processed in order
+  isOrdered: () => true,
+});
+
+export const eventBridgeHandler: (
+  next: EventBridgeHandler,
+) => (event: EventBridgeEvent<string, unknown>, context: Context) => Promise<unknown> = singleEventHandler(
+  'EventBridge',
+  normalizeEventBridgeEvent,
+);
+
+export const scheduledHandler: (next: ScheduledHandler) => (event: ScheduledEvent, context: Context) => Promise<unknown> =
+  singleEventHandler('Scheduled', normalizeScheduledEvent);
@@ -0,0 +1,146 @@
+import {
+  Context,
+  DynamoDBRecord,
+  EventBridgeEvent,
+  S3EventRecord,
+  ScheduledEvent,
+  SNSMessageAttributes,
+  SNSEventRecord,
+  SQSMessageAttributes,
+  SQSRecord,
+  SQSRecordAttributes,
+} from 'aws-lambda';
+
+export interface ISqsMessage<TBody = any> {
+  messageId: string;
+  /**
+   * Message body, parsed from JSON when possible
+   */
+  body: TBody;
+  attributes: SQSRecordAttributes;
+  messageAttributes: SQSMessageAttributes;
+  eventSourceARN: string;
+  raw: SQSRecord;
+}
+
+export interface ISnsMessage<TMessage = any> {
+  messageId: string;
+  topicArn: string;
+  subject?: string;
+  /**
+   * Message, parsed from JSON when possible
+   */
+  message: TMessage;
+  timestamp: string;
+  messageAttributes: SNSMessageAttributes;
+  raw: SNSEventRecord;
+}
+
+export interface IS3Notification {
+  eventName: string;
+  eventTime: string;
+  region: string;
+  bucket: string;
+  /**
+   * Object key, URL-decoded
+   */
+  key: string;
+  size?: number;
+  eTag?: string;
+  versionId?: string;
+  raw: S3EventRecord;
+}
+
+export interface IDynamoDBStreamRecord<TItem = any> {
+  eventId: string;
+  eventName: 'INSERT' | 'MODIFY' | 'REMOVE';
+  sequenceNumber: string;
+  eventSourceARN?: string;
+  /**
+   * Keys and images are unmarshalled from DynamoDB attribute values
+   */
+  keys: Record<string, unknown>;
+  newImage?: TItem;
+  oldImage?: TItem;
+  raw: DynamoDBRecord;
+}
+
+export interface IEventBridgeEvent<TDetail = any, TDetailType extends string = string> {
+  id: string;
+  source: string;
+  detailType: TDetailType;
+  detail: TDetail;
+  time: string;
+  region: string;
+  account: string;
+  resources: string[];
+  raw: EventBridgeEvent<TDetailType, TDetail>;
+}
+
+export interface IScheduledEvent {
+  id: string;
+  /**
+   * ARN of the rule that triggered the event
+   */
+  rule?: string;
+  time: string;
+  region: string;
+  account: string;
+  raw: ScheduledEvent;
+}
+
+/**
+ * Normalized event handlers and middleware receive, for each handling type
+ */
+export interface INormalizedEvents {
+  SQS: ISqsMessage;
+  SNS: ISnsMessage;
+  EventBridge: IEventBridgeEvent;
+  S3: IS3Notification;
+  DynamoDBStreams: IDynamoDBStreamRecord;
+  Scheduled: IScheduledEvent;
+}
+
+export type EventHandlingType = keyof INormalizedEvents;
+
+export type SqsHandler<TBody = any, TResult = unknown> = (
+  message: ISqsMessage<TBody>,
+  context: Context,
+) => Promise<TResult>;
+
+export type SnsHandler<TMessage = any, TResult = unknown> = (
+  message: ISnsMessage<TMessage>,
+  context: Context,
+) => Promise<TResult>;
+
+export type S3Handler<TResult = unknown> = (notification: IS3Notification, context: Context) => Promise<TResult>;
+
+export type DynamoDBStreamsHandler<TItem = any, TResult = unknown> = (
+  record: IDynamoDBStreamRecord<TItem>,
+  context: Context,
+) => Promise<TResult>;
+
+export type EventBridgeHandler<TDetail = any, TResult = unknown> = (
+  event: IEventBridgeEvent<TDetail>,
+  context: Context,
+) => Promise<TResult>;
+
+export type ScheduledHandler<TResult = unknown> = (event: IScheduledEvent, context: Context) => Promise<TResult>;
+
+/**
+ * Middleware receive the same normalized event than the handler: each message for SQS, SNS, S3 and DynamoDB Streams
+ * and the whole event for EventBridge and scheduled events
+ */
+export type EventBeforeMiddleware<TEvent = any> = (event: TEvent, context: Context) => Promise<void>;
+
+export type EventAfterMiddleware<TEvent = any, TResult = any> = (event: TEvent, result: TResult) => Promise<void>;
+
+export type EventErrorHandler<TEvent = any> = (event: TEvent, err: Error) => Promise<void>;
+
+export interface IBatchItemFailure {
+  itemIdentifier: string;
+}
+
+export interface IBatchResponse {
+  batchItemFailures: IBatchItemFailure[];
+}
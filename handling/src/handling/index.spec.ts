@@ -28,6 +28,17 @@ describe('handling', () => {
       expect(result).toBe(expected);
     });
 
+    it('redirects to the SQS handler correctly', async () => {
+      const received: unknown[] = [];
+      const handler = handle(async (message: unknown) => received.push(message)) as TestingHandler;
+
+      await handler({
+        Records: [{ messageId: '1', body: '{"id":1}', eventSource: 'aws:sqs', eventSourceARN: 'arn' }],
+      });
+
+      expect(received).toMatchObject([{ messageId: '1', body: { id: 1 } }]);
+    });
+
     it('throws on unhandled events', async () => {
       let called = false;
       const handler = handle(async () => (called = true)) as TestingHandler;
@@ -1,25 +1,64 @@
-import { APIGatewayProxyHandler, Callback, Context, Handler, APIGatewayEvent } from 'aws-lambda';
+import { Context, Handler } from 'aws-lambda';
 
 import { runInitializers } from '../init';
-import { apiHandler, ApiHandler } from './api';
+import { ApiEvent, apiHandler, ApiHandler, ApiResult } from './api';
+import { isApiEvent } from './api/payload';
+import {
+  DynamoDBStreamsHandler,
+  dynamoDBStreamsHandler,
+  EventBridgeHandler,
+  eventBridgeHandler,
+  isDynamoDBStreamEvent,
+  isEventBridgeEvent,
+  isS3Event,
+  isScheduledEvent,
+  isSnsEvent,
+  isSqsEvent,
+  S3Handler,
+  s3Handler,
+  ScheduledHandler,
+  scheduledHandler,
+  SnsHandler,
+  snsHandler,
+  SqsHandler,
+  sqsHandler,
+} from './events';
 import { log } from '../debug';
 
 let initPromise: Promise<unknown>;
 let callInit = true;
 
-const isApi = (event: unknown): false | ((next: ApiHandler) => APIGatewayProxyHandler) => {
-  return (event as APIGatewayEvent).pathParameters !== undefined ? apiHandler : false;
+const isApi = (
+  event: unknown,
+): false | ((next: ApiHandler) => (event: ApiEvent, context: Context) => Promise<ApiResult>) => {
+  return isApiEvent(event) ? apiHandler : false;
+};
+
+type EventHandlerFactory = (next: any) => (event: any, context: Context) => Promise<unknown>;
+
+// Scheduled events are EventBridge events, so they must be checked first
+const isEvent = (event: unknown): false | EventHandlerFactory => {
+  if (isSqsEvent(event)) return sqsHandler;
+  if (isSnsEvent(event)) return snsHandler;
+  if (isS3Event(event)) return s3Handler;
+  if (isDynamoDBStreamEvent(event)) return dynamoDBStreamsHandler;
+  if (isScheduledEvent(event)) return scheduledHandler;
+  if (isEventBridgeEvent(event)) return eventBridgeHandler;
+  return false;
 };
 
 export type DefaultHandler = (event: unknown, context: unknown) => Promise<unknown>;
 
+export type EventHandler =
+  SqsHandler | SnsHandler | S3Handler | DynamoDBStreamsHandler | EventBridgeHandler | ScheduledHandler;
+
 const throwUnhandledEvent = (): void => {
   const error = new Error('Unhandled event');
   error.name = 'UnhandledEvent';
   throw error;
 };
 
-export const handle = (next: ApiHandler | DefaultHandler, shouldThrowOnUnhandled = true): Handler => {
+export const handle = (next: ApiHandler | EventHandler | DefaultHandler, shouldThrowOnUnhandled = true): Handler => {
   log.debug('[HANDLE] Handling event with function', next.name);
   if (callInit) {
     log.debug('[HANDLE] Calling initializers');
@@ -27,16 +66,21 @@ export const handle = (next: ApiHandler | DefaultHandler, shouldThrowOnUnhandled
     initPromise = runInitializers();
   }
 
-  return async (event: unknown, context: Context, callback: Callback): Promise<unknown> => {
+  return async (event: unknown, context: Context): Promise<unknown> => {
     await initPromise;
     log.debug('[HANDLE] Initializers ran successfully');
     log.debug('[HANDLE] Is API Gateway handler', isApi(event));
     for (const check of [isApi]) {
       const result = check(event);
       if (result) {
-        return result(next)(event as APIGatewayEvent, context, callback);
+        return result(next as ApiHandler)(event as ApiEvent, context);
       }
     }
+    const eventHandler = isEvent(event);
+    log.debug('[HANDLE] Is event handler', !!eventHandler);
+    if (eventHandler) {
+      return eventHandler(next)(event, context);
+    }
     if (shouldThrowOnUnhandled) {
       log.debug('[HANDLE] Unhandled event !');
       throwUnhandledEvent();
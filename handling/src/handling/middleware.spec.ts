@@ -20,7 +20,7 @@ describe('handling', () => {
       expect(() => after([fct])).not.toThrow();
       expect(() => handleError([fct])).not.toThrow();
     });
-    const testMiddlewareTypes: HandlingType[] = ['ApiGateway'];
+    const testMiddlewareTypes: HandlingType[] = ['ApiGateway', 'SQS', 'SNS', 'EventBridge', 'S3', 'DynamoDBStreams', 'Scheduled'];
     testMiddlewareTypes.forEach((key) => {
       it(`allows registering for ${key}`, () => {
         expect(() => before(key, [fct])).not.toThrow();
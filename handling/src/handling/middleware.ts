@@ -1,29 +1,56 @@
 import { ApiAfterMiddleware, ApiBeforeMiddleware, ApiErrorHandler } from './api';
+import {
+  EventAfterMiddleware,
+  EventBeforeMiddleware,
+  EventErrorHandler,
+  EventHandlingType,
+  INormalizedEvents,
+} from './events/types';
 import { log } from '../debug';
 import { Context } from 'aws-lambda';
 
 export type DefaultBeforeMiddleware = (event: any, context: Context) => Promise<void>;
-export type BeforeMiddleware = ApiBeforeMiddleware | DefaultAfterMiddleware;
+export type BeforeMiddleware = ApiBeforeMiddleware | EventBeforeMiddleware | DefaultAfterMiddleware;
 
 export type DefaultAfterMiddleware = (event: any, result: any) => Promise<void>;
-export type AfterMiddleware = ApiAfterMiddleware | DefaultAfterMiddleware;
+export type AfterMiddleware = ApiAfterMiddleware | EventAfterMiddleware | DefaultAfterMiddleware;
 
 export type DefaultErrorHandler = (event: any, error: any, result: any) => Promise<void>;
-export type ErrorHandler = ApiErrorHandler | DefaultErrorHandler;
+export type ErrorHandler = ApiErrorHandler | EventErrorHandler | DefaultErrorHandler;
 
-export type HandlingType = 'ApiGateway';
+export type HandlingType = 'ApiGateway' | EventHandlingType;
 
 export type MiddlewareListItem<Before, After, ErrHandler> = { before: Before[]; after: After[]; errors: ErrHandler[] };
 export type MiddlewareList = {
   __ALWAYS__: MiddlewareListItem<DefaultBeforeMiddleware, DefaultAfterMiddleware, DefaultErrorHandler>;
   ApiGateway: MiddlewareListItem<ApiBeforeMiddleware, ApiAfterMiddleware, ApiErrorHandler>;
+} & {
+  [T in EventHandlingType]: MiddlewareListItem<
+    EventBeforeMiddleware<INormalizedEvents[T]>,
+    EventAfterMiddleware<INormalizedEvents[T]>,
+    EventErrorHandler<INormalizedEvents[T]>
+  >;
 };
 
 const middlewareList: MiddlewareList = {
   __ALWAYS__: { before: [], after: [], errors: [] },
   ApiGateway: { before: [], after: [], errors: [] },
+  SQS: { before: [], after: [], errors: [] },
+  SNS: { before: [], after: [], errors: [] },
+  EventBridge: { before: [], after: [], errors: [] },
+  S3: { before: [], after: [], errors: [] },
+  DynamoDBStreams: { before: [], after: [], errors: [] },
+  Scheduled: { before: [], after: [], errors: [] },
 };
 
+/**
+ * Middleware of a handling type, typed loosely as they are called with the arguments of the handling type
+ */
+const middlewareOf = (
+  type: HandlingType,
+): MiddlewareListItem<DefaultBeforeMiddleware, DefaultAfterMiddleware, DefaultErrorHandler> =>
+  middlewareList[type] as MiddlewareListItem<DefaultBeforeMiddleware, DefaultAfterMiddleware, DefaultErrorHandler>;
+
 const isSendingType = (
   typeOrMiddleware: HandlingType | BeforeMiddleware[] | AfterMiddleware[] | ErrorHandler[],
 ): typeOrMiddleware is HandlingType => typeof typeOrMiddleware === 'string';
@@ -40,10 +67,10 @@ export const callBeforeMiddleware = async <T extends (event: any, context: Conte
     await middleware.apply({}, args);
   }
   log.debug(
-    '[MIDDLEWARE][BEFORE] Running API gateway middleware',
-    middlewareList.ApiGateway.before.map((f) => f.name),
+    `[MIDDLEWARE][BEFORE] Running ${type} middleware`,
+    middlewareOf(type).before.map((f) => f.name),
   );
-  for (const middleware of middlewareList.ApiGateway.before) {
+  for (const middleware of middlewareOf(type).before) {
     await middleware.apply({}, args);
   }
 };
@@ -53,15 +80,15 @@ export const callAfterMiddleware = async <T extends (event: any, result: any) =>
   args: Parameters<T>,
 ): Promise<void> => {
   log.debug(
-    '[MIDDLEWARE][AFTER] Running generic middleware',
-    middlewareList.__ALWAYS__.after.map((f) => f.name),
+    `[MIDDLEWARE][AFTER] Running ${type} middleware`,
+    middlewareOf(type).after.map((f) => f.name),
   );
-  for (const middleware of middlewareList.ApiGateway.after) {
+  for (const middleware of middlewareOf(type).after) {
     await middleware.apply({}, args);
   }
   log.debug(
-    '[MIDDLEWARE][AFTER] Running API gateway middleware',
-    middlewareList.ApiGateway.after.map((f) => f.name),
+    '[MIDDLEWARE][AFTER] Running generic middleware',
+    middlewareList.__ALWAYS__.after.map((f) => f.name),
   );
   for (const middleware of middlewareList.__ALWAYS__.after) {
     await middleware.apply({}, args);
@@ -73,22 +100,22 @@ export const callErrorHandlers = async <T extends (event: any, error: any, resul
   args: Parameters<T>,
 ): Promise<void> => {
   log.debug(
-    '[MIDDLEWARE][ERROR] Running generic middleware',
-    middlewareList.__ALWAYS__.errors.map((f) => f.name),
+    `[MIDDLEWARE][ERROR] Running ${type} middleware`,
+    middlewareOf(type).errors.map((f) => f.name),
   );
-  for (const middleware of middlewareList.ApiGateway.errors) {
+  for (const middleware of middlewareOf(type).errors) {
     await middleware.apply({}, args);
   }
   log.debug(
-    '[MIDDLEWARE][ERROR] Running API gateway middleware',
-    middlewareList.ApiGateway.errors.map((f) => f.name),
+    '[MIDDLEWARE][ERROR] Running generic middleware',
+    middlewareList.__ALWAYS__.errors.map((f) => f.name),
   );
   for (const middleware of middlewareList.__ALWAYS__.errors) {
     await middleware.apply({}, args);
   }
 };
 
-export function before(type: 'ApiGateway', middleware: ApiBeforeMiddleware[]): void;
+export function before<T extends HandlingType>(type: T, middleware: MiddlewareList[T]['before']): void;
 export function before(middleware: DefaultBeforeMiddleware[]): void;
 export function before(typeOrMiddleware: HandlingType | BeforeMiddleware[], middleware: BeforeMiddleware[] = []): void {
   log.debug('[MIDDLEWARE][BEFORE] Registering middleware', {
@@ -98,11 +125,11 @@ export function before(typeOrMiddleware: HandlingType | BeforeMiddleware[], midd
   if (!isSendingType(typeOrMiddleware)) {
     middlewareList['__ALWAYS__'].before = typeOrMiddleware;
   } else {
-    middlewareList[typeOrMiddleware].before = middleware;
+    middlewareOf(typeOrMiddleware).before = middleware as DefaultBeforeMiddleware[];
   }
 }
 
-export function after(type: 'ApiGateway', middleware: ApiAfterMiddleware[]): void;
+export function after<T extends HandlingType>(type: T, middleware: MiddlewareList[T]['after']): void;
 export function after(middleware: DefaultAfterMiddleware[]): void;
 export function after(typeOrMiddleware: HandlingType | AfterMiddleware[], middleware: AfterMiddleware[] = []): void {
   log.debug('[MIDDLEWARE][AFTER] Registering middleware', {
@@ -112,11 +139,11 @@ export function after(typeOrMiddleware: HandlingType | AfterMiddleware[], middle
   if (!isSendingType(typeOrMiddleware)) {
     middlewareList['__ALWAYS__'].after = typeOrMiddleware;
   } else {
-    middlewareList[typeOrMiddleware].after = middleware;
+    middlewareOf(typeOrMiddleware).after = middleware as DefaultAfterMiddleware[];
   }
 }
 
-export function handleError(type: 'ApiGateway', middleware: ApiErrorHandler[]): void;
+export function handleError<T extends HandlingType>(type: T, middleware: MiddlewareList[T]['errors']): void;
 export function handleError(middleware: DefaultErrorHandler[]): void;
 export function handleError(typeOrMiddleware: HandlingType | ErrorHandler[], middleware: ErrorHandler[] = []): void {
   log.debug('[MIDDLEWARE][ERROR] Registering middleware', {
@@ -126,6 +153,6 @@ export function handleError(typeOrMiddleware: HandlingType | ErrorHandler[], mid
   if (!isSendingType(typeOrMiddleware)) {
     middlewareList['__ALWAYS__'].errors = typeOrMiddleware;
   } else {
-    middlewareList[typeOrMiddleware].errors = middleware;
+    middlewareOf(typeOrMiddleware).errors = middleware as DefaultErrorHandler[];
   }
 }
@@ -2,8 +2,9 @@ import {
   IApiConfigCorsOptions as ApiConfigCorsOptions,
   IApiConfigOptions as ApiConfigOptions,
   IConfigOptions as ConfigOptions,
+  IEventsConfigOptions as EventsConfigOptions,
 } from './config';
-export { ApiConfigCorsOptions, ApiConfigOptions, ConfigOptions };
+export { ApiConfigCorsOptions, ApiConfigOptions, ConfigOptions, EventsConfigOptions };
 export { config, getConfig } from './config';
 export { init } from './init';
 export * from './validation';
@@ -12,4 +13,7 @@ export { handle, DefaultHandler } from './handling';
 export { before, after, handleError } from './handling/middleware';
 
 export * from './handling/api/types';
+export * from './handling/api/errors';
+export * from './handling/events/types';
+export { BatchItemFailuresError } from './handling/events';
 export * from './secrets/inject-secrets-middleware';
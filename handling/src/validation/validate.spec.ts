@@ -1,5 +1,5 @@
 import joi from 'joi';
-import { validate } from './validate';
+import { checkSchema, validate } from './validate';
 import { HandlingError } from '../handling/api';
 
 describe('validation', () => {
@@ -42,4 +42,36 @@ describe('validation', () => {
       }
     });
   });
+
+  describe('checkSchema', () => {
+    it('keeps buffers when converting values with a JSON schema', () => {
+      const content = Buffer.from('file content');
+      const { value, errors } = checkSchema(
+        { count: '2', file: { filename: 'file.txt', content } },
+        { type: 'object', properties: { count: { type: 'integer' }, file: { type: 'object' } } },
+      );
+
+      expect(errors).toBeUndefined();
+      expect(value).toEqual({ count: 2, file: { filename: 'file.txt', content } });
+      expect(Buffer.isBuffer(value.file.content)).toBe(true);
+    });
+
+    it('allows unknown keys with a JSON schema when enabled', () => {
+      const schema = {
+        type: 'object',
+        properties: { 'x-api-key': { type: 'string' } },
+        required: ['x-api-key'],
+        additionalProperties: false,
+      };
+      const headers = { 'x-api-key': 'key', 'host': 'example.com' };
+
+      expect(checkSchema(headers, schema).errors).toEqual([
+        expect.objectContaining({ type: 'additionalProperties', path: [] }),
+      ]);
+      expect(checkSchema(headers, schema, { allowUnknown: true }).errors).toBeUndefined();
+      expect(checkSchema({ host: 'example.com' }, schema, { allowUnknown: true }).errors).toEqual([
+        expect.objectContaining({ message: '"x-api-key" is required' }),
+      ]);
+    });
+  });
 });
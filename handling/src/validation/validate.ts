@@ -1,10 +1,134 @@
-import { Schema } from 'joi';
+import joi, { Schema, ValidationErrorItem } from 'joi';
+import Ajv from 'ajv';
 
-export const validate = async <T>(data: T, schema: Schema): Promise<T> => {
-  const result = schema.validate(data);
-  if (result.error) {
-    throw result.error;
+/**
+ * JSON Schema object, validated with ajv
+ */
+export type JsonSchema = Record<string, unknown>;
+
+export type ValidationSchema = Schema | JsonSchema;
+
+export interface IValidationErrorDetails {
+  message: string;
+  path: Array<string | number>;
+  type: string;
+  context?: Record<string, unknown>;
+}
+
+export interface ISchemaCheckOptions {
+  /**
+   * Do not report unknown object keys, such as headers not declared in schema
+   */
+  allowUnknown?: boolean;
+}
+
+interface IAjvError {
+  keyword: string;
+  message?: string;
+  params: Record<string, unknown>;
+  // JSON pointer to the invalid value, named dataPath before ajv v8
+  instancePath?: string;
+  dataPath?: string;
+}
+
+// JSON schema keywords reporting unknown object keys
+const UNKNOWN_KEYS_KEYWORDS = ['additionalProperties', 'unevaluatedProperties'];
+
+type JsonSchemaValidator = ReturnType<InstanceType<typeof Ajv>['compile']>;
+
+let ajv: InstanceType<typeof Ajv> | undefined;
+const compiled = new WeakMap<JsonSchema, JsonSchemaValidator>();
+
+const compile = (schema: JsonSchema): JsonSchemaValidator => {
+  if (!ajv) {
+    ajv = new Ajv({ allErrors: true, coerceTypes: true, useDefaults: true });
+  }
+  let validator = compiled.get(schema);
+  if (!validator) {
+    validator = ajv.compile(schema);
+    compiled.set(schema, validator);
+  }
+  return validator;
+};
+
+const fromJoi = (detail: ValidationErrorItem): IValidationErrorDetails => ({
+  message: detail.message,
+  path: detail.path,
+  type: detail.type,
+  context: detail.context,
+});
+
+const fromAjv = (error: IAjvError): IValidationErrorDetails => {
+  const pointer = error.instancePath ?? error.dataPath ?? '';
+  const path: Array<string | number> = pointer
+    .split(/[/.]/)
+    .filter((segment) => segment)
+    .map((segment) => (/^\d+$/.test(segment) ? Number(segment) : segment.replace(/~1/g, '/').replace(/~0/g, '~')));
+  if (error.keyword === 'required' && error.params.missingProperty) {
+    path.push(String(error.params.missingProperty).replace(/^\./, ''));
+  }
+  const key = path.length ? String(path[path.length - 1]) : 'value';
+  return {
+    message: error.keyword === 'required' ? `"${key}" is required` : `"${key}" ${error.message}`,
+    path,
+    type: error.keyword,
+    context: { ...error.params, key, label: key },
+  };
+};
+
+/**
+ * ajv converts values in place, so plain objects and arrays are copied. Other instances, such as the buffers of
+ * uploaded files, are kept as is.
+ */
+const clone = <T>(value: T): T => {
+  if (Array.isArray(value)) {
+    return value.map(clone) as T;
+  }
+  const prototype = value && typeof value === 'object' ? Object.getPrototypeOf(value) : undefined;
+  if (prototype === Object.prototype || prototype === null) {
+    return Object.fromEntries(Object.entries(value as object).map(([key, item]) => [key, clone(item)])) as T;
+  }
+  return value;
+};
+
+/**
+ * Validate data against a joi or a JSON schema, without throwing.
+ * @returns the value converted by the schema, and the details of the errors if invalid
+ */
+export const checkSchema = <T>(
+  data: T,
+  schema: ValidationSchema,
+  options: ISchemaCheckOptions = {},
+): { value: T; errors?: IValidationErrorDetails[] } => {
+  if (joi.isSchema(schema)) {
+    const result = (schema as Schema).validate(data, { abortEarly: false, allowUnknown: options.allowUnknown });
+    return { value: result.value, errors: result.error?.details.map(fromJoi) };
   }
+  const value = clone(data);
+  const validator = compile(schema as JsonSchema);
+  const errors = validator(value)
+    ? []
+    : (validator.errors as unknown as IAjvError[]).filter(
+        (error) => !options.allowUnknown || !UNKNOWN_KEYS_KEYWORDS.includes(error.keyword),
+      );
+  return { value, errors: errors.length ? errors.map(fromAjv) : undefined };
+};
 
-  return result.value;
+export const validate = async <T>(data: T, schema: ValidationSchema): Promise<T> => {
+  if (joi.isSchema(schema)) {
+    const result = (schema as Schema).validate(data);
+    if (result.error) {
+      throw result.error;
+    }
+
+    return result.value;
+  }
+  const { value, errors } = checkSchema(data, schema);
+  if (errors) {
+    throw Object.assign(new Error(errors.map((e) => e.message).join('. ')), {
+      name: 'ValidationError',
+      details: errors,
+    });
+  }
+  return value;
 };
@@ -0,0 +1,82 @@
+import joi from 'joi';
+import { stub } from 'sinon';
+import { Context } from 'aws-lambda';
+import { config } from '../config';
+import { ApiHandlerEvent, HandlingError, Response } from '../handling/api';
+import { withValidation } from './with-validation';
+
+const call = (handler: ReturnType<typeof withValidation>, event: Partial<ApiHandlerEvent> = {}): Promise<unknown> =>
+  handler(event as ApiHandlerEvent, new Response(), {} as Context);
+
+describe('validation', () => {
+  describe('withValidation', () => {
+    beforeEach(() => config({ api: { cors: false, blacklist: [], validateResponses: false } }));
+
+    it('calls the handler with the values converted by the schemas', async () => {
+      const next = stub().resolves('ok');
+      const handler = withValidation(
+        {
+          body: joi.object({ email: joi.string().email().trim() }),
+          pathParameters: { type: 'object', properties: { id: { type: 'integer' } }, required: ['id'] },
+          headers: joi.object({ 'x-version': joi.number().required() }),
+        },
+        next,
+      );
+
+      expect(
+        await call(handler, {
+          body: { email: ' foo@example.com ' },
+          pathParameters: { id: '42' },
+          headers: { 'X-Version': '2', 'Host': 'example.com' },
+        }),
+      ).toBe('ok');
+      expect(next.getCall(0).args[0]).toMatchObject({
+        body: { email: 'foo@example.com' },
+        pathParameters: { id: 42 },
+        headers: { 'x-version': 2, 'host': 'example.com' },
+      });
+    });
+
+    it('throws a ValidationError reporting every invalid part of the request', async () => {
+      const next = stub().resolves();
+      const handler = withValidation(
+        {
+          body: joi.object({ email: joi.string().required() }),
+          queryStringParameters: { type: 'object', properties: { page: { type: 'integer', minimum: 1 } } },
+        },
+        next,
+      );
+      try {
+        await call(handler, { body: {}, queryStringParameters: { page: '0' } });
+        fail();
+      } catch (err) {
+        const e = err as HandlingError;
+        expect(e.name).toBe('ValidationError');
+        expect(e.details).toMatchObject([
+          { path: ['body', 'email'], type: 'any.required' },
+          { path: ['queryStringParameters', 'page'], type: 'minimum' },
+        ]);
+      }
+      expect(next.called).toBe(false);
+    });
+
+    it('validates missing parameters as empty objects', async () => {
+      const handler = withValidation(
+        { pathParameters: joi.object({ id: joi.string().required() }) },
+        stub().resolves(),
+      );
+      await expect(call(handler, { pathParameters: null })).rejects.toMatchObject({
+        name: 'ValidationError',
+        details: [{ path: ['pathParameters', 'id'] }],
+      });
+    });
+
+    it('validates responses only when enabled', async () => {
+      const handler = withValidation({ response: joi.object({ id: joi.number().required() }) }, stub().resolves({}));
+      expect(await call(handler)).toEqual({});
+
+      config({ api: { cors: false, blacklist: [], validateResponses: true } });
+      await expect(call(handler)).rejects.toMatchObject({ name: 'ResponseValidationError', statusCode: 500 });
+    });
+  });
+});
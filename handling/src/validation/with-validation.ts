@@ -0,0 +1,90 @@
+import { getConfig } from '../config';
+import { log } from '../debug';
+import { ApiHandler, ApiHandlerEvent, HandlingError, InternalServerError } from '../handling/api';
+import { checkSchema, IValidationErrorDetails, ValidationSchema } from './validate';
+
+/**
+ * Schemas of the request parts to validate before calling the handler, and of the response it returns
+ */
+export interface IRequestSchemas {
+  body?: ValidationSchema;
+  queryStringParameters?: ValidationSchema;
+  pathParameters?: ValidationSchema;
+  /**
+   * Header names are lower-cased before validation, and undeclared headers are allowed
+   */
+  headers?: ValidationSchema;
+  /**
+   * Only validated when validateResponses is enabled in config, as it is meant for non-production stages
+   */
+  response?: ValidationSchema;
+}
+
+type RequestPart = 'body' | 'queryStringParameters' | 'pathParameters' | 'headers';
+
+const REQUEST_PARTS: RequestPart[] = ['body', 'queryStringParameters', 'pathParameters', 'headers'];
+
+const lowerCaseKeys = (headers: Record<string, unknown> | null | undefined): Record<string, unknown> =>
+  Object.fromEntries(Object.entries(headers ?? {}).map(([name, value]) => [name.toLowerCase(), value]));
+
+const requestPart = (event: ApiHandlerEvent, part: RequestPart): unknown => {
+  switch (part) {
+    case 'headers':
+      return lowerCaseKeys(event.headers);
+    case 'body':
+      return event.body ?? undefined;
+    default:
+      // API Gateway sets null when there are no parameters
+      return event[part] ?? {};
+  }
+};
+
+const validationError = (errors: IValidationErrorDetails[]): HandlingError => {
+  const error = new HandlingError(errors.map((e) => e.message).join('. '));
+  error.name = 'ValidationError';
+  error.details = errors;
+  return error;
+};
+
+/**
+ * Validate the request against the given schemas before calling the handler.
+ * Values converted by the schemas (e.g. numbers in path parameters) replace the original ones on the event.
+ * If some parts are invalid, a ValidationError reporting all of them is thrown, resulting in a 422 response.
+ */
+export const withValidation = <TRequest = any, TResponse = any>(
+  schemas: IRequestSchemas,
+  next: ApiHandler<TRequest, TResponse>,
+): ApiHandler<TRequest, TResponse> => {
+  return async (event, response, context): Promise<TResponse> => {
+    const errors: IValidationErrorDetails[] = [];
+    for (const part of REQUEST_PARTS) {
+      const schema = schemas[part];
+      if (schema) {
+        log.debug('[VALIDATION] Validating request', part);
+        const result = checkSchema(requestPart(event, part), schema, { allowUnknown: part === 'headers' });
+        if (result.errors) {
+          errors.push(...result.errors.map((e) => ({ ...e, path: [part, ...e.path] })));
+        } else {
+          Object.assign(event, { [part]: result.value });
+        }
+      }
+    }
+    if (errors.length) {
+      log.debug('[VALIDATION] Invalid request', errors);
+      throw validationError(errors);
+    }
+    const result = await next(event, response, context);
+    if (schemas.response && getConfig().api.validateResponses) {
+      log.debug('[VALIDATION] Validating response');
+      const { errors: responseErrors } = checkSchema(result, schemas.response);
+      if (responseErrors) {
+        log.debug('[VALIDATION] Invalid response', responseErrors);
+        // Response not matching its schema is a bug of the handler, not of the client
+        const error = new InternalServerError('Response does not match its schema', { details: responseErrors });
+        error.name = 'ResponseValidationError';
+        throw error;
+      }
+    }
+    return result;
+  };
+};
@@ -0,0 +1,88 @@
+import { mkdtempSync, promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { EMPTY } from 'rxjs';
+import { SinonStub, stub } from 'sinon';
+import { Packager, Workspace } from '@microlambda/core';
+import { ConfigReader, IRootConfig } from '@microlambda/config';
+import { ServerlessInstance } from '@microlambda/types';
+import * as integrity from './check-package-integrity';
+import { packageService } from './package-service';
+
+describe('[function] packageService', () => {
+  const cwd = process.cwd();
+  const stubs: Record<string, SinonStub> = {};
+  let root: string;
+  let service: Workspace;
+  let serverless: {
+    service: { provider: { stage: string }; package?: { artifact?: string } };
+  };
+  const pkg = (): Promise<void> =>
+    packageService(
+      serverless as unknown as ServerlessInstance,
+      'users-prod',
+      undefined,
+      service,
+    );
+
+  const bundleLocation = (): string =>
+    join(service.root, '.package', 'bundle.zip');
+
+  beforeEach(async () => {
+    root = mkdtempSync(join(tmpdir(), 'mila-package-'));
+    await fs.writeFile(join(root, 'yarn.lock'), '');
+    process.chdir(root);
+    service = {
+      name: 'users',
+      root: join(root, 'services', 'users'),
+      project: { root },
+    } as unknown as Workspace;
+    await fs.mkdir(join(service.root, '.package'), { recursive: true });
+    await fs.writeFile(bundleLocation(), 'restored');
+    await fs.writeFile(
+      join(service.root, '.package', 'bundle-metadata.json'),
+      JSON.stringify({ took: 1, megabytes: { code: 1 } }),
+    );
+    serverless = { service: { provider: { stage: 'prod' } } };
+    stubs.rootConfig = stub(ConfigReader.prototype, 'rootConfig').get(
+      () => ({} as IRootConfig),
+    );
+    stubs.checkPackageIntegrity = stub(
+      integrity,
+      'checkPackageIntegrity',
+    ).resolves(false);
+    stubs.bundle = stub(Packager.prototype, 'bundle').returns(EMPTY);
+  });
+
+  afterEach(async () => {
+    delete process.env.MILA_RESTORED_PACKAGE;
+    Object.values(stubs).forEach((s) => s.restore());
+    process.chdir(cwd);
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  it('should repackage the service if previous package is not valid anymore', async () => {
+    await pkg();
+    expect(stubs.checkPackageIntegrity.called).toBe(true);
+    expect(stubs.bundle.called).toBe(true);
+    await expect(fs.stat(bundleLocation())).rejects.toMatchObject({
+      code: 'ENOENT',
+    });
+  });
+
+  it('should deploy restored package as is', async () => {
+    process.env.MILA_RESTORED_PACKAGE = 'true';
+    await pkg();
+    expect(stubs.checkPackageIntegrity.called).toBe(false);
+    expect(stubs.bundle.called).toBe(false);
+    expect(serverless.service.package?.artifact).toBe(bundleLocation());
+    expect(await fs.readFile(bundleLocation(), 'utf-8')).toBe('restored');
+  });
+
+  it('should fail if restored package is missing', async () => {
+    process.env.MILA_RESTORED_PACKAGE = 'true';
+    await fs.rm(bundleLocation());
+    await expect(pkg()).rejects.toThrow(/Restored package not found/);
+    expect(stubs.bundle.called).toBe(false);
+  });
+});
@@ -1,7 +1,7 @@
 /**
  * Package microservice (using yarn workspace focus) on memfs
  */
-import { Packager, Workspace } from '@microlambda/core';
+import { Packager, RESTORED_PACKAGE_ENV, Workspace } from '@microlambda/core';
 import chalk from 'chalk';
 import {
   IBaseLogger,
@@ -44,8 +44,16 @@ export const packageService = async (
   logger?.info('[package] Using layer', useLayer);
   logger?.info('[package] Using layer caching', useLayerChecksums);
 
+  // Restored packages were built from another revision, checking them against current sources would rebuild them
+  const isRestored = process.env[RESTORED_PACKAGE_ENV] === 'true';
   let shouldRepackage = true;
-  if (existsSync(bundleLocation)) {
+  if (isRestored) {
+    if (!existsSync(bundleLocation)) {
+      throw new Error(`Restored package not found at ${bundleLocation}`);
+    }
+    logger?.info('[package] Using restored bundle.zip as is');
+    shouldRepackage = false;
+  } else if (existsSync(bundleLocation)) {
     logger?.info('[package] Checking previous bundle.zip integrity');
     const isPackageValid = await checkPackageIntegrity(service, logger);
     shouldRepackage = !isPackageValid;
@@ -140,7 +148,7 @@ export const packageService = async (
     let shouldRedeployLayer = true;
     let currentChecksums: ISourcesChecksums | undefined | null;
 
-    if (useLayerChecksums) {
+    if (useLayerChecksums && !isRestored) {
       const shouldRebuildLayer = await shouldRecreateLayer(
         service,
         env,
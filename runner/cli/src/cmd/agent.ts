@@ -0,0 +1,37 @@
+import { CacheBackends, Project, RunnerAgent } from '@microlambda/runner-core';
+import { getDefaultThreads, resolveProjectRoot } from '@microlambda/utils';
+import { EventLogsFileHandler, EventsLog } from '@microlambda/logger';
+import { ConfigReader } from '@microlambda/config';
+import chalk from 'chalk';
+import { logger } from '../utils/logger';
+
+interface IAgentCommandOptions {
+  port?: string;
+  host?: string;
+  concurrency?: string;
+}
+
+export const agent = async (options: IAgentCommandOptions): Promise<void> => {
+  const projectRoot = resolveProjectRoot();
+  const eventsLog = new EventsLog(undefined, [new EventLogsFileHandler(projectRoot, 'mila-runner-agent-' + Date.now())]);
+  const project = await Project.loadProject(projectRoot, eventsLog);
+  const backend = CacheBackends.fromRootConfig(new ConfigReader(projectRoot).rootConfig, projectRoot);
+  const runnerAgent = new RunnerAgent(project, backend, {
+    port: options.port ? Number(options.port) : 4545,
+    host: options.host,
+    concurrency: options.concurrency ? Number(options.concurrency) : getDefaultThreads(),
+  }, eventsLog);
+  const address = await runnerAgent.start();
+  logger.lf();
+  logger.info(logger.centipod, `Runner agent listening on ${chalk.white.bold(`${address.address}:${address.port}`)}`);
+  logger.seperator();
+  logger.info('Revision', chalk.white.bold(runnerAgent.revision));
+  logger.info('Concurrency', chalk.white.bold(runnerAgent.options.concurrency));
+  logger.info('Cache backend', chalk.white.bold(backend.type), chalk.white(backend.location));
+  logger.seperator();
+  const shutdown = (): void => {
+    runnerAgent.stop().finally(() => process.exit(0));
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+};
@@ -0,0 +1,189 @@
+import {
+  CacheBackends,
+  CacheGarbageCollector,
+  ICacheExplanation,
+  ICacheGcReport,
+  isRetentionPolicyEmpty,
+  parseDuration,
+  parseSize,
+  Project,
+  resolveRetentionPolicy,
+} from '@microlambda/runner-core';
+import { resolveProjectRoot } from '@microlambda/utils';
+import { EventLogsFileHandler, EventsLog } from '@microlambda/logger';
+import { ConfigReader } from '@microlambda/config';
+import chalk from 'chalk';
+import { logger } from '../utils/logger';
+import { resolveWorkspace } from '../utils/validate-workspace';
+
+interface ICacheGcCommandOptions {
+  dryRun?: boolean;
+  remote?: boolean;
+  maxAge?: string;
+  maxSize?: string;
+  keepLast?: string;
+}
+
+interface ICacheExplainCommandOptions {
+  remoteCache?: boolean;
+  affected?: string;
+}
+
+const formatSize = (bytes: number): string => {
+  const units = ['B', 'KB', 'MB', 'GB', 'TB'];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toFixed(unit ? 1 : 0)}${units[unit]}`;
+};
+
+const printReport = (title: string, report: ICacheGcReport): void => {
+  logger.info(logger.centipod, title, chalk.white.bold(report.location));
+  logger.lf();
+  for (const entry of report.deleted) {
+    logger.info(
+      `${' '.repeat(4)}- ${chalk.white(entry.id)}`,
+      entry.branch ? `[${entry.branch}]` : '',
+      formatSize(entry.size),
+      chalk.yellow(entry.reason),
+    );
+  }
+  if (report.deleted.length) {
+    logger.lf();
+  }
+  const verb = report.isDryRun ? 'Would delete' : 'Deleted';
+  logger.info(
+    `${verb} ${chalk.white.bold(report.deleted.length)} entries, kept ${chalk.white.bold(report.kept)}.`,
+    `${report.isDryRun ? 'Reclaimable' : 'Reclaimed'} space: ${chalk.white.bold(formatSize(report.reclaimed))}`,
+  );
+  logger.seperator();
+};
+
+const parseCount = (value: string): number => {
+  if (!/^\d+$/.test(value.trim())) {
+    throw new Error(`Not a non-negative integer: ${value}`);
+  }
+  return Number(value);
+};
+
+const parseRetentionOption = (
+  option: string,
+  value: string,
+  parse: (value: string) => number,
+  expected: string,
+): number => {
+  try {
+    return parse(value);
+  } catch (e) {
+    logger.error(`Invalid value "${value}" for --${option}, expected ${expected}`);
+    process.exit(1);
+  }
+};
+
+export const cacheGc = async (options: ICacheGcCommandOptions): Promise<void> => {
+  const projectRoot = resolveProjectRoot();
+  const eventsLog = new EventsLog(undefined, [new EventLogsFileHandler(projectRoot, 'mila-runner-cache-gc-' + Date.now())]);
+  const config = new ConfigReader(projectRoot).rootConfig;
+  const policy = resolveRetentionPolicy(config.cache?.retention);
+  if (options.maxAge) {
+    policy.maxAge = parseRetentionOption('max-age', options.maxAge, parseDuration, 'a duration such as 12h, 7d or 2w');
+  }
+  if (options.maxSize) {
+    policy.maxSize = parseRetentionOption('max-size', options.maxSize, parseSize, 'a size such as 500MB or 10GB');
+  }
+  if (options.keepLast) {
+    policy.keepLast = parseRetentionOption('keep-last', options.keepLast, parseCount, 'a non-negative integer');
+  }
+  if (isRetentionPolicyEmpty(policy)) {
+    logger.error('No retention policy found. Configure cache.retention in mila.json or use --max-age, --max-size or --keep-last options.');
+    process.exit(1);
+  }
+  const isDryRun = options.dryRun ?? false;
+  logger.lf();
+  logger.info(logger.centipod, isDryRun ? 'Cache garbage collection (dry run)' : 'Cache garbage collection');
+  logger.seperator();
+  const gc = new CacheGarbageCollector(policy, eventsLog);
+  const project = await Project.loadProject(projectRoot, eventsLog);
+  printReport('Local cache', await gc.collectLocal(project, isDryRun));
+  if (options.remote) {
+    const backend = CacheBackends.fromRootConfig(config, projectRoot);
+    printReport('Remote cache', await gc.collectRemote(backend, isDryRun));
+  }
+};
+
+const printList = (title: string, items: string[], color: chalk.Chalk): void => {
+  if (!items.length) {
+    return;
+  }
+  logger.info(`${title} (${items.length}):`);
+  items.forEach((item) => logger.info(`${' '.repeat(4)}${color(item)}`));
+  logger.lf();
+};
+
+const printExplanation = (explanation: ICacheExplanation): void => {
+  const { diff } = explanation;
+  if (!explanation.hasStoredChecksums) {
+    logger.info('No checksums stored for this target, it has never been cached');
+    return;
+  }
+  if (diff.cmd) {
+    logger.info('Commands changed:');
+    logger.info(`${' '.repeat(4)}${chalk.red('-')} ${diff.cmd.stored}`);
+    logger.info(`${' '.repeat(4)}${chalk.green('+')} ${diff.cmd.current}`);
+    logger.lf();
+  }
+  if (diff.args) {
+    logger.info('Arguments changed:', chalk.red(diff.args.stored), '->', chalk.green(diff.args.current));
+    logger.lf();
+  }
+  if (diff.globs) {
+    logger.info('Sources globs changed:', chalk.red(diff.globs.stored), '->', chalk.green(diff.globs.current));
+    logger.lf();
+  }
+  printList('Added files', diff.files.added, chalk.green);
+  printList('Removed files', diff.files.removed, chalk.red);
+  printList('Modified files', diff.files.modified, chalk.yellow);
+  printList('Added environment variables', diff.env.added, chalk.green);
+  printList('Removed environment variables', diff.env.removed, chalk.red);
+  printList(
+    'Modified environment variables',
+    diff.env.modified.map((env) => `${env.name} (sha256 ${env.stored} -> ${env.current})`),
+    chalk.yellow,
+  );
+  if (explanation.areArtifactsValid === false) {
+    logger.info(chalk.yellow('Artifacts produced by previous execution are missing or have been modified'));
+  }
+};
+
+export const cacheExplain = async (workspaceName: string, cmd: string, options: ICacheExplainCommandOptions): Promise<void> => {
+  if (options.remoteCache && !options.affected) {
+    logger.error('You must give the revision of the execution to compare with using --affected <rev> when using remote cache');
+    process.exit(1);
+  }
+  const projectRoot = resolveProjectRoot();
+  const eventsLog = new EventsLog(undefined, [new EventLogsFileHandler(projectRoot, 'mila-runner-cache-explain-' + Date.now())]);
+  const project = await Project.loadProject(projectRoot, eventsLog);
+  const workspace = resolveWorkspace(project, workspaceName);
+  logger.lf();
+  logger.info(logger.centipod, `Explaining cache for target ${chalk.white.bold(cmd)} on ${chalk.white.bold(workspace.name)}`);
+  logger.seperator();
+  const remoteCache = options.remoteCache
+    ? { backend: CacheBackends.fromRootConfig(new ConfigReader(projectRoot).rootConfig, projectRoot) }
+    : undefined;
+  if (remoteCache) {
+    logger.info('Comparing with execution', chalk.white.bold(options.affected), 'on remote cache', chalk.white.bold(remoteCache.backend.location));
+    logger.lf();
+  }
+  const explanation = await workspace.explainCache({
+    cmd,
+    mode: 'parallel',
+    remoteCache,
+    affected: options.affected,
+  });
+  printExplanation(explanation);
+  const isHit = explanation.isHit && explanation.areArtifactsValid !== false;
+  logger.info(logger.centipod, isHit ? chalk.green.bold('Cache hit') : chalk.yellow.bold('Cache miss'));
+};
@@ -0,0 +1,45 @@
+import { GraphChecker, Project } from '@microlambda/runner-core';
+import { resolveProjectRoot } from '@microlambda/utils';
+import { EventLogsFileHandler, EventsLog } from '@microlambda/logger';
+import chalk from 'chalk';
+import { logger } from '../utils/logger';
+
+interface IGraphCommandOptions {
+  check?: boolean;
+}
+
+export const graph = async (options: IGraphCommandOptions): Promise<void> => {
+  const projectRoot = resolveProjectRoot();
+  const eventsLog = new EventsLog(undefined, [new EventLogsFileHandler(projectRoot, 'mila-runner-graph-' + Date.now())]);
+  // Cycles are reported by the checker rather than failing project loading
+  const project = await Project.loadProject(projectRoot, eventsLog, !options.check);
+  if (!options.check) {
+    logger.lf();
+    for (const workspace of project.getTopologicallySortedWorkspaces()) {
+      const dependencies = Array.from(workspace.dependencies()).map((dep) => dep.name);
+      logger.info(chalk.white.bold(workspace.name), dependencies.length ? `-> ${dependencies.join(', ')}` : '');
+    }
+    return;
+  }
+  logger.lf();
+  logger.info(logger.centipod, 'Checking dependencies graph');
+  logger.seperator();
+  const report = await new GraphChecker(project, eventsLog).check();
+  for (const cycle of report.cycles) {
+    logger.error('Circular dependency:', cycle.join(' -> '));
+  }
+  for (const missing of report.missingReferences) {
+    logger.error(`Workspace ${missing.workspace} depends on ${missing.dependency}@${missing.version} which is not a workspace of the project`);
+  }
+  for (const unused of report.unusedDependencies) {
+    logger.info(chalk.yellow(`Workspace ${unused.workspace} depends on ${unused.dependency} but never imports it`));
+  }
+  if (report.cycles.length || report.missingReferences.length || report.unusedDependencies.length) {
+    logger.lf();
+  }
+  if (!GraphChecker.isValid(report)) {
+    logger.info(logger.failed, 'Dependencies graph is invalid');
+    process.exit(1);
+  }
+  logger.info(logger.success, `Dependencies graph of ${project.workspaces.size} workspaces is valid`, report.unusedDependencies.length ? chalk.yellow(`(${report.unusedDependencies.length} unused dependencies)`) : '');
+};
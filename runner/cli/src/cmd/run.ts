@@ -7,8 +7,13 @@ import {
   Project,
   Workspace,
   isDaemon, RunOptions, isSourceChangedEvent, isNodeInterruptingEvent, isNodeInterruptedEvent,
+  isNodeTimedOutEvent, isNodeRetryingEvent,
+  CacheBackends, RemoteCacheLocation, AgentsPool, currentSha1,
+  Runner, formatRunSummary, resolveRunSummaryFormat,
 } from '@microlambda/runner-core';
-import { resolveProjectRoot } from "@microlambda/utils";
+import { getDefaultThreads, resolveProjectRoot } from "@microlambda/utils";
+import { promises as fs } from 'fs';
+import { dirname, resolve } from 'path';
 import chalk from 'chalk';
 import { logger } from "../utils/logger";
 import { resolveWorkspace } from "../utils/validate-workspace";
@@ -26,9 +31,11 @@ interface IRunCommandOptions {
   remoteCache?: boolean;
   affected?: string;
   debounce?: number;
+  agents?: string;
+  report?: string;
 }
 
-const mapToRunOptions = (cmd: string, options: IRunCommandOptions, project: Project): RunOptions => {
+const mapToRunOptions = (cmd: string, options: IRunCommandOptions, project: Project, agents?: AgentsPool): RunOptions => {
   if (options.parallel && options.topological) {
     logger.error('Conflict: incompatible options --parallel (-p) and --topological (-t)');
     process.exit(1);
@@ -52,11 +59,13 @@ const mapToRunOptions = (cmd: string, options: IRunCommandOptions, project: Proj
     logger.error('Cannot using watch mode and remote caching simultaneously');
     process.exit(1);
   }
-  const resolveCache = (): { bucket: string, region: string } => {
+  if (options.agents && !options.remoteCache) {
+    logger.error('You must use remote cache to share artifacts between runner agents');
+    process.exit(1);
+  }
+  const resolveCache = (): RemoteCacheLocation => {
     const config = (new ConfigReader(project.root)).rootConfig;
-    const bucket = config.state.checksums;
-    const region = config.defaultRegion;
-    return { bucket, region };
+    return { backend: CacheBackends.fromRootConfig(config, project.root) };
   }
 
   const resolveWorkspaces = (names: string | undefined): Workspace[] | undefined => {
@@ -84,6 +93,7 @@ const mapToRunOptions = (cmd: string, options: IRunCommandOptions, project: Proj
       watch: false,
       remoteCache: options.remoteCache ? resolveCache() : undefined,
       affected: options.affected,
+      agents,
     }
   } else {
     if (options.watch) {
@@ -104,6 +114,7 @@ const mapToRunOptions = (cmd: string, options: IRunCommandOptions, project: Proj
       watch: false,
       remoteCache: options.remoteCache ? resolveCache() : undefined,
       affected: options.affected,
+      agents,
     };
   }
 }
@@ -122,20 +133,31 @@ export const run = async (cmd: string, options: IRunCommandOptions): Promise<voi
   logger.info('Use caches:', chalk.white(!options.force));
   if (!options.force && options.remoteCache) {
     const config = (new ConfigReader(project.root)).rootConfig;
-    const region = config.defaultRegion;
-    const currentUser = await aws.iam.getCurrentUser(region);
+    const backend = CacheBackends.fromRootConfig(config, project.root);
     logger.seperator();
     logger.info('Using remote cache :');
-    logger.info('AWS Account', chalk.white.bold(currentUser.projectId));
-    logger.info('Cache location', chalk.white.bold(`s3://${config.state.checksums}`));
-    logger.info('IAM user', chalk.white.bold(currentUser.arn));
+    logger.info('Cache backend', chalk.white.bold(backend.type));
+    logger.info('Cache location', chalk.white.bold(backend.location));
+    if (backend.type === 's3') {
+      const currentUser = await aws.iam.getCurrentUser(config.defaultRegion);
+      logger.info('AWS Account', chalk.white.bold(currentUser.projectId));
+      logger.info('IAM user', chalk.white.bold(currentUser.arn));
+    }
+  }
+  let agents: AgentsPool | undefined;
+  if (options.agents && options.remoteCache) {
+    agents = await AgentsPool.connect(options.agents.split(','), currentSha1(project.root), eventsLog);
+    logger.seperator();
+    logger.info('Distributing targets on runner agents :');
+    logger.info(agents.agents.map((url) => `${' '.repeat(4)}- ${chalk.white.bold(url)}`).join('\n'));
+    logger.info('Total concurrency', chalk.white.bold(agents.concurrency));
   }
   logger.seperator();
 
   const printError = (error: unknown): void => {
     if (isNodeEvent(error)) {
       logger.lf();
-      logger.info(logger.centipod, `Run target ${chalk.white.bold(cmd)} on ${chalk.white.bold(error.target.workspace.name)}`, logger.failed);
+      logger.info(logger.centipod, `Run target ${chalk.white.bold(error.target.cmd ?? cmd)} on ${chalk.white.bold(error.target.workspace.name)}`, logger.failed);
       printError(error.error);
     } else if (isProcessError(error) && !!error.all) {
       logger.lf();
@@ -150,7 +172,23 @@ export const run = async (cmd: string, options: IRunCommandOptions): Promise<voi
   const now = Date.now();
   let nbTargets = 0;
 
-  project.runCommand(mapToRunOptions(cmd, options,  project)).subscribe({
+  const runner = new Runner(project, getDefaultThreads());
+  const writeReports = async (): Promise<void> => {
+    const summary = runner.summary(cmd);
+    if (!summary) {
+      return;
+    }
+    logger.info('Cache hit rate:', chalk.white.bold(`${Math.round(summary.cacheHitRate * 100)}%`), `(${summary.cached}/${summary.ran + summary.cached + summary.failed})`);
+    logger.info('Critical path:', summary.criticalPath.targets.map((t) => chalk.white.bold(t.target)).join(' -> '), logger.took(summary.criticalPath.duration));
+    for (const path of options.report?.split(',') ?? []) {
+      const reportPath = resolve(process.cwd(), path);
+      await fs.mkdir(dirname(reportPath), { recursive: true });
+      await fs.writeFile(reportPath, formatRunSummary(summary, resolveRunSummaryFormat(reportPath)));
+      logger.info('Run report written at', chalk.white.bold(reportPath));
+    }
+  };
+
+  runner.runCommand(mapToRunOptions(cmd, options,  project, agents)).subscribe({
       next: (event) => {
         if (isTargetResolvedEvent(event)) {
           if (!event.targets.some((target) => target.hasCommand)) {
@@ -160,12 +198,12 @@ export const run = async (cmd: string, options: IRunCommandOptions): Promise<voi
             process.exit(1);
           }
           logger.info('Targets resolved:');
-          logger.info(event.targets.filter((t) => t.hasCommand).map((target) => `${' '.repeat(4)}- ${chalk.white.bold(target.workspace.name)}`).join('\n'));
+          logger.info(event.targets.filter((t) => t.hasCommand).map((target) => `${' '.repeat(4)}- ${chalk.white.bold(target.workspace.name)}${target.cmd ? chalk.grey(` (${target.cmd})`) : ''}`).join('\n'));
           logger.seperator();
           nbTargets = event.targets.length;
         } else if (isNodeSucceededEvent(event)) {
           logger.lf();
-          logger.info(logger.centipod, `Run target ${chalk.white.bold(cmd)} on ${chalk.white.bold(event.target.workspace.name)} ${logger.took(event.result.overall )} ${event.result.fromCache ? ( event.result.remoteCache ? logger.fromRemoteCache : logger.fromCache) : ''}`);
+          logger.info(logger.centipod, `Run target ${chalk.white.bold(event.target.cmd ?? cmd)} on ${chalk.white.bold(event.target.workspace.name)} ${logger.took(event.result.overall )} ${event.result.fromCache ? ( event.result.remoteCache ? logger.fromRemoteCache : logger.fromCache) : ''}`);
           for (const command of event.result.commands) {
             if (!isDaemon(command)) {
               logger.lf();
@@ -183,9 +221,18 @@ export const run = async (cmd: string, options: IRunCommandOptions): Promise<voi
           logger.seperator();
         } else if (isNodeErroredEvent(event)) {
           logger.lf();
-          logger.info(logger.centipod, `Run target ${chalk.white.bold(cmd)} on ${chalk.white.bold(event.target.workspace.name)} failed`);
+          logger.info(logger.centipod, `Run target ${chalk.white.bold(event.target.cmd ?? cmd)} on ${chalk.white.bold(event.target.workspace.name)} failed`);
           printError(event.error);
           failures.add(event.target.workspace);
+        } else if (isNodeTimedOutEvent(event)) {
+          logger.lf();
+          logger.info(logger.centipod, `Run target ${chalk.white.bold(event.target.cmd ?? cmd)} on ${chalk.white.bold(event.target.workspace.name)}`, logger.timedOut, `Killed after ${event.timeout}ms`);
+          logger.lf();
+          logger.info(chalk.cyan('>'), event.command);
+        } else if (isNodeRetryingEvent(event)) {
+          logger.lf();
+          logger.info(logger.centipod, `Run target ${chalk.white.bold(event.target.cmd ?? cmd)} on ${chalk.white.bold(event.target.workspace.name)}`, logger.retrying, `Attempt ${event.attempt + 1}/${event.retries + 1}`, event.delay ? `in ${event.delay}ms` : '');
+          printError(event.error);
         } else if (isSourceChangedEvent(event)) {
           logger.lf();
           logger.info(logger.centipod, `Sources changed for ${chalk.white.bold(event.target.workspace.name)}`);
@@ -206,7 +253,7 @@ export const run = async (cmd: string, options: IRunCommandOptions): Promise<voi
     error: (err) => {
       printError(err);
       logger.error(logger.centipod, logger.failed, 'Command failed');
-      process.exit(1)
+      writeReports().catch((e) => logger.error('Cannot write run report', e)).finally(() => process.exit(1));
     },
     complete: () => {
       logger.lf();
@@ -218,7 +265,8 @@ export const run = async (cmd: string, options: IRunCommandOptions): Promise<voi
         logger.info('Failed packages:');
         logger.info(Array.from(failures).map((target) => `${' '.repeat(4)}- ${chalk.white.bold(target.name)}`).join('\n'));
       }
-      process.exit(hasFailed ? 1 : 0);
+      logger.lf();
+      writeReports().catch((e) => logger.error('Cannot write run report', e)).finally(() => process.exit(hasFailed ? 1 : 0));
     },
   });
 }
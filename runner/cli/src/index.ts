@@ -6,6 +6,9 @@ import { affected } from './cmd/affected';
 import { isAffected } from './cmd/is-affected';
 import { publish } from './cmd/publish';
 import { run } from './cmd/run';
+import { cacheExplain, cacheGc } from './cmd/cache';
+import { graph } from './cmd/graph';
+import { agent } from './cmd/agent';
 import { commandWrapper } from './utils/command-wapper';
 
 // TODO: Validate command input
@@ -55,6 +58,8 @@ program
   .option('--remote-cache', 'use a remote cache instead local cache.')
   .option('--affected <rev1> <rev2>', 'only run command on workspaces affected between two revisions. Unless remote cache this is based on git diff and it will not verify command artifact')
   .option('--watch', 'watch sources and run the command again on changes')
+  .option('--agents <urls>', 'dispatch targets to runner agents (coma-separated URLs). Requires --remote-cache')
+  .option('--report <paths>', 'write a run summary report (coma-separated paths). Format depends on extension: .json, .md or .xml (JUnit)')
 
     .description('run a target through the dependencies graph')
   .action(
@@ -64,6 +69,61 @@ program
       }, true),
   );
 
+  const cache = program
+    .command('cache')
+    .description('manage local and remote caches');
+
+  cache
+    .command('gc')
+    .option('--dry-run', 'only report entries that would be deleted and reclaimable space')
+    .option('--remote', 'also prune the remote cache configured in mila.json')
+    .option('--max-age <duration>', 'override cache.retention.maxAge, e.g. 7d')
+    .option('--max-size <size>', 'override cache.retention.maxSize, e.g. 10GB')
+    .option('--keep-last <n>', 'override cache.retention.keepLast')
+    .description('prune cache entries according to retention policy')
+    .action(
+      async (options) =>
+        await commandWrapper(async () => {
+          await cacheGc(options);
+        }),
+    );
+
+  cache
+    .command('explain <workspace> <cmd>')
+    .option('--remote-cache', 'compare with the remote cache instead of the local cache')
+    .option('--affected <rev>', 'revision of the remote cache execution to compare with')
+    .description('explain why a target is a cache miss by comparing current checksums with stored ones')
+    .action(
+      async (workspace, cmd, options) =>
+        await commandWrapper(async () => {
+          await cacheExplain(workspace, cmd, options);
+        }),
+    );
+
+  program
+  .command('graph')
+  .option('--check', 'validate the dependencies graph: cycles, missing workspace references and unused dependencies')
+  .description('print workspaces in topological order with their dependencies')
+  .action(
+    async (options) =>
+      await commandWrapper(async () => {
+        await graph(options);
+      }),
+  );
+
+  program
+  .command('agent')
+  .option('--port <port>', 'port to listen on. Defaults to 4545')
+  .option('--host <host>', 'host to bind')
+  .option('-c, --concurrency <threads>', 'maximum number of targets run simultaneously. Defaults to current machine half of CPUs.')
+  .description('start a runner agent, running targets dispatched by a coordinator using run --agents')
+  .action(
+    async (options) =>
+      await commandWrapper(async () => {
+        await agent(options);
+      }, true),
+  );
+
   program
   .command('publish <workspace> <bump> [identifier]')
   .option('--access <access>')
@@ -4,6 +4,8 @@ import chalk from 'chalk';
 export const logger = {
   centipod: `${chalk.cyan.bold('>')} ${chalk.bgCyan.black.bold(' MILA RUNNER ')}`,
   failed: chalk.bgRedBright.black.bold(' FAILED '),
+  timedOut: chalk.bgRedBright.black.bold(' TIMED OUT '),
+  retrying: chalk.bgYellow.black.bold(' RETRYING '),
   success: chalk.bgGreen.black.bold(' SUCCESS '),
   fromCache: chalk.bgCyanBright.bold.black(' FROM CACHE '),
   fromRemoteCache: chalk.bgCyanBright.bold.black(' FROM REMOTE CACHE '),
@@ -0,0 +1,167 @@
+import { createReadStream, createWriteStream, promises as fs } from 'fs';
+import { dirname, isAbsolute, relative, resolve, sep } from 'path';
+import { pipeline } from 'stream/promises';
+import { fromFile } from 'hasha';
+import { EventsLogger } from '@microlambda/logger';
+import { MilaError, MilaErrorCode } from '@microlambda/errors';
+import { fs as fsUtils } from '@microlambda/utils';
+import { ICacheBackend } from '../cache/backends/cache-backend';
+
+export interface IArtifactsManifestEntry {
+  path: string;
+  hash: string;
+  size: number;
+  mode: number;
+}
+
+export interface IArtifactsManifest {
+  version: 1;
+  algorithm: 'sha256';
+  files: Array<IArtifactsManifestEntry>;
+}
+
+export interface IContentAddressableTransfer {
+  transferred: number;
+  reused: number;
+  bytes: number;
+}
+
+const CHUNK_SIZE = 20;
+
+const inChunks = async <T>(items: T[], fn: (item: T) => Promise<void>): Promise<void> => {
+  for (let i = 0; i < items.length; i += CHUNK_SIZE) {
+    await Promise.all(items.slice(i, i + CHUNK_SIZE).map(fn));
+  }
+};
+
+/**
+ * Stores artifacts file by file, using their SHA-256 as key.
+ * A file is only uploaded once, whatever the workspace, target or branch that produced it.
+ * A manifest describes which files a given target execution produced.
+ */
+export class ContentAddressableStore {
+  static readonly prefix = 'cas/sha256';
+
+  constructor(
+    readonly backend: ICacheBackend,
+    private readonly _logger?: EventsLogger,
+  ) {}
+
+  static key(hash: string): string {
+    return `${ContentAddressableStore.prefix}/${hash.substring(0, 2)}/${hash}`;
+  }
+
+  static hash(path: string): Promise<string> {
+    return fromFile(path, { algorithm: 'sha256' });
+  }
+
+  /**
+   * Upload the given files that are not already in the store and build the manifest.
+   * @param files - absolute paths of files to store, and optionally their already computed hashes
+   * @param relativeTo - the directory manifest paths are relative to (i.e. workspace root)
+   */
+  async upload(files: Array<string> | Record<string, string>, relativeTo: string): Promise<{ manifest: IArtifactsManifest, transfer: IContentAddressableTransfer }> {
+    const hashes: Record<string, string | undefined> = Array.isArray(files)
+      ? Object.fromEntries(files.map((file) => [file, undefined]))
+      : files;
+    const manifest: IArtifactsManifest = { version: 1, algorithm: 'sha256', files: [] };
+    const transfer: IContentAddressableTransfer = { transferred: 0, reused: 0, bytes: 0 };
+    const uploading = new Map<string, Promise<void>>();
+    await inChunks(Object.keys(hashes), async (path) => {
+      const [hash, stats] = await Promise.all([hashes[path] ?? ContentAddressableStore.hash(path), fs.stat(path)]);
+      manifest.files.push({
+        path: relative(relativeTo, path).split(sep).join('/'),
+        hash,
+        size: stats.size,
+        mode: stats.mode & 0o777,
+      });
+      const alreadyUploading = uploading.get(hash);
+      if (alreadyUploading) {
+        transfer.reused++;
+        return alreadyUploading;
+      }
+      const upload$ = this._uploadIfMissing(path, hash).then((isUploaded) => {
+        if (isUploaded) {
+          transfer.transferred++;
+          transfer.bytes += stats.size;
+        } else {
+          transfer.reused++;
+        }
+      });
+      uploading.set(hash, upload$);
+      await upload$;
+    });
+    manifest.files.sort((f1, f2) => f1.path.localeCompare(f2.path));
+    this._logger?.info('Artifacts stored', transfer);
+    return { manifest, transfer };
+  }
+
+  /**
+   * Restore the files described in the manifest. Local files that already have the expected
+   * content are left untouched.
+   * @throws MilaError if a manifest entry would be restored outside relativeTo, nothing is restored then
+   */
+  async download(manifest: IArtifactsManifest, relativeTo: string): Promise<IContentAddressableTransfer> {
+    const transfer: IContentAddressableTransfer = { transferred: 0, reused: 0, bytes: 0 };
+    const files = manifest.files.map((entry) => ({ entry, dest: ContentAddressableStore._destination(entry, relativeTo) }));
+    await inChunks(files, async ({ entry, dest }) => {
+      if (await this._isUpToDate(dest, entry)) {
+        transfer.reused++;
+        return;
+      }
+      await this._downloadFile(entry, dest);
+      transfer.transferred++;
+      transfer.bytes += entry.size;
+    });
+    this._logger?.info('Artifacts restored', transfer);
+    return transfer;
+  }
+
+  private static _destination(entry: IArtifactsManifestEntry, relativeTo: string): string {
+    const root = resolve(relativeTo);
+    const dest = resolve(root, ...entry.path.split('/'));
+    const path = relative(root, dest);
+    if (!path || path === '..' || path.startsWith(`..${sep}`) || isAbsolute(path)) {
+      throw new MilaError(
+        MilaErrorCode.ERROR_DOWNLOADING_ARTIFACTS,
+        `Refusing to restore ${entry.path} outside of ${relativeTo}`,
+      );
+    }
+    return dest;
+  }
+
+  private async _uploadIfMissing(path: string, hash: string): Promise<boolean> {
+    const key = ContentAddressableStore.key(hash);
+    if (await this.backend.exists(key)) {
+      this._logger?.debug('Already in store', path, key);
+      return false;
+    }
+    this._logger?.debug('Uploading', path, key);
+    const { writeStream, done } = await this.backend.writeStream(key);
+    await pipeline(createReadStream(path), writeStream);
+    await done;
+    return true;
+  }
+
+  private async _isUpToDate(dest: string, entry: IArtifactsManifestEntry): Promise<boolean> {
+    if (!(await fsUtils.exists(dest))) {
+      return false;
+    }
+    const stats = await fs.stat(dest);
+    return stats.size === entry.size && (await ContentAddressableStore.hash(dest)) === entry.hash;
+  }
+
+  private async _downloadFile(entry: IArtifactsManifestEntry, dest: string): Promise<void> {
+    this._logger?.debug('Downloading', entry.path, entry.hash);
+    await fs.mkdir(dirname(dest), { recursive: true });
+    const tmp = `${dest}.${process.pid}.download`;
+    try {
+      await pipeline(await this.backend.readStream(ContentAddressableStore.key(entry.hash)), createWriteStream(tmp));
+      await fs.chmod(tmp, entry.mode);
+      await fs.rename(tmp, dest);
+    } catch (e) {
+      await fsUtils.removeIfExists(tmp);
+      throw e;
+    }
+  }
+}
@@ -4,9 +4,10 @@ import { IArtifactsChecksums } from '../checksums';
 import { ITargetConfig } from '@microlambda/config';
 import { RemoteCache } from '../cache/remote-cache';
 import { Artifacts } from './artifacts';
-import { aws } from '@microlambda/aws';
+import { ICacheBackend } from '../cache/backends/cache-backend';
 import { currentSha1 } from '../remote-cache-utils';
-import { compress, extract } from '../archive';
+import { extract } from '../archive';
+import { ContentAddressableStore } from './content-addressable-store';
 import { MilaError, MilaErrorCode } from '@microlambda/errors';
 
 export class RemoteArtifacts extends Artifacts {
@@ -14,8 +15,7 @@ export class RemoteArtifacts extends Artifacts {
   static readonly scope = 'runner-core/artifacts-remote';
 
   constructor(
-    readonly awsRegion: string,
-    readonly bucket: string,
+    readonly backend: ICacheBackend,
     readonly workspace: Workspace,
     readonly cmd: string,
     readonly sha1?: string,
@@ -46,10 +46,21 @@ export class RemoteArtifacts extends Artifacts {
     return `${this.cachePrefix}/${this.sha1}/artifacts.json`;
   }
 
-  get currentArtifactsZipKey(): string {
-    return `${this.cachePrefix}/${currentSha1(this.workspace.project?.root)}/artifacts.zip`;
+  get currentArtifactsManifestKey(): string {
+    return `${this.cachePrefix}/${currentSha1(this.workspace.project?.root)}/artifacts-manifest.json`;
   }
 
+  get storedArtifactsManifestKey(): string {
+    if (!this.sha1) {
+      throw new MilaError(MilaErrorCode.BAD_REVISION, 'Cannot retrieve artifacts from previous execution, no relative sha1 were given');
+    }
+    return `${this.cachePrefix}/${this.sha1}/artifacts-manifest.json`;
+  }
+
+  /**
+   * Artifacts used to be uploaded as a whole archive. Archives are still read
+   * when no manifest exists for the stored execution.
+   */
   get storedArtifactsZipKey(): string {
     if (!this.sha1) {
       throw new MilaError(MilaErrorCode.BAD_REVISION, 'Cannot retrieve artifacts from previous execution, no relative sha1 were given');
@@ -57,56 +68,56 @@ export class RemoteArtifacts extends Artifacts {
     return `${this.cachePrefix}/${this.sha1}/artifacts.zip`;
   }
 
+  get store(): ContentAddressableStore {
+    return new ContentAddressableStore(this.backend, this.logger);
+  }
+
   async downloadArtifacts(): Promise<void> {
     try {
-      this.logger?.debug('Fetching artifact at', `s3://${this.bucket}/${this.storedArtifactsZipKey}`);
-      const exists = await aws.s3.objectExists(this.awsRegion, this.bucket, this.storedArtifactsZipKey);
-      this.logger?.info('Artifacts.zip exists on S3', exists);
+      this.logger?.debug('Fetching artifacts manifest at', this.backend.location, this.storedArtifactsManifestKey);
+      const manifest = await this.backend.read(this.storedArtifactsManifestKey);
+      this.logger?.info('Artifacts manifest exists on remote cache', !!manifest);
+      if (manifest) {
+        await this.store.download(JSON.parse(manifest.toString('utf-8')), this.workspace.root);
+        this.logger?.debug('Artifacts restored');
+        return;
+      }
+      const exists = await this.backend.exists(this.storedArtifactsZipKey);
+      this.logger?.info('Artifacts.zip exists on remote cache', exists);
       if (exists) {
-        const downloadStream = await aws.s3.downloadStream(this.bucket, this.storedArtifactsZipKey, this.awsRegion);
+        const downloadStream = await this.backend.readStream(this.storedArtifactsZipKey);
         await extract(downloadStream, this.workspace.root);
         this.logger?.debug('Artifacts unzipped');
       }
     } catch (e) {
-      this.logger?.error('Error downloading/unzipping artifacts');
-      this.logger?.error('Error downloading artifacts', this.bucket, this.storedArtifactsZipKey);
+      this.logger?.error('Error downloading artifacts', this.backend.location, this.storedArtifactsManifestKey);
       this.logger?.error(e);
     }
   }
 
-  async uploadArtifacts(): Promise<void> {
+  async uploadArtifacts(checksums?: Record<string, string>): Promise<void> {
     try {
-      this.logger?.debug('Uploading artifact at', `s3://${this.bucket}/${this.currentArtifactsZipKey}`);
-      const artifacts = await this._resolveArtifactsPaths();
-      const tar = await compress(artifacts, this.workspace.root);
-      const { writeStream, done } = await aws.s3.uploadStream(this.bucket, this.currentArtifactsZipKey, this.awsRegion, this.logger);
-      await tar.write((stream) => {
-        return stream.pipe(writeStream)
-      });
-      try {
-        await done;
-        this.logger?.debug('done s3');
-      } catch (e) {
-        this.logger?.debug('errs3', e)
-      }
-      this.logger?.debug('Artifact uploaded');
+      this.logger?.debug('Uploading artifacts in content-addressable store', this.backend.location);
+      const { manifest } = await this.store.upload(checksums ?? await this._resolveArtifactsPaths(), this.workspace.root);
+      // Manifest is written last, so it never references files that are not in the store yet
+      await this.backend.write(this.currentArtifactsManifestKey, JSON.stringify(manifest, null, 2));
+      this.logger?.debug('Artifacts uploaded');
     } catch (e) {
-      this.logger?.error('Error uploading artifacts', this.bucket, this.currentArtifactsZipKey);
-      this.logger?.error(e);
+      this.logger?.error('Error uploading artifacts', this.backend.location, this.currentArtifactsManifestKey);
       this.logger?.error(e);
     }
   }
 
   protected async _write(data: IArtifactsChecksums): Promise<void> {
-    await aws.s3.putObject(this.bucket, this.currentArtifactsChecksumsKey, this._serialize(data), this.awsRegion);
+    await this.backend.write(this.currentArtifactsChecksumsKey, this._serialize(data));
     this.logger?.debug('Checksums written, uploading artifacts');
-    await this.uploadArtifacts();
+    await this.uploadArtifacts(data.checksums);
     this.logger?.debug('Artifacts and checksums uploaded');
   }
 
   protected async _read(): Promise<IArtifactsChecksums> {
     try {
-      const checksums = await aws.s3.downloadBuffer(this.bucket, this.storedArtifactsChecksumsKey, this.awsRegion);
+      const checksums = await this.backend.read(this.storedArtifactsChecksumsKey);
       return checksums ? JSON.parse(checksums.toString('utf-8')) : {};
     } catch (e) {
       return {} as IArtifactsChecksums;
@@ -0,0 +1,35 @@
+import { Readable, Writable } from 'stream';
+
+export interface IWritableCacheEntry {
+  writeStream: Writable;
+  done: Promise<unknown>;
+}
+
+export interface ICacheObject {
+  key: string;
+  size: number;
+  lastModified: Date;
+}
+
+/**
+ * A storage where remote caches and artifacts are written.
+ * Keys are slash-separated paths such as caches/<workspace>/<cmd>/<sha1>/checksums.json
+ */
+export interface ICacheBackend {
+  readonly type: string;
+  /**
+   * Human-readable location of the cache (e.g. s3://my-bucket), used in logs
+   */
+  readonly location: string;
+  read(key: string): Promise<Buffer | null>;
+  write(key: string, data: string | Buffer): Promise<void>;
+  exists(key: string): Promise<boolean>;
+  remove(key: string): Promise<void>;
+  readStream(key: string): Promise<Readable>;
+  writeStream(key: string): Promise<IWritableCacheEntry>;
+  /**
+   * List objects which key starts with the given prefix. Optional, backends that cannot be listed
+   * cannot be garbage collected.
+   */
+  list?(prefix: string): Promise<Array<ICacheObject>>;
+}
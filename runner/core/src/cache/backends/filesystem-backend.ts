@@ -0,0 +1,110 @@
+import { createReadStream, createWriteStream, Dirent, promises as fs } from 'fs';
+import { dirname, join, relative, sep } from 'path';
+import { Readable } from 'stream';
+import { fs as fsUtils } from '@microlambda/utils';
+import { ICacheBackend, ICacheObject, IWritableCacheEntry } from './cache-backend';
+
+/**
+ * Stores caches in a directory, typically a volume shared between CI runners (e.g. NFS).
+ * Entries are written in a temporary file then renamed so concurrent readers never see
+ * a partially written entry.
+ */
+export class FilesystemCacheBackend implements ICacheBackend {
+  readonly type = 'filesystem';
+
+  constructor(readonly directory: string) {}
+
+  get location(): string {
+    return this.directory;
+  }
+
+  path(key: string): string {
+    return join(this.directory, ...key.split('/'));
+  }
+
+  private static _tmpPath(path: string): string {
+    return `${path}.${process.pid}-${Date.now()}.tmp`;
+  }
+
+  async read(key: string): Promise<Buffer | null> {
+    try {
+      return await fs.readFile(this.path(key));
+    } catch (e) {
+      if ((e as { code: string }).code === 'ENOENT') {
+        return null;
+      }
+      throw e;
+    }
+  }
+
+  async write(key: string, data: string | Buffer): Promise<void> {
+    const path = this.path(key);
+    const tmp = FilesystemCacheBackend._tmpPath(path);
+    await fs.mkdir(dirname(path), { recursive: true });
+    await fs.writeFile(tmp, data);
+    await fs.rename(tmp, path);
+  }
+
+  async exists(key: string): Promise<boolean> {
+    return fsUtils.exists(this.path(key));
+  }
+
+  async remove(key: string): Promise<void> {
+    await fsUtils.removeIfExists(this.path(key));
+  }
+
+  async readStream(key: string): Promise<Readable> {
+    return createReadStream(this.path(key));
+  }
+
+  async writeStream(key: string): Promise<IWritableCacheEntry> {
+    const path = this.path(key);
+    const tmp = FilesystemCacheBackend._tmpPath(path);
+    await fs.mkdir(dirname(path), { recursive: true });
+    const writeStream = createWriteStream(tmp);
+    const done = new Promise<void>((resolve, reject) => {
+      let hasFailed = false;
+      writeStream.on('error', (err) => {
+        hasFailed = true;
+        reject(err);
+      });
+      writeStream.on('close', () => {
+        if (!hasFailed) {
+          fs.rename(tmp, path).then(resolve).catch(reject);
+        }
+      });
+    });
+    return { writeStream, done };
+  }
+
+  async list(prefix: string): Promise<Array<ICacheObject>> {
+    const objects: Array<ICacheObject> = [];
+    const walk = async (directory: string): Promise<void> => {
+      let entries: Array<Dirent>;
+      try {
+        entries = await fs.readdir(directory, { withFileTypes: true });
+      } catch (e) {
+        if ((e as { code: string }).code === 'ENOENT') {
+          return;
+        }
+        throw e;
+      }
+      for (const entry of entries) {
+        const path = join(directory, entry.name);
+        if (entry.isDirectory()) {
+          await walk(path);
+        } else if (entry.isFile() && !entry.name.endsWith('.tmp')) {
+          const key = relative(this.directory, path).split(sep).join('/');
+          if (key.startsWith(prefix)) {
+            const stats = await fs.stat(path);
+            objects.push({ key, size: stats.size, lastModified: stats.mtime });
+          }
+        }
+      }
+    };
+    // Only walk the deepest directory fully contained in the prefix
+    const prefixDirectory = prefix.includes('/') ? prefix.substring(0, prefix.lastIndexOf('/')) : '';
+    await walk(prefixDirectory ? this.path(prefixDirectory) : this.directory);
+    return objects;
+  }
+}
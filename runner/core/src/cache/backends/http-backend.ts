@@ -0,0 +1,137 @@
+import { IncomingMessage, request as httpRequest, RequestOptions } from 'http';
+import { request as httpsRequest } from 'https';
+import { PassThrough, Readable } from 'stream';
+import { MilaError, MilaErrorCode } from '@microlambda/errors';
+import { ICacheBackend, IWritableCacheEntry } from './cache-backend';
+
+export interface IHttpCacheBackendOptions {
+  url: string;
+  headers?: Record<string, string>;
+  /**
+   * Name of the environment variable holding a bearer token sent in the Authorization header
+   */
+  tokenEnv?: string;
+}
+
+/**
+ * Generic HTTP cache server. Entries are read with GET, written with PUT, checked with HEAD
+ * and removed with DELETE on <url>/<key>.
+ */
+export class HttpCacheBackend implements ICacheBackend {
+  readonly type = 'http';
+
+  constructor(readonly options: IHttpCacheBackendOptions) {}
+
+  get location(): string {
+    return this.options.url;
+  }
+
+  url(key: string): URL {
+    const base = this.options.url.endsWith('/') ? this.options.url : `${this.options.url}/`;
+    return new URL(key.split('/').map(encodeURIComponent).join('/'), base);
+  }
+
+  private get _headers(): Record<string, string> {
+    const headers: Record<string, string> = { ...this.options.headers };
+    const token = this.options.tokenEnv ? process.env[this.options.tokenEnv] : undefined;
+    if (token) {
+      headers.Authorization = `Bearer ${token}`;
+    }
+    return headers;
+  }
+
+  private _request(method: string, key: string, headers: Record<string, string> = {}): ReturnType<typeof httpRequest> {
+    const url = this.url(key);
+    const options: RequestOptions = { method, headers: { ...this._headers, ...headers } };
+    return url.protocol === 'https:' ? httpsRequest(url, options) : httpRequest(url, options);
+  }
+
+  private _send(method: string, key: string, body?: string | Buffer): Promise<IncomingMessage> {
+    return new Promise<IncomingMessage>((resolve, reject) => {
+      const req = this._request(method, key, body != null ? { 'Content-Length': String(Buffer.byteLength(body)) } : {});
+      req.on('response', resolve);
+      req.on('error', reject);
+      req.end(body);
+    });
+  }
+
+  private static async _readBody(response: IncomingMessage): Promise<Buffer> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of response) {
+      chunks.push(chunk as Buffer);
+    }
+    return Buffer.concat(chunks);
+  }
+
+  private _assertSuccess(method: string, key: string, response: IncomingMessage): void {
+    const status = response.statusCode ?? 0;
+    if (status < 200 || status >= 300) {
+      response.resume();
+      throw new MilaError(
+        MilaErrorCode.CACHE_BACKEND_ERROR,
+        `HTTP cache server responded ${status} to ${method} ${this.url(key).toString()}`,
+      );
+    }
+  }
+
+  async read(key: string): Promise<Buffer | null> {
+    const response = await this._send('GET', key);
+    if (response.statusCode === 404) {
+      response.resume();
+      return null;
+    }
+    this._assertSuccess('GET', key, response);
+    return HttpCacheBackend._readBody(response);
+  }
+
+  async write(key: string, data: string | Buffer): Promise<void> {
+    const response = await this._send('PUT', key, data);
+    this._assertSuccess('PUT', key, response);
+    response.resume();
+  }
+
+  async exists(key: string): Promise<boolean> {
+    const response = await this._send('HEAD', key);
+    response.resume();
+    if (response.statusCode === 404) {
+      return false;
+    }
+    this._assertSuccess('HEAD', key, response);
+    return true;
+  }
+
+  async remove(key: string): Promise<void> {
+    const response = await this._send('DELETE', key);
+    if (response.statusCode === 404) {
+      response.resume();
+      return;
+    }
+    this._assertSuccess('DELETE', key, response);
+    response.resume();
+  }
+
+  async readStream(key: string): Promise<Readable> {
+    const response = await this._send('GET', key);
+    this._assertSuccess('GET', key, response);
+    return response;
+  }
+
+  async writeStream(key: string): Promise<IWritableCacheEntry> {
+    const writeStream = new PassThrough();
+    const req = this._request('PUT', key, { 'Transfer-Encoding': 'chunked' });
+    const done = new Promise<void>((resolve, reject) => {
+      req.on('error', reject);
+      req.on('response', (response: IncomingMessage) => {
+        try {
+          this._assertSuccess('PUT', key, response);
+          response.resume();
+          resolve();
+        } catch (e) {
+          reject(e);
+        }
+      });
+    });
+    writeStream.pipe(req);
+    return { writeStream, done };
+  }
+}
@@ -0,0 +1,83 @@
+import { isAbsolute, join } from 'path';
+import {
+  ICacheBackendConfig,
+  IFilesystemCacheBackendConfig,
+  IHttpCacheBackendConfig,
+  IRootConfig,
+  IS3CacheBackendConfig,
+} from '@microlambda/config';
+import { MilaError, MilaErrorCode } from '@microlambda/errors';
+import { ICacheBackend } from './cache-backend';
+import { S3CacheBackend } from './s3-backend';
+import { FilesystemCacheBackend } from './filesystem-backend';
+import { HttpCacheBackend } from './http-backend';
+
+export interface ICacheBackendContext {
+  projectRoot: string;
+  defaultRegion: string;
+  defaultBucket: string;
+}
+
+export type CacheBackendFactory = (config: ICacheBackendConfig, context: ICacheBackendContext) => ICacheBackend;
+
+/**
+ * Registry of the available remote cache backends.
+ * Built-in backends are "s3" (Amazon S3 or any S3-compatible storage), "filesystem" and "http".
+ * Custom backends can be registered programmatically and then selected in the "cache.backend"
+ * section of the root mila.json.
+ */
+export class CacheBackends {
+  private static readonly _factories = new Map<string, CacheBackendFactory>();
+
+  static register(type: string, factory: CacheBackendFactory): void {
+    CacheBackends._factories.set(type, factory);
+  }
+
+  static isRegistered(type: string): boolean {
+    return CacheBackends._factories.has(type);
+  }
+
+  static get types(): string[] {
+    return [...CacheBackends._factories.keys()];
+  }
+
+  static create(config: ICacheBackendConfig | undefined, context: ICacheBackendContext): ICacheBackend {
+    const resolved = config ?? { type: 's3' };
+    const factory = CacheBackends._factories.get(resolved.type);
+    if (!factory) {
+      throw new MilaError(
+        MilaErrorCode.UNKNOWN_CACHE_BACKEND,
+        `Unknown cache backend "${resolved.type}". Available backends are: ${CacheBackends.types.join(', ')}`,
+      );
+    }
+    return factory(resolved, context);
+  }
+
+  static fromRootConfig(config: IRootConfig, projectRoot: string): ICacheBackend {
+    return CacheBackends.create(config.cache?.backend, {
+      projectRoot,
+      defaultRegion: config.defaultRegion,
+      defaultBucket: config.state.checksums,
+    });
+  }
+}
+
+CacheBackends.register('s3', (config, context) => {
+  const s3Config = config as IS3CacheBackendConfig;
+  return new S3CacheBackend({
+    bucket: s3Config.bucket ?? context.defaultBucket,
+    region: s3Config.region ?? context.defaultRegion,
+    endpoint: s3Config.endpoint,
+    forcePathStyle: s3Config.forcePathStyle,
+  });
+});
+
+CacheBackends.register('filesystem', (config, context) => {
+  const { path } = config as IFilesystemCacheBackendConfig;
+  return new FilesystemCacheBackend(isAbsolute(path) ? path : join(context.projectRoot, path));
+});
+
+CacheBackends.register('http', (config) => {
+  const { url, headers, tokenEnv } = config as IHttpCacheBackendConfig;
+  return new HttpCacheBackend({ url, headers, tokenEnv });
+});
@@ -0,0 +1,58 @@
+import { Readable } from 'stream';
+import { aws, IS3ClientOptions } from '@microlambda/aws';
+import { ICacheBackend, ICacheObject, IWritableCacheEntry } from './cache-backend';
+
+export interface IS3CacheBackendOptions extends IS3ClientOptions {
+  bucket: string;
+  region: string;
+}
+
+export class S3CacheBackend implements ICacheBackend {
+  readonly type = 's3';
+
+  constructor(readonly options: IS3CacheBackendOptions) {}
+
+  get bucket(): string {
+    return this.options.bucket;
+  }
+
+  get region(): string {
+    return this.options.region;
+  }
+
+  get location(): string {
+    return this.options.endpoint ? `${this.options.endpoint}/${this.bucket}` : `s3://${this.bucket}`;
+  }
+
+  private get _clientOptions(): IS3ClientOptions {
+    return { endpoint: this.options.endpoint, forcePathStyle: this.options.forcePathStyle };
+  }
+
+  async read(key: string): Promise<Buffer | null> {
+    return aws.s3.downloadBuffer(this.bucket, key, this.region, this._clientOptions);
+  }
+
+  async write(key: string, data: string | Buffer): Promise<void> {
+    await aws.s3.putObject(this.bucket, key, data, this.region, this._clientOptions);
+  }
+
+  async exists(key: string): Promise<boolean> {
+    return aws.s3.objectExists(this.region, this.bucket, key, this._clientOptions);
+  }
+
+  async remove(key: string): Promise<void> {
+    await aws.s3.deleteObject(this.bucket, key, this.region, this._clientOptions);
+  }
+
+  async readStream(key: string): Promise<Readable> {
+    return aws.s3.downloadStream(this.bucket, key, this.region, this._clientOptions);
+  }
+
+  async writeStream(key: string): Promise<IWritableCacheEntry> {
+    return aws.s3.uploadStream(this.bucket, key, this.region, undefined, this._clientOptions);
+  }
+
+  async list(prefix: string): Promise<Array<ICacheObject>> {
+    return aws.s3.listObjects(this.bucket, prefix, this.region, this._clientOptions);
+  }
+}
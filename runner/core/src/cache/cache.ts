@@ -1,4 +1,4 @@
-import { Checksums, ISourcesChecksums } from '../checksums';
+import { Checksums, IChecksumsDiff, ISourcesChecksums } from '../checksums';
 import { Workspace } from '../workspace';
 import chalk from 'chalk';
 import { ICommandResult } from '../process';
@@ -6,6 +6,16 @@ import { MilaError, MilaErrorCode } from "@microlambda/errors";
 import { EventsLogger } from '@microlambda/logger';
 import { ITargetConfig } from '@microlambda/config';
 
+export interface ICacheExplanation {
+  isHit: boolean;
+  hasStoredChecksums: boolean;
+  diff: IChecksumsDiff;
+  /**
+   * Whether the artifacts of the previous execution are still present and valid, when it can be checked
+   */
+  areArtifactsValid?: boolean;
+}
+
 export abstract class Cache {
   protected constructor (
     readonly workspace: Workspace,
@@ -58,6 +68,34 @@ export abstract class Cache {
     }
   }
 
+  /**
+   * Outputs stored by previous execution, whether or not they are still valid
+   */
+  async readOutput(): Promise<Array<ICommandResult> | null> {
+    try {
+      return await this._readOutput();
+    } catch (e) {
+      this.logger?.debug('No output stored', e);
+      return null;
+    }
+  }
+
+  /**
+   * Compare current checksums to the ones stored by previous execution without reading outputs
+   */
+  async explain(): Promise<ICacheExplanation> {
+    const checksums = new Checksums(this.workspace, this.cmd, this.args, this.env, this.logger?.logger);
+    const [currentChecksums, storedChecksums] = await Promise.all([
+      checksums.calculate(),
+      this._readChecksums(),
+    ]);
+    return {
+      isHit: Checksums.compare(currentChecksums, storedChecksums),
+      hasStoredChecksums: Object.keys(storedChecksums).length > 0,
+      diff: Checksums.diff(currentChecksums, storedChecksums),
+    };
+  }
+
   async write(output: Array<ICommandResult>): Promise<void> {
     if (!this.config.src) {
       return;
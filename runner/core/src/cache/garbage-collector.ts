@@ -0,0 +1,289 @@
+import { Dirent, promises as fs } from 'fs';
+import { join } from 'path';
+import { EventsLog, EventsLogger } from '@microlambda/logger';
+import { MilaError, MilaErrorCode } from '@microlambda/errors';
+import { Project } from '../project';
+import { ICacheBackend, ICacheObject } from './backends/cache-backend';
+import { ICacheRetentionPolicy } from './retention';
+import { IRemoteCacheMetadata } from './remote-cache';
+import { ContentAddressableStore, IArtifactsManifest } from '../artifacts/content-addressable-store';
+
+export type CacheGcReason = 'max-age' | 'keep-last' | 'max-size' | 'unreferenced';
+
+export interface ICacheGcEntry {
+  /**
+   * Local directory or remote key prefix of the entry
+   */
+  id: string;
+  /**
+   * Target the entry has been written for, e.g. <workspace>/<cmd>
+   */
+  target: string;
+  branch?: string;
+  size: number;
+  lastModified: Date;
+}
+
+export interface ICacheGcDeletion extends ICacheGcEntry {
+  reason: CacheGcReason;
+}
+
+export interface ICacheGcReport {
+  location: string;
+  isDryRun: boolean;
+  deleted: Array<ICacheGcDeletion>;
+  kept: number;
+  reclaimed: number;
+}
+
+interface IRemoteCacheGcEntry extends ICacheGcEntry {
+  keys: Array<string>;
+  hashes: Set<string>;
+}
+
+/**
+ * Objects written in the content-addressable store less than an hour ago are never deleted,
+ * as the manifest referencing them may not have been written yet.
+ */
+const CAS_GRACE_PERIOD = 60 * 60 * 1000;
+
+const SHA1_PATTERN = /^[0-9a-f]{40}$/;
+
+/**
+ * Deployment packages stored for rollbacks (see mila deploy) share the content-addressable store.
+ * They are not subject to retention policy, but the artifacts they reference must be kept.
+ */
+const DEPLOYMENTS_PREFIX = 'deployments/';
+const PACKAGE_MANIFEST = 'package-manifest.json';
+
+export class CacheGarbageCollector {
+  static readonly scope = 'runner-core/cache-gc';
+  private readonly _logger: EventsLogger | undefined;
+
+  constructor(
+    readonly policy: ICacheRetentionPolicy,
+    eventsLog?: EventsLog,
+    private readonly _now = new Date(),
+  ) {
+    this._logger = eventsLog?.scope(CacheGarbageCollector.scope);
+  }
+
+  /**
+   * Select entries to delete according to retention policy.
+   * Entries older than maxAge are deleted first, then entries exceeding keepLast for a given target
+   * and branch, then the oldest entries until the total size fits in maxSize.
+   */
+  select<T extends ICacheGcEntry>(entries: Array<T>, weight: (entry: T) => number = (e): number => e.size): Map<T, CacheGcReason> {
+    const deleted = new Map<T, CacheGcReason>();
+    const sorted = [...entries].sort((e1, e2) => e2.lastModified.getTime() - e1.lastModified.getTime());
+    const { maxAge, maxSize, keepLast } = this.policy;
+    if (maxAge != null) {
+      sorted
+        .filter((e) => this._now.getTime() - e.lastModified.getTime() > maxAge)
+        .forEach((e) => deleted.set(e, 'max-age'));
+    }
+    if (keepLast != null) {
+      const kept = new Map<string, number>();
+      for (const entry of sorted.filter((e) => !deleted.has(e))) {
+        const group = `${entry.target}@${entry.branch ?? ''}`;
+        const count = (kept.get(group) ?? 0) + 1;
+        kept.set(group, count);
+        if (count > keepLast) {
+          deleted.set(entry, 'keep-last');
+        }
+      }
+    }
+    if (maxSize != null) {
+      const remaining = sorted.filter((e) => !deleted.has(e));
+      let total = remaining.reduce((acc, e) => acc + weight(e), 0);
+      for (const entry of remaining.reverse()) {
+        if (total <= maxSize) {
+          break;
+        }
+        deleted.set(entry, 'max-size');
+        total -= weight(entry);
+      }
+    }
+    return deleted;
+  }
+
+  /**
+   * Prune the .caches folders of every workspace of the project.
+   */
+  async collectLocal(project: Project, isDryRun = false): Promise<ICacheGcReport> {
+    const entries: Array<ICacheGcEntry> = [];
+    for (const workspace of project.workspaces.values()) {
+      const cachesFolder = join(workspace.root, '.caches');
+      let commands: Array<Dirent>;
+      try {
+        commands = await fs.readdir(cachesFolder, { withFileTypes: true });
+      } catch (e) {
+        continue;
+      }
+      for (const cmd of commands.filter((c) => c.isDirectory()).map((c) => c.name)) {
+        const folder = join(cachesFolder, cmd);
+        const { size, lastModified } = await CacheGarbageCollector._directoryStats(folder);
+        entries.push({ id: folder, target: `${workspace.name}/${cmd}`, size, lastModified });
+      }
+    }
+    this._logger?.debug('Local cache entries found', entries.length);
+    const deleted = this.select(entries);
+    if (!isDryRun) {
+      for (const entry of deleted.keys()) {
+        this._logger?.debug('Removing local cache entry', entry.id);
+        await fs.rm(entry.id, { recursive: true, force: true });
+      }
+    }
+    return this._report(project.root, isDryRun, entries.length, deleted);
+  }
+
+  /**
+   * Prune the remote cache (prefix caches/) and the objects of the content-addressable store
+   * that are not referenced anymore by any artifacts manifest nor deployment package manifest.
+   */
+  async collectRemote(backend: ICacheBackend, isDryRun = false): Promise<ICacheGcReport> {
+    if (!backend.list) {
+      throw new MilaError(MilaErrorCode.CACHE_BACKEND_ERROR, `Cache backend "${backend.type}" cannot be listed, hence garbage collected`);
+    }
+    const [cacheObjects, storeObjects, deploymentObjects] = await Promise.all([
+      backend.list('caches/'),
+      backend.list(`${ContentAddressableStore.prefix}/`),
+      backend.list(DEPLOYMENTS_PREFIX),
+    ]);
+    const entries = await this._groupRemoteEntries(backend, cacheObjects);
+    this._logger?.debug('Remote cache entries found', entries.length);
+    const storeObjectsByHash = new Map<string, ICacheObject>();
+    for (const object of storeObjects) {
+      storeObjectsByHash.set(object.key.substring(object.key.lastIndexOf('/') + 1), object);
+    }
+    const references = new Map<string, number>();
+    for (const entry of entries) {
+      entry.hashes.forEach((hash) => references.set(hash, (references.get(hash) ?? 0) + 1));
+    }
+    // Artifacts shared between entries are equally charged to each of them
+    const weight = (entry: IRemoteCacheGcEntry): number => Array.from(entry.hashes).reduce(
+      (acc, hash) => acc + (storeObjectsByHash.get(hash)?.size ?? 0) / (references.get(hash) ?? 1),
+      entry.size,
+    );
+    const deleted: Map<ICacheGcEntry, CacheGcReason> = this.select(entries, weight);
+    const referenced = new Set<string>();
+    entries.filter((e) => !deleted.has(e)).forEach((e) => e.hashes.forEach((hash) => referenced.add(hash)));
+    (await this._readPackagesHashes(backend, deploymentObjects)).forEach((hash) => referenced.add(hash));
+    for (const [hash, object] of storeObjectsByHash.entries()) {
+      const isRecent = this._now.getTime() - object.lastModified.getTime() < CAS_GRACE_PERIOD;
+      if (!referenced.has(hash) && !isRecent) {
+        deleted.set({ id: object.key, target: ContentAddressableStore.prefix, size: object.size, lastModified: object.lastModified }, 'unreferenced');
+      }
+    }
+    if (!isDryRun) {
+      for (const entry of deleted.keys()) {
+        const keys = 'keys' in entry ? (entry as IRemoteCacheGcEntry).keys : [entry.id];
+        this._logger?.debug('Removing remote cache entry', entry.id);
+        for (const key of keys) {
+          await backend.remove(key);
+        }
+      }
+    }
+    return this._report(backend.location, isDryRun, entries.length + storeObjectsByHash.size, deleted);
+  }
+
+  private async _groupRemoteEntries(backend: ICacheBackend, objects: Array<ICacheObject>): Promise<Array<IRemoteCacheGcEntry>> {
+    const entries = new Map<string, IRemoteCacheGcEntry>();
+    for (const object of objects) {
+      const segments = object.key.split('/');
+      const sha1Index = segments.findIndex((segment, idx) => idx > 0 && SHA1_PATTERN.test(segment));
+      if (sha1Index < 0) {
+        this._logger?.debug('Ignoring unexpected remote cache key', object.key);
+        continue;
+      }
+      const id = segments.slice(0, sha1Index + 1).join('/');
+      const entry = entries.get(id) ?? {
+        id,
+        target: segments.slice(1, sha1Index).join('/'),
+        size: 0,
+        lastModified: object.lastModified,
+        keys: [],
+        hashes: new Set<string>(),
+      };
+      entry.keys.push(object.key);
+      entry.size += object.size;
+      if (object.lastModified > entry.lastModified) {
+        entry.lastModified = object.lastModified;
+      }
+      entries.set(id, entry);
+    }
+    for (const entry of entries.values()) {
+      const [metadata, manifest] = await Promise.all([
+        this._readJson<IRemoteCacheMetadata>(backend, entry, 'metadata.json'),
+        this._readJson<IArtifactsManifest>(backend, entry, 'artifacts-manifest.json'),
+      ]);
+      entry.branch = metadata?.branch;
+      manifest?.files.forEach((file) => entry.hashes.add(file.hash));
+    }
+    return Array.from(entries.values());
+  }
+
+  private async _readPackagesHashes(backend: ICacheBackend, objects: Array<ICacheObject>): Promise<Set<string>> {
+    const hashes = new Set<string>();
+    const manifests = objects.filter((object) => object.key.endsWith(`/${PACKAGE_MANIFEST}`));
+    this._logger?.debug('Deployment packages found', manifests.length);
+    for (const object of manifests) {
+      const raw = await backend.read(object.key);
+      // An unreadable manifest must abort collection, rather than deleting the artifacts it references
+      const manifest: IArtifactsManifest | undefined = raw ? JSON.parse(raw.toString('utf-8')) : undefined;
+      manifest?.files.forEach((file) => hashes.add(file.hash));
+    }
+    return hashes;
+  }
+
+  private async _readJson<T>(backend: ICacheBackend, entry: IRemoteCacheGcEntry, filename: string): Promise<T | undefined> {
+    const key = `${entry.id}/${filename}`;
+    if (!entry.keys.includes(key)) {
+      return undefined;
+    }
+    try {
+      const raw = await backend.read(key);
+      return raw ? JSON.parse(raw.toString('utf-8')) : undefined;
+    } catch (e) {
+      this._logger?.warn('Cannot read', key, e);
+      return undefined;
+    }
+  }
+
+  private _report(location: string, isDryRun: boolean, total: number, deleted: Map<ICacheGcEntry, CacheGcReason>): ICacheGcReport {
+    const deletions = Array.from(deleted.entries()).map(([entry, reason]) => ({
+      id: entry.id,
+      target: entry.target,
+      branch: entry.branch,
+      size: entry.size,
+      lastModified: entry.lastModified,
+      reason,
+    }));
+    return {
+      location,
+      isDryRun,
+      deleted: deletions,
+      kept: total - deletions.length,
+      reclaimed: deletions.reduce((acc, e) => acc + e.size, 0),
+    };
+  }
+
+  private static async _directoryStats(directory: string): Promise<{ size: number; lastModified: Date }> {
+    let size = 0;
+    let lastModified = new Date(0);
+    const entries = await fs.readdir(directory, { withFileTypes: true });
+    for (const entry of entries) {
+      const path = join(directory, entry.name);
+      if (entry.isDirectory()) {
+        const stats = await CacheGarbageCollector._directoryStats(path);
+        size += stats.size;
+        lastModified = stats.lastModified > lastModified ? stats.lastModified : lastModified;
+      } else {
+        const stats = await fs.stat(path);
+        size += stats.size;
+        lastModified = stats.mtime > lastModified ? stats.mtime : lastModified;
+      }
+    }
+    return { size, lastModified };
+  }
+}
@@ -2,17 +2,21 @@ import { ISourcesChecksums } from '../checksums';
 import { Workspace } from '../workspace';
 import { ICommandResult } from '../process';
 import { EventsLog } from '@microlambda/logger';
-import { aws } from '@microlambda/aws';
+import { ICacheBackend } from './backends/cache-backend';
 import { Cache } from './cache';
-import { currentSha1 } from '../remote-cache-utils';
+import { currentBranch, currentSha1 } from '../remote-cache-utils';
 import { MilaError, MilaErrorCode } from '@microlambda/errors';
 
+export interface IRemoteCacheMetadata {
+  branch?: string;
+  createdAt: string;
+}
+
 export class RemoteCache extends Cache {
   static readonly scope = '@microlambda/runner-core/remote-cache';
 
   constructor (
-    readonly awsRegion: string,
-    readonly bucket: string,
+    readonly backend: ICacheBackend,
     readonly workspace: Workspace,
     readonly cmd: string,
     readonly sha1?: string,
@@ -54,27 +58,31 @@ export class RemoteCache extends Cache {
     return `${this.cachePrefix}/${currentSha1(this.workspace.project?.root)}/outputs.json`;
   }
 
+  get currentMetadataKey(): string {
+    return `${this.cachePrefix}/${currentSha1(this.workspace.project?.root)}/metadata.json`;
+  }
+
   protected async _readChecksums(): Promise<ISourcesChecksums> {
     try {
-      this.logger?.debug('Reading checksums from S3', this.bucket, this.storedChecksumsKey, this.awsRegion);
-      const raw = await aws.s3.downloadBuffer(this.bucket, this.storedChecksumsKey, this.awsRegion);
-      this.logger?.debug('S3 raw response', raw);
+      this.logger?.debug('Reading checksums from remote cache', this.backend.location, this.storedChecksumsKey);
+      const raw = await this.backend.read(this.storedChecksumsKey);
+      this.logger?.debug('Remote cache raw response', raw);
       if (!raw) {
         return {} as ISourcesChecksums;
       }
       return JSON.parse(raw.toString('utf-8'));
     } catch (e) {
-      this.logger?.warn('Error reading checksums from AWS', e);
+      this.logger?.warn('Error reading checksums from remote cache', e);
       return {} as ISourcesChecksums;
     }
   }
   protected async _readOutput(): Promise<ICommandResult[]> {
     let raw: string | undefined;
     try {
-      const buffer = await aws.s3.downloadBuffer(this.bucket, this.storedOutputKey, this.awsRegion);
+      const buffer = await this.backend.read(this.storedOutputKey);
       raw = buffer?.toString('utf-8');
     } catch (e) {
-      this.logger?.warn('Error reading output from AWS', e);
+      this.logger?.warn('Error reading output from remote cache', e);
       throw e;
     }
     if (!raw) {
@@ -83,17 +91,24 @@ export class RemoteCache extends Cache {
     try {
       return JSON.parse(raw);
     } catch(e) {
-      this.logger?.warn('Error parsing output from AWS', e);
+      this.logger?.warn('Error parsing output from remote cache', e);
       throw e;
     }
   }
 
   protected async _writeChecksums(checksums: ISourcesChecksums): Promise<void> {
-    await aws.s3.putObject(this.bucket, this.currentChecksumsKey, JSON.stringify(checksums, null, 2), this.awsRegion)
+    const metadata: IRemoteCacheMetadata = {
+      branch: currentBranch(this.workspace.project?.root),
+      createdAt: new Date().toISOString(),
+    };
+    await Promise.all([
+      this.backend.write(this.currentChecksumsKey, JSON.stringify(checksums, null, 2)),
+      this.backend.write(this.currentMetadataKey, JSON.stringify(metadata, null, 2)),
+    ]);
   }
 
   protected async _writeOutput(output: ICommandResult[]): Promise<void> {
-    await aws.s3.putObject(this.bucket, this.currentOutputKey, JSON.stringify(output, null, 2), this.awsRegion);
+    await this.backend.write(this.currentOutputKey, JSON.stringify(output, null, 2));
   }
 
   protected async _removeChecksums(): Promise<void> {
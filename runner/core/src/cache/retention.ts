@@ -0,0 +1,60 @@
+import { ICacheRetentionConfig } from '@microlambda/config';
+import { MilaError, MilaErrorCode } from '@microlambda/errors';
+
+export interface ICacheRetentionPolicy {
+  /**
+   * Maximum age of an entry, in milliseconds
+   */
+  maxAge?: number;
+  /**
+   * Maximum size of the whole cache, in bytes
+   */
+  maxSize?: number;
+  keepLast?: number;
+}
+
+const DURATION_UNITS: Record<string, number> = {
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+};
+
+const SIZE_UNITS: Record<string, number> = {
+  b: 1,
+  kb: 1024,
+  mb: 1024 ** 2,
+  gb: 1024 ** 3,
+  tb: 1024 ** 4,
+};
+
+const parse = (value: number | string, defaultUnit: string, units: Record<string, number>): number => {
+  if (typeof value === 'number') {
+    return value * units[defaultUnit];
+  }
+  const match = value.trim().match(/^(\d+(?:\.\d+)?)\s*([a-z]+)?$/i);
+  const unit = match ? (match[2] || defaultUnit).toLowerCase() : undefined;
+  if (!match || !unit || !units[unit]) {
+    throw new MilaError(MilaErrorCode.INVALID_CACHE_RETENTION, `Invalid value "${value}" in cache retention policy`);
+  }
+  return Number(match[1]) * units[unit];
+};
+
+/**
+ * Parse a duration such as "12h", "7d" or "2w" in milliseconds. Numbers are considered as days.
+ */
+export const parseDuration = (value: number | string): number => parse(value, 'd', DURATION_UNITS);
+
+/**
+ * Parse a size such as "500MB" or "10GB" in bytes. Numbers are considered as bytes.
+ */
+export const parseSize = (value: number | string): number => parse(value, 'b', SIZE_UNITS);
+
+export const resolveRetentionPolicy = (config?: ICacheRetentionConfig): ICacheRetentionPolicy => ({
+  maxAge: config?.maxAge != null ? parseDuration(config.maxAge) : undefined,
+  maxSize: config?.maxSize != null ? parseSize(config.maxSize) : undefined,
+  keepLast: config?.keepLast,
+});
+
+export const isRetentionPolicyEmpty = (policy: ICacheRetentionPolicy): boolean =>
+  policy.maxAge == null && policy.maxSize == null && policy.keepLast == null;
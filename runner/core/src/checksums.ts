@@ -6,6 +6,7 @@ import { EventsLog } from '@microlambda/logger';
 import { Workspace } from './workspace';
 import { ICommandConfig, isScriptTarget, ITargetConfig } from '@microlambda/config';
 import { isEqual } from 'lodash';
+import { createHash } from 'crypto';
 
 interface ICommonChecksums {
   cmd: string[] | string | ICommandConfig | ICommandConfig[];
@@ -28,6 +29,30 @@ export interface IArtifactsChecksums extends ICommonChecksums{
 
 type IChecksums = ISourcesChecksums | IArtifactsChecksums;
 
+export interface IValueChange {
+  current: string;
+  stored: string;
+}
+
+export interface IChecksumsDiff {
+  files: {
+    added: string[];
+    removed: string[];
+    modified: string[];
+  };
+  /**
+   * Environment values are hashed, so they can be printed without leaking secrets
+   */
+  env: {
+    added: string[];
+    removed: string[];
+    modified: Array<{ name: string } & IValueChange>;
+  };
+  cmd?: IValueChange;
+  args?: IValueChange;
+  globs?: IValueChange;
+}
+
 export const resolveCommands = (config: ITargetConfig, workspace: Workspace): Array<ICommandConfig> => {
   if (isScriptTarget(config)) {
     const result: ICommandConfig = { run: workspace.resolveScript(config.script)! };
@@ -68,6 +93,44 @@ export class Checksums {
     return isEqual(current, stored);
   }
 
+  static hashValue(value: string): string {
+    return createHash('sha256').update(value).digest('hex').substring(0, 12);
+  }
+
+  /**
+   * Explain what differs between two checksums, i.e. why compare() returned false.
+   */
+  static diff(current: Partial<IChecksums>, stored: Partial<IChecksums>): IChecksumsDiff {
+    const currentFiles = current.checksums ?? {};
+    const storedFiles = stored.checksums ?? {};
+    const currentEnv = current.env ?? {};
+    const storedEnv = stored.env ?? {};
+    const changed = (currentValue: unknown, storedValue: unknown): IValueChange | undefined =>
+      isEqual(currentValue, storedValue) ? undefined : { current: JSON.stringify(currentValue), stored: JSON.stringify(storedValue) };
+    return {
+      files: {
+        added: Object.keys(currentFiles).filter((path) => !(path in storedFiles)).sort(),
+        removed: Object.keys(storedFiles).filter((path) => !(path in currentFiles)).sort(),
+        modified: Object.keys(currentFiles).filter((path) => path in storedFiles && currentFiles[path] !== storedFiles[path]).sort(),
+      },
+      env: {
+        added: Object.keys(currentEnv).filter((name) => !(name in storedEnv)).sort(),
+        removed: Object.keys(storedEnv).filter((name) => !(name in currentEnv)).sort(),
+        modified: Object.keys(currentEnv)
+          .filter((name) => name in storedEnv && currentEnv[name] !== storedEnv[name])
+          .sort()
+          .map((name) => ({
+            name,
+            current: Checksums.hashValue(currentEnv[name]),
+            stored: Checksums.hashValue(storedEnv[name]),
+          })),
+      },
+      cmd: changed(current.cmd, stored.cmd),
+      args: changed(current.args, stored.args),
+      globs: changed(current.globs, stored.globs),
+    };
+  }
+
   async calculate(): Promise<ISourcesChecksums> {
     const config = this.config;
     if (!config?.src) {
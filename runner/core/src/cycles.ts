@@ -0,0 +1,37 @@
+/**
+ * Find the elementary cycles reachable by a depth-first traversal of a graph.
+ * Each cycle is returned as a path starting and ending with the same node, e.g. [a, b, c, a].
+ * Cycles that are rotations of each other are only reported once.
+ */
+export const findCycles = <T>(nodes: Iterable<T>, edges: (node: T) => Iterable<T>, key: (node: T) => string = String): Array<Array<T>> => {
+  const cycles: Array<Array<T>> = [];
+  const found = new Set<string>();
+  const visited = new Set<T>();
+  const stack: Array<T> = [];
+  const visit = (node: T): void => {
+    visited.add(node);
+    stack.push(node);
+    for (const next of edges(node)) {
+      const idx = stack.indexOf(next);
+      if (idx >= 0) {
+        const cycle = stack.slice(idx);
+        const keys = cycle.map(key);
+        const start = keys.indexOf([...keys].sort()[0]);
+        const id = [...keys.slice(start), ...keys.slice(0, start)].join('\n');
+        if (!found.has(id)) {
+          found.add(id);
+          cycles.push([...cycle, next]);
+        }
+      } else if (!visited.has(next)) {
+        visit(next);
+      }
+    }
+    stack.pop();
+  };
+  for (const node of nodes) {
+    if (!visited.has(node)) {
+      visit(node);
+    }
+  }
+  return cycles;
+};
@@ -0,0 +1,166 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { lastValueFrom } from 'rxjs';
+import { EventsLog, EventsLogger } from '@microlambda/logger';
+import { Project } from '../project';
+import { Workspace } from '../workspace';
+import { ICacheBackend } from '../cache/backends/cache-backend';
+import { RemoteArtifacts } from '../artifacts/remote-artifacts';
+import { currentSha1 } from '../remote-cache-utils';
+import { AgentEvent, IAgentRunRequest, IAgentStatus, serializeError, serializeResult } from './protocol';
+
+export interface IRunnerAgentOptions {
+  port?: number;
+  host?: string;
+  concurrency: number;
+  /**
+   * Revision checked out by the agent, defaults to current HEAD sha1
+   */
+  revision?: string;
+}
+
+/**
+ * @class RunnerAgent
+ * Runs targets on behalf of a coordinator. Artifacts are shared through the remote cache: before running
+ * a target, artifacts of its dependencies produced by other agents are restored, and the target
+ * is run with remote caching enabled so its own artifacts are uploaded.
+ */
+export class RunnerAgent {
+  static readonly scope = 'runner-core/agent';
+
+  private _server: Server | undefined;
+  private _running = 0;
+  private readonly _logger: EventsLogger | undefined;
+  private _revision: string | undefined;
+
+  constructor(
+    readonly project: Project,
+    readonly backend: ICacheBackend,
+    readonly options: IRunnerAgentOptions,
+    readonly eventsLog?: EventsLog,
+  ) {
+    this._logger = eventsLog?.scope(RunnerAgent.scope);
+  }
+
+  get revision(): string {
+    if (!this._revision) {
+      this._revision = this.options.revision ?? currentSha1(this.project.root);
+    }
+    return this._revision;
+  }
+
+  get status(): IAgentStatus {
+    return { revision: this.revision, concurrency: this.options.concurrency, running: this._running };
+  }
+
+  async start(): Promise<AddressInfo> {
+    const server = createServer((req, res) => {
+      this._handle(req, res).catch((e) => {
+        this._logger?.error('Error handling request', req.method, req.url, e);
+        if (!res.headersSent) {
+          res.writeHead(500, { 'Content-Type': 'application/json' });
+        }
+        res.end(JSON.stringify(serializeError(e)));
+      });
+    });
+    this._server = server;
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.options.port ?? 0, this.options.host, () => resolve());
+    });
+    const address = server.address() as AddressInfo;
+    this._logger?.info('Agent listening on', address);
+    return address;
+  }
+
+  async stop(): Promise<void> {
+    const server = this._server;
+    if (!server) {
+      return;
+    }
+    await new Promise<void>((resolve, reject) => server.close((err) => (err ? reject(err) : resolve())));
+    this._server = undefined;
+  }
+
+  private async _handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    if (req.method === 'GET' && req.url === '/status') {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      return void res.end(JSON.stringify(this.status));
+    }
+    if (req.method === 'POST' && req.url === '/run') {
+      return this._run(JSON.parse((await RunnerAgent._readBody(req)).toString('utf-8')), res);
+    }
+    res.writeHead(404);
+    res.end();
+  }
+
+  private async _run(request: IAgentRunRequest, res: ServerResponse): Promise<void> {
+    const workspace = this.project.getWorkspace(request.workspace);
+    if (!workspace) {
+      res.writeHead(404, { 'Content-Type': 'application/json' });
+      return void res.end(JSON.stringify({ message: `No such workspace: ${request.workspace}` }));
+    }
+    if (workspace.isDaemon(request.cmd)) {
+      res.writeHead(400, { 'Content-Type': 'application/json' });
+      return void res.end(JSON.stringify({ message: `Target ${request.cmd} of ${request.workspace} is a daemon and cannot be run on an agent` }));
+    }
+    if (this._running >= this.options.concurrency) {
+      res.writeHead(503, { 'Content-Type': 'application/json' });
+      return void res.end(JSON.stringify({ message: 'Agent is busy' }));
+    }
+    this._running++;
+    res.writeHead(200, { 'Content-Type': 'application/x-ndjson' });
+    const send = (event: AgentEvent): void => {
+      res.write(JSON.stringify(event) + '\n');
+    };
+    try {
+      this._logger?.info('Running target', request);
+      send({ type: 'started' });
+      await this._restoreDependenciesArtifacts(workspace, request);
+      const result = await lastValueFrom(workspace.run({
+        cmd: request.cmd,
+        mode: 'parallel',
+        args: request.args,
+        env: request.env,
+        force: request.force,
+        affected: request.affected,
+        cachePrefix: request.cachePrefix,
+        remoteCache: { backend: this.backend },
+        stdio: 'pipe',
+      }));
+      send({ type: 'processed', result: serializeResult(result) });
+    } catch (e) {
+      this._logger?.warn('Target errored', request, e);
+      send({ type: 'errored', error: serializeError(e) });
+    } finally {
+      this._running--;
+      res.end();
+    }
+  }
+
+  private async _restoreDependenciesArtifacts(workspace: Workspace, request: IAgentRunRequest): Promise<void> {
+    const dependencies = Array.from(workspace.descendants.values()).filter((dep) => dep.config[request.cmd]?.artifacts);
+    await Promise.all(dependencies.map((dep) => {
+      this._logger?.debug('Restoring artifacts of dependency', dep.name);
+      const artifacts = new RemoteArtifacts(
+        this.backend,
+        dep,
+        request.cmd,
+        this.revision,
+        request.args,
+        request.env,
+        this.eventsLog,
+        request.cachePrefix,
+      );
+      return artifacts.downloadArtifacts();
+    }));
+  }
+
+  private static async _readBody(req: IncomingMessage): Promise<Buffer> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) {
+      chunks.push(chunk as Buffer);
+    }
+    return Buffer.concat(chunks);
+  }
+}
@@ -0,0 +1,157 @@
+import { ClientRequest, IncomingMessage, request as httpRequest, RequestOptions } from 'http';
+import { request as httpsRequest } from 'https';
+import { Observable } from 'rxjs';
+import { EventsLog, EventsLogger } from '@microlambda/logger';
+import { MilaError, MilaErrorCode } from '@microlambda/errors';
+import { IProcessResult } from '../process';
+import { Workspace } from '../workspace';
+import { AgentEvent, IAgentRunRequest, IAgentStatus } from './protocol';
+
+interface IConnectedAgent {
+  url: string;
+  concurrency: number;
+  running: number;
+}
+
+/**
+ * @class AgentsPool
+ * Coordinator side of distributed execution. Dispatches targets to the least busy agent
+ * and forwards its results to the scheduler.
+ */
+export class AgentsPool {
+  static readonly scope = 'runner-core/agents-pool';
+
+  private readonly _logger: EventsLogger | undefined;
+
+  private constructor(
+    private readonly _agents: Array<IConnectedAgent>,
+    eventsLog?: EventsLog,
+  ) {
+    this._logger = eventsLog?.scope(AgentsPool.scope);
+  }
+
+  /**
+   * Check that every agent is reachable and has checked out the same revision than the coordinator.
+   */
+  static async connect(urls: Array<string>, revision: string, eventsLog?: EventsLog): Promise<AgentsPool> {
+    const agents = await Promise.all(urls.map(async (url) => {
+      let status: IAgentStatus;
+      try {
+        const response = await AgentsPool._send(url, 'GET', '/status');
+        status = JSON.parse((await AgentsPool._readBody(response)).toString('utf-8'));
+      } catch (e) {
+        throw new MilaError(MilaErrorCode.AGENT_UNREACHABLE, `Cannot reach runner agent ${url}`, e);
+      }
+      if (status.revision !== revision) {
+        throw new MilaError(
+          MilaErrorCode.AGENT_REVISION_MISMATCH,
+          `Runner agent ${url} is on revision ${status.revision} whereas coordinator is on revision ${revision}`,
+        );
+      }
+      return { url, concurrency: status.concurrency, running: 0 };
+    }));
+    return new AgentsPool(agents, eventsLog);
+  }
+
+  get agents(): Array<string> {
+    return this._agents.map((agent) => agent.url);
+  }
+
+  /**
+   * Total number of targets that can be run simultaneously across all agents
+   */
+  get concurrency(): number {
+    return this._agents.reduce((acc, agent) => acc + agent.concurrency, 0);
+  }
+
+  run(workspace: Workspace, request: Omit<IAgentRunRequest, 'workspace'>): Observable<IProcessResult> {
+    return new Observable<IProcessResult>((obs) => {
+      const agent = this._pickAgent();
+      agent.running++;
+      this._logger?.info('Dispatching target', workspace.name, request.cmd, 'to agent', agent.url);
+      let isReleased = false;
+      const release = (): void => {
+        if (!isReleased) {
+          isReleased = true;
+          agent.running--;
+        }
+      };
+      let req: ClientRequest | undefined;
+      let res: IncomingMessage | undefined;
+      let isSettled = false;
+      AgentsPool._send(agent.url, 'POST', '/run', JSON.stringify({ ...request, workspace: workspace.name }), (r) => (req = r))
+        .then(async (response) => {
+          res = response;
+          if (response.statusCode !== 200) {
+            const body = (await AgentsPool._readBody(response)).toString('utf-8');
+            throw new MilaError(MilaErrorCode.AGENT_UNREACHABLE, `Runner agent ${agent.url} responded ${response.statusCode}: ${body}`);
+          }
+          let buffer = '';
+          for await (const chunk of response) {
+            buffer += (chunk as Buffer).toString('utf-8');
+            const lines = buffer.split('\n');
+            buffer = lines.pop() ?? '';
+            for (const line of lines.filter((l) => l.trim())) {
+              const event: AgentEvent = JSON.parse(line);
+              this._logger?.debug('Event received from agent', agent.url, workspace.name, event.type);
+              if (event.type === 'processed') {
+                isSettled = true;
+                obs.next(event.result);
+                obs.complete();
+              } else if (event.type === 'errored') {
+                isSettled = true;
+                obs.error(event.error);
+              }
+            }
+          }
+          if (!isSettled) {
+            throw new MilaError(MilaErrorCode.AGENT_UNREACHABLE, `Connection with runner agent ${agent.url} closed before target completed`);
+          }
+        })
+        .catch((e) => obs.error(e))
+        .finally(release);
+      return (): void => {
+        if (!isSettled) {
+          // Unsubscribed before target completed, the connection with the agent is not needed anymore
+          res?.destroy();
+          req?.destroy();
+          release();
+        }
+      };
+    });
+  }
+
+  private _pickAgent(): IConnectedAgent {
+    const load = (agent: IConnectedAgent): number => agent.running / agent.concurrency;
+    return this._agents.reduce((best, agent) => (load(agent) < load(best) ? agent : best));
+  }
+
+  private static _send(
+    url: string,
+    method: string,
+    path: string,
+    body?: string,
+    onRequest?: (req: ClientRequest) => void,
+  ): Promise<IncomingMessage> {
+    return new Promise<IncomingMessage>((resolve, reject) => {
+      const target = new URL(path, url);
+      const options: RequestOptions = {
+        method,
+        headers: body != null ? { 'Content-Type': 'application/json', 'Content-Length': String(Buffer.byteLength(body)) } : {},
+      };
+      const req = target.protocol === 'https:' ? httpsRequest(target, options) : httpRequest(target, options);
+      req.on('response', resolve);
+      req.on('error', reject);
+      onRequest?.(req);
+      req.end(body);
+    });
+  }
+
+  private static async _readBody(response: IncomingMessage): Promise<Buffer> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of response) {
+      chunks.push(chunk as Buffer);
+    }
+    return Buffer.concat(chunks);
+  }
+}
@@ -0,0 +1,71 @@
+import { IProcessResult, isNotDaemon } from '../process';
+
+/**
+ * Coordinator and agents communicate over HTTP:
+ * - GET /status returns an IAgentStatus
+ * - POST /run with an IAgentRunRequest runs a target and streams newline-delimited AgentEvent
+ */
+
+export interface IAgentStatus {
+  revision: string;
+  concurrency: number;
+  running: number;
+}
+
+export interface IAgentRunRequest {
+  workspace: string;
+  cmd: string;
+  args?: string[] | string;
+  env?: Record<string, string>;
+  force?: boolean;
+  affected?: string;
+  cachePrefix?: string;
+}
+
+export interface ISerializedError {
+  message: string;
+  command?: string;
+  exitCode?: number;
+  stdout?: string;
+  stderr?: string;
+  all?: string;
+}
+
+export type AgentEvent =
+  | { type: 'started' }
+  | { type: 'processed'; result: IProcessResult }
+  | { type: 'errored'; error: ISerializedError };
+
+export const serializeError = (error: unknown): ISerializedError => {
+  const candidate = error as Partial<ISerializedError> | undefined;
+  return {
+    message: candidate?.message ?? String(error),
+    command: candidate?.command,
+    exitCode: candidate?.exitCode,
+    stdout: candidate?.stdout,
+    stderr: candidate?.stderr,
+    all: candidate?.all,
+  };
+};
+
+/**
+ * Strips everything that cannot be sent through the wire from a process result. Daemons are never run on agents.
+ */
+export const serializeResult = (result: IProcessResult): IProcessResult => ({
+  ...result,
+  commands: result.commands.filter(isNotDaemon).map((command) => ({
+    daemon: false,
+    command: command.command,
+    escapedCommand: command.escapedCommand,
+    exitCode: command.exitCode,
+    stdout: command.stdout,
+    stderr: command.stderr,
+    all: command.all,
+    failed: command.failed,
+    timedOut: command.timedOut,
+    isCanceled: command.isCanceled,
+    killed: command.killed,
+    signal: command.signal,
+    took: command.took,
+  })),
+});
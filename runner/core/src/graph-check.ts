@@ -0,0 +1,117 @@
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { sync as glob } from 'fast-glob';
+import { EventsLog, EventsLogger } from '@microlambda/logger';
+import { Project } from './project';
+import { Workspace } from './workspace';
+
+export interface IMissingWorkspaceReference {
+  workspace: string;
+  dependency: string;
+  version: string;
+}
+
+export interface IUnusedDependency {
+  workspace: string;
+  dependency: string;
+}
+
+export interface IGraphCheckReport {
+  /**
+   * Circular dependencies between workspaces, e.g. [a, b, c, a]
+   */
+  cycles: Array<Array<string>>;
+  /**
+   * Dependencies declared with the workspace: protocol that are not workspaces of the project
+   */
+  missingReferences: Array<IMissingWorkspaceReference>;
+  /**
+   * Workspaces declared as dependencies but never imported in sources
+   */
+  unusedDependencies: Array<IUnusedDependency>;
+}
+
+const SOURCES_PATTERN = '**/*.{ts,tsx,mts,cts,js,jsx,mjs,cjs}';
+const IGNORED_SOURCES = ['**/node_modules/**', '**/lib/**', '**/dist/**', '**/.caches/**', '**/.esbuild/**', '**/.serverless/**', '**/.package/**', '**/*.d.ts'];
+
+/**
+ * @class GraphChecker
+ * Validates the dependencies graph of a project.
+ * Only cycles and missing references are errors, unused dependencies are reported for cleanup
+ * but do not prevent the graph from being resolved.
+ */
+export class GraphChecker {
+  static readonly scope = 'runner-core/graph-check';
+  private readonly _logger: EventsLogger | undefined;
+
+  constructor(
+    readonly project: Project,
+    eventsLog?: EventsLog,
+  ) {
+    this._logger = eventsLog?.scope(GraphChecker.scope);
+  }
+
+  static isValid(report: IGraphCheckReport): boolean {
+    return !report.cycles.length && !report.missingReferences.length;
+  }
+
+  async check(): Promise<IGraphCheckReport> {
+    const cycles = this.project.findCycles();
+    this._logger?.debug('Cycles found', cycles);
+    const missingReferences = this.findMissingReferences();
+    this._logger?.debug('Missing references found', missingReferences);
+    const unusedDependencies: Array<IUnusedDependency> = [];
+    for (const workspace of this.project.workspaces.values()) {
+      unusedDependencies.push(...await this.findUnusedDependencies(workspace));
+    }
+    this._logger?.debug('Unused dependencies found', unusedDependencies);
+    return { cycles, missingReferences, unusedDependencies };
+  }
+
+  findMissingReferences(): Array<IMissingWorkspaceReference> {
+    const missing: Array<IMissingWorkspaceReference> = [];
+    for (const workspace of this.project.workspaces.values()) {
+      for (const deps of [workspace.pkg.dependencies, workspace.pkg.devDependencies]) {
+        for (const [dependency, version] of Object.entries(deps ?? {})) {
+          if (version.startsWith('workspace:') && !this.project.getWorkspace(dependency)) {
+            missing.push({ workspace: workspace.name, dependency, version });
+          }
+        }
+      }
+    }
+    return missing;
+  }
+
+  /**
+   * A workspace dependency is considered used if it is imported or required at least once
+   * in the sources of the workspace, either by its name or one of its subpaths.
+   */
+  async findUnusedDependencies(workspace: Workspace): Promise<Array<IUnusedDependency>> {
+    const dependencies = new Set(Array.from(workspace.dependencies()).map((dep) => dep.name));
+    if (!dependencies.size) {
+      return [];
+    }
+    const files = glob(join(workspace.root, SOURCES_PATTERN).replaceAll('\\', '/'), { ignore: IGNORED_SOURCES });
+    this._logger?.debug('Looking for imports of', dependencies, 'in', files.length, 'files of', workspace.name);
+    const used = new Set<string>();
+    for (const file of files) {
+      const source = await fs.readFile(file, 'utf-8');
+      for (const dependency of dependencies) {
+        if (!used.has(dependency) && GraphChecker._imports(source, dependency)) {
+          used.add(dependency);
+        }
+      }
+      if (used.size === dependencies.size) {
+        break;
+      }
+    }
+    return Array.from(dependencies)
+      .filter((dependency) => !used.has(dependency))
+      .map((dependency) => ({ workspace: workspace.name, dependency }));
+  }
+
+  private static _imports(source: string, dependency: string): boolean {
+    const escaped = dependency.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+    return new RegExp(`(from|import|require\\()\\s*\\(?\\s*['"\`]${escaped}(/[^'"\`]*)?['"\`]`).test(source);
+  }
+}
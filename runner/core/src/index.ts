@@ -8,11 +8,25 @@ export * from './publish';
 export * from './semantic-release';
 export * from './error';
 export * from './targets';
+export * from './run-summary';
 export * from './logs-handler';
 export * from './checksums';
 export * from './cache/remote-cache';
 export * from './cache/cache';
 export * from './cache/local-cache';
+export * from './cache/retention';
+export * from './cache/garbage-collector';
+export * from './cache/backends/cache-backend';
+export * from './cache/backends/s3-backend';
+export * from './cache/backends/filesystem-backend';
+export * from './cache/backends/http-backend';
+export * from './cache/backends/registry';
 export * from './artifacts/remote-artifacts';
 export * from './artifacts/local-artifacts';
 export * from './artifacts/artifacts';
+export * from './artifacts/content-addressable-store';
+export * from './distributed/protocol';
+export * from './distributed/agent';
+export * from './distributed/agents-pool';
+export * from './cycles';
+export * from './graph-check';
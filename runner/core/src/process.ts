@@ -44,15 +44,45 @@ export enum RunCommandEventEnum {
   NODE_INTERRUPTED = 'interrupted',
   ARTIFACTS_DOWNLOADED = 'artifacts_downloaded',
   ARTIFACTS_UPLOADED = 'artifacts_uploaded',
+  NODE_TIMED_OUT = 'timed_out',
+  NODE_RETRYING = 'retrying',
 }
 
 export interface IResolvedTarget {
   workspace: Workspace;
   hasCommand: boolean;
+  /**
+   * Command to run when it is not the requested one, i.e. for targets resolved from dependsOn
+   */
+  cmd?: string;
 }
 
+/**
+ * Unique identifier of a target in a task graph
+ */
+export const targetKey = (target: IResolvedTarget): string => target.cmd ? `${target.workspace.name}:${target.cmd}` : target.workspace.name;
+
 export type Step = IResolvedTarget[];
 
+/**
+ * Emitted by a workspace while running a target, when a command exceeds its timeout or is about to be retried
+ */
+export type CommandAttemptNotification = {
+  type: 'timed-out';
+  cmd: string;
+  command: string;
+  timeout: number;
+  attempt: number;
+} | {
+  type: 'retrying';
+  cmd: string;
+  command: string;
+  attempt: number;
+  retries: number;
+  delay: number;
+  error: unknown;
+};
+
 export interface ITargetsResolvedEvent {
   type: RunCommandEventEnum.TARGETS_RESOLVED;
   targets: IResolvedTarget[];
@@ -83,6 +113,27 @@ export interface INodeSkippedEvent {
 
 }
 
+export interface INodeTimedOutEvent {
+  type: RunCommandEventEnum.NODE_TIMED_OUT;
+  target: IResolvedTarget;
+  command: string;
+  timeout: number;
+  attempt: number;
+}
+
+export interface INodeRetryingEvent {
+  type: RunCommandEventEnum.NODE_RETRYING;
+  target: IResolvedTarget;
+  command: string;
+  /**
+   * Number of the attempt about to be made, starting at 1 for the first retry
+   */
+  attempt: number;
+  retries: number;
+  delay: number;
+  error: unknown;
+}
+
 export interface IRunCommandStartedEvent {
   type: RunCommandEventEnum.NODE_STARTED;
   target: IResolvedTarget;
@@ -112,7 +163,7 @@ export interface IRunCommandErrorEvent {
   target: IResolvedTarget;
 }
 
-export type RunCommandEvent = IRunCommandStartedEvent | ITargetsResolvedEvent | IRunCommandSuccessEvent | IRunCommandErrorEvent | INodeSkippedEvent | ICacheInvalidatedEvent | IErrorInvalidatingCacheEvent | INodeInterruptingEvent | INodeInterruptedEvent | ISourceChangedEvent;
+export type RunCommandEvent = IRunCommandStartedEvent | ITargetsResolvedEvent | IRunCommandSuccessEvent | IRunCommandErrorEvent | INodeSkippedEvent | ICacheInvalidatedEvent | IErrorInvalidatingCacheEvent | INodeInterruptingEvent | INodeInterruptedEvent | ISourceChangedEvent | INodeTimedOutEvent | INodeRetryingEvent;
 
 export const isTargetResolvedEvent = (event: RunCommandEvent): event is  ITargetsResolvedEvent => event.type === RunCommandEventEnum.TARGETS_RESOLVED;
 export const isNodeSucceededEvent = (event: RunCommandEvent): event is  IRunCommandSuccessEvent => event.type === RunCommandEventEnum.NODE_PROCESSED;
@@ -122,4 +173,6 @@ export const isNodeSkippedEvent = (event: RunCommandEvent): event is  IRunComman
 export const isSourceChangedEvent = (event: RunCommandEvent): event is  ISourceChangedEvent => event.type === RunCommandEventEnum.SOURCES_CHANGED;
 export const isNodeInterruptingEvent = (event: RunCommandEvent): event is  INodeInterruptingEvent => event.type === RunCommandEventEnum.NODE_INTERRUPTING;
 export const isNodeInterruptedEvent = (event: RunCommandEvent): event is  INodeInterruptedEvent => event.type === RunCommandEventEnum.NODE_INTERRUPTED;
+export const isNodeTimedOutEvent = (event: RunCommandEvent): event is  INodeTimedOutEvent => event.type === RunCommandEventEnum.NODE_TIMED_OUT;
+export const isNodeRetryingEvent = (event: RunCommandEvent): event is  INodeRetryingEvent => event.type === RunCommandEventEnum.NODE_RETRYING;
 
@@ -11,6 +11,7 @@ import { RunCommandEvent } from './process';
 import { AbstractLogsHandler } from "./logs-handler";
 import { EventsLog } from '@microlambda/logger';
 import { getDefaultThreads } from '@microlambda/utils';
+import { findCycles } from './cycles';
 
 export class Project extends Workspace {
   // Attributes
@@ -20,10 +21,13 @@ export class Project extends Workspace {
   get workspaces(): Map<string, Workspace> { return this._workspaces }
 
   // Statics
-  static async loadProject(root: string, logger?: EventsLog): Promise<Project> {
+  static async loadProject(root: string, logger?: EventsLog, shouldCheckCycles = true): Promise<Project> {
     const pkg = await this.loadPackage(root);
     const prj = new Project(pkg, root, await this.loadConfig(pkg.name, root));
     await prj.loadWorkspaces(logger);
+    if (shouldCheckCycles) {
+      prj.checkCycles();
+    }
     return prj;
   }
 
@@ -46,6 +50,28 @@ export class Project extends Workspace {
     }
   }
 
+  /**
+   * Circular dependencies between workspaces, each one given as the path of workspaces names
+   * from a workspace back to itself, e.g. [a, b, c, a].
+   */
+  findCycles(): Array<Array<string>> {
+    return findCycles(this._workspaces.values(), (workspace) => workspace.dependencies(), (workspace) => workspace.name)
+      .map((cycle) => cycle.map((workspace) => workspace.name));
+  }
+
+  /**
+   * Dependencies graph must be acyclic, otherwise neither topological order nor descendants can be resolved.
+   */
+  checkCycles(): void {
+    const cycles = this.findCycles();
+    if (cycles.length) {
+      throw new MilaError(
+        MilaErrorCode.CIRCULAR_DEPENDENCY,
+        `Circular dependency found between workspaces: ${cycles.map((cycle) => cycle.join(' -> ')).join(', ')}`,
+      );
+    }
+  }
+
   getWorkspace(name: string): Workspace | null {
     return this._workspaces.get(name) || null;
   }
@@ -1,5 +1,8 @@
 import { execSync } from 'child_process';
 import { MilaError, MilaErrorCode } from '@microlambda/errors';
+import { ICacheBackend } from './cache/backends/cache-backend';
+import { S3CacheBackend } from './cache/backends/s3-backend';
+import { RemoteCacheLocation } from './runner';
 
 export const checkWorkingDirectoryClean = (rootFolder?: string): void => {
   const status = execSync('git status --porcelain', { cwd: rootFolder }).toString();
@@ -16,3 +19,24 @@ export const currentSha1 = (rootFolder?: string): string => {
     throw new MilaError(MilaErrorCode.BAD_REVISION, 'Could not determine current revision for remote caching', e);
   }
 }
+
+/**
+ * Current branch name, resolved from CI environment when HEAD is detached. Used to apply
+ * cache retention policies per branch.
+ */
+export const currentBranch = (rootFolder?: string): string | undefined => {
+  const fromEnv = process.env.GITHUB_HEAD_REF || process.env.GITHUB_REF_NAME || process.env.CI_COMMIT_REF_NAME || process.env.BRANCH_NAME;
+  try {
+    const branch = execSync('git rev-parse --abbrev-ref HEAD', { cwd: rootFolder }).toString().trim();
+    return branch === 'HEAD' ? fromEnv || undefined : branch;
+  } catch (e) {
+    return fromEnv || undefined;
+  }
+}
+
+export const resolveRemoteCacheBackend = (location: RemoteCacheLocation): ICacheBackend => {
+  if ('backend' in location) {
+    return location.backend;
+  }
+  return new S3CacheBackend({ region: location.region, bucket: location.bucket });
+}
@@ -0,0 +1,255 @@
+import { IProcessResult, IResolvedTarget, isNotDaemon, RunCommandEvent, RunCommandEventEnum, targetKey } from './process';
+import { isNodeEvent, isProcessError } from './error';
+import { OrderedTargets } from './targets';
+
+export type TargetStatus = 'ran' | 'cached' | 'failed' | 'skipped';
+
+export interface ITargetSummary {
+  workspace: string;
+  cmd: string;
+  status: TargetStatus;
+  /**
+   * Topological step the target belongs to
+   */
+  step: number;
+  /**
+   * Wall time in milliseconds between target start and completion, including cache checks
+   */
+  duration: number;
+  exitCode?: number;
+  remoteCache?: boolean;
+}
+
+export interface ICriticalPath {
+  /**
+   * Longest target of each step, as targets of the next step cannot start before every target of the step is processed
+   */
+  targets: Array<{ target: string; duration: number }>;
+  duration: number;
+}
+
+export interface IRunSummary {
+  cmd: string;
+  mode: 'parallel' | 'topological';
+  startedAt: string;
+  finishedAt: string;
+  wallTime: number;
+  exitCode: number;
+  ran: number;
+  cached: number;
+  failed: number;
+  skipped: number;
+  /**
+   * Ratio of targets restored from cache among all targets that have been processed
+   */
+  cacheHitRate: number;
+  criticalPath: ICriticalPath;
+  targets: Array<ITargetSummary>;
+}
+
+export type RunSummaryFormat = 'json' | 'markdown' | 'junit';
+
+interface ITargetState {
+  target: IResolvedTarget;
+  startedAt?: number;
+  finishedAt?: number;
+  result?: IProcessResult;
+  error?: unknown;
+}
+
+/**
+ * @class RunSummaryCollector
+ * Aggregate run command events emitted during an execution into a run summary.
+ */
+export class RunSummaryCollector {
+  private readonly _startedAt: number;
+  private _steps: OrderedTargets = [];
+  private readonly _targets = new Map<string, ITargetState>();
+
+  constructor(
+    readonly cmd: string,
+    readonly mode: 'parallel' | 'topological',
+    private readonly _now: () => number = Date.now,
+  ) {
+    this._startedAt = this._now();
+  }
+
+  targetsResolved(steps: OrderedTargets): void {
+    this._steps = steps;
+    for (const target of steps.flat()) {
+      if (!this._targets.has(targetKey(target))) {
+        this._targets.set(targetKey(target), { target });
+      }
+    }
+  }
+
+  collect(event: RunCommandEvent): void {
+    if (event.type === RunCommandEventEnum.NODE_STARTED) {
+      // Target may be restarted in watch mode, only its last execution is summarized
+      this._targets.set(targetKey(event.target), { target: event.target, startedAt: this._now() });
+    } else if (event.type === RunCommandEventEnum.NODE_PROCESSED || event.type === RunCommandEventEnum.NODE_ERRORED) {
+      const state = this._targets.get(targetKey(event.target)) ?? { target: event.target };
+      state.finishedAt = this._now();
+      if (event.type === RunCommandEventEnum.NODE_PROCESSED) {
+        state.result = event.result;
+        state.error = undefined;
+      } else {
+        state.error = event.error;
+        state.result = undefined;
+      }
+      this._targets.set(targetKey(event.target), state);
+    }
+  }
+
+  summarize(): IRunSummary {
+    const finishedAt = this._now();
+    const targets = Array.from(this._targets.values()).map((state) => this._summarizeTarget(state));
+    const count = (status: TargetStatus): number => targets.filter((t) => t.status === status).length;
+    const [ran, cached, failed, skipped] = [count('ran'), count('cached'), count('failed'), count('skipped')];
+    const processed = ran + cached + failed;
+    return {
+      cmd: this.cmd,
+      mode: this.mode,
+      startedAt: new Date(this._startedAt).toISOString(),
+      finishedAt: new Date(finishedAt).toISOString(),
+      wallTime: finishedAt - this._startedAt,
+      exitCode: failed ? 1 : 0,
+      ran,
+      cached,
+      failed,
+      skipped,
+      cacheHitRate: processed ? cached / processed : 0,
+      criticalPath: RunSummaryCollector._criticalPath(targets),
+      targets,
+    };
+  }
+
+  private _summarizeTarget(state: ITargetState): ITargetSummary {
+    const { target, result, error, startedAt, finishedAt } = state;
+    const key = targetKey(target);
+    const step = this._steps.findIndex((s) => s.some((t) => targetKey(t) === key));
+    const summary: ITargetSummary = {
+      workspace: target.workspace.name,
+      cmd: target.cmd ?? this.cmd,
+      status: 'skipped',
+      step,
+      duration: startedAt != null && finishedAt != null ? finishedAt - startedAt : 0,
+    };
+    if (result) {
+      summary.status = result.fromCache ? 'cached' : 'ran';
+      summary.remoteCache = result.fromCache ? !!result.remoteCache : undefined;
+      summary.exitCode = result.commands.filter(isNotDaemon).at(-1)?.exitCode ?? 0;
+    } else if (finishedAt != null) {
+      summary.status = 'failed';
+      summary.exitCode = RunSummaryCollector._exitCode(error);
+    }
+    return summary;
+  }
+
+  private static _exitCode(error: unknown): number {
+    if (isNodeEvent(error)) {
+      return RunSummaryCollector._exitCode(error.error);
+    }
+    return isProcessError(error) && error.exitCode ? error.exitCode : 1;
+  }
+
+  private static _criticalPath(targets: Array<ITargetSummary>): ICriticalPath {
+    const longestByStep = new Map<number, ITargetSummary>();
+    for (const target of targets.filter((t) => t.status !== 'skipped')) {
+      const longest = longestByStep.get(target.step);
+      if (!longest || target.duration > longest.duration) {
+        longestByStep.set(target.step, target);
+      }
+    }
+    const path = Array.from(longestByStep.entries())
+      .sort(([step1], [step2]) => step1 - step2)
+      .map(([, target]) => ({ target: `${target.workspace}:${target.cmd}`, duration: target.duration }));
+    return { targets: path, duration: path.reduce((acc, t) => acc + t.duration, 0) };
+  }
+}
+
+const formatDuration = (ms: number): string => (ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`);
+
+const escapeXml = (value: string): string => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+const toMarkdown = (summary: IRunSummary): string => {
+  const status = (target: ITargetSummary): string => target.status === 'cached' && target.remoteCache ? 'cached (remote)' : target.status;
+  return [
+    `## mila-runner run ${summary.cmd}`,
+    '',
+    '| | |',
+    '|---|---|',
+    `| Result | ${summary.exitCode ? 'failed' : 'succeeded'} |`,
+    `| Mode | ${summary.mode} |`,
+    `| Wall time | ${formatDuration(summary.wallTime)} |`,
+    `| Targets | ${summary.ran} ran, ${summary.cached} cached, ${summary.failed} failed, ${summary.skipped} skipped |`,
+    `| Cache hit rate | ${Math.round(summary.cacheHitRate * 100)}% |`,
+    `| Critical path | ${summary.criticalPath.targets.map((t) => `${t.target} (${formatDuration(t.duration)})`).join(' → ')} = ${formatDuration(summary.criticalPath.duration)} |`,
+    '',
+    '| Target | Command | Step | Status | Duration | Exit code |',
+    '|---|---|---|---|---|---|',
+    ...summary.targets.map((t) => `| ${t.workspace} | ${t.cmd} | ${t.step} | ${status(t)} | ${formatDuration(t.duration)} | ${t.exitCode ?? ''} |`),
+    '',
+  ].join('\n');
+};
+
+const toJUnit = (summary: IRunSummary): string => {
+  const seconds = (ms: number): string => (ms / 1000).toFixed(3);
+  const testcase = (target: ITargetSummary): string => {
+    const attributes = `classname="${escapeXml(target.workspace)}" name="${escapeXml(target.cmd)}" time="${seconds(target.duration)}"`;
+    switch (target.status) {
+      case 'failed':
+        return `    <testcase ${attributes}>\n      <failure message="Exited with status ${target.exitCode}"/>\n    </testcase>`;
+      case 'skipped':
+        return `    <testcase ${attributes}>\n      <skipped/>\n    </testcase>`;
+      case 'cached':
+        return `    <testcase ${attributes}>\n      <system-out>Restored from ${target.remoteCache ? 'remote' : 'local'} cache</system-out>\n    </testcase>`;
+      default:
+        return `    <testcase ${attributes}/>`;
+    }
+  };
+  const counters = `tests="${summary.targets.length}" failures="${summary.failed}" skipped="${summary.skipped}" time="${seconds(summary.wallTime)}"`;
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="mila-runner" ${counters}>`,
+    `  <testsuite name="${escapeXml(summary.cmd)}" ${counters} timestamp="${summary.startedAt}">`,
+    '    <properties>',
+    `      <property name="mode" value="${summary.mode}"/>`,
+    `      <property name="cacheHitRate" value="${summary.cacheHitRate}"/>`,
+    `      <property name="criticalPath" value="${escapeXml(summary.criticalPath.targets.map((t) => t.target).join(' -> '))}"/>`,
+    `      <property name="criticalPathDuration" value="${summary.criticalPath.duration}"/>`,
+    '    </properties>',
+    ...summary.targets.map(testcase),
+    '  </testsuite>',
+    '</testsuites>',
+    '',
+  ].join('\n');
+};
+
+export const formatRunSummary = (summary: IRunSummary, format: RunSummaryFormat): string => {
+  switch (format) {
+    case 'json':
+      return JSON.stringify(summary, null, 2);
+    case 'markdown':
+      return toMarkdown(summary);
+    case 'junit':
+      return toJUnit(summary);
+  }
+};
+
+/**
+ * Report format is inferred from file extension: .md for Markdown, .xml for JUnit, JSON otherwise
+ */
+export const resolveRunSummaryFormat = (path: string): RunSummaryFormat => {
+  if (/\.(md|markdown)$/i.test(path)) {
+    return 'markdown';
+  }
+  if (/\.xml$/i.test(path)) {
+    return 'junit';
+  }
+  return 'json';
+};
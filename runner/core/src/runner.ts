@@ -8,6 +8,9 @@ import {EventsLog, EventsLogger} from '@microlambda/logger';
 import {checkWorkingDirectoryClean} from './remote-cache-utils';
 import {getDefaultThreads} from '@microlambda/utils';
 import {Scheduler} from "./scheduler";
+import {ICacheBackend} from './cache/backends/cache-backend';
+import {AgentsPool} from './distributed/agents-pool';
+import {IRunSummary} from './run-summary';
 
 export interface ICommonRunOptions {
   cmd: string;
@@ -19,13 +22,24 @@ export interface ICommonRunOptions {
   cachePrefix?: string;
 }
 
+/**
+ * Where remote caches are stored: either an S3 bucket, or any registered cache backend
+ */
+export type RemoteCacheLocation = {
+  region: string;
+  bucket: string;
+} | {
+  backend: ICacheBackend;
+};
+
 export interface IRemoteCacheRunOptions {
   watch?: false;
-  remoteCache?: {
-    region: string;
-    bucket: string;
-  }
+  remoteCache?: RemoteCacheLocation;
   affected?: string;
+  /**
+   * Dispatch targets to remote runner agents instead of running them locally
+   */
+  agents?: AgentsPool;
 }
 
 export interface IWatchRunOptions {
@@ -93,7 +107,8 @@ export class Runner {
       }
     }
     const scope = (isTopological(options) ? options.to : options.workspaces) ?? [...this._project.workspaces.values()];
-    const scheduler = new Scheduler(this._project, options, this._concurrency, this.logger);
+    const concurrency = isUsingRemoteCache(options) && options.agents ? options.agents.concurrency : this._concurrency;
+    const scheduler = new Scheduler(this._project, options, concurrency, this.logger);
     const execution$ = scheduler.execute();
     this._currentExecution.set(options.cmd, {
       execution$,
@@ -104,6 +119,13 @@ export class Runner {
     return execution$;
   }
 
+  /**
+   * Summary of the current execution of a given command
+   */
+  summary(cmd: string): IRunSummary | undefined {
+    return this._currentExecution.get(cmd)?.scheduler.summary;
+  }
+
   private _areInScope(cmd: string, workspaces: Workspace[]): { inside: Array<Workspace>, outside: Array<Workspace>, cmdExecution: ICurrentExecution } {
     const cmdExecution = this._currentExecution.get(cmd);
     const previousScope = cmdExecution?.scope;
@@ -1,5 +1,6 @@
-import {concat, Observable, of, Subject, Subscriber} from "rxjs";
+import {concat, merge, Observable, of, Subject, Subscriber} from "rxjs";
 import {
+  CommandAttemptNotification,
   IProcessResult,
   IResolvedTarget,
   isNodeErroredEvent,
@@ -8,15 +9,17 @@ import {
   isSourceChangedEvent,
   RunCommandEvent,
   RunCommandEventEnum,
-  Step
+  Step,
+  targetKey,
 } from "./process";
 import {OrderedTargets, TargetsResolver} from "./targets";
-import {isTopological, RunOptions} from "./runner";
-import {catchError, map, takeUntil} from "rxjs/operators";
+import {isTopological, isUsingRemoteCache, RunOptions} from "./runner";
+import {catchError, filter, finalize, map, takeUntil} from "rxjs/operators";
 import {EventsLog, EventsLogger} from "@microlambda/logger";
 import {Workspace} from "./workspace";
 import {Watcher, WatchEvent} from "./watcher";
 import {Project} from "./project";
+import {IRunSummary, RunSummaryCollector} from "./run-summary";
 
 interface ITask {
   type: 'kill' | 'invalidate' | 'run';
@@ -68,6 +71,7 @@ export class Scheduler {
   private _reschedulingFromStep: number | undefined;
   private _reschedulingAll = false;
   private _execution: Observable<RunCommandEvent> | undefined;
+  private _summary: RunSummaryCollector | undefined;
 
   private get obs(): Subscriber<RunCommandEvent> {
     if (!this._obs) {
@@ -89,13 +93,22 @@ export class Scheduler {
     return this._execution;
   }
 
+  /**
+   * Summary of the execution so far: targets durations and statuses, cache hit rate and critical path
+   */
+  get summary(): IRunSummary | undefined {
+    return this._summary?.summarize();
+  }
+
   execute(): Observable<RunCommandEvent> {
     if (!this._execution) {
       this._execution = new Observable((obs) => {
         this._obs = obs;
+        this._summary = new RunSummaryCollector(this._options.cmd, this._options.mode);
         const targets = new TargetsResolver(this._project, this._logger?.logger);
         targets.resolve(this._options.cmd, this._options).then((initialTargets) => {
           this._logger?.info('Targets resolved for command', this._options.cmd, initialTargets.map(s => s.map(t => t.workspace.name)));
+          this._summary?.targetsResolved(initialTargets);
           obs.next({ type: RunCommandEventEnum.TARGETS_RESOLVED, targets: initialTargets.flat() });
           if (!initialTargets.length && !this._options.watch) {
             this._logger?.info('No eligible targets found for command', this._options.cmd)
@@ -112,6 +125,13 @@ export class Scheduler {
     return this._execution;
   }
 
+  /**
+   * Targets resolved from dependsOn run another command than the one requested
+   */
+  private _cmd(target: IResolvedTarget): string {
+    return target.cmd ?? this._options.cmd;
+  }
+
   private _resetWatcher(): void {
     if (this._options.watch) {
       this._watcher?.unwatch();
@@ -162,6 +182,7 @@ export class Scheduler {
 
       this._options = newOptions;
       this._targets = _newTargets;
+      this._summary?.targetsResolved(_newTargets);
       this._scopeChanged$.next();
       this._logger?.debug(`[${this._options.cmd}]`,'Reset watcher');
       this._resetWatcher();
@@ -194,7 +215,7 @@ export class Scheduler {
     }
     this._currentStep.clear();
     for (const target of queue ?? currentStep) {
-      this._currentStep.set(target.workspace.name, 'queued');
+      this._currentStep.set(targetKey(target), 'queued');
     }
   }
 
@@ -227,7 +248,7 @@ export class Scheduler {
       mostEarlyStepImpactedIndex,
     });
     const scheduleStart = (target: IResolvedTarget): void => {
-      if (!toStart.some((t) => t.workspace.name === target.workspace.name)) {
+      if (!toStart.some((t) => targetKey(t) === targetKey(target))) {
         toStart.push(target);
       }
     }
@@ -289,8 +310,7 @@ export class Scheduler {
     let mostEarlyStepImpactedIndex: number | undefined = undefined;
     for (const change of changes) {
       const target = change.target;
-      const workspace = target.workspace;
-      const isTarget = this._targets.flat().some((t) => t.workspace.name === workspace.name);
+      const isTarget = this._targets.flat().some((t) => targetKey(t) === targetKey(target));
       if (!isTarget) {
         continue;
       }
@@ -299,7 +319,7 @@ export class Scheduler {
 
       // In the first iteration we resolve the most early impacted step
       // And group impacted workspaces by step number
-      const impactedStep = this._targets.find((step) => step.some((t) => t.workspace.name === workspace.name));
+      const impactedStep = this._targets.find((step) => step.some((t) => targetKey(t) === targetKey(target)));
       if (impactedStep) {
         const impactedStepNumber = this._targets.indexOf(impactedStep);
         if (mostEarlyStepImpactedIndex === undefined || impactedStepNumber < mostEarlyStepImpactedIndex) {
@@ -327,23 +347,23 @@ export class Scheduler {
   }
 
   private _isScheduled(target: IResolvedTarget): boolean {
-    return this._targets.some((step) => step.filter((t) => t.hasCommand).some((t) => t.workspace.name === target.workspace.name));
+    return this._targets.some((step) => step.filter((t) => t.hasCommand).some((t) => targetKey(t) === targetKey(target)));
   }
 
   private _isQueued(target: IResolvedTarget): boolean {
-    return this._currentStep.get(target.workspace.name) === 'queued';
+    return this._currentStep.get(targetKey(target)) === 'queued';
   }
 
   private _isImpacted(changes: WatchEvent[], target: IResolvedTarget): boolean {
-    return changes.some((c) => c.target.workspace.name === target.workspace.name);
+    return changes.some((c) => targetKey(c.target) === targetKey(target));
   }
 
   private _isRunning(target: IResolvedTarget): boolean {
-    const isErrored = this._currentStep.get(target.workspace.name) === 'errored';
-    const isProcessing = this._currentStep.get(target.workspace.name) === 'processing';
-    const isSucceeded = this._currentStep.get(target.workspace.name) === 'processed';
+    const isErrored = this._currentStep.get(targetKey(target)) === 'errored';
+    const isProcessing = this._currentStep.get(targetKey(target)) === 'processing';
+    const isSucceeded = this._currentStep.get(targetKey(target)) === 'processed';
     const isProcessed = isSucceeded || isErrored;
-    const isDaemon = target.workspace.isDaemon(this._options.cmd);
+    const isDaemon = target.workspace.isDaemon(this._cmd(target));
     return isProcessing || (isProcessed && isDaemon);
   }
 
@@ -361,7 +381,7 @@ export class Scheduler {
     this._logger?.debug(`[${this._options.cmd}]`,'Perform partial reschedule', { reschedulingAll: this._reschedulingAll, reschedulingFromStep: this._reschedulingFromStep });
     // Match by workspace name in case of shallow copy
     const includes = (set: Set<IResolvedTarget> | Array<IResolvedTarget>, target: IResolvedTarget): boolean => {
-      return [...set].some((t) => t.workspace.name === target.workspace.name);
+      return [...set].some((t) => targetKey(t) === targetKey(target));
     }
     context.removedFromScope.forEach((removed) => {
       if (!includes(toKill, removed) && this._isRunning(removed)) {
@@ -426,8 +446,8 @@ export class Scheduler {
         this._logger?.debug(`[${this._options.cmd}]`,'Rescheduling from current step aborted by previous step rescheduling')
         break;
       }
-      const shouldStart = toStart.some((t) => t.workspace.name === target.workspace.name);
-      const shouldKill = [...toKill].some((t) => t.workspace.name === target.workspace.name);
+      const shouldStart = toStart.some((t) => targetKey(t) === targetKey(target));
+      const shouldKill = [...toKill].some((t) => targetKey(t) === targetKey(target));
       if (shouldStart && !shouldKill) {
         this._startTargets([target], [...invalidations.values()]);
         invalidations.clear();
@@ -466,7 +486,7 @@ export class Scheduler {
       }
       const queue = toStart.filter((targetToStart) => {
         const mostEarlyImpactedStep = this._targets.at(mostEarlyStepImpactedIndex);
-        return mostEarlyImpactedStep?.some((t) => t.workspace.name === targetToStart.workspace.name);
+        return mostEarlyImpactedStep?.some((t) => targetKey(t) === targetKey(targetToStart));
       });
       this._logger?.debug(`[${this._options.cmd}]`,'to invalidate', actions.toInvalidate.map((e) => e.target.workspace.name));
       const invalidations = this._resolveInvalidations(actions.toInvalidate);
@@ -501,23 +521,23 @@ export class Scheduler {
   private async _killTarget(target: IResolvedTarget): Promise<void> {
     const workspace = target.workspace;
     this._logger?.debug(`[${this._options.cmd}]`,'Asked to kill', workspace.name);
-    const existingKilling$ = this._killing$.get(workspace.name);
+    const existingKilling$ = this._killing$.get(targetKey(target));
     if (existingKilling$) {
       this._logger?.debug(`[${this._options.cmd}]`,'Already killing', workspace.name);
       return existingKilling$;
     }
-    const pids = workspace.getPids(this._options.cmd);
+    const pids = workspace.getPids(this._cmd(target));
     this.obs.next({ type: RunCommandEventEnum.NODE_INTERRUPTING, target, pids });
     const releasePorts = this._options.watch ? this._options.releasePorts?.get(workspace.name)?.filter((port) => Number.isInteger(port)) : undefined;
-    const kill$ = workspace.kill({ cmd: this._options.cmd, _workspace: workspace.name, releasePorts })
+    const kill$ = workspace.kill({ cmd: this._cmd(target), _workspace: workspace.name, releasePorts })
       .then((killedPids) => {
         this._logger?.debug(`[${this._options.cmd}]`,'Killed', this._options.cmd, workspace.name, 'pids', killedPids);
         if (killedPids.length) {
           this.obs.next({ type: RunCommandEventEnum.NODE_INTERRUPTED, target, pids: killedPids });
         }
       })
-      .finally(() => this._killing$.delete(workspace.name));
-    this._killing$.set(workspace.name, kill$);
+      .finally(() => this._killing$.delete(targetKey(target)));
+    this._killing$.set(targetKey(target), kill$);
     return kill$;
   }
 
@@ -556,7 +576,7 @@ export class Scheduler {
       return false;
     }
     this._logger?.debug(`[${this._options.cmd}]`,'should run next tasks ?', nextTask.type, nextTask.target.workspace.name);
-    if (this._pendingInvalidations.has(nextTask.target.workspace.name)) {
+    if (this._pendingInvalidations.has(targetKey(nextTask.target))) {
       this._logger?.debug(`[${this._options.cmd}]`,'Pending invalidation waiting for it to complete');
       return false;
     }
@@ -565,7 +585,7 @@ export class Scheduler {
         return false;
       }
       this._logger?.debug(`[${this._options.cmd}]`,'should run', nextTask.target.workspace.name, '?');
-      const nextTargetStep = this._targets.find((step) => step.find((t) => t.workspace.name === nextTask.target.workspace.name));
+      const nextTargetStep = this._targets.find((step) => step.find((t) => targetKey(t) === targetKey(nextTask.target)));
       if (!nextTargetStep) {
         // This should not happen, that means a rescheduling is in progress waiting
         return true;
@@ -577,7 +597,7 @@ export class Scheduler {
         const hasQueued = [...this._currentStep.values()].some((s) => s === 'queued');
         const hasErrored = [...this._currentStep.values()].some((s) => s === 'errored');
         const hasProcessing = [...this._currentStep.values()].some((s) => s === 'processing');
-        const hasPendingInvalidation = this._pendingInvalidations.has(nextTask.target.workspace.name);
+        const hasPendingInvalidation = this._pendingInvalidations.has(targetKey(nextTask.target));
         if (hasErrored  && this._options.mode === 'topological' && !this._options.watch && !this._pendingInvalidations.size) {
           this.obs.error();
         }
@@ -609,7 +629,7 @@ export class Scheduler {
 
   private _executeTask(task: ITask): void {
     if (task.type === 'run') {
-      const currentStep = this._targets.find((group) => group.find((target) => target.workspace.name === task.target.workspace.name));
+      const currentStep = this._targets.find((group) => group.find((target) => targetKey(target) === targetKey(task.target)));
       if (!currentStep) {
         throw new Error('Assertion failed: cannot update current step index');
       }
@@ -617,7 +637,7 @@ export class Scheduler {
       if (currentStepIndex > this._currentStepIndex) {
         this._updateCurrentStep(currentStepIndex);
       }
-      this._currentStep.set(task.target.workspace.name, 'processing');
+      this._currentStep.set(targetKey(task.target), 'processing');
     }
     this._logger?.debug(`[${this._options.cmd}]`,'Running task', task.type, task.target.workspace.name);
     if (task.type === 'run') {
@@ -649,17 +669,18 @@ export class Scheduler {
 
   private _onRunCommandEventReceived(evt: RunCommandEvent): void {
     this._logger?.info('Forwarding run command event', { cmd: this._options.cmd, type: evt.type, workspace: (evt as {target: { workspace: { name: string }}})?.target?.workspace?.name });
+    this._summary?.collect(evt);
     this.obs.next(evt);
     if (evt.type === RunCommandEventEnum.NODE_PROCESSED) {
-      this._currentStep.set(evt.target.workspace.name, 'processed');
+      this._currentStep.set(targetKey(evt.target), 'processed');
       this._logger?.debug(`[${this._options.cmd}]`,'Task run', evt.target.workspace.name, 'done. New cache written. Removing from invalidated');
-      this._alreadyInvalidated.delete(evt.target.workspace.name);
+      this._alreadyInvalidated.delete(targetKey(evt.target));
     }
     if (evt.type === RunCommandEventEnum.NODE_SKIPPED) {
-      this._currentStep.set(evt.target.workspace.name, 'processed');
+      this._currentStep.set(targetKey(evt.target), 'processed');
     }
     if (evt.type === RunCommandEventEnum.NODE_ERRORED) {
-      this._currentStep.set(evt.target.workspace.name, 'errored');
+      this._currentStep.set(targetKey(evt.target), 'errored');
     }
     if (evt.type === RunCommandEventEnum.ERROR_INVALIDATING_CACHE) {
       this.obs.error();
@@ -681,12 +702,19 @@ export class Scheduler {
     if (target.hasCommand) {
       this._logger?.debug(`[${this._options.cmd}]`,'Started', this._options.cmd, target.workspace.name)
       const started$: Observable<RunCommandEvent>  = of({ type: RunCommandEventEnum.NODE_STARTED, target });
+      const done$ = new Subject<void>();
+      const attempts$: Observable<RunCommandEvent> = target.workspace.attempts$.pipe(
+        filter((notification) => notification.cmd === this._cmd(target)),
+        map((notification) => this._mapAttemptToRunCommandEvent(notification, target)),
+        takeUntil(done$),
+      );
       const execute$: Observable<RunCommandEvent> = this._executeCommandCatchingErrors(target).pipe(
         map((result) => this._mapToRunCommandEvents(result, target)),
+        finalize(() => done$.next()),
       );
       return concat(
         started$,
-        execute$,
+        merge(attempts$, execute$),
       );
     }
     return of({ type: RunCommandEventEnum.NODE_SKIPPED, target });
@@ -695,9 +723,18 @@ export class Scheduler {
   private _executeCommandCatchingErrors(
     target: IResolvedTarget,
   ) : Observable<CaughtProcessExecution>{
-    const options = this._options;
+    const options: RunOptions = { ...this._options, cmd: this._cmd(target) };
     this._logger?.info('Preparing command', {cmd: options.cmd, workspace: target.workspace.name});
-    const command$ = target.workspace.run(options, target.workspace.name);
+    const command$ = isUsingRemoteCache(options) && options.agents
+      ? options.agents.run(target.workspace, {
+        cmd: options.cmd,
+        args: target.workspace.args(options),
+        env: target.workspace.env(options),
+        force: options.force,
+        affected: options.affected,
+        cachePrefix: options.cachePrefix,
+      })
+      : target.workspace.run(options, target.workspace.name);
     return command$.pipe(
       map((result) => ({ status: 'ok' as const, result, target })),
       catchError((error) => of({ status: 'ko' as const, error, target })),
@@ -721,6 +758,15 @@ export class Scheduler {
     }
   }
 
+  private _mapAttemptToRunCommandEvent(notification: CommandAttemptNotification, target: IResolvedTarget): RunCommandEvent {
+    if (notification.type === 'timed-out') {
+      const { command, timeout, attempt } = notification;
+      return { type: RunCommandEventEnum.NODE_TIMED_OUT, target, command, timeout, attempt };
+    }
+    const { command, attempt, retries, delay, error } = notification;
+    return { type: RunCommandEventEnum.NODE_RETRYING, target, command, attempt, retries, delay, error };
+  }
+
   private _scheduleInvalidations(events: Array<RunCommandEvent>, insertAt?: number): void {
     const invalidations$ = this._resolveInvalidations(events);
     const index = (insertAt ?? this._currentTaskIndex) + 1;
@@ -744,8 +790,8 @@ export class Scheduler {
       this._logger?.info('Resolving invalidations', target.workspace.name, evt.type);
 
       const addToInvalidations = (t: IResolvedTarget): void => {
-        if (!potentialInvalidations.has(t.workspace.name)) {
-          potentialInvalidations.set(t.workspace.name, t);
+        if (!potentialInvalidations.has(targetKey(t))) {
+          potentialInvalidations.set(targetKey(t), t);
         }
       }
       const haveSourceChanged = evt.type === RunCommandEventEnum.SOURCES_CHANGED && evt.target.hasCommand;
@@ -755,7 +801,7 @@ export class Scheduler {
         addToInvalidations(target);
       }
       if (this._options.mode === 'topological' && (haveSourceChanged || isErrored || isNotFromCache)) {
-        const step = this._targets.find((s) => s.find((t) => t.workspace.name === target.workspace.name));
+        const step = this._targets.find((s) => s.find((t) => targetKey(t) === targetKey(target)));
         if (step) {
           const nextStep = this._targets.indexOf(step) + 1;
           for (let idx = nextStep; idx < this._targets.length; ++idx) {
@@ -769,13 +815,13 @@ export class Scheduler {
 
 
     const invalidations$: Map<string, ITask> = new Map();
-    const isAlreadyPlanned = (workspaceName: string): boolean => {
+    const isAlreadyPlanned = (key: string): boolean => {
       for (let idx = this._currentTaskIndex; idx < this._tasks$.length; ++idx) {
         const task = this._tasks$[idx];
-        if (task.type === 'invalidate' && task.target.workspace.name === workspaceName) {
+        if (task.type === 'invalidate' && targetKey(task.target) === key) {
           return true;
         }
-        if (task.type === 'run' && task.target.workspace.name === workspaceName) {
+        if (task.type === 'run' && targetKey(task.target) === key) {
           return false;
         }
       }
@@ -799,16 +845,16 @@ export class Scheduler {
 
   private _invalidateCache(target: IResolvedTarget): Observable<RunCommandEvent> {
     return new Observable<RunCommandEvent>((obs) => {
-      this._pendingInvalidations.add(target.workspace.name);
-      target.workspace.invalidateCache(this._options.cmd, this._options)
+      this._pendingInvalidations.add(targetKey(target));
+      target.workspace.invalidateCache(this._cmd(target), { ...this._options, cmd: this._cmd(target) })
         .then(() => {
           this._logger?.debug(`[${this._options.cmd}]`,'invalidated');
           obs.next({type: RunCommandEventEnum.CACHE_INVALIDATED, target});
         })
         .catch((error) => obs.next({ type: RunCommandEventEnum.ERROR_INVALIDATING_CACHE, target, error}))
         .finally(() => {
-          this._alreadyInvalidated.add(target.workspace.name);
-          this._pendingInvalidations.delete(target.workspace.name);
+          this._alreadyInvalidated.add(targetKey(target));
+          this._pendingInvalidations.delete(targetKey(target));
           this._logger?.debug(`[${this._options.cmd}]`,'invalidation completed');
           obs.complete()
         });
@@ -1,8 +1,10 @@
-import { IResolvedTarget } from './process';
+import { IResolvedTarget, targetKey } from './process';
 import { Workspace } from './workspace';
 import { isTopological, ITopologicalRemoteCacheRunOptions, ITopologicalRunOptions, RunOptions } from './runner';
 import { Project } from './project';
 import { EventsLog, EventsLogger } from '@microlambda/logger';
+import { MilaError, MilaErrorCode } from '@microlambda/errors';
+import { findCycles } from './cycles';
 
 export type OrderedTargets = IResolvedTarget[][];
 
@@ -25,6 +27,15 @@ export class TargetsResolver {
 
   // FIXME: Could be sync
   async resolve(cmd: string, options: RunOptions): Promise<OrderedTargets> {
+    const targets = this._resolveWorkspacesTargets(cmd, options);
+    const hasTargetDependencies = targets.flat().some((t) => t.hasCommand && t.workspace.config[cmd]?.dependsOn?.length);
+    if (!hasTargetDependencies) {
+      return targets;
+    }
+    return this._resolveTaskGraph(cmd, targets.flat(), isTopological(options));
+  }
+
+  private _resolveWorkspacesTargets(cmd: string, options: RunOptions): OrderedTargets {
     if (isTopological(options)) {
       return this._recursivelyResolveTargets(cmd, options);
     }
@@ -85,4 +96,93 @@ export class TargetsResolver {
     this._logger?.silly('Ordered Targets', orderedTargets.map((step) => step.map((t) => t.workspace.name)));
     return orderedTargets;
   }
+
+  /**
+   * Combine targets of the requested command with the targets they depend on (dependsOn),
+   * and order them so that every target is run after its dependencies.
+   * In topological mode, the requested command also implicitly depends on the same command of workspace dependencies.
+   */
+  private _resolveTaskGraph(cmd: string, targets: IResolvedTarget[], isTopological: boolean): OrderedTargets {
+    const nodes = new Map<string, IResolvedTarget>();
+    const edges = new Map<string, Set<string>>();
+    const visit = (target: IResolvedTarget): IResolvedTarget => {
+      const key = targetKey(target);
+      const existing = nodes.get(key);
+      if (existing) {
+        return existing;
+      }
+      nodes.set(key, target);
+      const dependencies = new Set<string>();
+      edges.set(key, dependencies);
+      const targetCmd = target.cmd ?? cmd;
+      const entries = [...(target.workspace.config[targetCmd]?.dependsOn ?? [])];
+      if (isTopological && targetCmd === cmd) {
+        entries.push(`^${cmd}`);
+      }
+      for (const entry of entries) {
+        for (const dependency of this._resolveTargetDependency(target.workspace, targetCmd, entry, cmd)) {
+          dependencies.add(targetKey(visit(dependency)));
+        }
+      }
+      return target;
+    };
+    const inactiveTargets = targets.filter((t) => !t.hasCommand);
+    targets.filter((t) => t.hasCommand).forEach(visit);
+
+    const orderedTargets: OrderedTargets = inactiveTargets.length ? [inactiveTargets] : [];
+    const processed = new Set<string>();
+    const remaining = new Set(nodes.keys());
+    while (remaining.size) {
+      const step = Array.from(remaining).filter((key) => Array.from(edges.get(key) ?? []).every((dep) => processed.has(dep)));
+      if (!step.length) {
+        const [cycle] = findCycles(remaining, (key) => edges.get(key) ?? []);
+        throw new MilaError(MilaErrorCode.CIRCULAR_DEPENDENCY, `Circular dependency found between targets: ${cycle.join(' -> ')}`);
+      }
+      orderedTargets.push(Array.from(nodes.entries()).filter(([key]) => step.includes(key)).map(([, target]) => target));
+      step.forEach((key) => {
+        processed.add(key);
+        remaining.delete(key);
+      });
+    }
+    this._logger?.silly('Ordered Targets', orderedTargets.map((step) => step.map(targetKey)));
+    return orderedTargets;
+  }
+
+  private _resolveTargetDependency(workspace: Workspace, targetCmd: string, entry: string, cmd: string): IResolvedTarget[] {
+    const toTarget = (w: Workspace, depCmd: string): IResolvedTarget => ({
+      workspace: w,
+      hasCommand: true,
+      cmd: depCmd === cmd ? undefined : depCmd,
+    });
+    if (entry.startsWith('^')) {
+      const depCmd = entry.substring(1);
+      return this._findDependenciesWithCommand(workspace, depCmd).map((w) => toTarget(w, depCmd));
+    }
+    if (!workspace.hasCommand(entry)) {
+      throw new MilaError(
+        MilaErrorCode.INVALID_TARGET_DEPENDENCY,
+        `Target ${targetCmd} of workspace ${workspace.name} depends on target ${entry} which is not defined in this workspace`,
+      );
+    }
+    return [toTarget(workspace, entry)];
+  }
+
+  /**
+   * Direct dependencies having the command. Dependencies not having it are skipped, and their own dependencies are looked up.
+   */
+  private _findDependenciesWithCommand(workspace: Workspace, cmd: string, visited = new Set<string>()): Workspace[] {
+    const found: Workspace[] = [];
+    for (const dependency of workspace.dependencies()) {
+      if (visited.has(dependency.name)) {
+        continue;
+      }
+      visited.add(dependency.name);
+      if (dependency.hasCommand(cmd)) {
+        found.push(dependency);
+      } else {
+        found.push(...this._findDependenciesWithCommand(dependency, cmd, visited));
+      }
+    }
+    return found;
+  }
 }
@@ -38,7 +38,7 @@ export class Watcher {
     void this.unwatch();
     const filesChanges = new Map<IResolvedTarget, Array<IChangeEvent>>();
     this.targets.forEach((target) => {
-      const patterns = target.workspace.config[this.cmd]?.src?.internals;
+      const patterns = target.workspace.config[target.cmd ?? this.cmd]?.src?.internals;
       patterns?.forEach((glob) => {
         this._logger?.info('Watching', join(target.workspace.root, glob));
         this._watcher = watch(join(target.workspace.root, glob), { ignoreInitial: true }).on('all', (event, path) => {
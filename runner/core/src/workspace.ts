@@ -6,9 +6,9 @@ import { INpmInfos, Package } from './package';
 import { git } from './git';
 import { sync as glob } from 'fast-glob';
 import { command, ExecaChildProcess, ExecaError, ExecaReturnValue } from 'execa';
-import { CommandResult, ICommandResult, IDaemonCommandResult, IProcessResult, isDaemon } from './process';
+import { CommandAttemptNotification, CommandResult, ICommandResult, IDaemonCommandResult, IProcessResult, isDaemon } from './process';
 import { Publish, PublishActions, PublishEvent } from './publish';
-import {first, Observable, race, Subject, throwError} from 'rxjs';
+import {first, NEVER, Observable, race, Subject, throwError, timer} from 'rxjs';
 import { MilaError, MilaErrorCode } from '@microlambda/errors';
 import semver from 'semver';
 import { catchError, finalize } from 'rxjs/operators';
@@ -19,31 +19,44 @@ import { EventsLog, EventsLogger } from '@microlambda/logger';
 import {
   ConfigReader,
   ICommandConfig,
+  IExecutionLimitsConfig,
   ILogsCondition, IResolvedPackageConfig,
   isScriptTarget,
   ITargetConfig,
   ITargetsConfig,
+  ITrafficShiftingConfig,
 } from '@microlambda/config';
 import { LocalCache } from './cache/local-cache';
 import { LocalArtifacts } from './artifacts/local-artifacts';
-import { Cache } from './cache/cache';
+import { Cache, ICacheExplanation } from './cache/cache';
 import { Artifacts } from './artifacts/artifacts';
 import { RemoteCache } from './cache/remote-cache';
 import { RemoteArtifacts } from './artifacts/remote-artifacts';
 import { isUsingRemoteCache, RunOptions } from './runner';
-import { checkWorkingDirectoryClean } from './remote-cache-utils';
+import { checkWorkingDirectoryClean, resolveRemoteCacheBackend } from './remote-cache-utils';
 import Timer = NodeJS.Timer;
 import {IBaseLogger} from "@microlambda/types";
 
 const TWO_MINUTES = 2 * 60 * 1000;
 const DEFAULT_DAEMON_TIMEOUT = TWO_MINUTES;
 
+interface IResolvedCommand extends IExecutionLimitsConfig {
+  cmd: string;
+  daemon?: ILogsCondition[];
+  env?: Record<string, string>;
+}
+
 export class Workspace {
   // Constructor
   constructor(
     readonly pkg: Package,
     readonly root: string,
-    readonly _config: { regions?: string[], targets: ITargetsConfig, sharedInfra?: { envSpecific?: boolean } },
+    readonly _config: {
+      regions?: string[],
+      targets: ITargetsConfig,
+      sharedInfra?: { envSpecific?: boolean },
+      trafficShifting?: ITrafficShiftingConfig,
+    },
     readonly project?: Project,
     readonly eventsLog?: EventsLog,
   ) {
@@ -122,6 +135,10 @@ export class Workspace {
     return this._config.regions;
   }
 
+  get trafficShifting(): ITrafficShiftingConfig | undefined {
+    return this._config.trafficShifting;
+  }
+
   get name(): string {
     return this.pkg.name;
   }
@@ -318,6 +335,15 @@ export class Workspace {
     }
   }
 
+  private _attempts$ = new Subject<CommandAttemptNotification>();
+
+  /**
+   * Commands timeouts and retries, so they can be reported while the target is still running
+   */
+  get attempts$(): Observable<CommandAttemptNotification> {
+    return this._attempts$.asObservable();
+  }
+
   private _processes = new Map<string, Map<string, ExecaChildProcess>>();
   private _runs = new Map<string, Observable<IProcessResult>>();
   private _killed$ = new Map<string, Subject<void>>();
@@ -401,10 +427,54 @@ export class Workspace {
 
   private async _runCommand(
     target: string,
-    cmd: { cmd: string; daemon?: ILogsCondition[], env?: Record<string, string> },
+    cmd: IResolvedCommand,
     args?: string,
     env: {[key: string]: string} = {},
     stdio: 'pipe' | 'inherit' = 'pipe',
+  ): Promise<CommandResult> {
+    const retries = cmd.daemon ? 0 : cmd.retries ?? 0;
+    const fullCmd = args ? [cmd.cmd, args].join(' ') : cmd.cmd;
+    for (let attempt = 0; ; ++attempt) {
+      try {
+        return await this._runCommandOnce(target, cmd, args, env, stdio, attempt);
+      } catch (e) {
+        // Processes killed by the scheduler, e.g. when sources change in watch mode, must not be retried
+        const isKilled = !this._runs.has(target);
+        if (attempt >= retries || isKilled) {
+          throw e;
+        }
+        const delay = cmd.retryDelay ?? 0;
+        this._logger?.warn('Command failed, retrying', { cmd: target, target: this.name, attempt: attempt + 1, retries, delay });
+        this._handleLogs('append', target, `Command failed, retrying (${attempt + 1}/${retries})${delay ? ` in ${delay}ms` : ''}`);
+        this._attempts$.next({ type: 'retrying', cmd: target, command: fullCmd, attempt: attempt + 1, retries, delay, error: e });
+        if (delay) {
+          await this._waitRetryDelay(target, delay);
+        }
+        // The process may have been killed while waiting
+        if (!this._runs.has(target)) {
+          throw e;
+        }
+      }
+    }
+  }
+
+  /**
+   * Wait before retrying a command, unless it is killed in the meantime
+   */
+  private _waitRetryDelay(target: string, delay: number): Promise<void> {
+    const killed$: Observable<void> = this._killed$.get(target) ?? NEVER;
+    return new Promise((resolve) => {
+      race(timer(delay), killed$).pipe(first()).subscribe(() => resolve());
+    });
+  }
+
+  private async _runCommandOnce(
+    target: string,
+    cmd: IResolvedCommand,
+    args: string | undefined,
+    env: {[key: string]: string},
+    stdio: 'pipe' | 'inherit',
+    attempt: number,
   ): Promise<CommandResult> {
     const startedAt = Date.now();
     const _fullCmd = args ? [cmd.cmd, args].join(' ') : cmd.cmd;
@@ -435,6 +505,13 @@ export class Workspace {
       return this._handleDaemon(target, cmd.daemon, _process, startedAt);
     } else {
       this._logger?.info('Command not flagged as daemon', { cmd: target, target: this.name });
+      let hasTimedOut = false;
+      const timer = cmd.timeout ? setTimeout(() => {
+        hasTimedOut = true;
+        this._logger?.warn('Command timed out, killing process', { cmd: target, target: this.name, timeout: cmd.timeout });
+        this._handleLogs('append', target, `Command timed out after ${cmd.timeout}ms`);
+        Workspace._killProcessTree(_process, 'SIGKILL', this._logger);
+      }, cmd.timeout) : undefined;
       try {
         const result = await _process;
         this._logger?.info('Command terminated', { cmd: target, target: this.name }, result);
@@ -442,31 +519,46 @@ export class Workspace {
         this._handleLogs('commandEnded', target, result);
         return {...result, took: Date.now() - startedAt, daemon: false };
       } catch (e) {
+        this._processes.get(target)?.delete(cmdId);
+        if (hasTimedOut && cmd.timeout) {
+          this._attempts$.next({ type: 'timed-out', cmd: target, command: _fullCmd, timeout: cmd.timeout, attempt });
+          throw new MilaError(MilaErrorCode.COMMAND_TIMED_OUT, `Command "${_fullCmd}" of workspace ${this.name} timed out after ${cmd.timeout}ms`, e);
+        }
         if ((e as ExecaError).exitCode) {
           this._handleLogs('commandEnded', target, e as ExecaError);
         }
         throw e;
+      } finally {
+        clearTimeout(timer);
       }
     }
   }
 
-  private _resolveCommands(config: ITargetConfig): Array<{ cmd: string; daemon?: ILogsCondition[], env?: Record<string, string> }> {
+  private _resolveCommands(config: ITargetConfig): Array<IResolvedCommand> {
+    const { timeout, retries, retryDelay } = config;
     if (isScriptTarget(config)) {
       const script = this.resolveScript(config.script);
       if (!script) {
         return [];
       }
-      const result: { cmd: string; daemon?: ILogsCondition[], env?: Record<string, string>} = { cmd: script, env: config.env };
+      const result: IResolvedCommand = { cmd: script, env: config.env, timeout, retries, retryDelay };
       if (!!config.daemon) {
         result.daemon = Array.isArray(config.daemon) ? config.daemon : [config.daemon];
       }
       return [result];
     }
-    const reformatCommandConfig = (cmd: string | ICommandConfig): { cmd: string; daemon?: ILogsCondition[], env?: Record<string, string> } => {
+    // Limits defined on a command take precedence over the ones of the target
+    const reformatCommandConfig = (cmd: string | ICommandConfig): IResolvedCommand => {
       if (typeof cmd === 'string') {
-        return { cmd };
+        return { cmd, timeout, retries, retryDelay };
       }
-      const result: { cmd: string; daemon?: ILogsCondition[], env?: Record<string, string>} = { cmd: cmd.run, env: cmd.env };
+      const result: IResolvedCommand = {
+        cmd: cmd.run,
+        env: cmd.env,
+        timeout: cmd.timeout ?? timeout,
+        retries: cmd.retries ?? retries,
+        retryDelay: cmd.retryDelay ?? retryDelay,
+      };
       if (!!cmd.daemon) {
         result.daemon = Array.isArray(cmd.daemon) ? cmd.daemon : [cmd.daemon];
       }
@@ -576,10 +668,10 @@ export class Workspace {
     if (options.force) {
       this._logger?.info('Using --force option, cache are disabled');
     } else if (isUsingRemoteCache(options) && options.remoteCache) {
-      this._logger?.info('Using remote cache', { region: options.remoteCache.region, bucket: options.remoteCache.bucket });
+      const backend = resolveRemoteCacheBackend(options.remoteCache);
+      this._logger?.info('Using remote cache', { type: backend.type, location: backend.location });
       cache = new RemoteCache(
-        options.remoteCache.region,
-        options.remoteCache.bucket,
+        backend,
         this,
         options.cmd,
         options.affected,
@@ -589,8 +681,7 @@ export class Workspace {
         options.cachePrefix,
       );
       artifacts = new RemoteArtifacts(
-        options.remoteCache.region,
-        options.remoteCache.bucket,
+        backend,
         this,
         options.cmd,
         options.affected,
@@ -688,8 +779,7 @@ export class Workspace {
     let cache: Cache;
     if (isUsingRemoteCache(options) && options.remoteCache) {
       cache = new RemoteCache(
-        options.remoteCache.region,
-        options.remoteCache.bucket,
+        resolveRemoteCacheBackend(options.remoteCache),
         this,
         options.cmd,
         options.affected,
@@ -704,6 +794,26 @@ export class Workspace {
     await cache.invalidate();
   }
 
+  async explainCache(options: RunOptions): Promise<ICacheExplanation> {
+    if (isUsingRemoteCache(options) && options.remoteCache) {
+      const cache = new RemoteCache(
+        resolveRemoteCacheBackend(options.remoteCache),
+        this,
+        options.cmd,
+        options.affected,
+        this.args(options),
+        this.env(options),
+        this.eventsLog,
+        options.cachePrefix,
+      );
+      return cache.explain();
+    }
+    const cache = new LocalCache(this, options.cmd, this.args(options), this.env(options), this.eventsLog);
+    const artifacts = new LocalArtifacts(this, options.cmd, this.args(options), this.env(options), this.eventsLog);
+    const [explanation, areArtifactsValid] = await Promise.all([cache.explain(), artifacts.checkArtifacts()]);
+    return { ...explanation, areArtifactsValid };
+  }
+
   async bumpVersions(bump: semver.ReleaseType, identifier?: string): Promise<PublishActions> {
     if (!this.project) {
       throw new MilaError(MilaErrorCode.PROJECT_NOT_RESOLVED, 'Cannot publish outside a project');
@@ -0,0 +1,85 @@
+import { CacheBackends, FilesystemCacheBackend, HttpCacheBackend, S3CacheBackend } from '../src';
+import { MilaError, MilaErrorCode } from '@microlambda/errors';
+import { mkdtempSync, promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+const context = {
+  projectRoot: '/somewhere/on/filesystem',
+  defaultRegion: 'eu-west-1',
+  defaultBucket: 'my-app-mila-checksums',
+};
+
+describe('[class] CacheBackends', () => {
+  describe('[method] create()', () => {
+    it('should default to S3 backend using state bucket and default region', () => {
+      const backend = CacheBackends.create(undefined, context);
+      expect(backend).toBeInstanceOf(S3CacheBackend);
+      expect((backend as S3CacheBackend).bucket).toBe('my-app-mila-checksums');
+      expect((backend as S3CacheBackend).region).toBe('eu-west-1');
+      expect(backend.location).toBe('s3://my-app-mila-checksums');
+    });
+    it('should use S3-compatible endpoint if given', () => {
+      const backend = CacheBackends.create({ type: 's3', bucket: 'caches', endpoint: 'http://localhost:9000', forcePathStyle: true }, context);
+      expect(backend).toBeInstanceOf(S3CacheBackend);
+      expect(backend.location).toBe('http://localhost:9000/caches');
+    });
+    it('should resolve filesystem backend path relatively to project root', () => {
+      const backend = CacheBackends.create({ type: 'filesystem', path: '.shared-caches' }, context);
+      expect(backend).toBeInstanceOf(FilesystemCacheBackend);
+      expect(backend.location).toBe('/somewhere/on/filesystem/.shared-caches');
+    });
+    it('should keep absolute filesystem backend path', () => {
+      const backend = CacheBackends.create({ type: 'filesystem', path: '/mnt/nfs/caches' }, context);
+      expect(backend.location).toBe('/mnt/nfs/caches');
+    });
+    it('should create HTTP backend', () => {
+      const backend = CacheBackends.create({ type: 'http', url: 'https://cache.example.com/mila' }, context);
+      expect(backend).toBeInstanceOf(HttpCacheBackend);
+      expect((backend as HttpCacheBackend).url('caches/@org/api/build/sha1/checksums.json').toString())
+        .toBe('https://cache.example.com/mila/caches/%40org/api/build/sha1/checksums.json');
+    });
+    it('should use registered custom backends', () => {
+      const custom = new FilesystemCacheBackend('/custom');
+      CacheBackends.register('custom', () => custom);
+      expect(CacheBackends.create({ type: 'custom', foo: 'bar' }, context)).toBe(custom);
+    });
+    it('should throw if backend is unknown', () => {
+      try {
+        CacheBackends.create({ type: 'unknown' }, context);
+        fail('should throw');
+      } catch (e) {
+        expect((e as MilaError).code).toBe(MilaErrorCode.UNKNOWN_CACHE_BACKEND);
+      }
+    });
+  });
+});
+
+describe('[class] FilesystemCacheBackend', () => {
+  const directory = mkdtempSync(join(tmpdir(), 'mila-cache-'));
+  const backend = new FilesystemCacheBackend(directory);
+  afterAll(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+  it('should write, read and remove entries', async () => {
+    const key = 'caches/@org/api/build/sha1/checksums.json';
+    expect(await backend.exists(key)).toBe(false);
+    expect(await backend.read(key)).toBe(null);
+    await backend.write(key, '{"foo":"bar"}');
+    expect(await backend.exists(key)).toBe(true);
+    expect((await backend.read(key))?.toString()).toBe('{"foo":"bar"}');
+    await backend.remove(key);
+    expect(await backend.exists(key)).toBe(false);
+  });
+  it('should write and read streams', async () => {
+    const key = 'caches/@org/api/build/sha1/artifacts.zip';
+    const { writeStream, done } = await backend.writeStream(key);
+    writeStream.end(Buffer.from('artifacts'));
+    await done;
+    const chunks: Buffer[] = [];
+    for await (const chunk of await backend.readStream(key)) {
+      chunks.push(chunk as Buffer);
+    }
+    expect(Buffer.concat(chunks).toString()).toBe('artifacts');
+  });
+});
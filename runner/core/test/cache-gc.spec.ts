@@ -0,0 +1,109 @@
+import { CacheGarbageCollector, FilesystemCacheBackend, ICacheGcEntry, parseDuration, parseSize } from '../src';
+import { mkdtempSync, promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+const DAY = 24 * 60 * 60 * 1000;
+const now = new Date('2023-06-15T00:00:00.000Z');
+const daysAgo = (days: number): Date => new Date(now.getTime() - days * DAY);
+const sha1 = (char: string): string => char.repeat(40);
+
+describe('[module] cache retention', () => {
+  it('should parse durations and sizes', () => {
+    expect(parseDuration(2)).toBe(2 * DAY);
+    expect(parseDuration('12h')).toBe(12 * 60 * 60 * 1000);
+    expect(parseDuration('1w')).toBe(7 * DAY);
+    expect(parseSize(42)).toBe(42);
+    expect(parseSize('1.5KB')).toBe(1536);
+    expect(parseSize('10gb')).toBe(10 * 1024 ** 3);
+    expect(() => parseSize('10 potatoes')).toThrow();
+  });
+});
+
+describe('[class] CacheGarbageCollector', () => {
+  const entry = (id: string, target: string, age: number, size = 10, branch?: string): ICacheGcEntry => ({
+    id,
+    target,
+    branch,
+    size,
+    lastModified: daysAgo(age),
+  });
+
+  it('should delete entries older than max age', () => {
+    const gc = new CacheGarbageCollector({ maxAge: 7 * DAY }, undefined, now);
+    const deleted = gc.select([entry('a', 'api/build', 1), entry('b', 'api/build', 8)]);
+    expect(Array.from(deleted.entries()).map(([e, reason]) => [e.id, reason])).toEqual([['b', 'max-age']]);
+  });
+
+  it('should keep last N entries per target and branch', () => {
+    const gc = new CacheGarbageCollector({ keepLast: 1 }, undefined, now);
+    const deleted = gc.select([
+      entry('a', 'api/build', 1, 10, 'main'),
+      entry('b', 'api/build', 2, 10, 'main'),
+      entry('c', 'api/build', 3, 10, 'feature'),
+      entry('d', 'api/test', 4, 10, 'main'),
+    ]);
+    expect(Array.from(deleted.keys()).map((e) => e.id)).toEqual(['b']);
+  });
+
+  it('should delete oldest entries until max size is respected', () => {
+    const gc = new CacheGarbageCollector({ maxSize: 25 }, undefined, now);
+    const deleted = gc.select([entry('a', 'api/build', 1), entry('b', 'api/test', 3), entry('c', 'app/build', 2)]);
+    expect(Array.from(deleted.entries()).map(([e, reason]) => [e.id, reason])).toEqual([['b', 'max-size']]);
+  });
+
+  describe('[method] collectRemote', () => {
+    const root = mkdtempSync(join(tmpdir(), 'mila-gc-'));
+    const backend = new FilesystemCacheBackend(root);
+
+    const write = async (key: string, data: string, age: number): Promise<void> => {
+      await backend.write(key, data);
+      await fs.utimes(backend.path(key), daysAgo(age), daysAgo(age));
+    };
+
+    beforeEach(async () => {
+      const manifest = (hash: string): string => JSON.stringify({ version: 1, algorithm: 'sha256', files: [{ path: 'lib/index.js', hash, size: 10, mode: 420 }] });
+      await write(`caches/api/build/${sha1('a')}/checksums.json`, '{}', 1);
+      await write(`caches/api/build/${sha1('a')}/artifacts-manifest.json`, manifest('1'.repeat(64)), 1);
+      await write(`caches/api/build/${sha1('b')}/checksums.json`, '{}', 10);
+      await write(`caches/api/build/${sha1('b')}/artifacts-manifest.json`, manifest('2'.repeat(64)), 10);
+      await write(`cas/sha256/11/${'1'.repeat(64)}`, 'kept', 1);
+      await write(`cas/sha256/22/${'2'.repeat(64)}`, 'orphan', 10);
+    });
+
+    afterAll(async () => {
+      await fs.rm(root, { recursive: true, force: true });
+    });
+
+    it('should only report deletions in dry-run mode', async () => {
+      const gc = new CacheGarbageCollector({ maxAge: 7 * DAY }, undefined, now);
+      const report = await gc.collectRemote(backend, true);
+      expect(report.deleted.map((d) => [d.id, d.reason])).toEqual([
+        [`caches/api/build/${sha1('b')}`, 'max-age'],
+        [`cas/sha256/22/${'2'.repeat(64)}`, 'unreferenced'],
+      ]);
+      expect(report.reclaimed).toBeGreaterThan(0);
+      expect(await backend.exists(`caches/api/build/${sha1('b')}/checksums.json`)).toBe(true);
+    });
+
+    it('should keep artifacts referenced by deployment packages', async () => {
+      const packageManifest = JSON.stringify({ version: 1, algorithm: 'sha256', files: [{ path: '.package/api.zip', hash: '3'.repeat(64), size: 10, mode: 420 }] });
+      await write(`deployments/api/dev/eu-west-1/${sha1('c')}/package-manifest.json`, packageManifest, 30);
+      await write(`cas/sha256/33/${'3'.repeat(64)}`, 'package', 30);
+      const gc = new CacheGarbageCollector({ maxAge: 7 * DAY }, undefined, now);
+      const report = await gc.collectRemote(backend);
+      expect(report.deleted.map((d) => d.id)).not.toContain(`cas/sha256/33/${'3'.repeat(64)}`);
+      expect(await backend.exists(`cas/sha256/33/${'3'.repeat(64)}`)).toBe(true);
+      expect(await backend.exists(`deployments/api/dev/eu-west-1/${sha1('c')}/package-manifest.json`)).toBe(true);
+    });
+
+    it('should delete expired entries and unreferenced artifacts', async () => {
+      const gc = new CacheGarbageCollector({ maxAge: 7 * DAY }, undefined, now);
+      await gc.collectRemote(backend);
+      expect(await backend.exists(`caches/api/build/${sha1('b')}/checksums.json`)).toBe(false);
+      expect(await backend.exists(`cas/sha256/22/${'2'.repeat(64)}`)).toBe(false);
+      expect(await backend.exists(`caches/api/build/${sha1('a')}/checksums.json`)).toBe(true);
+      expect(await backend.exists(`cas/sha256/11/${'1'.repeat(64)}`)).toBe(true);
+    });
+  });
+});
@@ -109,4 +109,34 @@ describe('[class] Checksum manager', () => {
     });
     it.todo('should split processing in one-thousand elements batch to avoid EMFILE error');
   })
+  describe('[static method] diff', () => {
+    it('should list changed files, hashed env values and commands', () => {
+      const stored: ISourcesChecksums = {
+        cmd: [{ run: 'tsc' }],
+        args: [],
+        env: { NODE_ENV: 'production', REMOVED: 'foo' },
+        globs: { internals: ['src/**/*.ts'], deps: [], root: [] },
+        checksums: { 'src/a.ts': '1', 'src/b.ts': '2', 'src/c.ts': '3' },
+      };
+      const current: ISourcesChecksums = {
+        ...stored,
+        cmd: [{ run: 'tsc -b' }],
+        env: { NODE_ENV: 'development', ADDED: 'bar' },
+        checksums: { 'src/a.ts': '1', 'src/b.ts': '4', 'src/d.ts': '5' },
+      };
+      const diff = Checksums.diff(current, stored);
+      expect(diff.files).toEqual({ added: ['src/d.ts'], removed: ['src/c.ts'], modified: ['src/b.ts'] });
+      expect(diff.env.added).toEqual(['ADDED']);
+      expect(diff.env.removed).toEqual(['REMOVED']);
+      expect(diff.env.modified).toEqual([{
+        name: 'NODE_ENV',
+        current: Checksums.hashValue('development'),
+        stored: Checksums.hashValue('production'),
+      }]);
+      expect(diff.env.modified[0].current).not.toContain('development');
+      expect(diff.cmd).toEqual({ current: '[{"run":"tsc -b"}]', stored: '[{"run":"tsc"}]' });
+      expect(diff.args).toBeUndefined();
+      expect(diff.globs).toBeUndefined();
+    });
+  })
 })
@@ -0,0 +1,71 @@
+import { ContentAddressableStore, FilesystemCacheBackend, IArtifactsManifest } from '../src';
+import { MilaErrorCode } from '@microlambda/errors';
+import { mkdtempSync, promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { spy } from 'sinon';
+
+describe('[class] ContentAddressableStore', () => {
+  const root = mkdtempSync(join(tmpdir(), 'mila-cas-'));
+  const workspace = join(root, 'workspace');
+  const restored = join(root, 'restored');
+  const backend = new FilesystemCacheBackend(join(root, 'store'));
+  const store = new ContentAddressableStore(backend);
+
+  beforeAll(async () => {
+    await fs.mkdir(join(workspace, 'lib', 'nested'), { recursive: true });
+    await fs.writeFile(join(workspace, 'lib', 'index.js'), 'module.exports = 42;');
+    await fs.writeFile(join(workspace, 'lib', 'nested', 'same.js'), 'module.exports = 42;');
+    await fs.writeFile(join(workspace, 'lib', 'other.js'), 'module.exports = 43;');
+  });
+
+  afterAll(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  const files = (): string[] => [
+    join(workspace, 'lib', 'index.js'),
+    join(workspace, 'lib', 'nested', 'same.js'),
+    join(workspace, 'lib', 'other.js'),
+  ];
+
+  it('should store identical files only once', async () => {
+    const { manifest, transfer } = await store.upload(files(), workspace);
+    expect(manifest.files.map((f) => f.path)).toEqual(['lib/index.js', 'lib/nested/same.js', 'lib/other.js']);
+    expect(manifest.files[0].hash).toEqual(manifest.files[1].hash);
+    expect(transfer.transferred).toBe(2);
+    expect(transfer.reused).toBe(1);
+  });
+
+  it('should not upload files already in the store', async () => {
+    const { transfer } = await store.upload(files(), workspace);
+    expect(transfer.transferred).toBe(0);
+    expect(transfer.reused).toBe(3);
+  });
+
+  it('should restore files and skip up-to-date ones', async () => {
+    const { manifest } = await store.upload(files(), workspace);
+    const firstRestore = await store.download(manifest, restored);
+    expect(firstRestore.transferred).toBe(3);
+    expect((await fs.readFile(join(restored, 'lib', 'nested', 'same.js'))).toString()).toBe('module.exports = 42;');
+    const readStream = spy(backend, 'readStream');
+    await fs.writeFile(join(restored, 'lib', 'other.js'), 'modified');
+    const secondRestore = await store.download(manifest, restored);
+    readStream.restore();
+    expect(secondRestore.transferred).toBe(1);
+    expect(secondRestore.reused).toBe(2);
+    expect(readStream.callCount).toBe(1);
+    expect((await fs.readFile(join(restored, 'lib', 'other.js'))).toString()).toBe('module.exports = 43;');
+  });
+
+  it('should refuse to restore files outside of target directory', async () => {
+    const { manifest } = await store.upload(files(), workspace);
+    const target = join(root, 'target');
+    for (const path of ['../outside.js', 'lib/../../outside.js', '..', '', 'lib/..']) {
+      const tampered: IArtifactsManifest = { ...manifest, files: [...manifest.files, { ...manifest.files[0], path }] };
+      await expect(store.download(tampered, target)).rejects.toMatchObject({ code: MilaErrorCode.ERROR_DOWNLOADING_ARTIFACTS });
+    }
+    await expect(fs.stat(join(root, 'outside.js'))).rejects.toMatchObject({ code: 'ENOENT' });
+    await expect(fs.stat(target)).rejects.toMatchObject({ code: 'ENOENT' });
+  });
+});
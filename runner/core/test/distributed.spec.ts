@@ -0,0 +1,137 @@
+import { SinonStub, spy, stub } from 'sinon';
+import { ClientRequest } from 'http';
+import { lastValueFrom, of, Subject, throwError } from 'rxjs';
+import { mkdtempSync, promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { MilaErrorCode } from '@microlambda/errors';
+import {
+  AgentsPool,
+  FilesystemCacheBackend,
+  IProcessResult,
+  Project,
+  RemoteArtifacts,
+  RunnerAgent,
+  Workspace,
+} from '../src';
+import { getProject } from './mocks/utils';
+
+const result = (stdout: string): IProcessResult => ({
+  overall: 12,
+  fromCache: false,
+  commands: [{
+    daemon: false,
+    command: 'eslint .',
+    escapedCommand: 'eslint .',
+    exitCode: 0,
+    stdout,
+    stderr: '',
+    all: stdout,
+    failed: false,
+    timedOut: false,
+    isCanceled: false,
+    killed: false,
+    took: 12,
+  }],
+});
+
+describe('[module] distributed execution', () => {
+  let project: Project;
+  let agents: Array<RunnerAgent>;
+  let urls: Array<string>;
+  const root = mkdtempSync(join(tmpdir(), 'mila-agents-'));
+  const stubs: Record<string, SinonStub> = {};
+
+  beforeEach(async () => {
+    project = await getProject(stubs);
+    stubs.isDaemon = stub(Workspace.prototype, 'isDaemon');
+    stubs.isDaemon.returns(false);
+    stubs.run = stub(Workspace.prototype, 'run');
+    const backend = new FilesystemCacheBackend(root);
+    agents = [
+      new RunnerAgent(project, backend, { concurrency: 1, host: '127.0.0.1', revision: 'abc' }),
+      new RunnerAgent(project, backend, { concurrency: 2, host: '127.0.0.1', revision: 'abc' }),
+    ];
+    urls = (await Promise.all(agents.map((a) => a.start()))).map((address) => `http://127.0.0.1:${address.port}`);
+  });
+
+  afterEach(async () => {
+    await Promise.all(agents.map((a) => a.stop()));
+    Object.values(stubs).forEach((s) => s.restore());
+  });
+
+  afterAll(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  it('should sum concurrency of all agents', async () => {
+    const pool = await AgentsPool.connect(urls, 'abc');
+    expect(pool.concurrency).toBe(3);
+  });
+
+  it('should refuse agents on another revision', async () => {
+    await expect(AgentsPool.connect(urls, 'def')).rejects.toMatchObject({ code: MilaErrorCode.AGENT_REVISION_MISMATCH });
+  });
+
+  it('should run targets on agents and forward their results', async () => {
+    stubs.run.callsFake(function (this: Workspace) {
+      return of(result(`linted ${this.name}`));
+    });
+    const pool = await AgentsPool.connect(urls, 'abc');
+    const workspaces = ['@org/workspace-a', '@org/workspace-b', '@org/api'].map((name) => project.getWorkspace(name)!);
+    const results = await Promise.all(workspaces.map((w) => lastValueFrom(pool.run(w, { cmd: 'lint' }))));
+    expect(results.map((r) => r.commands[0].daemon === false && r.commands[0].stdout)).toEqual([
+      'linted @org/workspace-a',
+      'linted @org/workspace-b',
+      'linted @org/api',
+    ]);
+    expect(stubs.run.callCount).toBe(3);
+    expect(stubs.run.firstCall.args[0]).toMatchObject({ cmd: 'lint', remoteCache: { backend: { type: 'filesystem' } } });
+  });
+
+  it('should forward process errors', async () => {
+    stubs.run.returns(throwError(() => ({ message: 'Command failed', command: 'eslint .', exitCode: 1, all: 'lint error' })));
+    const pool = await AgentsPool.connect(urls, 'abc');
+    await expect(lastValueFrom(pool.run(project.getWorkspace('@org/api')!, { cmd: 'lint' }))).rejects.toMatchObject({
+      exitCode: 1,
+      all: 'lint error',
+    });
+  });
+
+  it('should restore artifacts of dependencies under the cache prefix of the request', async () => {
+    stubs.run.returns(of(result('built')));
+    stubs.config = stub(Workspace.prototype, 'config').get(() => ({ build: { cmd: 'tsc', artifacts: ['lib/**'] } }));
+    const keys: Array<string> = [];
+    stubs.downloadArtifacts = stub(RemoteArtifacts.prototype, 'downloadArtifacts').callsFake(async function (this: RemoteArtifacts) {
+      keys.push(this.storedArtifactsManifestKey);
+    });
+    const pool = await AgentsPool.connect(urls, 'abc');
+    const api = project.getWorkspace('@org/api')!;
+    await lastValueFrom(pool.run(api, { cmd: 'build', cachePrefix: 'caches/api/deploy/dev/eu-west-1' }));
+    expect(keys).toHaveLength(api.descendants.size);
+    expect(keys.every((key) => key === 'caches/api/deploy/dev/eu-west-1/abc/artifacts-manifest.json')).toBe(true);
+  });
+
+  it('should close connection with agent and release it when unsubscribed', async () => {
+    const running = new Subject<IProcessResult>();
+    stubs.run.returns(running);
+    const destroy = spy(ClientRequest.prototype, 'destroy');
+    try {
+      const pool = await AgentsPool.connect(urls, 'abc');
+      const next = stub();
+      const subscription = pool.run(project.getWorkspace('@org/api')!, { cmd: 'lint' }).subscribe({ next });
+      while (!stubs.run.called) {
+        await new Promise((resolve) => setTimeout(resolve, 10));
+      }
+      subscription.unsubscribe();
+      expect(destroy.called).toBe(true);
+      // The first agent is the least busy again and is picked for the next target
+      expect(pool['_pickAgent']()).toMatchObject({ url: urls[0], running: 0 });
+      running.next(result('linted'));
+      expect(next.called).toBe(false);
+    } finally {
+      running.complete();
+      destroy.restore();
+    }
+  });
+});
@@ -0,0 +1,52 @@
+import { SinonStub, stub } from 'sinon';
+import { promises as fs } from 'fs';
+import fastGlob from 'fast-glob';
+import { join } from 'path';
+import { GraphChecker, Project } from '../src';
+import { getProject } from './mocks/utils';
+
+describe('[class] GraphChecker', () => {
+  let project: Project;
+  let glob: SinonStub;
+  let readFile: SinonStub;
+  const withDependencies = (name: string, dependencies: Record<string, string>): void => {
+    const workspace = project.getWorkspace(name)!;
+    Object.defineProperty(workspace, 'pkg', { value: { ...workspace.pkg, dependencies: { ...workspace.pkg.dependencies, ...dependencies } } });
+  };
+  beforeEach(async () => {
+    project = await getProject({});
+    glob = stub(fastGlob, 'sync');
+    readFile = stub(fs, 'readFile');
+    glob.returns([]);
+  });
+  afterEach(() => {
+    glob.restore();
+    readFile.restore();
+  });
+  it('should validate an acyclic graph with resolved workspace references', async () => {
+    const report = await new GraphChecker(project).check();
+    expect(report.cycles).toEqual([]);
+    expect(report.missingReferences).toEqual([]);
+    expect(GraphChecker.isValid(report)).toBe(true);
+  });
+  it('should report cycles with their full path', async () => {
+    withDependencies('@org/workspace-a', { '@org/app-a': 'workspace:*' });
+    const report = await new GraphChecker(project).check();
+    expect(report.cycles).toEqual([['@org/workspace-a', '@org/app-a', '@org/workspace-a']]);
+    expect(GraphChecker.isValid(report)).toBe(false);
+  });
+  it('should report workspace references that are not workspaces of the project', async () => {
+    withDependencies('@org/app-a', { '@org/removed': 'workspace:^1.0.0' });
+    const report = await new GraphChecker(project).check();
+    expect(report.missingReferences).toEqual([{ workspace: '@org/app-a', dependency: '@org/removed', version: 'workspace:^1.0.0' }]);
+    expect(GraphChecker.isValid(report)).toBe(false);
+  });
+  it('should report workspace dependencies that are never imported', async () => {
+    const root = project.getWorkspace('@org/app-b')!.root;
+    glob.withArgs(join(root, '**/*.{ts,tsx,mts,cts,js,jsx,mjs,cjs}')).returns([join(root, 'src/index.ts'), join(root, 'src/client.js')]);
+    readFile.withArgs(join(root, 'src/index.ts')).resolves(`import { a } from '@org/workspace-a';\nexport const b = a;`);
+    readFile.withArgs(join(root, 'src/client.js')).resolves(`const { client } = require("@org/api/lib/client");`);
+    const unused = await new GraphChecker(project).findUnusedDependencies(project.getWorkspace('@org/app-b')!);
+    expect(unused).toEqual([{ workspace: '@org/app-b', dependency: '@org/workspace-b' }]);
+  });
+});
@@ -66,6 +66,24 @@ describe('[class] Project', () => {
         expect((e as MilaError).code).toBe(MilaErrorCode.UNABLE_TO_LOAD_WORKSPACE);
       }
     });
+    it('should throw with the full cycle path if workspaces dependencies are circular', async () => {
+      loadPackage.withArgs(join(root, 'packages/workspace-a')).resolves({
+        ...mockedPackages.workspaces.workspaceA,
+        dependencies: { ...mockedPackages.workspaces.workspaceA.dependencies, '@org/app-a': 'workspace:*' },
+      });
+      await expect(Project.loadProject(root)).rejects.toMatchObject({
+        code: MilaErrorCode.CIRCULAR_DEPENDENCY,
+        message: 'Circular dependency found between workspaces: @org/workspace-a -> @org/app-a -> @org/workspace-a',
+      });
+    });
+    it('should not check cycles if told so', async () => {
+      loadPackage.withArgs(join(root, 'packages/workspace-a')).resolves({
+        ...mockedPackages.workspaces.workspaceA,
+        dependencies: { ...mockedPackages.workspaces.workspaceA.dependencies, '@org/app-a': 'workspace:*' },
+      });
+      const project = await Project.loadProject(root, undefined, false);
+      expect(project.findCycles()).toEqual([['@org/workspace-a', '@org/app-a', '@org/workspace-a']]);
+    });
   });
   describe('[method] getWorkspace', () => {
     it('should return a workspace by name if it exists', async () => {
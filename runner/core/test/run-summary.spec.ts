@@ -0,0 +1,78 @@
+import { getProject } from './mocks/utils';
+import { formatRunSummary, IProcessResult, IResolvedTarget, Project, RunCommandEventEnum, RunSummaryCollector, resolveRunSummaryFormat } from '../src';
+
+describe('[class] RunSummaryCollector', () => {
+  let project: Project;
+  let now: number;
+  const result = (fromCache: boolean, exitCode = 0): IProcessResult => ({
+    fromCache,
+    overall: 0,
+    commands: [{ daemon: false, took: 0, exitCode } as IProcessResult['commands'][number]],
+  });
+  beforeEach(async () => {
+    project = await getProject({});
+    now = 1000;
+  });
+  it('should summarize targets statuses, cache hit rate and critical path', () => {
+    const target = (name: string, hasCommand = true): IResolvedTarget => ({ workspace: project.getWorkspace(name)!, hasCommand });
+    const [a, b, c, api, appA] = ['@org/workspace-a', '@org/workspace-b', '@org/workspace-c', '@org/api', '@org/app-a'].map((name) => target(name));
+    const appB = target('@org/app-b', false);
+    const collector = new RunSummaryCollector('build', 'topological', () => now);
+    collector.targetsResolved([[a, c], [b], [api, appA], [appB]]);
+    const at = (time: number, event: Parameters<RunSummaryCollector['collect']>[0]): void => {
+      now = time;
+      collector.collect(event);
+    };
+    at(1000, { type: RunCommandEventEnum.NODE_STARTED, target: a });
+    at(1000, { type: RunCommandEventEnum.NODE_STARTED, target: c });
+    at(1200, { type: RunCommandEventEnum.NODE_PROCESSED, target: c, result: result(true) });
+    at(3000, { type: RunCommandEventEnum.NODE_PROCESSED, target: a, result: result(false) });
+    at(3000, { type: RunCommandEventEnum.NODE_STARTED, target: b });
+    at(3100, { type: RunCommandEventEnum.NODE_PROCESSED, target: b, result: { ...result(true), remoteCache: true } });
+    at(3100, { type: RunCommandEventEnum.NODE_STARTED, target: api });
+    at(3100, { type: RunCommandEventEnum.NODE_STARTED, target: appA });
+    at(4000, { type: RunCommandEventEnum.NODE_ERRORED, target: appA, error: { all: 'Type error', exitCode: 2 } });
+    at(5100, { type: RunCommandEventEnum.NODE_PROCESSED, target: api, result: result(false) });
+    now = 5200;
+    const summary = collector.summarize();
+    expect(summary.wallTime).toBe(4200);
+    expect(summary.exitCode).toBe(1);
+    expect([summary.ran, summary.cached, summary.failed, summary.skipped]).toEqual([2, 2, 1, 1]);
+    expect(summary.cacheHitRate).toBe(0.4);
+    expect(summary.criticalPath).toEqual({
+      targets: [
+        { target: '@org/workspace-a:build', duration: 2000 },
+        { target: '@org/workspace-b:build', duration: 100 },
+        { target: '@org/api:build', duration: 2000 },
+      ],
+      duration: 4100,
+    });
+    expect(summary.targets.find((t) => t.workspace === '@org/app-a')).toEqual({
+      workspace: '@org/app-a',
+      cmd: 'build',
+      status: 'failed',
+      step: 2,
+      duration: 900,
+      exitCode: 2,
+    });
+    expect(summary.targets.find((t) => t.workspace === '@org/workspace-b')?.remoteCache).toBe(true);
+    expect(summary.targets.find((t) => t.workspace === '@org/app-b')?.status).toBe('skipped');
+  });
+  it('should format summary as JUnit report', () => {
+    const collector = new RunSummaryCollector('test', 'parallel', () => now);
+    const a = { workspace: project.getWorkspace('@org/workspace-a')!, hasCommand: true };
+    collector.targetsResolved([[a]]);
+    collector.collect({ type: RunCommandEventEnum.NODE_STARTED, target: a });
+    now = 2500;
+    collector.collect({ type: RunCommandEventEnum.NODE_ERRORED, target: a, error: new Error('Boom') });
+    const junit = formatRunSummary(collector.summarize(), resolveRunSummaryFormat('reports/run.xml'));
+    expect(junit).toContain('<testsuites name="mila-runner" tests="1" failures="1" skipped="0" time="1.500">');
+    expect(junit).toContain('<testcase classname="@org/workspace-a" name="test" time="1.500">');
+    expect(junit).toContain('<failure message="Exited with status 1"/>');
+  });
+  it('should infer report format from file extension', () => {
+    expect(resolveRunSummaryFormat('report.md')).toBe('markdown');
+    expect(resolveRunSummaryFormat('report.xml')).toBe('junit');
+    expect(resolveRunSummaryFormat('report.json')).toBe('json');
+  });
+});
@@ -1,6 +1,10 @@
-import { Project, TargetsResolver } from '../src';
+import { ITargetsConfig } from '@microlambda/config';
+import { MilaErrorCode } from '@microlambda/errors';
+import { OrderedTargets, Project, TargetsResolver, targetKey } from '../src';
 import { getProject } from './mocks/utils';
 
+const keys = (targets: OrderedTargets): string[][] => targets.map((step) => step.map(targetKey).sort());
+
 describe('[class] TargetsResolver', () => {
   describe('[method] resolve', () => {
     let project: Project;
@@ -112,4 +116,66 @@ describe('[class] TargetsResolver', () => {
     });
     it.todo('should resolve all targets that have the command - topological / affected')
   });
+  describe('[method] resolve - dependsOn', () => {
+    let project: Project;
+    const withTargets = (name: string, targets: ITargetsConfig): void => {
+      const workspace = project.getWorkspace(name)!;
+      Object.defineProperty(workspace, 'config', { value: { ...workspace.config, ...targets } });
+    };
+    beforeEach(async() => {
+      project = await getProject({});
+    });
+    it('should run own and dependencies targets before - parallel', async () => {
+      const workspaceB = project.getWorkspace('@org/workspace-b')!;
+      withTargets('@org/workspace-b', { test: { ...workspaceB.config.test, dependsOn: ['build', '^build'] } });
+      const targets = await new TargetsResolver(project).resolve('test', {
+        cmd: 'test',
+        mode: 'parallel',
+        workspaces: [project.getWorkspace('@org/workspace-b')!],
+      });
+      expect(keys(targets)).toEqual([
+        ['@org/workspace-a:build', '@org/workspace-b:build'],
+        ['@org/workspace-b'],
+      ]);
+      expect(targets[0].every((t) => t.hasCommand && t.cmd === 'build')).toBe(true);
+    });
+    it('should combine dependsOn with workspaces dependencies - topological', async () => {
+      const appA = project.getWorkspace('@org/app-a')!;
+      withTargets('@org/app-a', { test: { ...appA.config.test, dependsOn: ['build'] } });
+      const targets = await new TargetsResolver(project).resolve('test', {
+        cmd: 'test',
+        mode: 'topological',
+      });
+      expect(keys(targets)).toEqual([
+        ['@org/api', '@org/workspace-c'],
+        ['@org/app-a:build', '@org/workspace-a'],
+        ['@org/app-a', '@org/workspace-b'],
+        ['@org/app-b'],
+      ]);
+      expect(targets[0].every((t) => !t.hasCommand)).toBe(true);
+    });
+    it('should throw if a target depends on an undefined target', async () => {
+      const workspaceC = project.getWorkspace('@org/workspace-c')!;
+      withTargets('@org/workspace-c', { build: { ...workspaceC.config.build, dependsOn: ['lint'] } });
+      await expect(new TargetsResolver(project).resolve('build', {
+        cmd: 'build',
+        mode: 'parallel',
+      })).rejects.toMatchObject({ code: MilaErrorCode.INVALID_TARGET_DEPENDENCY });
+    });
+    it('should throw if targets dependencies are circular', async () => {
+      const workspaceA = project.getWorkspace('@org/workspace-a')!;
+      withTargets('@org/workspace-a', {
+        test: { ...workspaceA.config.test, dependsOn: ['build'] },
+        build: { ...workspaceA.config.build, dependsOn: ['test'] },
+      });
+      await expect(new TargetsResolver(project).resolve('test', {
+        cmd: 'test',
+        mode: 'parallel',
+        workspaces: [workspaceA],
+      })).rejects.toMatchObject({
+        code: MilaErrorCode.CIRCULAR_DEPENDENCY,
+        message: 'Circular dependency found between targets: @org/workspace-a -> @org/workspace-a:build -> @org/workspace-a',
+      });
+    });
+  });
 });
@@ -1,8 +1,9 @@
 import { join, resolve } from "path";
 import { Workspace, Cache, ICommandResult, IDaemonCommandResult } from "../src";
-import { SinonStub, stub } from "sinon";
+import { SinonStub, spy, stub } from "sinon";
 import {Observable} from "rxjs";
-import {IProcessResult} from "../src";
+import {CommandAttemptNotification, IProcessResult} from "../src";
+import { MilaErrorCode } from '@microlambda/errors';
 
 const mockedProcesses = {
   succeed: resolve(join(__dirname, 'mocks', 'process', 'success-process.js')),
@@ -300,6 +301,85 @@ describe('[class] workspace', () => {
         }
       });
     });
+    it('should kill a command exceeding its timeout and emit error', (done) => {
+      const workspace = new Workspace({} as any, '', {
+        targets: {
+          foo: {
+            cmd: { run: `node ${mockedProcesses.succeed}`, timeout: 50 },
+          },
+        },
+      });
+      stubs.cacheRead.resolves(null);
+      stubs.cacheInvalidate.resolves();
+      const notifications: CommandAttemptNotification[] = [];
+      workspace.attempts$.subscribe((notification) => notifications.push(notification));
+      workspace.run({ cmd: 'foo', mode: 'topological' }).subscribe({
+        next: (result) => {
+          expect(result).toBeFalsy();
+        },
+        error: (e) => {
+          expect(e.code).toBe(MilaErrorCode.COMMAND_TIMED_OUT);
+          expect(notifications).toEqual([{ type: 'timed-out', cmd: 'foo', command: `node ${mockedProcesses.succeed}`, timeout: 50, attempt: 0 }]);
+          done();
+        },
+      });
+    });
+    it('should retry a failed command and emit error when all retries failed', (done) => {
+      const workspace = new Workspace({} as any, '', {
+        targets: {
+          foo: {
+            cmd: `node ${mockedProcesses.failed}`,
+            retries: 2,
+            retryDelay: 10,
+          },
+        },
+      });
+      stubs.cacheRead.resolves(null);
+      stubs.cacheInvalidate.resolves();
+      const notifications: CommandAttemptNotification[] = [];
+      workspace.attempts$.subscribe((notification) => notifications.push(notification));
+      workspace.run({ cmd: 'foo', mode: 'topological' }).subscribe({
+        next: (result) => {
+          expect(result).toBeFalsy();
+        },
+        error: (e) => {
+          expect(e.stderr).toBe('Boom');
+          expect(notifications.map((n) => [n.type, n.attempt])).toEqual([['retrying', 1], ['retrying', 2]]);
+          done();
+        },
+      });
+    });
+    it('should not retry a command killed while waiting for retry delay', (done) => {
+      const workspace = new Workspace({} as any, '', {
+        targets: {
+          foo: {
+            cmd: `node ${mockedProcesses.failed}`,
+            retries: 2,
+            retryDelay: 200,
+          },
+        },
+      });
+      stubs.cacheRead.resolves(null);
+      stubs.cacheInvalidate.resolves();
+      const launches = spy(workspace as unknown as { _runCommandOnce: () => Promise<unknown> }, '_runCommandOnce');
+      const notifications: CommandAttemptNotification[] = [];
+      workspace.attempts$.subscribe((notification) => {
+        notifications.push(notification);
+        workspace.kill({ cmd: 'foo' });
+      });
+      workspace.run({ cmd: 'foo', mode: 'topological' }).subscribe({
+        error: (e) => {
+          expect(e).toBeFalsy();
+        },
+        complete: () => {
+          setTimeout(() => {
+            expect(launches.callCount).toBe(1);
+            expect(notifications.map((n) => [n.type, n.attempt])).toEqual([['retrying', 1]]);
+            done();
+          }, 600);
+        },
+      });
+    });
     it('should return already running process if calling command and an execution is already running', (done) => {
       const workspace = new Workspace({} as any, '', {
         targets: {
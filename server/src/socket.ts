@@ -14,14 +14,18 @@ import {
 import {
   INodeInterruptedEvent,
   INodeInterruptingEvent,
+  INodeRetryingEvent,
+  INodeTimedOutEvent,
   IRunCommandErrorEvent,
   IRunCommandStartedEvent,
   IRunCommandSuccessEvent,
   isNodeErroredEvent,
   isNodeInterruptedEvent,
   isNodeInterruptingEvent,
+  isNodeRetryingEvent,
   isNodeStartedEvent,
   isNodeSucceededEvent,
+  isNodeTimedOutEvent,
   RunCommandEvent,
   RunCommandEventEnum,
 } from '@microlambda/runner-core';
@@ -31,7 +35,9 @@ type EligibleSchedulerEvents =
   | (IRunCommandSuccessEvent & { cmd: 'start' | 'transpile' | 'build' })
   | (IRunCommandErrorEvent & { cmd: 'start' | 'transpile' | 'build' })
   | (INodeInterruptedEvent & { cmd: 'start' | 'transpile' | 'build' })
-  | (INodeInterruptingEvent & { cmd: 'start' | 'transpile' | 'build' });
+  | (INodeInterruptingEvent & { cmd: 'start' | 'transpile' | 'build' })
+  | (INodeTimedOutEvent & { cmd: 'start' | 'transpile' | 'build' })
+  | (INodeRetryingEvent & { cmd: 'start' | 'transpile' | 'build' });
 
 export class IOSocketManager {
   private _io: WebSocketServer;
@@ -100,8 +106,10 @@ export class IOSocketManager {
   static getTranspileStatus(evt: EligibleSchedulerEvents): TranspilingStatus {
     switch (evt.type) {
       case RunCommandEventEnum.NODE_STARTED:
+      case RunCommandEventEnum.NODE_RETRYING:
         return TranspilingStatus.TRANSPILING;
       case RunCommandEventEnum.NODE_ERRORED:
+      case RunCommandEventEnum.NODE_TIMED_OUT:
         return TranspilingStatus.ERROR_TRANSPILING;
       case RunCommandEventEnum.NODE_PROCESSED:
         return TranspilingStatus.TRANSPILED;
@@ -114,8 +122,10 @@ export class IOSocketManager {
   static getTypeCheckStatus(evt: EligibleSchedulerEvents): TypeCheckStatus {
     switch (evt.type) {
       case RunCommandEventEnum.NODE_STARTED:
+      case RunCommandEventEnum.NODE_RETRYING:
         return TypeCheckStatus.CHECKING;
       case RunCommandEventEnum.NODE_ERRORED:
+      case RunCommandEventEnum.NODE_TIMED_OUT:
         return TypeCheckStatus.ERROR;
       case RunCommandEventEnum.NODE_PROCESSED:
         return TypeCheckStatus.SUCCESS;
@@ -128,8 +138,10 @@ export class IOSocketManager {
   static getServiceStatus(evt: EligibleSchedulerEvents): ServiceStatus {
     switch (evt.type) {
       case RunCommandEventEnum.NODE_STARTED:
+      case RunCommandEventEnum.NODE_RETRYING:
         return ServiceStatus.STARTING;
       case RunCommandEventEnum.NODE_ERRORED:
+      case RunCommandEventEnum.NODE_TIMED_OUT:
         return ServiceStatus.CRASHED;
       case RunCommandEventEnum.NODE_PROCESSED:
         return ServiceStatus.RUNNING;
@@ -158,7 +170,9 @@ export class IOSocketManager {
       isNodeSucceededEvent(evt) ||
       isNodeInterruptingEvent(evt) ||
       isNodeInterruptedEvent(evt) ||
-      isNodeStartedEvent(evt)
+      isNodeStartedEvent(evt) ||
+      isNodeTimedOutEvent(evt) ||
+      isNodeRetryingEvent(evt)
     ) {
       switch (evt.cmd) {
         case 'transpile':
@@ -0,0 +1,129 @@
+import Model, { beginsWith } from 'dynamodels';
+import { DynamoDBDocument, PutCommandInput } from '@aws-sdk/lib-dynamodb';
+import { DynamoDB } from '@aws-sdk/client-dynamodb';
+import { IStateBackend, IStateItem, StateIndex, stateIndexesKeys } from './state-backend';
+
+class StateTable extends Model<IStateItem> {
+  constructor(table: string, client: DynamoDBDocument) {
+    super();
+    this.tableName = table;
+    this.pk = 'k1';
+    this.sk = 'k2';
+    this.documentClient = client;
+  }
+}
+
+const isConditionalCheckFailed = (e: unknown): boolean => (e as Error).name === 'ConditionalCheckFailedException';
+
+/**
+ * Condition expression checking attributes values, maps are compared as a whole
+ */
+const toConditionExpression = (
+  condition: Record<string, unknown>,
+): Pick<PutCommandInput, 'ConditionExpression' | 'ExpressionAttributeNames' | 'ExpressionAttributeValues'> => {
+  const attributes = Object.entries(condition);
+  return {
+    ConditionExpression: attributes.map((_, idx) => `#c${idx} = :c${idx}`).join(' AND '),
+    ExpressionAttributeNames: Object.fromEntries(attributes.map(([name], idx) => [`#c${idx}`, name])),
+    ExpressionAttributeValues: Object.fromEntries(attributes.map(([, value], idx) => [`:c${idx}`, value])),
+  };
+};
+
+/**
+ * Stores the state in a DynamoDB table, created by "mila init" with three global secondary indexes.
+ */
+export class DynamoDBStateBackend implements IStateBackend {
+  readonly type = 'dynamodb';
+  private readonly _client: DynamoDBDocument;
+  private readonly _table: StateTable;
+
+  constructor(readonly table: string, readonly region: string) {
+    this._client = DynamoDBDocument.from(new DynamoDB({ region }));
+    this._table = new StateTable(table, this._client);
+  }
+
+  get location(): string {
+    return `dynamodb://${this.table}`;
+  }
+
+  async get<T = IStateItem>(k1: string, k2: string): Promise<T | undefined> {
+    const item = await this._table.get(k1, k2);
+    return item ? (item as T) : undefined;
+  }
+
+  async exists(k1: string, k2: string): Promise<boolean> {
+    return this._table.exists(k1, k2);
+  }
+
+  async put(item: IStateItem): Promise<void> {
+    await this._table.save(item);
+  }
+
+  async putIfAbsent(item: IStateItem, now = Date.now()): Promise<boolean> {
+    try {
+      await this._client.put({
+        TableName: this.table,
+        Item: item,
+        ConditionExpression: 'attribute_not_exists(k1) OR expires_at < :now',
+        ExpressionAttributeValues: { ':now': now },
+      });
+      return true;
+    } catch (e) {
+      if (isConditionalCheckFailed(e)) {
+        return false;
+      }
+      throw e;
+    }
+  }
+
+  async putIfMatch(item: IStateItem, condition: Record<string, unknown>): Promise<boolean> {
+    try {
+      await this._client.put({ TableName: this.table, Item: item, ...toConditionExpression(condition) });
+      return true;
+    } catch (e) {
+      if (isConditionalCheckFailed(e)) {
+        return false;
+      }
+      throw e;
+    }
+  }
+
+  async delete(k1: string, k2: string): Promise<void> {
+    try {
+      await this._table.delete(k1, k2);
+    } catch (e) {
+      if (!(e as Error).message?.includes('does not exists')) {
+        throw e;
+      }
+    }
+  }
+
+  async deleteIfMatch(k1: string, k2: string, condition: Record<string, unknown>): Promise<boolean> {
+    try {
+      await this._client.delete({ TableName: this.table, Key: { k1, k2 }, ...toConditionExpression(condition) });
+      return true;
+    } catch (e) {
+      if (isConditionalCheckFailed(e)) {
+        return false;
+      }
+      throw e;
+    }
+  }
+
+  async query<T = IStateItem>(k1: string, k2Prefix?: string): Promise<Array<T>> {
+    const items = await this._table
+      .query()
+      .keys(k2Prefix != null ? { k1, k2: beginsWith(k2Prefix) } : { k1 })
+      .execAll();
+    return items as Array<T>;
+  }
+
+  async queryIndex<T = IStateItem>(index: StateIndex, hash: string, rangePrefix?: string): Promise<Array<T>> {
+    const keys = stateIndexesKeys[index];
+    const items = await this._table
+      .query(index)
+      .keys(rangePrefix != null ? { [keys.hash]: hash, [keys.range]: beginsWith(rangePrefix) } : { [keys.hash]: hash })
+      .execAll();
+    return items as Array<T>;
+  }
+}
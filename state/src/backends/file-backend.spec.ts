@@ -0,0 +1,146 @@
+import { mkdtempSync, promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { FileStateBackend } from './file-backend';
+import { IStateItem } from './state-backend';
+
+describe('[class] FileStateBackend', () => {
+  let directory: string;
+  let backend: FileStateBackend;
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'mila-state-'));
+    backend = new FileStateBackend(join(directory, 'state'), 'mila-state');
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('should get items written', async () => {
+    expect(await backend.get('dev', 'env')).toBeUndefined();
+    expect(await backend.exists('dev', 'env')).toBe(false);
+    await backend.put({ k1: 'dev', k2: 'env', regions: ['eu-west-1'] });
+    await backend.put({ k1: 'dev', k2: 'env', regions: ['eu-west-1', 'us-east-1'] });
+    expect(await backend.get('dev', 'env')).toEqual({ k1: 'dev', k2: 'env', regions: ['eu-west-1', 'us-east-1'] });
+    expect(await backend.exists('dev', 'env')).toBe(true);
+    expect(await backend.get('prod', 'env')).toBeUndefined();
+  });
+
+  it('should replace state file atomically, with sorted items', async () => {
+    await backend.put({ k1: 'prod', k2: 'env' });
+    await backend.put({ k1: 'dev', k2: 'service|users|eu-west-1' });
+    await backend.put({ k1: 'dev', k2: 'env' });
+    const content = JSON.parse(await fs.readFile(backend.path, 'utf-8'));
+    expect(content).toEqual({
+      version: 1,
+      items: [
+        { k1: 'dev', k2: 'env' },
+        { k1: 'dev', k2: 'service|users|eu-west-1' },
+        { k1: 'prod', k2: 'env' },
+      ],
+    });
+    // Neither temporary file nor lock file is left
+    expect(await fs.readdir(join(directory, 'state'))).toEqual(['mila-state.json']);
+  });
+
+  it('should only put items if absent or expired', async () => {
+    const now = Date.now();
+    const lock = (owner: string, expiresAt: number): IStateItem => ({
+      k1: 'dev',
+      k2: 'lock|users',
+      owner,
+      expires_at: expiresAt,
+    });
+    expect(await backend.putIfAbsent(lock('a', now + 1000), now)).toBe(true);
+    expect(await backend.putIfAbsent(lock('b', now + 1000), now)).toBe(false);
+    expect(await backend.get('dev', 'lock|users')).toMatchObject({ owner: 'a' });
+    expect(await backend.putIfAbsent(lock('b', now + 3000), now + 2000)).toBe(true);
+    expect(await backend.get('dev', 'lock|users')).toMatchObject({ owner: 'b' });
+  });
+
+  it('should never take over items without expiry', async () => {
+    await backend.put({ k1: 'dev', k2: 'lock|users' });
+    expect(await backend.putIfAbsent({ k1: 'dev', k2: 'lock|users', owner: 'a' })).toBe(false);
+  });
+
+  it('should let a single concurrent writer put an absent item', async () => {
+    const results = await Promise.all(
+      ['a', 'b', 'c', 'd'].map((owner) => backend.putIfAbsent({ k1: 'dev', k2: 'lock|users', owner })),
+    );
+    expect(results.filter((isWritten) => isWritten)).toHaveLength(1);
+    const written = ['a', 'b', 'c', 'd'][results.indexOf(true)];
+    expect(await backend.get('dev', 'lock|users')).toMatchObject({ owner: written });
+  });
+
+  it('should delete items', async () => {
+    await backend.put({ k1: 'dev', k2: 'env' });
+    await backend.put({ k1: 'dev', k2: 'lock|users' });
+    await backend.delete('dev', 'lock|users');
+    await backend.delete('dev', 'lock|orders');
+    expect(await backend.query('dev')).toEqual([{ k1: 'dev', k2: 'env' }]);
+  });
+
+  it('should query items by hash key and range key prefix', async () => {
+    await backend.put({ k1: 'dev', k2: 'service|users|eu-west-1' });
+    await backend.put({ k1: 'dev', k2: 'env' });
+    await backend.put({ k1: 'dev', k2: 'service|orders|eu-west-1' });
+    await backend.put({ k1: 'prod', k2: 'service|users|eu-west-1' });
+    expect((await backend.query('dev')).map((i) => i.k2)).toEqual([
+      'env',
+      'service|orders|eu-west-1',
+      'service|users|eu-west-1',
+    ]);
+    expect((await backend.query('dev', 'service|')).map((i) => i.k2)).toEqual([
+      'service|orders|eu-west-1',
+      'service|users|eu-west-1',
+    ]);
+    expect(await backend.query('staging')).toEqual([]);
+  });
+
+  it('should query items by secondary index', async () => {
+    await backend.put({ k1: 'prod', k2: 'service|users|eu-west-1', k3: 'users' });
+    await backend.put({ k1: 'dev', k2: 'service|users|eu-west-1', k3: 'users' });
+    await backend.put({ k1: 'dev', k2: 'service|orders|eu-west-1', k3: 'orders' });
+    await backend.put({ k1: 'dev', k2: 'env' });
+    expect((await backend.queryIndex('GS1', 'service|users|eu-west-1')).map((i) => i.k1)).toEqual(['dev', 'prod']);
+    expect((await backend.queryIndex('GS1', 'service|users|eu-west-1', 'p')).map((i) => i.k1)).toEqual(['prod']);
+    expect((await backend.queryIndex('GS2', 'users')).map((i) => `${i.k1}/${i.k2}`)).toEqual([
+      'dev/service|users|eu-west-1',
+      'prod/service|users|eu-west-1',
+    ]);
+    expect(await backend.queryIndex('GS3', 'users')).toEqual([]);
+  });
+
+  describe('[method] lock', () => {
+    const lockPath = (): string => `${backend.path}.lock`;
+
+    it('should wait for lock file to be removed before writing', async () => {
+      await fs.mkdir(join(directory, 'state'), { recursive: true });
+      await fs.writeFile(lockPath(), '');
+      let isWritten = false;
+      const put = backend.put({ k1: 'dev', k2: 'env' }).then(() => (isWritten = true));
+      await new Promise((resolve) => setTimeout(resolve, 200));
+      expect(isWritten).toBe(false);
+      await fs.rm(lockPath());
+      await put;
+      expect(await backend.exists('dev', 'env')).toBe(true);
+    });
+
+    it('should take over lock files left by crashed processes', async () => {
+      await fs.mkdir(join(directory, 'state'), { recursive: true });
+      await fs.writeFile(lockPath(), '');
+      const oneMinuteAgo = new Date(Date.now() - 60 * 1000);
+      await fs.utimes(lockPath(), oneMinuteAgo, oneMinuteAgo);
+      await backend.put({ k1: 'dev', k2: 'env' });
+      expect(await backend.exists('dev', 'env')).toBe(true);
+      await expect(fs.stat(lockPath())).rejects.toMatchObject({ code: 'ENOENT' });
+    });
+  });
+
+  it('should throw if state file is corrupted', async () => {
+    await fs.mkdir(join(directory, 'state'), { recursive: true });
+    await fs.writeFile(backend.path, '{ not json');
+    await expect(backend.get('dev', 'env')).rejects.toThrow(/Cannot read state file/);
+  });
+});
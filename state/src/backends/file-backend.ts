@@ -0,0 +1,173 @@
+import { promises as fs } from 'fs';
+import { dirname, join } from 'path';
+import { isDeepStrictEqual } from 'util';
+import { MilaError, MilaErrorCode } from '@microlambda/errors';
+import { IStateBackend, IStateItem, StateIndex, stateIndexesKeys } from './state-backend';
+
+interface IStateFile {
+  version: 1;
+  items: Array<IStateItem>;
+}
+
+const LOCK_RETRY_INTERVAL = 50;
+const LOCK_TIMEOUT = 10 * 1000;
+const STALE_LOCK_AGE = 30 * 1000;
+
+const sleep = (ms: number): Promise<void> => new Promise((resolve) => setTimeout(resolve, ms));
+
+const matches = (item: IStateItem, condition: Record<string, unknown>): boolean =>
+  Object.entries(condition).every(([attribute, value]) => isDeepStrictEqual(item[attribute], value));
+
+const compare = (s1: string | undefined, s2: string | undefined): number => (s1 ?? '').localeCompare(s2 ?? '');
+
+/**
+ * Stores the state in a JSON file, either committed in the repository or written in a directory
+ * shared between CI runners. Writes are serialized using a lock file and the state file is replaced
+ * atomically, so concurrent readers never see a partially written state.
+ */
+export class FileStateBackend implements IStateBackend {
+  readonly type = 'file';
+
+  constructor(readonly directory: string, readonly table: string) {}
+
+  get location(): string {
+    return this.path;
+  }
+
+  get path(): string {
+    return join(this.directory, `${this.table}.json`);
+  }
+
+  async get<T = IStateItem>(k1: string, k2: string): Promise<T | undefined> {
+    const item = (await this._read()).find((i) => i.k1 === k1 && i.k2 === k2);
+    return item ? (item as T) : undefined;
+  }
+
+  async exists(k1: string, k2: string): Promise<boolean> {
+    return (await this.get(k1, k2)) != null;
+  }
+
+  async put(item: IStateItem): Promise<void> {
+    await this._update((items) => [...items.filter((i) => i.k1 !== item.k1 || i.k2 !== item.k2), item]);
+  }
+
+  async putIfAbsent(item: IStateItem, now = Date.now()): Promise<boolean> {
+    let isWritten = false;
+    await this._update((items) => {
+      const existing = items.find((i) => i.k1 === item.k1 && i.k2 === item.k2);
+      if (existing && !(typeof existing.expires_at === 'number' && existing.expires_at < now)) {
+        return undefined;
+      }
+      isWritten = true;
+      return [...items.filter((i) => i !== existing), item];
+    });
+    return isWritten;
+  }
+
+  async putIfMatch(item: IStateItem, condition: Record<string, unknown>): Promise<boolean> {
+    let isWritten = false;
+    await this._update((items) => {
+      const existing = items.find((i) => i.k1 === item.k1 && i.k2 === item.k2);
+      if (!existing || !matches(existing, condition)) {
+        return undefined;
+      }
+      isWritten = true;
+      return [...items.filter((i) => i !== existing), item];
+    });
+    return isWritten;
+  }
+
+  async delete(k1: string, k2: string): Promise<void> {
+    await this._update((items) => items.filter((i) => i.k1 !== k1 || i.k2 !== k2));
+  }
+
+  async deleteIfMatch(k1: string, k2: string, condition: Record<string, unknown>): Promise<boolean> {
+    let isDeleted = false;
+    await this._update((items) => {
+      const existing = items.find((i) => i.k1 === k1 && i.k2 === k2);
+      if (!existing || !matches(existing, condition)) {
+        return undefined;
+      }
+      isDeleted = true;
+      return items.filter((i) => i !== existing);
+    });
+    return isDeleted;
+  }
+
+  async query<T = IStateItem>(k1: string, k2Prefix?: string): Promise<Array<T>> {
+    const items = (await this._read())
+      .filter((item) => item.k1 === k1 && (k2Prefix == null || item.k2.startsWith(k2Prefix)))
+      .sort((i1, i2) => compare(i1.k2, i2.k2));
+    return items as Array<T>;
+  }
+
+  async queryIndex<T = IStateItem>(index: StateIndex, hash: string, rangePrefix?: string): Promise<Array<T>> {
+    const keys = stateIndexesKeys[index];
+    const items = (await this._read())
+      .filter((item) => item[keys.hash] === hash && (rangePrefix == null || item[keys.range].startsWith(rangePrefix)))
+      .sort((i1, i2) => compare(i1[keys.range], i2[keys.range]));
+    return items as Array<T>;
+  }
+
+  private async _read(): Promise<Array<IStateItem>> {
+    try {
+      const content: IStateFile = JSON.parse(await fs.readFile(this.path, 'utf-8'));
+      return content.items;
+    } catch (e) {
+      if ((e as { code: string }).code === 'ENOENT') {
+        return [];
+      }
+      throw new MilaError(MilaErrorCode.STATE_BACKEND_ERROR, `Cannot read state file ${this.path}`, e);
+    }
+  }
+
+  /**
+   * Read-modify-write the state file, nothing is written if the update function returns undefined.
+   */
+  private async _update(fn: (items: Array<IStateItem>) => Array<IStateItem> | undefined): Promise<void> {
+    await fs.mkdir(dirname(this.path), { recursive: true });
+    const release = await this._lock();
+    try {
+      const updated = fn(await this._read());
+      if (!updated) {
+        return;
+      }
+      const items = updated.sort((i1, i2) => compare(i1.k1, i2.k1) || compare(i1.k2, i2.k2));
+      const content: IStateFile = { version: 1, items };
+      const tmp = `${this.path}.${process.pid}-${Date.now()}.tmp`;
+      await fs.writeFile(tmp, JSON.stringify(content, null, 2));
+      await fs.rename(tmp, this.path);
+    } finally {
+      await release();
+    }
+  }
+
+  /**
+   * Lock files left by a crashed process are removed once they are older than 30 seconds,
+   * as a single write never takes that long.
+   */
+  private async _lock(): Promise<() => Promise<void>> {
+    const lockPath = `${this.path}.lock`;
+    const startedAt = Date.now();
+    for (;;) {
+      try {
+        const handle = await fs.open(lockPath, 'wx');
+        await handle.close();
+        return () => fs.rm(lockPath, { force: true });
+      } catch (e) {
+        if ((e as { code: string }).code !== 'EEXIST') {
+          throw new MilaError(MilaErrorCode.STATE_BACKEND_ERROR, `Cannot lock state file ${this.path}`, e);
+        }
+      }
+      const stats = await fs.stat(lockPath).catch(() => undefined);
+      if (stats && Date.now() - stats.mtimeMs > STALE_LOCK_AGE) {
+        await fs.rm(lockPath, { force: true });
+        continue;
+      }
+      if (Date.now() - startedAt > LOCK_TIMEOUT) {
+        throw new MilaError(MilaErrorCode.STATE_BACKEND_ERROR, `Timed out waiting for state file ${this.path} to be unlocked`);
+      }
+      await sleep(LOCK_RETRY_INTERVAL);
+    }
+  }
+}
@@ -0,0 +1,73 @@
+import { isAbsolute, join } from 'path';
+import { IFileStateBackendConfig, IRootConfig, IStateBackendConfig } from '@microlambda/config';
+import { MilaError, MilaErrorCode } from '@microlambda/errors';
+import { resolveProjectRoot } from '@microlambda/utils';
+import { IStateBackend } from './state-backend';
+import { DynamoDBStateBackend } from './dynamodb-backend';
+import { FileStateBackend } from './file-backend';
+
+export interface IStateBackendContext {
+  table: string;
+  defaultRegion: string;
+  /**
+   * Resolved lazily, as only backends writing in the project need it
+   */
+  projectRoot: () => string;
+}
+
+export type StateBackendFactory = (config: IStateBackendConfig, context: IStateBackendContext) => IStateBackend;
+
+/**
+ * Registry of the available remote state backends.
+ * Built-in backends are "dynamodb" (default) and "file". Custom backends can be registered programmatically
+ * and then selected in the "state.backend" section of the root mila.json.
+ */
+export class StateBackends {
+  private static readonly _factories = new Map<string, StateBackendFactory>();
+
+  static register(type: string, factory: StateBackendFactory): void {
+    StateBackends._factories.set(type, factory);
+  }
+
+  static isRegistered(type: string): boolean {
+    return StateBackends._factories.has(type);
+  }
+
+  static get types(): string[] {
+    return [...StateBackends._factories.keys()];
+  }
+
+  static create(config: IStateBackendConfig | undefined, context: IStateBackendContext): IStateBackend {
+    const resolved = config ?? { type: 'dynamodb' };
+    const factory = StateBackends._factories.get(resolved.type);
+    if (!factory) {
+      throw new MilaError(
+        MilaErrorCode.UNKNOWN_STATE_BACKEND,
+        `Unknown state backend "${resolved.type}". Available backends are: ${StateBackends.types.join(', ')}`,
+      );
+    }
+    return factory(resolved, context);
+  }
+
+  static fromRootConfig(config: IRootConfig, projectRoot?: string): IStateBackend {
+    return StateBackends.create(config.state.backend, {
+      table: config.state.table,
+      defaultRegion: config.defaultRegion,
+      projectRoot: () => projectRoot ?? resolveProjectRoot(),
+    });
+  }
+
+  /**
+   * Whether the state is stored in a DynamoDB table that must be created and verified in AWS account
+   */
+  static isDynamoDB(config: IRootConfig): boolean {
+    return (config.state.backend?.type ?? 'dynamodb') === 'dynamodb';
+  }
+}
+
+StateBackends.register('dynamodb', (_config, context) => new DynamoDBStateBackend(context.table, context.defaultRegion));
+
+StateBackends.register('file', (config, context) => {
+  const { path } = config as IFileStateBackendConfig;
+  return new FileStateBackend(isAbsolute(path) ? path : join(context.projectRoot(), path), context.table);
+});
@@ -0,0 +1,65 @@
+/**
+ * An item of the remote state. Items are identified by their k1 (hash) and k2 (range) keys,
+ * k3 and k4 are only used as secondary indexes keys.
+ */
+export interface IStateItem {
+  k1: string;
+  k2: string;
+  k3?: string;
+  k4?: string;
+  [attribute: string]: unknown;
+}
+
+/**
+ * Secondary indexes of the state and their keys:
+ * - GS1: k2 (hash), k1 (range)
+ * - GS2: k3 (hash), k2 (range)
+ * - GS3: k4 (hash), k2 (range)
+ */
+export type StateIndex = 'GS1' | 'GS2' | 'GS3';
+
+export const stateIndexesKeys: Record<StateIndex, { hash: 'k2' | 'k3' | 'k4'; range: 'k1' | 'k2' }> = {
+  GS1: { hash: 'k2', range: 'k1' },
+  GS2: { hash: 'k3', range: 'k2' },
+  GS3: { hash: 'k4', range: 'k2' },
+};
+
+/**
+ * A storage where the remote state (environments, services instances, locks...) is written.
+ */
+export interface IStateBackend {
+  readonly type: string;
+  /**
+   * Human-readable location of the state (e.g. dynamodb://my-table), used in logs
+   */
+  readonly location: string;
+  get<T = IStateItem>(k1: string, k2: string): Promise<T | undefined>;
+  exists(k1: string, k2: string): Promise<boolean>;
+  put(item: IStateItem): Promise<void>;
+  /**
+   * Conditional write: the item is only written if no item exists with the same keys, or if the existing
+   * one has expired, i.e. its "expires_at" attribute (epoch in milliseconds) is before the given date.
+   * @returns whether the item has been written
+   */
+  putIfAbsent(item: IStateItem, now?: number): Promise<boolean>;
+  /**
+   * Conditional write: the item is only written if an item exists with the same keys and the given attributes
+   * values (compared deeply, so objects can be given).
+   * @returns whether the item has been written
+   */
+  putIfMatch(item: IStateItem, condition: Record<string, unknown>): Promise<boolean>;
+  /**
+   * Delete an item, deleting an item that does not exist is a no-op.
+   */
+  delete(k1: string, k2: string): Promise<void>;
+  /**
+   * Conditional delete: the item is only deleted if it has the given attributes values (compared deeply).
+   * @returns whether the item has been deleted
+   */
+  deleteIfMatch(k1: string, k2: string, condition: Record<string, unknown>): Promise<boolean>;
+  /**
+   * Query items by hash key, optionally only those which range key starts with the given prefix.
+   */
+  query<T = IStateItem>(k1: string, k2Prefix?: string): Promise<Array<T>>;
+  queryIndex<T = IStateItem>(index: StateIndex, hash: string, rangePrefix?: string): Promise<Array<T>>;
+}
@@ -0,0 +1,94 @@
+import { MilaErrorCode } from '@microlambda/errors';
+import { checkEnvironmentProtection, isBranchAllowed, isBranchMatching } from './environment-protection';
+import { IEnvironment } from './models/state';
+
+const env = (attributes: Partial<IEnvironment> = {}): IEnvironment => ({
+  k1: 'prod',
+  k2: 'env',
+  name: 'prod',
+  regions: ['eu-west-1'],
+  ...attributes,
+});
+
+describe('[function] isBranchMatching', () => {
+  it('should match exact branch names', () => {
+    expect(isBranchMatching('main', 'main')).toBe(true);
+    expect(isBranchMatching('main', 'main-2')).toBe(false);
+    expect(isBranchMatching('main', 'feature/main')).toBe(false);
+  });
+
+  it('should match any sequence of characters with a wildcard', () => {
+    expect(isBranchMatching('release/*', 'release/1.2.0')).toBe(true);
+    expect(isBranchMatching('release/*', 'release/')).toBe(true);
+    expect(isBranchMatching('release/*', 'hotfix/1.2.0')).toBe(false);
+    expect(isBranchMatching('*/prod', 'team-a/prod')).toBe(true);
+    expect(isBranchMatching('*', 'anything/goes')).toBe(true);
+  });
+
+  it('should match other characters literally', () => {
+    expect(isBranchMatching('v1.x', 'v1.x')).toBe(true);
+    expect(isBranchMatching('v1.x', 'v12x')).toBe(false);
+    expect(isBranchMatching('fix+(1)', 'fix+(1)')).toBe(true);
+  });
+});
+
+describe('[function] isBranchAllowed', () => {
+  it('should allow any branch if no allow-list is set', () => {
+    expect(isBranchAllowed(env(), 'feature/foo')).toBe(true);
+    expect(isBranchAllowed(env({ allowed_branches: [] }), undefined)).toBe(true);
+  });
+
+  it('should only allow branches matching one of the patterns', () => {
+    const prod = env({ allowed_branches: ['main', 'release/*'] });
+    expect(isBranchAllowed(prod, 'main')).toBe(true);
+    expect(isBranchAllowed(prod, 'release/1.2.0')).toBe(true);
+    expect(isBranchAllowed(prod, 'feature/foo')).toBe(false);
+  });
+
+  it('should not allow an unknown branch if an allow-list is set', () => {
+    expect(isBranchAllowed(env({ allowed_branches: ['*'] }), undefined)).toBe(false);
+  });
+});
+
+describe('[function] checkEnvironmentProtection', () => {
+  it('should allow any action on an unprotected environment', () => {
+    expect(() => checkEnvironmentProtection(env(), 'deploy')).not.toThrow();
+    expect(() => checkEnvironmentProtection(env(), 'destroy')).not.toThrow();
+  });
+
+  it('should refuse branches that are not allowed', () => {
+    const prod = env({ allowed_branches: ['main'] });
+    expect(() => checkEnvironmentProtection(prod, 'deploy', { branch: 'feature/foo' })).toThrow(
+      expect.objectContaining({ code: MilaErrorCode.BRANCH_NOT_ALLOWED }),
+    );
+    expect(() => checkEnvironmentProtection(prod, 'deploy', { branch: 'main' })).not.toThrow();
+  });
+
+  it('should refuse an unknown branch if an allow-list is set', () => {
+    expect(() => checkEnvironmentProtection(env({ allowed_branches: ['main'] }), 'remove')).toThrow(
+      /Branch \(unknown\) is not allowed to remove environment prod/,
+    );
+  });
+
+  it('should refuse to destroy a protected environment, even if confirmed', () => {
+    expect(() => checkEnvironmentProtection(env({ protected: true }), 'destroy', { confirmEnv: 'prod' })).toThrow(
+      expect.objectContaining({ code: MilaErrorCode.ENVIRONMENT_PROTECTED }),
+    );
+  });
+
+  it('should require environment name to be confirmed for other actions on a protected environment', () => {
+    const prod = env({ protected: true });
+    expect(() => checkEnvironmentProtection(prod, 'deploy')).toThrow(/use --confirm-env prod to deploy it/);
+    expect(() => checkEnvironmentProtection(prod, 'update', { confirmEnv: 'staging' })).toThrow(
+      expect.objectContaining({ code: MilaErrorCode.ENVIRONMENT_PROTECTED }),
+    );
+    expect(() => checkEnvironmentProtection(prod, 'deploy', { confirmEnv: 'prod' })).not.toThrow();
+  });
+
+  it('should check allowed branches before confirmation', () => {
+    const prod = env({ protected: true, allowed_branches: ['main'] });
+    expect(() => checkEnvironmentProtection(prod, 'deploy', { branch: 'feature/foo', confirmEnv: 'prod' })).toThrow(
+      expect.objectContaining({ code: MilaErrorCode.BRANCH_NOT_ALLOWED }),
+    );
+  });
+});
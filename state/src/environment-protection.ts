@@ -0,0 +1,56 @@
+import { MilaError, MilaErrorCode } from '@microlambda/errors';
+import { IEnvironment } from './models/state';
+
+export type ProtectedAction = 'deploy' | 'remove' | 'destroy' | 'update';
+
+const escapeRegExp = (value: string): string => value.replace(/[.+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Match a branch name against a pattern where "*" matches any sequence of characters, e.g. release/*
+ */
+export const isBranchMatching = (pattern: string, branch: string): boolean =>
+  new RegExp(`^${pattern.split('*').map(escapeRegExp).join('.*')}$`).test(branch);
+
+export const isBranchAllowed = (env: IEnvironment, branch?: string): boolean => {
+  if (!env.allowed_branches?.length) {
+    return true;
+  }
+  return !!branch && env.allowed_branches.some((pattern) => isBranchMatching(pattern, branch));
+};
+
+/**
+ * Verify an action can be performed on the environment:
+ * - the current branch must be allowed to deploy to the environment, if an allow-list is set
+ * - protected environments cannot be destroyed
+ * - other actions on protected environments must be confirmed by giving the environment name
+ * @throws MilaError if the action is forbidden
+ */
+export const checkEnvironmentProtection = (
+  env: IEnvironment,
+  action: ProtectedAction,
+  options: { branch?: string; confirmEnv?: string } = {},
+): void => {
+  if (!isBranchAllowed(env, options.branch)) {
+    throw new MilaError(
+      MilaErrorCode.BRANCH_NOT_ALLOWED,
+      `Branch ${options.branch ?? '(unknown)'} is not allowed to ${action} environment ${
+        env.name
+      }. Allowed branches: ${env.allowed_branches?.join(', ')}`,
+    );
+  }
+  if (!env.protected) {
+    return;
+  }
+  if (action === 'destroy') {
+    throw new MilaError(
+      MilaErrorCode.ENVIRONMENT_PROTECTED,
+      `Environment ${env.name} is protected and cannot be destroyed. Remove protection first using mila envs update ${env.name} --unprotect --confirm-env ${env.name}`,
+    );
+  }
+  if (options.confirmEnv !== env.name) {
+    throw new MilaError(
+      MilaErrorCode.ENVIRONMENT_PROTECTED,
+      `Environment ${env.name} is protected, use --confirm-env ${env.name} to ${action} it`,
+    );
+  }
+};
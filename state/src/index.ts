@@ -1,4 +1,9 @@
 export * from './verify-state-keys-schema';
 export * from './create-state';
 export * from './lock-manager';
+export * from './environment-protection';
 export * from './models/state';
+export * from './backends/state-backend';
+export * from './backends/dynamodb-backend';
+export * from './backends/file-backend';
+export * from './backends/registry';
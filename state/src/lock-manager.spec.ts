@@ -0,0 +1,107 @@
+import { mkdtempSync, promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { IRootConfig } from '@microlambda/config';
+import { MilaErrorCode } from '@microlambda/errors';
+import { ILock, ILockOptions, ILockOwner, LockManager } from './lock-manager';
+
+const alice: ILockOwner = { user: 'alice', host: 'laptop', pid: 42 };
+const bob: ILockOwner = { user: 'bob', host: 'ci-runner', pid: 42, ciJobId: '1337' };
+
+const sleep = (ms: number): Promise<void> => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('[class] LockManager', () => {
+  let directory: string;
+  let config: IRootConfig;
+  const managers: Array<LockManager> = [];
+
+  const manager = (workspaces: Array<string> | undefined, options: ILockOptions): LockManager => {
+    // Heartbeats are triggered manually
+    const lockManager = new LockManager(config, 'dev', workspaces, { heartbeatInterval: 60 * 1000, ...options });
+    managers.push(lockManager);
+    return lockManager;
+  };
+
+  const getLock = async (service: string): Promise<ILock | undefined> =>
+    (await manager(undefined, {}).getLocks()).find((l) => l.service === service);
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'mila-lock-'));
+    config = {
+      defaultRegion: 'eu-west-1',
+      defaultRuntime: 'nodejs16.x',
+      state: { table: 'mila-state', checksums: 'mila-checksums', backend: { type: 'file', path: directory } },
+    };
+  });
+
+  afterEach(async () => {
+    // Stop heartbeats
+    await Promise.all(managers.splice(0).map((m) => m.releaseLock()));
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('should not acquire locks held by someone else', async () => {
+    await manager(['users'], { owner: alice }).lock();
+    const contender = manager(['users', 'orders'], { owner: bob });
+    await expect(contender.lock()).rejects.toMatchObject({ code: MilaErrorCode.ENVIRONMENT_LOCKED });
+    expect(await contender.isLocked()).toBe(true);
+    // Locks acquired before failing are released
+    expect(await getLock('orders')).toBeUndefined();
+    expect(await getLock('users')).toMatchObject({ owner: alice });
+  });
+
+  it('should let a single process acquire a lock', async () => {
+    const contenders = [alice, bob, { ...alice, pid: 43 }].map((owner) => manager(['users'], { owner }));
+    const results = await Promise.allSettled(contenders.map((c) => c.lock()));
+    expect(results.filter((r) => r.status === 'fulfilled')).toHaveLength(1);
+  });
+
+  it('should take over expired locks', async () => {
+    const holder = manager(['users'], { owner: alice, ttl: 50 });
+    await holder.lock();
+    await sleep(100);
+    await manager(['users'], { owner: bob }).lock();
+    expect(await getLock('users')).toMatchObject({ owner: bob });
+  });
+
+  it('should renew the locks it holds on heartbeat', async () => {
+    const holder = manager(['users'], { owner: alice, ttl: 50 });
+    await holder.lock();
+    const { expires_at } = (await getLock('users')) as ILock;
+    await sleep(100);
+    await holder.heartbeat();
+    expect((await getLock('users'))?.expires_at).toBeGreaterThan(expires_at as number);
+    await expect(manager(['users'], { owner: bob }).lock()).rejects.toMatchObject({
+      code: MilaErrorCode.ENVIRONMENT_LOCKED,
+    });
+  });
+
+  it('should not renew locks taken over on heartbeat', async () => {
+    const holder = manager(['users'], { owner: alice, ttl: 50 });
+    await holder.lock();
+    await sleep(100);
+    await manager(['users'], { owner: bob }).lock();
+    await holder.heartbeat();
+    expect(await getLock('users')).toMatchObject({ owner: bob });
+  });
+
+  it('should only release the locks it holds', async () => {
+    const holder = manager(['users'], { owner: alice, ttl: 50 });
+    await holder.lock();
+    await sleep(100);
+    await manager(['users', 'orders'], { owner: bob }).lock();
+    await holder.releaseLock();
+    await manager(['orders'], { owner: alice }).releaseLock();
+    expect(await getLock('users')).toMatchObject({ owner: bob });
+    expect(await getLock('orders')).toMatchObject({ owner: bob });
+  });
+
+  it('should release locks whoever holds them when forced', async () => {
+    await manager(['users'], { owner: alice }).lock();
+    await manager(['orders'], { owner: bob }).lock();
+    await manager(['users'], { owner: bob }).forceReleaseLock();
+    expect(await getLock('users')).toBeUndefined();
+    await manager(undefined, { owner: alice }).forceReleaseLock();
+    expect(await getLock('orders')).toBeUndefined();
+  });
+});
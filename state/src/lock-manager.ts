@@ -1,105 +1,263 @@
+import { hostname, userInfo } from 'os';
 import { State } from './models/state';
 import { IRootConfig } from '@microlambda/config';
 import { Workspace } from '@microlambda/runner-core';
-import { beginsWith } from 'dynamodels';
+import { MilaError, MilaErrorCode } from '@microlambda/errors';
 
 const TEN_MINUTES = 10 * 60 * 1000;
+const FIVE_MINUTES = 5 * 60 * 1000;
 const TWENTY_SECONDS = 20 * 1000;
 
-interface ILock {
+/**
+ * Environment variables holding the job identifier on common CI providers
+ */
+const CI_JOB_ID_VARIABLES = ['MILA_CI_JOB_ID', 'CI_JOB_ID', 'GITHUB_RUN_ID', 'CIRCLE_WORKFLOW_JOB_ID', 'BUILD_ID', 'BITBUCKET_BUILD_NUMBER'];
+
+export interface ILockOwner {
+  user: string;
+  host: string;
+  pid: number;
+  ciJobId?: string;
+}
+
+export interface ILock {
   k1: string; // $env
   k2: string; // lock|$service
   env: string;
   service: string;
+  /**
+   * Locks written by previous versions have no owner nor expiry and are never considered stale
+   */
+  owner?: ILockOwner;
+  acquired_at?: string;
+  heartbeat_at?: string;
+  /**
+   * Epoch in milliseconds after which the lock is considered abandoned if its heartbeat has not been renewed
+   */
+  expires_at?: number;
 }
 
+export interface ILockOptions {
+  /**
+   * Duration in milliseconds after which a lock whose heartbeat has not been renewed expires
+   */
+  ttl?: number;
+  /**
+   * Interval in milliseconds between two heartbeats, defaults to a third of the TTL
+   */
+  heartbeatInterval?: number;
+  owner?: ILockOwner;
+}
+
+export const resolveLockOwner = (env: NodeJS.ProcessEnv = process.env): ILockOwner => {
+  const ciJobId = CI_JOB_ID_VARIABLES.map((name) => env[name]).find((id) => !!id);
+  let user: string;
+  try {
+    user = userInfo().username;
+  } catch (e) {
+    user = env.USER ?? env.USERNAME ?? 'unknown';
+  }
+  return { user, host: hostname(), pid: process.pid, ...(ciJobId ? { ciJobId } : {}) };
+};
+
+export const formatLockOwner = (owner?: ILockOwner): string => {
+  if (!owner) {
+    return 'unknown';
+  }
+  return `${owner.user}@${owner.host}${owner.ciJobId ? ` (CI job ${owner.ciJobId})` : ` (pid ${owner.pid})`}`;
+};
+
+export const isLockExpired = (lock: ILock, now = Date.now()): boolean => lock.expires_at != null && lock.expires_at < now;
+
+const isSameOwner = (o1?: ILockOwner, o2?: ILockOwner): boolean =>
+  !!o1 && !!o2 && o1.user === o2.user && o1.host === o2.host && o1.pid === o2.pid && o1.ciJobId === o2.ciJobId;
+
 export class LockManager {
   state: State;
-  constructor(config: IRootConfig, readonly env: string, private readonly _workspaces?: string[] | Workspace[]) {
+  readonly owner: ILockOwner;
+  readonly ttl: number;
+  private readonly _heartbeatInterval: number;
+  private _heartbeat: NodeJS.Timeout | undefined;
+
+  constructor(
+    config: IRootConfig,
+    readonly env: string,
+    private readonly _workspaces?: string[] | Workspace[],
+    options: ILockOptions = {},
+  ) {
     this.state = new State(config);
+    this.owner = options.owner ?? resolveLockOwner();
+    this.ttl = options.ttl ?? FIVE_MINUTES;
+    this._heartbeatInterval = options.heartbeatInterval ?? Math.floor(this.ttl / 3);
   }
 
   get workspaces(): string[] | undefined {
     return this._workspaces?.map((w) => (typeof w === 'string' ? w : w.name));
   }
 
+  /**
+   * All locks of the environment, including expired ones
+   */
   async getLocks(): Promise<Array<ILock>> {
-    const locks = await this.state
-      .query()
-      .keys({
-        k1: this.env,
-        k2: beginsWith('lock|'),
-      })
-      .execAll();
-    return locks as ILock[];
+    return this.state.backend.query<ILock>(this.env, 'lock|');
   }
 
-  async isLocked(): Promise<boolean> {
+  /**
+   * Locks of the target workspaces that are still held by someone else
+   */
+  async getActiveLocks(now = Date.now()): Promise<Array<ILock>> {
     const locks = await this.getLocks();
     const workspaces = this.workspaces;
-    if (!workspaces) {
-      return locks.length > 0;
-    }
-    return locks.some((l) => workspaces.includes(l.service));
+    return locks.filter(
+      (l) =>
+        (!workspaces || workspaces.includes(l.service)) && !isLockExpired(l, now) && !isSameOwner(l.owner, this.owner),
+    );
+  }
+
+  async isLocked(): Promise<boolean> {
+    return (await this.getActiveLocks()).length > 0;
   }
 
-  async waitLockToBeReleased(timeout = TEN_MINUTES): Promise<void> {
+  async waitLockToBeReleased(timeout = TEN_MINUTES, interval = TWENTY_SECONDS): Promise<void> {
     return new Promise<void>((resolve, reject) => {
-      setTimeout(() => reject(new Error(`Lock was not release within ${timeout}ms`)), timeout);
-      setInterval(() => {
+      let isChecking = false;
+      const timers: { timeout?: NodeJS.Timeout; poll?: NodeJS.Timeout } = {};
+      const stop = (): void => {
+        clearTimeout(timers.timeout);
+        clearInterval(timers.poll);
+      };
+      timers.timeout = setTimeout(() => {
+        stop();
+        reject(new MilaError(MilaErrorCode.ENVIRONMENT_LOCKED, `Lock was not released within ${timeout}ms`));
+      }, timeout);
+      timers.poll = setInterval(() => {
+        if (isChecking) {
+          return;
+        }
+        isChecking = true;
         this.isLocked()
           .then((locked) => {
             if (!locked) {
+              stop();
               resolve();
             }
           })
           .catch(() => {
             // retry next time
+          })
+          .finally(() => {
+            isChecking = false;
           });
-      }, TWENTY_SECONDS);
+      }, interval);
     });
   }
 
+  /**
+   * Acquire the locks of every target workspace using conditional writes, so two processes cannot
+   * both acquire the same lock. Expired locks are taken over. If one of the locks cannot be acquired,
+   * the ones already acquired are released and an error is thrown.
+   * Once acquired, locks are kept alive by a heartbeat until they are released.
+   */
   async lock(): Promise<void> {
     const workspaces = this.workspaces;
     if (!workspaces) {
       throw Error('Cannot lock without target workspaces');
     }
+    const now = Date.now();
+    const acquired: Array<string> = [];
+    const failed: Array<string> = [];
+    await Promise.all(
+      workspaces.map(async (w) => {
+        const isAcquired = await this.state.backend.putIfAbsent({ ...this._lockItem(w, now) }, now);
+        (isAcquired ? acquired : failed).push(w);
+      }),
+    );
+    if (failed.length) {
+      await Promise.all(
+        acquired.map((w) => this.state.backend.deleteIfMatch(this.env, `lock|${w}`, { owner: this.owner })),
+      );
+      const holders = (await this.getActiveLocks()).map((l) => `${l.service} by ${formatLockOwner(l.owner)}`);
+      throw new MilaError(
+        MilaErrorCode.ENVIRONMENT_LOCKED,
+        `Cannot lock environment ${this.env}, locks are held on ${holders.length ? holders.join(', ') : failed.join(', ')}`,
+      );
+    }
+    this._startHeartbeat();
+  }
+
+  /**
+   * Renew heartbeat and expiry of the locks held by this process. Locks are only written if they are still held by
+   * this process, as an expired lock may have been taken over in the meantime.
+   */
+  async heartbeat(): Promise<void> {
+    const now = Date.now();
+    const workspaces = this.workspaces ?? [];
+    const owned = (await this.getLocks()).filter((l) => workspaces.includes(l.service) && isSameOwner(l.owner, this.owner));
     await Promise.all(
-      workspaces.map((w) =>
-        this.state.save({
-          k1: this.env,
-          k2: `lock|${w}`,
-          env: this.env,
-          service: w,
-        }),
+      owned.map((l) =>
+        this.state.backend.putIfMatch(
+          { ...l, heartbeat_at: new Date(now).toISOString(), expires_at: now + this.ttl },
+          { owner: this.owner },
+        ),
       ),
     );
   }
 
+  /**
+   * Release the locks of the target workspaces (or of every workspace if none) held by this process.
+   * Locks held by someone else, e.g. taken over after this process locks expired, are left untouched.
+   */
   async releaseLock(): Promise<void> {
+    this._stopHeartbeat();
+    const workspaces = this.workspaces ?? (await this.getLocks()).map((l) => l.service);
+    await Promise.all(
+      workspaces.map((w) => this.state.backend.deleteIfMatch(this.env, `lock|${w}`, { owner: this.owner })),
+    );
+  }
+
+  /**
+   * Release the locks of the target workspaces (or of every workspace if none) whoever holds them,
+   * e.g. locks left by a process that crashed
+   */
+  async forceReleaseLock(): Promise<void> {
+    this._stopHeartbeat();
     const workspaces = this.workspaces;
     if (!workspaces) {
       const allLocks = await this.getLocks();
-      await Promise.all(
-        allLocks.map((l) =>
-          this.state.delete(l.k1, l.k2).catch((e) => {
-            if (!e.message.includes('does not exists')) {
-              throw e;
-            }
-          }),
-        ),
-      );
+      await Promise.all(allLocks.map((l) => this.state.backend.delete(l.k1, l.k2)));
     } else {
-      await Promise.all(
-        workspaces.map((w) =>
-          this.state.delete(this.env, `lock|${w}`).catch((e) => {
-            if (!e.message.includes('does not exists')) {
-              throw e;
-            }
-          }),
-        ),
-      );
+      await Promise.all(workspaces.map((w) => this.state.backend.delete(this.env, `lock|${w}`)));
+    }
+  }
+
+  private _lockItem(service: string, now: number): ILock {
+    return {
+      k1: this.env,
+      k2: `lock|${service}`,
+      env: this.env,
+      service,
+      owner: this.owner,
+      acquired_at: new Date(now).toISOString(),
+      heartbeat_at: new Date(now).toISOString(),
+      expires_at: now + this.ttl,
+    };
+  }
+
+  private _startHeartbeat(): void {
+    this._stopHeartbeat();
+    this._heartbeat = setInterval(() => {
+      this.heartbeat().catch(() => {
+        // retry next time, lock expires if heartbeats keep failing
+      });
+    }, this._heartbeatInterval);
+    // Heartbeat must not prevent the process from exiting
+    this._heartbeat.unref();
+  }
+
+  private _stopHeartbeat(): void {
+    if (this._heartbeat) {
+      clearInterval(this._heartbeat);
+      this._heartbeat = undefined;
     }
   }
 }
@@ -1,9 +1,42 @@
-import Model, { beginsWith, eq } from 'dynamodels';
-import { DynamoDBDocument } from '@aws-sdk/lib-dynamodb';
-import { DynamoDB } from '@aws-sdk/client-dynamodb';
 import { IRootConfig } from '@microlambda/config';
+import { IStateBackend } from '../backends/state-backend';
+import { StateBackends } from '../backends/registry';
 
-export interface IEnvironment {
+export interface IPreviewMetadata {
+  branch: string;
+  owner: string;
+  created_at: string;
+  /**
+   * ISO date after which the preview is destroyed by garbage collection
+   */
+  expires_at: string;
+}
+
+export interface IEnvironmentMetadata {
+  description?: string;
+  owner?: string;
+  tags?: Record<string, string>;
+  /**
+   * IAM user who created the environment
+   */
+  created_by?: string;
+  created_at?: string;
+  /**
+   * Protected environments cannot be destroyed, and deploying or removing services requires an explicit confirmation
+   */
+  protected?: boolean;
+  /**
+   * Patterns of the branches allowed to deploy to the environment, "*" matching any sequence of characters.
+   * Any branch is allowed if not set
+   */
+  allowed_branches?: string[];
+  /**
+   * Set for ephemeral preview environments tied to a branch
+   */
+  preview?: IPreviewMetadata;
+}
+
+export interface IEnvironment extends IEnvironmentMetadata {
   k1: string; // $name
   k2: string; // 'env'
   name: string;
@@ -70,6 +103,58 @@ export interface IServiceInstance extends IServiceInstanceRequest {
    * service|$env
    */
   k3: string;
+  /**
+   * Set on each write, used to detect stacks updated outside mila. Missing on instances written by previous versions
+   */
+  deployed_at?: string;
+}
+
+export interface IDeploymentRequest {
+  service: string;
+  env: string;
+  region: string;
+  sha1: string;
+  checksums_buckets: string;
+  checksums_key: string;
+  /**
+   * Key of the manifest describing the deployment package stored in checksums bucket
+   */
+  package_key?: string;
+  /**
+   * ARN of the IAM user who performed the deployment
+   */
+  deployed_by: string;
+  /**
+   * Duration of the deploy command in milliseconds
+   */
+  duration: number;
+  /**
+   * sha1 of the revision the deployment rolled back from, if it is a rollback
+   */
+  rollback_from?: string;
+  /**
+   * Name of the environment the revision has been promoted from, if it is a promotion
+   */
+  promoted_from?: string;
+}
+
+export interface IDeployment extends IDeploymentRequest {
+  /**
+   * $service
+   */
+  k1: string;
+  /**
+   * deployment|$env|$region|$deployed_at
+   */
+  k2: string;
+  /**
+   * deployment|$env
+   */
+  k3: string;
+  /**
+   * ISO-8601 date of the deployment
+   */
+  deployed_at: string;
 }
 
 export interface ISharedInfraStateRequest {
@@ -84,91 +169,117 @@ export interface ISharedInfraStateRequest {
 export interface ISharedInfraState extends ISharedInfraStateRequest {
   k1: string; // $yml
   k2: string; // Shared-infra|$region
+  deployed_at?: string;
 }
 
-export class State extends Model<unknown> {
-  constructor(config: IRootConfig) {
-    super();
-    this.tableName = config.state.table;
-    this.pk = 'k1';
-    this.sk = 'k2';
-    this.documentClient = DynamoDBDocument.from(new DynamoDB({ region: config.defaultRegion }));
+/**
+ * @class State
+ * Remote state of the project, stored in the backend configured in "state.backend" of root mila.json.
+ */
+export class State {
+  readonly backend: IStateBackend;
+
+  constructor(config: IRootConfig, backend?: IStateBackend) {
+    this.backend = backend ?? StateBackends.fromRootConfig(config);
   }
 
   async environmentExists(name: string): Promise<boolean> {
-    return this.exists(name, 'env');
+    return this.backend.exists(name, 'env');
   }
 
   async findEnv(name: string): Promise<IEnvironment> {
-    const env = await this.get(name, 'env');
+    const env = await this.backend.get<IEnvironment>(name, 'env');
     return env as IEnvironment;
   }
 
   async removeEnv(name: string): Promise<void> {
-    await this.delete(name, 'env');
+    await this.backend.delete(name, 'env');
   }
 
-  async createEnvironment(name: string, regions: string[]): Promise<void> {
-    await this.save({
+  async createEnvironment(name: string, regions: string[], metadata: IEnvironmentMetadata = {}): Promise<void> {
+    await this.backend.put({
       k1: name,
       k2: 'env',
       name,
       regions,
+      created_at: new Date().toISOString(),
+      ...State._omitUndefined(metadata),
     });
   }
 
+  async updateEnvironment(env: IEnvironment): Promise<void> {
+    await this.backend.put({ ...State._omitUndefined(env) });
+  }
+
   async listEnvironments(): Promise<Array<IEnvironment>> {
-    const envs = await this.query('GS1').keys({ k2: 'env' }).execAll();
-    return envs as IEnvironment[];
+    return this.backend.queryIndex<IEnvironment>('GS1', 'env');
   }
 
   async listServices(env: string): Promise<Array<IServiceInstance>> {
-    const services = await this.query('GS2')
-      .keys({ k3: `service|${env}` })
-      .execAll();
-    return services as IServiceInstance[];
+    return this.backend.queryIndex<IServiceInstance>('GS2', `service|${env}`);
   }
 
   async createReplicate(env: string, region: string): Promise<IEnvironment> {
     const toUpdate = await this.findEnv(env);
     toUpdate.regions.push(region);
-    await this.save(toUpdate);
+    await this.backend.put({ ...toUpdate });
     return toUpdate;
   }
 
   async removeReplicate(env: string, region: string): Promise<IEnvironment> {
     const toUpdate = await this.findEnv(env);
     toUpdate.regions = toUpdate.regions.filter((r) => r !== region);
-    await this.save(toUpdate);
+    await this.backend.put({ ...toUpdate });
     return toUpdate;
   }
 
   async listServiceInstances(env: string, serviceName: string): Promise<Array<IServiceInstance>> {
-    const services = await this.query()
-      .keys({
-        k1: serviceName,
-        k2: beginsWith(`service|${env}`),
-      })
-      .execAll();
-    return services as IServiceInstance[];
+    return this.backend.query<IServiceInstance>(serviceName, `service|${env}`);
   }
 
   async createServiceInstance(req: IServiceInstanceRequest): Promise<void> {
-    await this.save({
+    await this.backend.put({
       k1: req.name,
       k2: `service|${req.env}|${req.region}`,
       k3: `service|${req.env}`,
       ...req,
+      deployed_at: new Date().toISOString(),
     });
   }
 
+  /**
+   * Deployments are never overwritten, each one is recorded as a new history entry.
+   */
+  async saveDeployment(req: IDeploymentRequest, deployedAt = new Date()): Promise<IDeployment> {
+    const deployment: IDeployment = {
+      k1: req.service,
+      k2: `deployment|${req.env}|${req.region}|${deployedAt.toISOString()}`,
+      k3: `deployment|${req.env}`,
+      deployed_at: deployedAt.toISOString(),
+      ...req,
+    };
+    await this.backend.put({ ...deployment });
+    return deployment;
+  }
+
+  /**
+   * List deployments history of a service in a given environment, most recent first.
+   */
+  async listDeployments(env: string, service: string, region?: string): Promise<Array<IDeployment>> {
+    const deployments = await this.backend.query<IDeployment>(
+      service,
+      region ? `deployment|${env}|${region}|` : `deployment|${env}|`,
+    );
+    return deployments.sort((d1, d2) => d2.deployed_at.localeCompare(d1.deployed_at));
+  }
+
   async getLastLayerChecksums(service: string, env: string): Promise<ILayerChecksums> {
-    const layer = await this.get(service, `layer|${env}`);
+    const layer = await this.backend.get<ILayerChecksums>(service, `layer|${env}`);
     return layer as ILayerChecksums;
   }
 
   async setLayerChecksums(req: ILayerChecksumsRequest): Promise<void> {
-    await this.save({
+    await this.backend.put({
       k1: req.service,
       k2: `layer|${req.env}`,
       ...req,
@@ -176,12 +287,12 @@ export class State extends Model<unknown> {
   }
 
   async getExecution(branch: string, command: string, service: string): Promise<ICmdExecution> {
-    const exec = await this.get(branch, `executions|${service}|${command}`);
+    const exec = await this.backend.get<ICmdExecution>(branch, `executions|${service}|${command}`);
     return exec as ICmdExecution;
   }
 
   async saveExecution(request: ICmdExecutionRequest): Promise<void> {
-    await this.save({
+    await this.backend.put({
       k1: request.branch,
       k2: `executions|${request.service}|${request.cmd}`,
       ...request,
@@ -189,28 +300,31 @@ export class State extends Model<unknown> {
   }
 
   async removeServiceInstances(options: { service: string; env: string; region: string }): Promise<void> {
-    await this.delete(options.service, `service|${options.env}|${options.region}`);
+    await this.backend.delete(options.service, `service|${options.env}|${options.region}`);
   }
 
   async getSharedInfrastructureState(yml: string, env?: string): Promise<Array<ISharedInfraState>> {
-    const currentState = (await this.query()
-      .keys({
-        k1: eq(yml),
-        k2: beginsWith('shared-infra|'),
-      })
-      .execAll()) as ISharedInfraState[];
+    const currentState = await this.backend.query<ISharedInfraState>(yml, 'shared-infra|');
     return currentState.filter((s) => !env || !s.env || s.env === env);
   }
 
   async setSharedInfrastructureState(request: ISharedInfraStateRequest): Promise<void> {
-    await this.save({
+    await this.backend.put({
       k1: request.name,
       k2: request.env ? `shared-infra|${request.env}|${request.region}` : `shared-infra|${request.region}`,
       ...request,
+      deployed_at: new Date().toISOString(),
     });
   }
 
   async deleteSharedInfrastructureState(name: string, region: string, env?: string): Promise<void> {
-    await this.delete(name, env ? `shared-infra|${env}|${region}` : `shared-infra|${region}`);
+    await this.backend.delete(name, env ? `shared-infra|${env}|${region}` : `shared-infra|${region}`);
+  }
+
+  /**
+   * Undefined attributes are rejected by DynamoDB document client
+   */
+  private static _omitUndefined<T extends object>(item: T): T {
+    return Object.fromEntries(Object.entries(item).filter(([, value]) => value !== undefined)) as T;
   }
 }